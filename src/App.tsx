@@ -8,7 +8,9 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Repositories from "./pages/Repositories";
 import RepositoryManager from "./pages/RepositoryManager";
+import RepositoryInsights from "./pages/RepositoryInsights";
 import PullRequests from "./pages/PullRequests";
+import PullRequestDetail from "./pages/PullRequestDetail";
 import Sync from "./pages/Sync";
 import GitHubPages from "./pages/GitHubPages";
 import NotFound from "./pages/NotFound";
@@ -27,7 +29,9 @@ const App = () => (
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/repositories" element={<Repositories />} />
           <Route path="/repository/:repoName" element={<RepositoryManager />} />
+          <Route path="/repository/:repoName/insights" element={<RepositoryInsights />} />
           <Route path="/pull-requests" element={<PullRequests />} />
+          <Route path="/pull-requests/:repoName/:number" element={<PullRequestDetail />} />
           <Route path="/sync" element={<Sync />} />
           <Route path="/deploy" element={<GitHubPages />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
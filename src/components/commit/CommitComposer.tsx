@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, ChevronRight, Plus, X } from "lucide-react";
+import { rememberCommitIdentity, type CommitDetails, type CommitIdentity } from "@/lib/commit-details";
+
+interface CommitComposerProps {
+  value: CommitDetails;
+  onChange: (details: CommitDetails) => void;
+  /** Shown in the empty message field; the operation's own message is used when left blank */
+  placeholder?: string;
+  disabled?: boolean;
+  /** Keeps element ids unique when several composers are mounted */
+  idPrefix?: string;
+}
+
+function IdentityFields({
+  identity,
+  onChange,
+  disabled,
+  idPrefix,
+}: {
+  identity: CommitIdentity;
+  onChange: (identity: CommitIdentity) => void;
+  disabled?: boolean;
+  idPrefix: string;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 flex-1">
+      <Input
+        id={`${idPrefix}-name`}
+        value={identity.name}
+        onChange={(e) => onChange({ ...identity, name: e.target.value })}
+        placeholder="Name"
+        aria-label="Name"
+        maxLength={100}
+        disabled={disabled}
+      />
+      <Input
+        id={`${idPrefix}-email`}
+        type="email"
+        value={identity.email}
+        onChange={(e) => onChange({ ...identity, email: e.target.value })}
+        placeholder="Email"
+        aria-label="Email"
+        maxLength={254}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+export function CommitComposer({ value, onChange, placeholder, disabled, idPrefix = "commit" }: CommitComposerProps) {
+  const hasIdentity = Boolean(
+    value.author.name || value.author.email || value.committer || value.coAuthors.length > 0
+  );
+  const [showIdentity, setShowIdentity] = useState(hasIdentity);
+
+  const update = (changes: Partial<CommitDetails>) => onChange({ ...value, ...changes });
+
+  // Identities are reused by the next commit, wherever it is made
+  const updateIdentity = (changes: Partial<CommitDetails>) => {
+    const next = { ...value, ...changes };
+    rememberCommitIdentity(next);
+    onChange(next);
+  };
+
+  const summary = [
+    value.author.name.trim() ? `as ${value.author.name.trim()}` : "as you",
+    value.coAuthors.length > 0 && `with ${value.coAuthors.length} co-author${value.coAuthors.length === 1 ? "" : "s"}`,
+  ].filter(Boolean).join(" ");
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-message`}>Commit message</Label>
+        <Input
+          id={`${idPrefix}-message`}
+          value={value.message}
+          onChange={(e) => update({ message: e.target.value })}
+          placeholder={placeholder}
+          maxLength={500}
+          disabled={disabled}
+        />
+      </div>
+      <Textarea
+        id={`${idPrefix}-description`}
+        value={value.description}
+        onChange={(e) => update({ description: e.target.value })}
+        placeholder="Extended description (optional)"
+        aria-label="Extended description"
+        rows={2}
+        disabled={disabled}
+        className="text-sm"
+      />
+
+      <Collapsible open={showIdentity} onOpenChange={setShowIdentity}>
+        <CollapsibleTrigger className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          {showIdentity ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Commit {summary}
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-3 pt-3">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-author-name`} className="text-xs text-muted-foreground">
+              Author (leave blank to use your GitHub account)
+            </Label>
+            <IdentityFields
+              identity={value.author}
+              onChange={(author) => updateIdentity({ author })}
+              disabled={disabled}
+              idPrefix={`${idPrefix}-author`}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-different-committer`}
+                checked={value.committer !== null}
+                onCheckedChange={(checked) =>
+                  updateIdentity({ committer: checked === true ? { name: "", email: "" } : null })
+                }
+                disabled={disabled}
+              />
+              <Label htmlFor={`${idPrefix}-different-committer`} className="font-normal text-sm cursor-pointer">
+                Different committer
+              </Label>
+            </div>
+            {value.committer && (
+              <IdentityFields
+                identity={value.committer}
+                onChange={(committer) => updateIdentity({ committer })}
+                disabled={disabled}
+                idPrefix={`${idPrefix}-committer`}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Co-authors</Label>
+            {value.coAuthors.map((coAuthor, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <IdentityFields
+                  identity={coAuthor}
+                  onChange={(identity) =>
+                    updateIdentity({ coAuthors: value.coAuthors.map((c, i) => (i === index ? identity : c)) })
+                  }
+                  disabled={disabled}
+                  idPrefix={`${idPrefix}-co-author-${index}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => updateIdentity({ coAuthors: value.coAuthors.filter((_, i) => i !== index) })}
+                  disabled={disabled}
+                  title="Remove co-author"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateIdentity({ coAuthors: [...value.coAuthors, { name: "", email: "" }] })}
+              disabled={disabled || value.coAuthors.length >= 20}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add co-author
+            </Button>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
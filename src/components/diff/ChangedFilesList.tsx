@@ -0,0 +1,86 @@
+import { useState, type ReactNode } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { PatchDiff, type DiffViewMode } from "@/components/diff/PatchDiff";
+import type { ChangedFile } from "@/lib/diff";
+
+interface ChangedFilesListProps {
+  files: ChangedFile[];
+  /** Extra content shown in a file's header, e.g. a comment count */
+  renderFileBadge?: (file: ChangedFile) => ReactNode;
+  /** Extra content shown under a file's diff, e.g. review comments */
+  renderFileFooter?: (file: ChangedFile) => ReactNode;
+}
+
+// Large diffs would render tens of thousands of rows at once
+const AUTO_EXPAND_LIMIT = 20;
+
+export function ChangedFilesList({ files, renderFileBadge, renderFileFooter }: ChangedFilesListProps) {
+  const [mode, setMode] = useState<DiffViewMode>("unified");
+  const [expanded, setExpanded] = useState<Set<string>>(
+    () => new Set(files.length <= AUTO_EXPAND_LIMIT ? files.map((f) => f.filename) : [])
+  );
+
+  const toggle = (filename: string, open: boolean) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (open) next.add(filename);
+      else next.delete(filename);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {files.length} file{files.length === 1 ? "" : "s"} changed
+        </p>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as DiffViewMode)}
+        >
+          <ToggleGroupItem value="unified">Unified</ToggleGroupItem>
+          <ToggleGroupItem value="split">Split</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {files.map((file) => {
+        const isOpen = expanded.has(file.filename);
+        return (
+          <Collapsible
+            key={file.filename}
+            open={isOpen}
+            onOpenChange={(open) => toggle(file.filename, open)}
+            className="border rounded-lg overflow-hidden"
+          >
+            <CollapsibleTrigger className="w-full flex items-center gap-2 px-3 py-2 bg-secondary/50 text-left">
+              {isOpen ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+              <span className="font-mono text-xs sm:text-sm truncate flex-1" title={file.filename}>
+                {file.previous_filename ? `${file.previous_filename} → ${file.filename}` : file.filename}
+              </span>
+              {renderFileBadge?.(file)}
+              <span className="text-xs text-green-600 shrink-0">+{file.additions}</span>
+              <span className="text-xs text-red-600 shrink-0">-{file.deletions}</span>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              {file.patch ? (
+                <PatchDiff patch={file.patch} mode={mode} />
+              ) : (
+                <p className="text-xs text-muted-foreground p-3">
+                  {file.status === "renamed" && file.changes === 0
+                    ? "File renamed without changes."
+                    : "Diff not available for this file (binary or too large)."}
+                </p>
+              )}
+              {renderFileFooter?.(file)}
+            </CollapsibleContent>
+          </Collapsible>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useMemo } from "react";
+import { parsePatch, toSplitRows, type DiffLine } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+export type DiffViewMode = "unified" | "split";
+
+interface PatchDiffProps {
+  patch: string;
+  mode: DiffViewMode;
+}
+
+const lineStyles: Record<DiffLine["type"], string> = {
+  hunk: "bg-primary/10 text-muted-foreground",
+  context: "",
+  add: "bg-green-500/15",
+  del: "bg-red-500/15",
+};
+
+const markers: Record<DiffLine["type"], string> = { hunk: "", context: " ", add: "+", del: "-" };
+
+function LineNumber({ value }: { value: number | null }) {
+  return (
+    <td className="w-12 px-2 text-right text-muted-foreground select-none align-top border-r border-border/50">
+      {value ?? ""}
+    </td>
+  );
+}
+
+function Code({ line }: { line: DiffLine | null }) {
+  return (
+    <td className={cn("px-2 whitespace-pre-wrap break-all align-top", line ? lineStyles[line.type] : "bg-muted/40")}>
+      {line && (
+        <>
+          <span className="select-none text-muted-foreground">{markers[line.type]}</span>
+          {line.content}
+        </>
+      )}
+    </td>
+  );
+}
+
+export function PatchDiff({ patch, mode }: PatchDiffProps) {
+  const lines = useMemo(() => parsePatch(patch), [patch]);
+  const splitRows = useMemo(() => (mode === "split" ? toSplitRows(lines) : []), [lines, mode]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full font-mono text-xs border-collapse">
+        <tbody>
+          {mode === "unified"
+            ? lines.map((line, index) =>
+                line.type === "hunk" ? (
+                  <tr key={index} className={lineStyles.hunk}>
+                    <td colSpan={3} className="px-2 py-1">{line.content}</td>
+                  </tr>
+                ) : (
+                  <tr key={index} className={lineStyles[line.type]}>
+                    <LineNumber value={line.oldNumber} />
+                    <LineNumber value={line.newNumber} />
+                    <Code line={line} />
+                  </tr>
+                )
+              )
+            : splitRows.map((row, index) =>
+                row.hunk !== undefined ? (
+                  <tr key={index} className={lineStyles.hunk}>
+                    <td colSpan={4} className="px-2 py-1">{row.hunk}</td>
+                  </tr>
+                ) : (
+                  <tr key={index}>
+                    <LineNumber value={row.left?.oldNumber ?? null} />
+                    <Code line={row.left} />
+                    <LineNumber value={row.right?.newNumber ?? null} />
+                    <Code line={row.right} />
+                  </tr>
+                )
+              )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { format } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+const activityConfig: ChartConfig = {
+  total: { label: "Commits", color: "hsl(263, 70%, 60%)" },
+};
+
+const frequencyConfig: ChartConfig = {
+  additions: { label: "Additions", color: "hsl(142, 71%, 45%)" },
+  deletions: { label: "Deletions", color: "hsl(0, 72%, 51%)" },
+};
+
+// GitHub reports weeks as Unix timestamps in seconds
+const formatWeek = (week: number) => format(new Date(week * 1000), "MMM d");
+
+const formatCount = (value: number) =>
+  value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+export function CommitActivityChart({ weeks }: { weeks: { week: number; total: number }[] }) {
+  return (
+    <ChartContainer config={activityConfig} className="aspect-auto h-56 w-full">
+      <BarChart data={weeks}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `Week of ${formatWeek(payload[0]?.payload.week)}`} />}
+        />
+        <Bar dataKey="total" fill="var(--color-total)" radius={[2, 2, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export function CodeFrequencyChart({ weeks }: { weeks: { week: number; additions: number; deletions: number }[] }) {
+  return (
+    <ChartContainer config={frequencyConfig} className="aspect-auto h-56 w-full">
+      <AreaChart data={weeks}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={(week) => format(new Date(week * 1000), "MMM yyyy")} tickLine={false} axisLine={false} minTickGap={32} />
+        <YAxis tickFormatter={formatCount} tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `Week of ${formatWeek(payload[0]?.payload.week)}`} />}
+        />
+        <Area dataKey="additions" type="monotone" stroke="var(--color-additions)" fill="var(--color-additions)" fillOpacity={0.3} />
+        <Area dataKey="deletions" type="monotone" stroke="var(--color-deletions)" fill="var(--color-deletions)" fillOpacity={0.3} />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,48 @@
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { ContributorStats } from "@/lib/insights";
+
+const MAX_CHARTED = 10;
+
+const config: ChartConfig = {
+  commits: { label: "Commits", color: "hsl(263, 70%, 60%)" },
+};
+
+export function ContributorChart({ contributors }: { contributors: ContributorStats[] }) {
+  const charted = contributors.slice(0, MAX_CHARTED);
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={config} className="aspect-auto w-full" style={{ height: charted.length * 32 + 16 }}>
+        <BarChart data={charted} layout="vertical" margin={{ left: 8 }}>
+          <XAxis type="number" hide />
+          <YAxis type="category" dataKey="login" tickLine={false} axisLine={false} width={110} />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          <Bar dataKey="commits" fill="var(--color-commits)" radius={[0, 2, 2, 0]} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="divide-y rounded-md border text-sm">
+        {contributors.map((contributor) => (
+          <div key={contributor.login} className="flex items-center gap-3 px-3 py-2">
+            <Avatar className="h-6 w-6">
+              {contributor.avatar_url && <AvatarImage src={contributor.avatar_url} alt={contributor.login} />}
+              <AvatarFallback>{contributor.login.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            {contributor.html_url ? (
+              <a href={contributor.html_url} target="_blank" rel="noopener noreferrer" className="flex-1 truncate hover:underline">
+                {contributor.login}
+              </a>
+            ) : (
+              <span className="flex-1 truncate">{contributor.login}</span>
+            )}
+            <span className="tabular-nums">{contributor.commits} commit{contributor.commits === 1 ? "" : "s"}</span>
+            <span className="hidden sm:inline text-green-600 tabular-nums">+{contributor.additions.toLocaleString()}</span>
+            <span className="hidden sm:inline text-red-600 tabular-nums">-{contributor.deletions.toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
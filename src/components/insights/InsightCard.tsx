@@ -0,0 +1,37 @@
+import type { ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+interface InsightCardProps {
+  title: string;
+  description?: string;
+  /** GitHub is still computing this statistic */
+  computing?: boolean;
+  /** Shown instead of the children when there is nothing to chart */
+  emptyMessage?: string | null;
+  children: ReactNode;
+  className?: string;
+}
+
+export function InsightCard({ title, description, computing, emptyMessage, children, className }: InsightCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        {computing ? (
+          <div className="flex flex-col items-center justify-center gap-2 py-12 text-sm text-muted-foreground text-center">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            GitHub is computing these statistics. They will appear shortly.
+          </div>
+        ) : emptyMessage ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">{emptyMessage}</p>
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
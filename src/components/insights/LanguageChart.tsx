@@ -0,0 +1,53 @@
+import { Cell, Pie, PieChart } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+// Languages beyond the palette are grouped under "Other"
+const PALETTE = [
+  "hsl(263, 70%, 60%)",
+  "hsl(199, 89%, 48%)",
+  "hsl(142, 71%, 45%)",
+  "hsl(38, 92%, 50%)",
+  "hsl(340, 82%, 52%)",
+  "hsl(173, 58%, 39%)",
+];
+const OTHER_COLOR = "hsl(215, 15%, 55%)";
+
+interface LanguageChartProps {
+  /** Bytes of code per language, as GitHub reports them */
+  languages: Record<string, number>;
+}
+
+export function LanguageChart({ languages }: LanguageChartProps) {
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  const sorted = Object.entries(languages).sort(([, a], [, b]) => b - a);
+  const top = sorted.slice(0, PALETTE.length).map(([name, bytes], index) => ({ name, bytes, fill: PALETTE[index] }));
+  const otherBytes = sorted.slice(PALETTE.length).reduce((sum, [, bytes]) => sum + bytes, 0);
+  const data = otherBytes > 0 ? [...top, { name: "Other", bytes: otherBytes, fill: OTHER_COLOR }] : top;
+
+  // Language names are not valid CSS identifiers, so colors come from each slice's fill instead
+  const config: ChartConfig = { bytes: { label: "Bytes" } };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <ChartContainer config={config} className="aspect-square h-48 w-48 shrink-0">
+        <PieChart>
+          <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+          <Pie data={data} dataKey="bytes" nameKey="name" innerRadius={50} strokeWidth={2}>
+            {data.map((entry) => (
+              <Cell key={entry.name} fill={entry.fill} />
+            ))}
+          </Pie>
+        </PieChart>
+      </ChartContainer>
+      <ul className="w-full space-y-1.5 text-sm">
+        {data.map((entry) => (
+          <li key={entry.name} className="flex items-center gap-2">
+            <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: entry.fill }} />
+            <span className="flex-1 truncate">{entry.name}</span>
+            <span className="text-muted-foreground tabular-nums">{((entry.bytes / total) * 100).toFixed(1)}%</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
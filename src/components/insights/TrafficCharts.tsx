@@ -0,0 +1,67 @@
+import { format, parseISO } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { RepositoryTraffic, TrafficPoint } from "@/lib/insights";
+
+const config: ChartConfig = {
+  count: { label: "Total", color: "hsl(263, 70%, 60%)" },
+  uniques: { label: "Unique", color: "hsl(199, 89%, 48%)" },
+};
+
+function TrafficChart({ title, total, uniques, points }: { title: string; total: number; uniques: number; points: TrafficPoint[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline gap-3">
+        <h4 className="font-medium text-sm">{title}</h4>
+        <span className="text-sm text-muted-foreground">
+          {total.toLocaleString()} total, {uniques.toLocaleString()} unique
+        </span>
+      </div>
+      <ChartContainer config={config} className="aspect-auto h-48 w-full">
+        <LineChart data={points}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="timestamp"
+            tickFormatter={(timestamp) => format(parseISO(timestamp), "MMM d")}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => format(parseISO(payload[0]?.payload.timestamp), "MMM d, yyyy")} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="count" type="monotone" stroke="var(--color-count)" strokeWidth={2} dot={false} />
+          <Line dataKey="uniques" type="monotone" stroke="var(--color-uniques)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+export function TrafficCharts({ traffic }: { traffic: RepositoryTraffic }) {
+  return (
+    <div className="space-y-6">
+      <TrafficChart title="Views" total={traffic.views.count} uniques={traffic.views.uniques} points={traffic.views.views} />
+      <TrafficChart title="Clones" total={traffic.clones.count} uniques={traffic.clones.uniques} points={traffic.clones.clones} />
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-sm">Referring sites</h4>
+        {traffic.referrers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No referrers in the last 14 days</p>
+        ) : (
+          <div className="divide-y rounded-md border text-sm">
+            {traffic.referrers.map((referrer) => (
+              <div key={referrer.referrer} className="flex items-center gap-3 px-3 py-2">
+                <span className="flex-1 truncate">{referrer.referrer}</span>
+                <span className="tabular-nums">{referrer.count.toLocaleString()} views</span>
+                <span className="text-muted-foreground tabular-nums">{referrer.uniques.toLocaleString()} unique</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { CheckCircle2, Circle, ExternalLink, Loader2, XCircle } from "lucide-react";
+import {
+  getCheckRunOutcome,
+  getStatusOutcome,
+  type CheckOutcome,
+  type PullRequestChecks as Checks,
+} from "@/lib/pull-requests";
+
+interface PullRequestChecksProps {
+  checks: Checks;
+}
+
+export function CheckOutcomeIcon({ outcome, className = "h-4 w-4" }: { outcome: CheckOutcome; className?: string }) {
+  if (outcome === "success") return <CheckCircle2 className={`${className} text-green-500 shrink-0`} />;
+  if (outcome === "failure") return <XCircle className={`${className} text-red-500 shrink-0`} />;
+  if (outcome === "pending") return <Loader2 className={`${className} text-amber-500 animate-spin shrink-0`} />;
+  return <Circle className={`${className} text-muted-foreground shrink-0`} />;
+}
+
+export function PullRequestChecks({ checks }: PullRequestChecksProps) {
+  const rows = [
+    ...checks.check_runs.map((run) => ({
+      key: `run-${run.id}`,
+      name: run.name,
+      detail: run.status === "completed" ? run.conclusion ?? "completed" : run.status.replace("_", " "),
+      url: run.html_url,
+      outcome: getCheckRunOutcome(run),
+    })),
+    ...checks.statuses.map((status) => ({
+      key: `status-${status.id}`,
+      name: status.context,
+      detail: status.description ?? status.state,
+      url: status.target_url,
+      outcome: getStatusOutcome(status),
+    })),
+  ];
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No checks reported for the latest commit</p>;
+  }
+
+  return (
+    <ul className="divide-y border rounded-lg">
+      {rows.map((row) => (
+        <li key={row.key} className="flex items-center gap-3 px-3 py-2">
+          <CheckOutcomeIcon outcome={row.outcome} />
+          <span className="text-sm font-medium truncate">{row.name}</span>
+          <span className="text-xs text-muted-foreground truncate flex-1">{row.detail}</span>
+          {row.url && (
+            <a href={row.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
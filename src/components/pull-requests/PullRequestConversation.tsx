@@ -0,0 +1,156 @@
+import { useState, type ReactNode } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, MessageSquare } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  managePullRequest,
+  type PullRequestAuthor,
+  type PullRequestComment,
+  type PullRequestInfo,
+  type PullRequestReview,
+} from "@/lib/pull-requests";
+
+interface PullRequestConversationProps {
+  owner: string;
+  repositoryName: string;
+  pullRequest: PullRequestInfo;
+  reviews: PullRequestReview[];
+  comments: PullRequestComment[];
+  onCommented: () => void;
+}
+
+type TimelineItem =
+  | { kind: "comment"; id: string; date: string; author: PullRequestAuthor | null; body: string }
+  | { kind: "review"; id: string; date: string; author: PullRequestAuthor | null; body: string; state: string };
+
+const reviewStates: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  APPROVED: { label: "Approved", variant: "default" },
+  CHANGES_REQUESTED: { label: "Changes requested", variant: "destructive" },
+  COMMENTED: { label: "Reviewed", variant: "secondary" },
+  DISMISSED: { label: "Dismissed", variant: "outline" },
+};
+
+function Markdown({ children }: { children: string }) {
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]}>{children}</ReactMarkdown>
+    </div>
+  );
+}
+
+function AuthorLine({ author, date, children }: { author: PullRequestAuthor | null; date: string; children?: ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Avatar className="h-6 w-6">
+        <AvatarImage src={author?.avatar_url} alt={author?.login} />
+        <AvatarFallback>{author?.login.slice(0, 2).toUpperCase() ?? "?"}</AvatarFallback>
+      </Avatar>
+      <span className="font-medium">{author?.login ?? "unknown"}</span>
+      {children}
+      <span className="text-muted-foreground text-xs">
+        {formatDistanceToNow(new Date(date), { addSuffix: true })}
+      </span>
+    </div>
+  );
+}
+
+export function PullRequestConversation({
+  owner,
+  repositoryName,
+  pullRequest,
+  reviews,
+  comments,
+  onCommented,
+}: PullRequestConversationProps) {
+  const [comment, setComment] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const timeline: TimelineItem[] = [
+    ...comments.map((c): TimelineItem => ({
+      kind: "comment",
+      id: `comment-${c.id}`,
+      date: c.created_at,
+      author: c.author,
+      body: c.body,
+    })),
+    ...reviews
+      .filter((r) => r.submitted_at)
+      .map((r): TimelineItem => ({
+        kind: "review",
+        id: `review-${r.id}`,
+        date: r.submitted_at!,
+        author: r.author,
+        body: r.body,
+        state: r.state,
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+    setIsPosting(true);
+    try {
+      await managePullRequest(owner, repositoryName, pullRequest.number, { action: "comment", body: comment });
+      setComment("");
+      onCommented();
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to post comment",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg p-4 space-y-3">
+        <AuthorLine author={pullRequest.author} date={pullRequest.created_at}>
+          <span className="text-muted-foreground">opened this pull request</span>
+        </AuthorLine>
+        {pullRequest.body ? (
+          <Markdown>{pullRequest.body}</Markdown>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No description provided.</p>
+        )}
+      </div>
+
+      {timeline.map((item) => (
+        <div key={item.id} className="border rounded-lg p-4 space-y-3">
+          <AuthorLine author={item.author} date={item.date}>
+            {item.kind === "review" && (
+              <Badge variant={reviewStates[item.state]?.variant ?? "secondary"}>
+                {reviewStates[item.state]?.label ?? item.state.toLowerCase()}
+              </Badge>
+            )}
+          </AuthorLine>
+          {item.body && <Markdown>{item.body}</Markdown>}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Leave a comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          className="bg-secondary min-h-[100px]"
+          disabled={isPosting}
+        />
+        <div className="flex justify-end">
+          <Button onClick={handleComment} disabled={isPosting || !comment.trim()}>
+            {isPosting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MessageSquare className="h-4 w-4 mr-2" />}
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
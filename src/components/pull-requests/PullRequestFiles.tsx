@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare } from "lucide-react";
+import { ChangedFilesList } from "@/components/diff/ChangedFilesList";
+import type { PullRequestFile, PullRequestReviewComment } from "@/lib/pull-requests";
+
+interface PullRequestFilesProps {
+  files: PullRequestFile[];
+  reviewComments: PullRequestReviewComment[];
+}
+
+export function PullRequestFiles({ files, reviewComments }: PullRequestFilesProps) {
+  const commentsByPath = reviewComments.reduce<Record<string, PullRequestReviewComment[]>>((acc, comment) => {
+    if (comment.path) (acc[comment.path] ??= []).push(comment);
+    return acc;
+  }, {});
+
+  return (
+    <ChangedFilesList
+      files={files}
+      renderFileBadge={(file) =>
+        commentsByPath[file.filename] && (
+          <Badge variant="secondary" className="shrink-0">
+            <MessageSquare className="h-3 w-3 mr-1" />
+            {commentsByPath[file.filename].length}
+          </Badge>
+        )
+      }
+      renderFileFooter={(file) =>
+        commentsByPath[file.filename] && (
+          <ul className="border-t divide-y bg-muted/30">
+            {commentsByPath[file.filename].map((comment) => (
+              <li key={comment.id} className="p-3 space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{comment.author?.login ?? "unknown"}</span>
+                  {comment.line !== null && ` on line ${comment.line}`}
+                  {comment.in_reply_to_id !== null && " (reply)"}
+                </p>
+                <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )
+      }
+    />
+  );
+}
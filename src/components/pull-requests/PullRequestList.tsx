@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GitMerge, GitPullRequest, GitPullRequestClosed, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  listPullRequests,
+  pullRequestPath,
+  type PullRequestState,
+  type PullRequestStateFilter,
+  type PullRequestSummary,
+} from "@/lib/pull-requests";
+
+interface PullRequestListProps {
+  owner: string;
+  repositoryName: string;
+}
+
+export function PullRequestStateIcon({ state, className }: { state: PullRequestState; className?: string }) {
+  if (state === "merged") return <GitMerge className={`text-purple-500 ${className ?? ""}`} />;
+  if (state === "closed") return <GitPullRequestClosed className={`text-red-500 ${className ?? ""}`} />;
+  return <GitPullRequest className={`text-green-500 ${className ?? ""}`} />;
+}
+
+export function PullRequestList({ owner, repositoryName }: PullRequestListProps) {
+  const navigate = useNavigate();
+  const [state, setState] = useState<PullRequestStateFilter>("open");
+  const [pullRequests, setPullRequests] = useState<PullRequestSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async (nextPage: number) => {
+    setIsLoading(true);
+    try {
+      const result = await listPullRequests(owner, repositoryName, state, nextPage);
+      setPullRequests((prev) => (nextPage === 1 ? result.pull_requests : [...prev, ...result.pull_requests]));
+      setPage(nextPage);
+      setHasMore(result.has_more);
+    } catch (error) {
+      console.error("Error listing pull requests:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to load pull requests",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repositoryName, state]);
+
+  useEffect(() => {
+    setPullRequests([]);
+    load(1);
+  }, [load]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={state} onValueChange={(value) => setState(value as PullRequestStateFilter)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="merged">Merged</TabsTrigger>
+            <TabsTrigger value="closed">Closed</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button variant="ghost" size="icon" onClick={() => load(1)} disabled={isLoading} aria-label="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {pullRequests.length === 0 && !isLoading ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No {state === "all" ? "" : `${state} `}pull requests in {repositoryName}
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {pullRequests.map((pr) => (
+            <li key={pr.number}>
+              <button
+                type="button"
+                onClick={() => navigate(pullRequestPath(owner, repositoryName, pr.number))}
+                className="w-full flex items-start gap-3 p-3 text-left hover:bg-secondary/50 transition-smooth touch-manipulation"
+              >
+                <PullRequestStateIcon state={pr.state} className="h-5 w-5 mt-0.5 shrink-0" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium break-words">{pr.title}</span>
+                    {pr.draft && <Badge variant="secondary">Draft</Badge>}
+                    {pr.labels.map((label) => (
+                      <Badge
+                        key={label.name}
+                        variant="outline"
+                        style={{ borderColor: `#${label.color}`, color: `#${label.color}` }}
+                      >
+                        {label.name}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    #{pr.number} · {pr.author?.login ?? "unknown"} · {pr.head} → {pr.base} · updated{" "}
+                    {formatDistanceToNow(new Date(pr.updated_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => load(page + 1)}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
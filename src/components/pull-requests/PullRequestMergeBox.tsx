@@ -0,0 +1,216 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, GitMerge, GitPullRequestClosed, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { CheckOutcomeIcon } from "@/components/pull-requests/PullRequestChecks";
+import {
+  managePullRequest,
+  summarizeChecks,
+  type MergeMethod,
+  type PullRequestChecks,
+  type PullRequestInfo,
+} from "@/lib/pull-requests";
+
+interface PullRequestMergeBoxProps {
+  owner: string;
+  repositoryName: string;
+  pullRequest: PullRequestInfo;
+  checks: PullRequestChecks;
+  onChanged: () => void;
+}
+
+const mergeLabels: Record<MergeMethod, string> = {
+  merge: "Create a merge commit",
+  squash: "Squash and merge",
+  rebase: "Rebase and merge",
+};
+
+const checkSummaries = {
+  success: "All checks have passed",
+  failure: "Some checks were not successful",
+  pending: "Some checks haven't completed yet",
+  neutral: "Checks completed",
+  none: "No checks reported",
+};
+
+export function PullRequestMergeBox({ owner, repositoryName, pullRequest, checks, onChanged }: PullRequestMergeBoxProps) {
+  const [mergeMethod, setMergeMethod] = useState<MergeMethod>("merge");
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [commitTitle, setCommitTitle] = useState("");
+  const [commitMessage, setCommitMessage] = useState("");
+  const [pendingAction, setPendingAction] = useState<"merge" | "close" | "reopen" | null>(null);
+
+  const checkOutcome = summarizeChecks(checks);
+
+  const openConfirm = () => {
+    // Mirror GitHub's default commit titles for each method
+    setCommitTitle(
+      mergeMethod === "squash"
+        ? `${pullRequest.title} (#${pullRequest.number})`
+        : `Merge pull request #${pullRequest.number} from ${pullRequest.head}`
+    );
+    setCommitMessage(mergeMethod === "squash" ? "" : pullRequest.title);
+    setShowConfirm(true);
+  };
+
+  const run = async (action: "merge" | "close" | "reopen") => {
+    setPendingAction(action);
+    try {
+      await managePullRequest(
+        owner,
+        repositoryName,
+        pullRequest.number,
+        action === "merge"
+          ? {
+              action,
+              mergeMethod,
+              // Rebase merges keep the original commits, so there is no message to set
+              commitTitle: mergeMethod === "rebase" ? undefined : commitTitle.trim() || undefined,
+              commitMessage: mergeMethod === "rebase" ? undefined : commitMessage,
+              sha: pullRequest.head_sha,
+            }
+          : { action }
+      );
+      toast({
+        title: action === "merge" ? "Pull request merged" : action === "close" ? "Pull request closed" : "Pull request reopened",
+        description: `#${pullRequest.number} ${pullRequest.title}`,
+      });
+      setShowConfirm(false);
+      onChanged();
+    } catch (error) {
+      console.error(`Error running ${action} on pull request:`, error);
+      toast({
+        variant: "destructive",
+        title: `Failed to ${action} pull request`,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (pullRequest.state === "merged") {
+    return (
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-purple-500/10">
+        <GitMerge className="h-5 w-5 text-purple-500" />
+        <p className="text-sm">
+          Merged {pullRequest.head} into {pullRequest.base}
+        </p>
+      </div>
+    );
+  }
+
+  if (pullRequest.state === "closed") {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg bg-red-500/10">
+        <GitPullRequestClosed className="h-5 w-5 text-red-500" />
+        <p className="text-sm flex-1">This pull request was closed without merging.</p>
+        <Button variant="outline" onClick={() => run("reopen")} disabled={pendingAction !== null}>
+          {pendingAction === "reopen" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+          Reopen
+        </Button>
+      </div>
+    );
+  }
+
+  const hasConflicts = pullRequest.mergeable === false;
+  const isBlocked = pullRequest.mergeable_state === "blocked";
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <CheckOutcomeIcon outcome={checkOutcome === "none" ? "neutral" : checkOutcome} />
+          {checkSummaries[checkOutcome]}
+        </div>
+        {hasConflicts && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            This branch has conflicts that must be resolved on GitHub
+          </div>
+        )}
+        {isBlocked && !hasConflicts && (
+          <div className="flex items-center gap-2 text-sm text-amber-600">
+            <AlertTriangle className="h-4 w-4" />
+            Merging is blocked by branch protection rules
+          </div>
+        )}
+        {pullRequest.draft && (
+          <p className="text-sm text-muted-foreground">This pull request is still a draft.</p>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={mergeMethod} onValueChange={(value) => setMergeMethod(value as MergeMethod)}>
+          <SelectTrigger className="bg-secondary sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(mergeLabels) as MergeMethod[]).map((method) => (
+              <SelectItem key={method} value={method}>{mergeLabels[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={openConfirm} disabled={pendingAction !== null || hasConflicts || pullRequest.draft} className="sm:flex-1">
+          <GitMerge className="h-4 w-4 mr-2" />
+          {mergeMethod === "merge" ? "Merge pull request" : mergeLabels[mergeMethod]}
+        </Button>
+        <Button variant="outline" onClick={() => run("close")} disabled={pendingAction !== null}>
+          {pendingAction === "close" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitPullRequestClosed className="h-4 w-4 mr-2" />}
+          Close
+        </Button>
+      </div>
+
+      <AlertDialog open={showConfirm} onOpenChange={(open) => !pendingAction && setShowConfirm(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{mergeLabels[mergeMethod]}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Merge {pullRequest.head} into {pullRequest.base}
+              {checkOutcome === "failure" && ". Some checks are failing on this branch."}
+              {checkOutcome === "pending" && ". Some checks are still running."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {mergeMethod !== "rebase" && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="mergeTitle">Commit title</Label>
+                <Input id="mergeTitle" value={commitTitle} onChange={(e) => setCommitTitle(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mergeMessage">Commit message</Label>
+                <Textarea
+                  id="mergeMessage"
+                  value={commitMessage}
+                  onChange={(e) => setCommitMessage(e.target.value)}
+                  className="min-h-[100px]"
+                />
+              </div>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setShowConfirm(false)} disabled={pendingAction !== null}>
+              Cancel
+            </Button>
+            <Button onClick={() => run("merge")} disabled={pendingAction !== null}>
+              {pendingAction === "merge" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm merge
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { KeyRound, Loader2, Pencil, Plus, Trash2, Variable } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  deleteActionsSecret,
+  fetchActionsSecrets,
+  setActionsSecret,
+  setActionsVariable,
+  validateActionsName,
+  type ActionsSecretsList,
+} from "@/lib/actions-secrets";
+
+interface ActionsSecretsSectionProps {
+  owner: string;
+  repo: string;
+}
+
+type ItemKind = "secret" | "variable";
+
+interface EditorState {
+  kind: ItemKind;
+  name: string;
+  value: string;
+  /** False when replacing an existing secret or editing an existing variable */
+  isNew: boolean;
+}
+
+// Radix Select does not allow an empty value
+const REPOSITORY_SCOPE = "__repository__";
+
+function ItemEditor({
+  editor,
+  isSaving,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  editor: EditorState;
+  isSaving: boolean;
+  onChange: (editor: EditorState) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const isSecret = editor.kind === "secret";
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+      <div className="space-y-2">
+        <Label htmlFor="actions_item_name">Name</Label>
+        <Input
+          id="actions_item_name"
+          placeholder={isSecret ? "API_TOKEN" : "DEPLOY_REGION"}
+          className="h-9 font-mono"
+          value={editor.name}
+          disabled={!editor.isNew}
+          onChange={(e) => onChange({ ...editor, name: e.target.value.toUpperCase() })}
+          // Keep Enter from submitting the surrounding settings form
+          onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="actions_item_value">{isSecret && !editor.isNew ? "New value" : "Value"}</Label>
+        <Textarea
+          id="actions_item_value"
+          className="min-h-[80px] font-mono text-xs"
+          autoComplete="off"
+          spellCheck={false}
+          value={editor.value}
+          onChange={(e) => onChange({ ...editor, value: e.target.value })}
+        />
+        {isSecret && (
+          <p className="text-xs text-muted-foreground">
+            Encrypted in your browser before it is sent. Secret values can't be read back.
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1 min-h-[44px]" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          className="flex-1 min-h-[44px]"
+          onClick={onSave}
+          disabled={isSaving || !editor.name || !editor.value}
+        >
+          {isSaving ? "Saving..." : editor.isNew ? `Add ${isSecret ? "Secret" : "Variable"}` : `Update ${isSecret ? "Secret" : "Variable"}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ActionsSecretsSection({ owner, repo }: ActionsSecretsSectionProps) {
+  const [scope, setScope] = useState(REPOSITORY_SCOPE);
+  const [environments, setEnvironments] = useState<string[]>([]);
+  const [data, setData] = useState<ActionsSecretsList | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  // Key of the item being changed, so only its controls are disabled
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<{ kind: ItemKind; name: string } | null>(null);
+
+  const environment = scope === REPOSITORY_SCOPE ? undefined : scope;
+  const scopeLabel = environment ? `the ${environment} environment` : `${owner}/${repo}`;
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const list = await fetchActionsSecrets(owner, repo, environment);
+      setData(list);
+      // Environments are only listed for the repository scope
+      if (list.environments) setEnvironments(list.environments);
+    } catch (error) {
+      setData(null);
+      toast({
+        variant: "destructive",
+        title: "Failed to load secrets and variables",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, environment]);
+
+  useEffect(() => {
+    setEditor(null);
+    loadItems();
+  }, [loadItems]);
+
+  const handleSave = async () => {
+    if (!editor || !data) return;
+    const name = editor.name.trim();
+    const nameError = validateActionsName(name);
+    if (nameError) {
+      toast({ variant: "destructive", title: "Invalid name", description: nameError });
+      return;
+    }
+    const existing = editor.kind === "secret" ? data.secrets : data.variables;
+    if (editor.isNew && existing.some((item) => item.name === name)) {
+      toast({
+        variant: "destructive",
+        title: "Name already in use",
+        description: `Edit the existing ${editor.kind} ${name} instead`,
+      });
+      return;
+    }
+
+    const label = editor.kind === "secret" ? "Secret" : "Variable";
+    setPendingKey(`${editor.kind}:${name}`);
+    try {
+      if (editor.kind === "secret") {
+        await setActionsSecret(owner, repo, environment, name, editor.value, data.public_key);
+      } else {
+        await setActionsVariable(owner, repo, environment, editor.isNew ? "create_variable" : "update_variable", name, editor.value);
+      }
+      toast({
+        title: editor.isNew ? `${label} added` : `${label} updated`,
+        description: `${name} saved for ${scopeLabel}`,
+      });
+      setEditor(null);
+      await loadItems();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: `Failed to save ${editor.kind}`,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const { kind, name } = deleteTarget;
+    setDeleteTarget(null);
+    setPendingKey(`delete:${kind}:${name}`);
+    try {
+      await deleteActionsSecret(owner, repo, environment, kind, name);
+      toast({
+        title: `${kind === "secret" ? "Secret" : "Variable"} deleted`,
+        description: `${name} removed from ${scopeLabel}`,
+      });
+      await loadItems();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: `Failed to delete ${kind}`,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const renderEditor = (kind: ItemKind, name?: string) =>
+    editor && editor.kind === kind && (name === undefined ? editor.isNew : !editor.isNew && editor.name === name) && (
+      <ItemEditor
+        editor={editor}
+        isSaving={pendingKey !== null}
+        onChange={setEditor}
+        onSave={handleSave}
+        onCancel={() => setEditor(null)}
+      />
+    );
+
+  const renderRowActions = (kind: ItemKind, name: string, value: string) => {
+    const deleteKey = `delete:${kind}:${name}`;
+    return (
+      <>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 shrink-0"
+          title={kind === "secret" ? `Replace ${name}` : `Edit ${name}`}
+          disabled={pendingKey !== null}
+          onClick={() => setEditor({ kind, name, value, isNew: false })}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 shrink-0 text-destructive hover:text-destructive"
+          title={`Delete ${name}`}
+          disabled={pendingKey !== null}
+          onClick={() => setDeleteTarget({ kind, name })}
+        >
+          {pendingKey === deleteKey ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
+      <h3 className="font-semibold text-sm sm:text-base">Secrets &amp; Variables</h3>
+
+      <div className="space-y-2">
+        <Label htmlFor="actions_scope">Scope</Label>
+        <Select value={scope} onValueChange={setScope} disabled={isLoading || pendingKey !== null}>
+          <SelectTrigger id="actions_scope" className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={REPOSITORY_SCOPE}>Repository</SelectItem>
+            {environments.map((name) => (
+              <SelectItem key={name} value={name}>
+                Environment: {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !data ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : data && (
+        <div className={`space-y-4 ${isLoading ? "opacity-60 pointer-events-none" : ""}`}>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Secrets
+              </Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8"
+                disabled={pendingKey !== null}
+                onClick={() => setEditor({ kind: "secret", name: "", value: "", isNew: true })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Secret
+              </Button>
+            </div>
+            {renderEditor("secret")}
+            <div className="divide-y rounded-md border">
+              {data.secrets.length === 0 && (
+                <p className="px-3 py-4 text-sm text-muted-foreground text-center">No secrets</p>
+              )}
+              {data.secrets.map((secret) => (
+                <div key={secret.name} className="space-y-2 px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate text-sm font-mono">{secret.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Updated {formatDistanceToNow(new Date(secret.updated_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                    {renderRowActions("secret", secret.name, "")}
+                  </div>
+                  {renderEditor("secret", secret.name)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label className="flex items-center gap-2">
+                <Variable className="h-4 w-4" />
+                Variables
+              </Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8"
+                disabled={pendingKey !== null}
+                onClick={() => setEditor({ kind: "variable", name: "", value: "", isNew: true })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Variable
+              </Button>
+            </div>
+            {renderEditor("variable")}
+            <div className="divide-y rounded-md border">
+              {data.variables.length === 0 && (
+                <p className="px-3 py-4 text-sm text-muted-foreground text-center">No variables</p>
+              )}
+              {data.variables.map((variable) => (
+                <div key={variable.name} className="space-y-2 px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate text-sm font-mono">{variable.name}</div>
+                      <div className="truncate text-xs text-muted-foreground font-mono" title={variable.value}>
+                        {variable.value}
+                      </div>
+                    </div>
+                    {renderRowActions("variable", variable.name, variable.value)}
+                  </div>
+                  {renderEditor("variable", variable.name)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.kind}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Workflows in {scopeLabel} will no longer be able to use {deleteTarget?.name}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+}
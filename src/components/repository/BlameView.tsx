@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { getBlame, type Blame } from "@/lib/commits";
+
+interface BlameViewProps {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string;
+  content: string;
+  onSelectCommit: (sha: string) => void;
+}
+
+// Recent changes get the strongest accent, matching GitHub's blame heat scale
+const ageOpacity = (age: number) => Math.max(0.1, 1 - (age - 1) * 0.1);
+
+export function BlameView({ owner, repo, branch, path, content, onSelectCommit }: BlameViewProps) {
+  const [blame, setBlame] = useState<Blame | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getBlame({ owner, repo }, branch, path)
+      .then((result) => {
+        if (!cancelled) setBlame(result);
+      })
+      .catch((error) => {
+        console.error("Error loading blame:", error);
+        toast({
+          variant: "destructive",
+          title: "Failed to load blame",
+          description: error instanceof Error ? error.message : "Please try again.",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo, branch, path]);
+
+  const lines = useMemo(() => content.replace(/\n$/, "").split("\n"), [content]);
+
+  // Index ranges by their first line so each block's commit is shown once
+  const rangeStarts = useMemo(() => {
+    const starts = new Map<number, Blame["ranges"][number]>();
+    blame?.ranges.forEach((range) => starts.set(range.start_line, range));
+    return starts;
+  }, [blame]);
+
+  const rangeForLine = useMemo(() => {
+    const byLine: Blame["ranges"][number][] = [];
+    blame?.ranges.forEach((range) => {
+      for (let line = range.start_line; line <= range.end_line; line++) byLine[line] = range;
+    });
+    return byLine;
+  }, [blame]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!blame) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Blame is not available for this file</p>;
+  }
+
+  return (
+    <div className="overflow-auto max-h-[60vh] border rounded-lg">
+      <table className="w-full font-mono text-xs border-collapse">
+        <tbody>
+          {lines.map((text, index) => {
+            const lineNumber = index + 1;
+            const start = rangeStarts.get(lineNumber);
+            const range = rangeForLine[lineNumber];
+            return (
+              <tr key={lineNumber} className={start && index > 0 ? "border-t border-border/60" : ""}>
+                <td className="w-56 max-w-56 px-2 align-top border-r border-border/50 font-sans">
+                  {start && (
+                    <button
+                      type="button"
+                      onClick={() => onSelectCommit(start.commit.sha)}
+                      className="w-full text-left truncate hover:underline"
+                      title={`${start.commit.message}\n${start.commit.sha}`}
+                    >
+                      <span className="text-muted-foreground">
+                        {formatDistanceToNow(new Date(start.commit.date), { addSuffix: true })}
+                      </span>{" "}
+                      <span>{start.commit.message}</span>
+                    </button>
+                  )}
+                </td>
+                <td
+                  className="w-1 p-0 bg-primary"
+                  style={{ opacity: range ? ageOpacity(range.age) : 0 }}
+                  aria-hidden="true"
+                />
+                <td className="w-12 px-2 text-right text-muted-foreground select-none align-top">{lineNumber}</td>
+                <td className="px-2 whitespace-pre align-top">{text}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
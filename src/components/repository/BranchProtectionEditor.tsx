@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Lock } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  createProtectionSettings,
+  fetchBranchProtection,
+  removeBranchProtection,
+  setBranchProtection,
+  type BranchProtectionSettings,
+} from "@/lib/branch-protection";
+
+interface BranchProtectionEditorProps {
+  owner: string;
+  repo: string;
+  branches: string[];
+  defaultBranch?: string;
+  /** Called after protection is added or removed, so branch lists can refresh their lock badges */
+  onChanged: () => void;
+}
+
+function ToggleRow({
+  id,
+  label,
+  description,
+  checked,
+  onCheckedChange,
+  disabled,
+}: {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="space-y-0.5 flex-1">
+        <Label htmlFor={id} className="text-sm">{label}</Label>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <Switch id={id} checked={checked} onCheckedChange={onCheckedChange} disabled={disabled} />
+    </div>
+  );
+}
+
+const parseContexts = (text: string) => [...new Set(text.split(",").map((context) => context.trim()).filter(Boolean))];
+
+export function BranchProtectionEditor({ owner, repo, branches, defaultBranch, onChanged }: BranchProtectionEditorProps) {
+  const [branch, setBranch] = useState("");
+  const [settings, setSettings] = useState<BranchProtectionSettings | null>(null);
+  const [isProtected, setIsProtected] = useState(false);
+  const [contextsText, setContextsText] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start on the default branch, which is the one most worth protecting
+  useEffect(() => {
+    if (!branch && defaultBranch && branches.includes(defaultBranch)) {
+      setBranch(defaultBranch);
+    }
+  }, [branch, branches, defaultBranch]);
+
+  const loadProtection = useCallback(async () => {
+    if (!branch) return;
+    setIsLoading(true);
+    setSettings(null);
+    try {
+      const protection = await fetchBranchProtection(owner, repo, branch);
+      const loaded = protection.settings ?? createProtectionSettings();
+      setIsProtected(protection.protected);
+      setSettings(loaded);
+      setContextsText(loaded.required_status_checks?.contexts.join(", ") ?? "");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load branch protection",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, branch]);
+
+  useEffect(() => {
+    loadProtection();
+  }, [loadProtection]);
+
+  const update = (changes: Partial<BranchProtectionSettings>) =>
+    setSettings((previous) => (previous ? { ...previous, ...changes } : previous));
+
+  const reviews = settings?.required_pull_request_reviews ?? null;
+  const checks = settings?.required_status_checks ?? null;
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+    try {
+      const toSave: BranchProtectionSettings = {
+        ...settings,
+        required_status_checks: checks ? { ...checks, contexts: parseContexts(contextsText) } : null,
+      };
+      await setBranchProtection(owner, repo, branch, toSave);
+      toast({
+        title: isProtected ? "Protection updated" : "Branch protected",
+        description: `Protection rules saved for ${branch}`,
+      });
+      setIsProtected(true);
+      onChanged();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to save branch protection",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsSaving(true);
+    try {
+      await removeBranchProtection(owner, repo, branch);
+      toast({
+        title: "Protection removed",
+        description: `${branch} is no longer protected`,
+      });
+      setIsProtected(false);
+      setSettings(createProtectionSettings());
+      setContextsText("");
+      onChanged();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to remove branch protection",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="protected_branch">Branch Protection</Label>
+        {isProtected && !isLoading && (
+          <Badge variant="secondary" className="gap-1 text-xs">
+            <Lock className="h-3 w-3" />
+            Protected
+          </Badge>
+        )}
+      </div>
+      <Select value={branch} onValueChange={setBranch}>
+        <SelectTrigger id="protected_branch" className="min-h-[48px]">
+          <SelectValue placeholder="Choose a branch" />
+        </SelectTrigger>
+        <SelectContent>
+          {branches.map((name) => (
+            <SelectItem key={name} value={name}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : settings && (
+        <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+          <ToggleRow
+            id="protect_reviews"
+            label="Require pull request reviews"
+            description="Changes must go through a pull request with approvals"
+            checked={reviews !== null}
+            onCheckedChange={(checked) =>
+              update({ required_pull_request_reviews: checked ? createProtectionSettings().required_pull_request_reviews : null })
+            }
+          />
+          {reviews && (
+            <div className="space-y-3 pl-4 border-l">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="protect_review_count" className="text-sm font-normal">Required approvals</Label>
+                <Select
+                  value={String(reviews.required_approving_review_count)}
+                  onValueChange={(value) =>
+                    update({ required_pull_request_reviews: { ...reviews, required_approving_review_count: Number(value) } })
+                  }
+                >
+                  <SelectTrigger id="protect_review_count" className="w-20 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[0, 1, 2, 3, 4, 5, 6].map((count) => (
+                      <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="protect_dismiss_stale"
+                  checked={reviews.dismiss_stale_reviews}
+                  onCheckedChange={(checked) =>
+                    update({ required_pull_request_reviews: { ...reviews, dismiss_stale_reviews: checked === true } })
+                  }
+                />
+                <Label htmlFor="protect_dismiss_stale" className="text-sm font-normal cursor-pointer">
+                  Dismiss approvals when new commits are pushed
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="protect_code_owners"
+                  checked={reviews.require_code_owner_reviews}
+                  onCheckedChange={(checked) =>
+                    update({ required_pull_request_reviews: { ...reviews, require_code_owner_reviews: checked === true } })
+                  }
+                />
+                <Label htmlFor="protect_code_owners" className="text-sm font-normal cursor-pointer">
+                  Require review from code owners
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <ToggleRow
+            id="protect_checks"
+            label="Require status checks"
+            description="Named checks must pass before merging"
+            checked={checks !== null}
+            onCheckedChange={(checked) =>
+              update({ required_status_checks: checked ? { strict: false, contexts: parseContexts(contextsText) } : null })
+            }
+          />
+          {checks && (
+            <div className="space-y-3 pl-4 border-l">
+              <div className="space-y-2">
+                <Label htmlFor="protect_contexts" className="text-sm font-normal">Required checks</Label>
+                <Input
+                  id="protect_contexts"
+                  placeholder="e.g. build, test"
+                  className="h-9"
+                  value={contextsText}
+                  onChange={(e) => setContextsText(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="protect_strict"
+                  checked={checks.strict}
+                  onCheckedChange={(checked) => update({ required_status_checks: { ...checks, strict: checked === true } })}
+                />
+                <Label htmlFor="protect_strict" className="text-sm font-normal cursor-pointer">
+                  Require branches to be up to date before merging
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <ToggleRow
+            id="protect_linear"
+            label="Require linear history"
+            description="Only squash or rebase merges"
+            checked={settings.required_linear_history}
+            onCheckedChange={(checked) => update({ required_linear_history: checked })}
+          />
+          <ToggleRow
+            id="protect_force_push"
+            label="Allow force pushes"
+            description="Anyone with push access can rewrite this branch's history"
+            checked={settings.allow_force_pushes}
+            onCheckedChange={(checked) => update({ allow_force_pushes: checked })}
+          />
+          <ToggleRow
+            id="protect_deletions"
+            label="Allow deletions"
+            description="Anyone with push access can delete this branch"
+            checked={settings.allow_deletions}
+            onCheckedChange={(checked) => update({ allow_deletions: checked })}
+          />
+          <ToggleRow
+            id="protect_admins"
+            label="Include administrators"
+            description="Apply these rules to admins too"
+            checked={settings.enforce_admins}
+            onCheckedChange={(checked) => update({ enforce_admins: checked })}
+          />
+
+          <div className="flex gap-2">
+            {isProtected && (
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 min-h-[44px] text-destructive hover:text-destructive"
+                onClick={handleRemove}
+                disabled={isSaving}
+              >
+                Remove Protection
+              </Button>
+            )}
+            <Button type="button" className="flex-1 min-h-[44px]" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : isProtected ? "Save Protection" : "Protect Branch"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
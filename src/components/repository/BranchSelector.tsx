@@ -7,8 +7,9 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { GitBranch, Loader2 } from "lucide-react";
+import { GitBranch, Loader2, Lock } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import type { GitHubBranch } from "@/hooks/useGitHubRepos";
 
 interface BranchSelectorProps {
   owner: string;
@@ -23,7 +24,7 @@ export function BranchSelector({
   currentBranch, 
   onBranchChange 
 }: BranchSelectorProps) {
-  const [branches, setBranches] = useState<string[]>([]);
+  const [branches, setBranches] = useState<GitHubBranch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -40,6 +41,7 @@ export function BranchSelector({
       const { data, error } = await supabase.functions.invoke('get-repo-branches', {
         body: { 
           repositoryName: repo,
+          owner,
           provider_token: session?.provider_token 
         }
       });
@@ -55,7 +57,7 @@ export function BranchSelector({
       }
 
       if (data?.branches) {
-        setBranches(data.branches.map((b: any) => b.name));
+        setBranches(data.branches.map((b: GitHubBranch) => ({ name: b.name, protected: b.protected })));
       }
     } catch (err) {
       console.error('Exception fetching branches:', err);
@@ -80,11 +82,16 @@ export function BranchSelector({
           <SelectContent className="bg-popover border-border z-50 max-h-[60vh]">
             {branches.map((branch) => (
               <SelectItem 
-                key={branch} 
-                value={branch}
+                key={branch.name} 
+                value={branch.name}
                 className="text-base sm:text-sm py-3 sm:py-2 hover:bg-muted cursor-pointer touch-manipulation"
               >
-                {branch}
+                <span className="flex items-center gap-2">
+                  {branch.name}
+                  {branch.protected && (
+                    <Lock className="h-3 w-3 text-muted-foreground" aria-label="Protected branch" />
+                  )}
+                </span>
               </SelectItem>
             ))}
           </SelectContent>
@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  parseTopics,
+  runBulkRepositoryAction,
+  type BulkRepositoryAction,
+  type BulkRepositoryResult,
+} from "@/lib/bulk-repositories";
+
+export type BulkActionType = BulkRepositoryAction["type"];
+
+const ACTION_TITLES: Record<BulkActionType, string> = {
+  visibility: "Change visibility",
+  archive: "Archive or unarchive",
+  topics: "Edit topics",
+  description: "Set description",
+  star: "Star or unstar",
+  delete: "Delete repositories",
+};
+
+interface BulkRepositoryDialogProps {
+  type: BulkActionType | null;
+  repositories: string[];
+  onClose: () => void;
+  /** Called once a run finishes, so the list can be refreshed */
+  onComplete: () => void;
+}
+
+export function BulkRepositoryDialog({ type, repositories, onClose, onComplete }: BulkRepositoryDialogProps) {
+  const [isPrivate, setIsPrivate] = useState("private");
+  const [archived, setArchived] = useState("archive");
+  const [starred, setStarred] = useState("star");
+  const [addTopics, setAddTopics] = useState("");
+  const [removeTopics, setRemoveTopics] = useState("");
+  const [description, setDescription] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<BulkRepositoryResult[] | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Each opening starts from a blank form
+  useEffect(() => {
+    if (type) {
+      setAddTopics("");
+      setRemoveTopics("");
+      setDescription("");
+      setConfirmation("");
+      setResults(null);
+    }
+  }, [type]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const count = repositories.length;
+  const deletePhrase = `delete ${count} ${count === 1 ? "repository" : "repositories"}`;
+
+  const buildAction = (): BulkRepositoryAction | null => {
+    switch (type) {
+      case "visibility":
+        return { type, private: isPrivate === "private" };
+      case "archive":
+        return { type, archived: archived === "archive" };
+      case "star":
+        return { type, starred: starred === "star" };
+      case "topics": {
+        const add = parseTopics(addTopics);
+        const remove = parseTopics(removeTopics);
+        return add.length || remove.length ? { type, add, remove } : null;
+      }
+      case "description":
+        return description.length <= 350 ? { type, description: description.trim() } : null;
+      case "delete":
+        return confirmation.trim() === deletePhrase ? { type } : null;
+      default:
+        return null;
+    }
+  };
+
+  const action = buildAction();
+
+  const handleRun = async () => {
+    if (!action) return;
+    controller.current = new AbortController();
+    setIsRunning(true);
+    setResults([]);
+    try {
+      await runBulkRepositoryAction(
+        repositories,
+        action,
+        (result) => setResults((previous) => [...(previous ?? []), result]),
+        controller.current.signal
+      );
+    } finally {
+      setIsRunning(false);
+      onComplete();
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    // Closing mid-run stops before the next repository
+    controller.current?.abort();
+    onClose();
+  };
+
+  const succeeded = results?.filter((r) => r.success).length ?? 0;
+  const failed = results ? results.length - succeeded : 0;
+
+  const renderForm = () => {
+    switch (type) {
+      case "visibility":
+        return (
+          <div className="space-y-2">
+            <Label>Visibility</Label>
+            <Select value={isPrivate} onValueChange={setIsPrivate}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">Private</SelectItem>
+                <SelectItem value="public">Public</SelectItem>
+              </SelectContent>
+            </Select>
+            {isPrivate === "public" && (
+              <p className="text-xs text-muted-foreground">
+                Anyone on the internet will be able to see these repositories.
+              </p>
+            )}
+          </div>
+        );
+      case "archive":
+        return (
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={archived} onValueChange={setArchived}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="archive">Archive (make read-only)</SelectItem>
+                <SelectItem value="unarchive">Unarchive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case "star":
+        return (
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={starred} onValueChange={setStarred}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="star">Star</SelectItem>
+                <SelectItem value="unstar">Unstar</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case "topics":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-add-topics">Add topics</Label>
+              <Input
+                id="bulk-add-topics"
+                value={addTopics}
+                onChange={(e) => setAddTopics(e.target.value)}
+                placeholder="react, typescript"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-remove-topics">Remove topics</Label>
+              <Input
+                id="bulk-remove-topics"
+                value={removeTopics}
+                onChange={(e) => setRemoveTopics(e.target.value)}
+                placeholder="deprecated"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Other topics on each repository are kept.
+            </p>
+          </div>
+        );
+      case "description":
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-description">Description</Label>
+            <Textarea
+              id="bulk-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Leave blank to clear the description"
+              rows={3}
+            />
+            {description.length > 350 && (
+              <p className="text-sm text-destructive">Description must be less than 350 characters</p>
+            )}
+          </div>
+        );
+      case "delete":
+        return (
+          <div className="space-y-3">
+            <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm">
+              <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+              <p>
+                This permanently deletes every selected repository with all of its files, commits and issues.
+                It cannot be undone.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-delete-confirm">
+                Type <span className="font-mono font-semibold">{deletePhrase}</span> to confirm
+              </Label>
+              <Input
+                id="bulk-delete-confirm"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={type !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{type && ACTION_TITLES[type]}</DialogTitle>
+          <DialogDescription>
+            {count} {count === 1 ? "repository" : "repositories"} selected
+          </DialogDescription>
+        </DialogHeader>
+
+        {results === null ? (
+          <>
+            {renderForm()}
+            <div className="max-h-32 overflow-y-auto rounded-md border p-2 text-xs font-mono text-muted-foreground">
+              {repositories.map((fullName) => (
+                <div key={fullName} className="truncate">{fullName}</div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="space-y-3">
+            <Progress value={(results.length / Math.max(count, 1)) * 100} className="h-2" />
+            <p className="text-sm text-muted-foreground">
+              {isRunning
+                ? `Processing ${results.length + 1} of ${count}...`
+                : `${succeeded} succeeded${failed > 0 ? `, ${failed} failed` : ""}${results.length < count ? `, ${count - results.length} skipped` : ""}`}
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-1 rounded-md border p-2">
+              {results.map((result) => (
+                <div key={result.full_name} className="flex items-start gap-2 text-sm">
+                  {result.success ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="font-mono truncate">{result.full_name}</div>
+                    {result.error && <div className="text-xs text-destructive">{result.error}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {results === null ? (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button
+                variant={type === "delete" ? "destructive" : "default"}
+                onClick={handleRun}
+                disabled={!action || count === 0}
+              >
+                {type === "delete" ? "Delete" : "Apply"} to {count}
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant={isRunning ? "outline" : "default"}
+              onClick={() => (isRunning ? controller.current?.abort() : handleOpenChange(false))}
+            >
+              {isRunning ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Stop</> : "Close"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, UserPlus, Users, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  fetchRepositoryAccess,
+  manageCollaborators,
+  REPOSITORY_ROLE_OPTIONS,
+  type CollaboratorAction,
+  type RepositoryAccessList,
+} from "@/lib/collaborators";
+import type { RepositoryRole } from "@/lib/repositories";
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+const roleLabel = (role: RepositoryRole) =>
+  REPOSITORY_ROLE_OPTIONS.find((option) => option.value === role)?.label ?? role;
+
+interface CollaboratorsSectionProps {
+  owner: string;
+  repo: string;
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: RepositoryRole;
+  onChange: (role: RepositoryRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as RepositoryRole)} disabled={disabled}>
+      <SelectTrigger className="w-[120px] h-9 shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {REPOSITORY_ROLE_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value} title={option.description}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function CollaboratorsSection({ owner, repo }: CollaboratorsSectionProps) {
+  const [access, setAccess] = useState<RepositoryAccessList | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Key of the row being changed, so only its controls are disabled
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [inviteUsername, setInviteUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<RepositoryRole>("push");
+  const [newTeam, setNewTeam] = useState("");
+  const [newTeamRole, setNewTeamRole] = useState<RepositoryRole>("push");
+
+  const loadAccess = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setAccess(await fetchRepositoryAccess(owner, repo));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load collaborators",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo]);
+
+  useEffect(() => {
+    loadAccess();
+  }, [loadAccess]);
+
+  const runAction = async (key: string, action: CollaboratorAction, success: string) => {
+    setPendingKey(key);
+    try {
+      const result = await manageCollaborators(owner, repo, action);
+      toast({
+        title: "Access updated",
+        description: action.action === "set_collaborator" && result.invited
+          ? `Invitation sent to ${action.username}`
+          : success,
+      });
+      await loadAccess();
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to update access",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return false;
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    const username = inviteUsername.trim();
+    if (!USERNAME_PATTERN.test(username) || username.length > 39) {
+      toast({
+        variant: "destructive",
+        title: "Invalid username",
+        description: "GitHub usernames contain only letters, numbers and hyphens",
+      });
+      return;
+    }
+    const added = await runAction(
+      "invite",
+      { action: "set_collaborator", username, permission: inviteRole },
+      `${username} now has ${roleLabel(inviteRole)} access`
+    );
+    if (added) setInviteUsername("");
+  };
+
+  const handleAddTeam = async () => {
+    if (!newTeam) return;
+    const added = await runAction(
+      "add-team",
+      { action: "set_team", team_slug: newTeam, permission: newTeamRole },
+      `Team ${newTeam} added`
+    );
+    if (added) setNewTeam("");
+  };
+
+  const availableTeams = access?.organization_teams?.filter(
+    (team) => !access.teams?.some((existing) => existing.slug === team.slug)
+  ) ?? [];
+
+  return (
+    <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
+      <h3 className="font-semibold text-sm sm:text-base">Collaborators</h3>
+
+      <div className="space-y-2">
+        <Label htmlFor="invite_username">Invite a collaborator</Label>
+        <div className="flex gap-2">
+          <Input
+            id="invite_username"
+            placeholder="GitHub username"
+            className="h-9"
+            value={inviteUsername}
+            onChange={(e) => setInviteUsername(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep Enter from submitting the surrounding settings form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleInvite();
+              }
+            }}
+          />
+          <RoleSelect value={inviteRole} onChange={setInviteRole} />
+          <Button
+            type="button"
+            size="sm"
+            className="h-9 shrink-0"
+            onClick={handleInvite}
+            disabled={!inviteUsername.trim() || pendingKey !== null}
+          >
+            {pendingKey === "invite" ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !access ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : access && (
+        <div className="space-y-4">
+          <div className="divide-y rounded-md border">
+            {access.collaborators.length === 0 && access.invitations.length === 0 && (
+              <p className="px-3 py-4 text-sm text-muted-foreground text-center">No direct collaborators</p>
+            )}
+            {access.collaborators.map((collaborator) => {
+              const key = `user:${collaborator.login}`;
+              return (
+                <div key={key} className="flex items-center gap-2 px-3 py-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={collaborator.avatar_url} alt={collaborator.login} />
+                    <AvatarFallback>{collaborator.login.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <a
+                    href={collaborator.html_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex-1 truncate text-sm hover:underline"
+                  >
+                    {collaborator.login}
+                  </a>
+                  <RoleSelect
+                    value={collaborator.permission}
+                    disabled={pendingKey !== null}
+                    onChange={(permission) =>
+                      runAction(
+                        key,
+                        { action: "set_collaborator", username: collaborator.login, permission },
+                        `${collaborator.login} now has ${roleLabel(permission)} access`
+                      )
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    title={`Remove ${collaborator.login}`}
+                    disabled={pendingKey !== null}
+                    onClick={() =>
+                      runAction(key, { action: "remove_collaborator", username: collaborator.login }, `${collaborator.login} removed`)
+                    }
+                  >
+                    {pendingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                  </Button>
+                </div>
+              );
+            })}
+            {access.invitations.map((invitation) => {
+              const key = `invitation:${invitation.id}`;
+              return (
+                <div key={key} className="flex items-center gap-2 px-3 py-2">
+                  <Avatar className="h-6 w-6 opacity-60">
+                    {invitation.avatar_url && <AvatarImage src={invitation.avatar_url} alt={invitation.login} />}
+                    <AvatarFallback>{invitation.login.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-sm">{invitation.login}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Invited {formatDistanceToNow(new Date(invitation.created_at), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <Badge variant={invitation.expired ? "destructive" : "outline"} className="shrink-0">
+                    {invitation.expired ? "Expired" : "Pending"}
+                  </Badge>
+                  <RoleSelect
+                    value={invitation.permission}
+                    disabled={pendingKey !== null || invitation.expired}
+                    onChange={(permission) =>
+                      runAction(
+                        key,
+                        { action: "update_invitation", invitation_id: invitation.id, permission },
+                        `Invitation for ${invitation.login} updated`
+                      )
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    title="Cancel invitation"
+                    disabled={pendingKey !== null}
+                    onClick={() =>
+                      runAction(key, { action: "cancel_invitation", invitation_id: invitation.id }, `Invitation for ${invitation.login} cancelled`)
+                    }
+                  >
+                    {pendingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {access.teams && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Teams
+              </Label>
+              <div className="divide-y rounded-md border">
+                {access.teams.length === 0 && (
+                  <p className="px-3 py-4 text-sm text-muted-foreground text-center">No teams have access</p>
+                )}
+                {access.teams.map((team) => {
+                  const key = `team:${team.slug}`;
+                  return (
+                    <div key={key} className="flex items-center gap-2 px-3 py-2">
+                      <span className="flex-1 truncate text-sm">{team.name}</span>
+                      <RoleSelect
+                        value={team.permission}
+                        disabled={pendingKey !== null}
+                        onChange={(permission) =>
+                          runAction(
+                            key,
+                            { action: "set_team", team_slug: team.slug, permission },
+                            `Team ${team.name} now has ${roleLabel(permission)} access`
+                          )
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 shrink-0"
+                        title={`Remove team ${team.name}`}
+                        disabled={pendingKey !== null}
+                        onClick={() => runAction(key, { action: "remove_team", team_slug: team.slug }, `Team ${team.name} removed`)}
+                      >
+                        {pendingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {availableTeams.length > 0 && (
+                <div className="flex gap-2">
+                  <Select value={newTeam} onValueChange={setNewTeam}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Add a team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableTeams.map((team) => (
+                        <SelectItem key={team.slug} value={team.slug}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <RoleSelect value={newTeamRole} onChange={setNewTeamRole} />
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-9 shrink-0"
+                    onClick={handleAddTeam}
+                    disabled={!newTeam || pendingKey !== null}
+                  >
+                    {pendingKey === "add-team" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
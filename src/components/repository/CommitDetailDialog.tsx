@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Copy, ExternalLink, Loader2, RotateCcw, Undo2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { ChangedFilesList } from "@/components/diff/ChangedFilesList";
+import { getCommit, getCommitTitle, type CommitDetail } from "@/lib/commits";
+import type { HistoryAction } from "@/components/repository/HistoryActionDialog";
+
+interface CommitDetailDialogProps {
+  owner: string;
+  repo: string;
+  sha: string;
+  /** File or folder offered for "restore as of this commit"; empty for the whole repository */
+  restorePath?: string;
+  /** Enables the revert and restore actions */
+  onHistoryAction?: (action: HistoryAction) => void;
+  onClose: () => void;
+}
+
+export function CommitDetailDialog({ owner, repo, sha, restorePath = "", onHistoryAction, onClose }: CommitDetailDialogProps) {
+  const [detail, setDetail] = useState<CommitDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getCommit({ owner, repo }, sha)
+      .then((result) => {
+        if (!cancelled) setDetail(result);
+      })
+      .catch((error) => {
+        console.error("Error loading commit:", error);
+        toast({
+          variant: "destructive",
+          title: "Failed to load commit",
+          description: error instanceof Error ? error.message : "Please try again.",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo, sha]);
+
+  const commit = detail?.commit;
+  const body = commit ? commit.message.split("\n").slice(1).join("\n").trim() : "";
+
+  const copySha = () => {
+    navigator.clipboard.writeText(sha);
+    toast({ title: "Copied", description: "Commit SHA copied to clipboard." });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="break-words pr-6">
+            {commit ? getCommitTitle(commit.message) : "Commit"}
+          </DialogTitle>
+          <DialogDescription asChild>
+            <div className="flex flex-wrap items-center gap-2">
+              <button type="button" onClick={copySha} className="font-mono text-xs inline-flex items-center gap-1 hover:text-foreground">
+                {sha.slice(0, 7)}
+                <Copy className="h-3 w-3" />
+              </button>
+              {commit && (
+                <>
+                  <span>
+                    {commit.author?.login ?? commit.author_name ?? "unknown"}
+                    {commit.date && ` on ${format(new Date(commit.date), "PPp")}`}
+                  </span>
+                  {commit.parents.length > 1 && <Badge variant="secondary">Merge commit</Badge>}
+                  {commit.stats && (
+                    <>
+                      <span className="text-green-600">+{commit.stats.additions}</span>
+                      <span className="text-red-600">-{commit.stats.deletions}</span>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : detail ? (
+            <>
+              {body && (
+                <pre className="text-sm whitespace-pre-wrap break-words bg-muted rounded-lg p-3 font-sans">{body}</pre>
+              )}
+              <ChangedFilesList files={detail.files} />
+              {detail.files_truncated && (
+                <p className="text-xs text-muted-foreground">
+                  This commit changes more files than can be shown here. View it on GitHub for the full diff.
+                </p>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        {commit && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {onHistoryAction && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onHistoryAction({ mode: "restore", sha: commit.sha, title: getCommitTitle(commit.message), path: restorePath })}
+                  title={`Make ${restorePath || "the repository"} match this commit`}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore {restorePath ? restorePath.split("/").pop() : "repository"} to here
+                </Button>
+                {commit.parents.length === 1 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onHistoryAction({ mode: "revert", sha: commit.sha, title: getCommitTitle(commit.message) })}
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Revert commit
+                  </Button>
+                )}
+              </>
+            )}
+            <Button variant="outline" size="sm" onClick={() => window.open(commit.html_url, '_blank')}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View on GitHub
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
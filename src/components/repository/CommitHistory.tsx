@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { GitCommit, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { getCommitTitle, listCommits, type CommitSummary } from "@/lib/commits";
+
+interface CommitHistoryProps {
+  owner: string;
+  repo: string;
+  branch: string;
+  /** Limits the history to commits touching this file or folder */
+  path?: string;
+  onSelectCommit: (sha: string) => void;
+}
+
+export function CommitHistory({ owner, repo, branch, path = "", onSelectCommit }: CommitHistoryProps) {
+  const [commits, setCommits] = useState<CommitSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async (nextPage: number) => {
+    setIsLoading(true);
+    try {
+      const result = await listCommits({ owner, repo }, branch, path, nextPage);
+      setCommits((prev) => (nextPage === 1 ? result.commits : [...prev, ...result.commits]));
+      setPage(nextPage);
+      setHasMore(result.has_more);
+    } catch (error) {
+      console.error("Error loading commit history:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to load history",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, branch, path]);
+
+  useEffect(() => {
+    if (owner && repo && branch) {
+      setCommits([]);
+      load(1);
+    }
+  }, [owner, repo, branch, load]);
+
+  if (!isLoading && commits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No commits found{path ? ` for ${path}` : ""}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y border rounded-lg">
+        {commits.map((commit) => (
+          <li key={commit.sha}>
+            <button
+              type="button"
+              onClick={() => onSelectCommit(commit.sha)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-secondary/50 transition-smooth touch-manipulation"
+            >
+              <Avatar className="h-7 w-7 shrink-0">
+                <AvatarImage src={commit.author?.avatar_url} alt={commit.author?.login} />
+                <AvatarFallback>
+                  <GitCommit className="h-4 w-4" />
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{getCommitTitle(commit.message)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {commit.author?.login ?? commit.author_name ?? "unknown"}
+                  {commit.date && ` committed ${formatDistanceToNow(new Date(commit.date), { addSuffix: true })}`}
+                </p>
+              </div>
+              <span className="font-mono text-xs text-muted-foreground shrink-0">{commit.sha.slice(0, 7)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => load(page + 1)}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
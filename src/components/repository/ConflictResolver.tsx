@@ -0,0 +1,104 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { ConflictResolution, MergeChunk } from "@/lib/merge";
+
+interface ConflictResolverProps {
+  chunks: MergeChunk[];
+  /** Chosen resolution per conflict, in document order */
+  resolutions: (ConflictResolution | undefined)[];
+  onResolve: (conflictIndex: number, resolution: ConflictResolution) => void;
+}
+
+// Unchanged stretches are trimmed to this many lines around each conflict
+const CONTEXT_LINES = 3;
+
+function Lines({ lines, className }: { lines: string[]; className?: string }) {
+  return (
+    <pre className={cn("font-mono text-xs whitespace-pre-wrap break-all px-2 py-1 min-h-[1.5rem]", className)}>
+      {lines.length > 0 ? lines.join("\n") : <span className="italic text-muted-foreground">(no lines)</span>}
+    </pre>
+  );
+}
+
+function StableLines({ lines, isFirst, isLast }: { lines: string[]; isFirst: boolean; isLast: boolean }) {
+  const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES);
+  const tail = isLast ? [] : lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES));
+  const hidden = lines.length - head.length - tail.length;
+
+  return (
+    <div className="text-muted-foreground">
+      {head.length > 0 && <Lines lines={head} />}
+      {hidden > 0 && (
+        <p className="text-xs px-2 py-1 bg-muted/40">{hidden} unchanged line{hidden === 1 ? "" : "s"}</p>
+      )}
+      {tail.length > 0 && <Lines lines={tail} />}
+    </div>
+  );
+}
+
+export function ConflictResolver({ chunks, resolutions, onResolve }: ConflictResolverProps) {
+  let conflictIndex = -1;
+
+  return (
+    <div className="border rounded-lg overflow-hidden divide-y">
+      {chunks.map((chunk, index) => {
+        if (chunk.type === "stable") {
+          return (
+            <StableLines
+              key={index}
+              lines={chunk.lines}
+              isFirst={index === 0}
+              isLast={index === chunks.length - 1}
+            />
+          );
+        }
+
+        const current = ++conflictIndex;
+        const resolution = resolutions[current];
+        const choices: { value: ConflictResolution; label: string }[] = [
+          { value: "ours", label: "Keep yours" },
+          { value: "theirs", label: "Keep latest" },
+          { value: "both", label: "Keep both" },
+        ];
+
+        return (
+          <div key={index} className="bg-amber-500/5">
+            <div className="flex flex-wrap items-center gap-2 px-2 py-1.5 bg-amber-500/10">
+              <Badge variant={resolution ? "secondary" : "destructive"}>
+                Conflict {current + 1}{resolution ? " resolved" : ""}
+              </Badge>
+              <div className="flex gap-1 ml-auto">
+                {choices.map((choice) => (
+                  <Button
+                    key={choice.value}
+                    size="sm"
+                    variant={resolution === choice.value ? "default" : "outline"}
+                    className="h-7 text-xs"
+                    onClick={() => onResolve(current, choice.value)}
+                  >
+                    {choice.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 md:divide-x divide-y md:divide-y-0">
+              <div>
+                <p className="text-xs font-medium px-2 pt-1">Yours</p>
+                <Lines lines={chunk.ours} className="bg-green-500/10" />
+              </div>
+              <div>
+                <p className="text-xs font-medium px-2 pt-1 text-muted-foreground">Original</p>
+                <Lines lines={chunk.base} className="text-muted-foreground" />
+              </div>
+              <div>
+                <p className="text-xs font-medium px-2 pt-1">Latest on GitHub</p>
+                <Lines lines={chunk.theirs} className="bg-blue-500/10" />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -17,6 +17,9 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { fileNameSchema, folderNameSchema, fileContentSchema, validateInput } from "@/lib/input-validation";
+import type { StagedChangeInput } from "@/lib/staging";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
 
 interface CreateItemModalProps {
   owner: string;
@@ -25,6 +28,8 @@ interface CreateItemModalProps {
   currentPath: string;
   onClose: () => void;
   onCreate: () => void;
+  /** When set, the new file is staged instead of committed */
+  onStage?: (changes: StagedChangeInput[]) => void;
 }
 
 export function CreateItemModal({
@@ -34,11 +39,13 @@ export function CreateItemModal({
   currentPath,
   onClose,
   onCreate,
+  onStage,
 }: CreateItemModalProps) {
   const [itemType, setItemType] = useState<"file" | "folder">("file");
   const [name, setName] = useState("");
   const [content, setContent] = useState("");
   const [isCreating, setIsCreating] = useState(false);
+  const [commit, setCommit] = useState(() => createCommitDetails());
 
   const handleCreate = async () => {
     // Validate file or folder name
@@ -66,11 +73,27 @@ export function CreateItemModal({
       }
     }
 
+    const path = currentPath ? `${currentPath}/${name}` : name;
+    const fileContent = itemType === "folder" ? "" : content;
+    const filePath = itemType === "folder" ? `${path}/.gitkeep` : path;
+
+    if (onStage) {
+      onStage([{ type: "upsert", path: filePath, content: fileContent, base_sha: null, original_content: null }]);
+      return;
+    }
+
+    const commitError = validateCommitDetails(commit);
+    if (commitError) {
+      toast({
+        title: "Invalid commit details",
+        description: commitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsCreating(true);
     try {
-      const path = currentPath ? `${currentPath}/${name}` : name;
-      const fileContent = itemType === "folder" ? "" : content;
-      const filePath = itemType === "folder" ? `${path}/.gitkeep` : path;
 
       const { data: { session } } = await supabase.auth.getSession();
       const { data, error } = await supabase.functions.invoke('create-file', {
@@ -81,6 +104,7 @@ export function CreateItemModal({
           content: fileContent,
           message: `Create ${itemType === "folder" ? "folder" : "file"} ${name}`,
           branch,
+          ...toCommitFields(commit),
           provider_token: session?.provider_token,
         }
       });
@@ -166,6 +190,15 @@ export function CreateItemModal({
               A .gitkeep file will be created inside the folder to make it visible in Git.
             </p>
           )}
+
+          {!onStage && (
+            <CommitComposer
+              value={commit}
+              onChange={setCommit}
+              placeholder={`Create ${itemType} ${name || "..."}`}
+              disabled={isCreating}
+            />
+          )}
         </div>
 
         <DialogFooter className="gap-3 sm:gap-2">
@@ -183,7 +216,7 @@ export function CreateItemModal({
             className="h-12 md:h-10 text-base md:text-sm min-w-[100px] touch-manipulation"
           >
             {isCreating && <Loader2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2 animate-spin" />}
-            Create {itemType}
+            {onStage ? `Stage new ${itemType}` : `Create ${itemType}`}
           </Button>
         </DialogFooter>
       </DialogContent>
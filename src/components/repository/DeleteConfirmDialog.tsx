@@ -11,6 +11,10 @@ import {
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import type { CommitRange } from "@/lib/undo-toast";
+import type { StagedChangeInput } from "@/lib/staging";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
 
 interface DeleteConfirmDialogProps {
   files: { name: string; path: string; sha: string; type: "file" | "dir" }[];
@@ -18,7 +22,9 @@ interface DeleteConfirmDialogProps {
   repo: string;
   branch: string;
   onClose: () => void;
-  onDelete: () => void;
+  onDelete: (range: CommitRange | null) => void;
+  /** When set, the deletions are staged instead of committed */
+  onStage?: (changes: StagedChangeInput[]) => void;
 }
 
 export function DeleteConfirmDialog({
@@ -28,12 +34,24 @@ export function DeleteConfirmDialog({
   branch,
   onClose,
   onDelete,
+  onStage,
 }: DeleteConfirmDialogProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [commit, setCommit] = useState(() => createCommitDetails());
   const isBulkDelete = files.length > 1;
   console.log('[DeleteConfirmDialog] Opening for', files.length, 'items', files.map(f => f.path));
 
   const handleDelete = async () => {
+    const commitError = onStage ? null : validateCommitDetails(commit);
+    if (commitError) {
+      toast({
+        title: "Invalid commit details",
+        description: commitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsDeleting(true);
     try {
       // Normalize directory paths and remove files contained in selected directories
@@ -50,15 +68,21 @@ export function DeleteConfirmDialog({
       // Build a compact list of items to delete (dirs + files not inside selected dirs)
       const items = filtered.map(i => ({ path: i.path, type: i.type }));
 
+      if (onStage) {
+        onStage(items.map(i => ({ type: 'delete', path: i.path, itemType: i.type })));
+        return;
+      }
+
       console.log('[DeleteConfirmDialog] Batch deleting items:', items.map(i => i.path));
 
       const { data: { session } } = await supabase.auth.getSession();
-      const { error } = await supabase.functions.invoke('delete-items', {
+      const { data, error } = await supabase.functions.invoke('delete-items', {
         body: { 
           owner, 
           repo, 
           branch, 
           items,
+          ...toCommitFields(commit),
           provider_token: session?.provider_token 
         }
       });
@@ -73,7 +97,7 @@ export function DeleteConfirmDialog({
         return;
       }
 
-      onDelete();
+      onDelete(data);
     } catch (err) {
       console.error('Exception deleting:', err);
       toast({
@@ -124,17 +148,27 @@ export function DeleteConfirmDialog({
               </>
             )}
             <span className="block mt-2">
-              This action cannot be undone.
+              {onStage
+                ? "The deletion is staged and only happens when you commit your staged changes."
+                : "This action cannot be undone."}
             </span>
           </AlertDialogDescription>
         </AlertDialogHeader>
+        {!onStage && (
+          <CommitComposer
+            value={commit}
+            onChange={setCommit}
+            placeholder={isBulkDelete ? `Delete ${files.length} items` : `Delete ${files[0].name}`}
+            disabled={isDeleting}
+          />
+        )}
         <AlertDialogFooter>
           <Button variant="outline" onClick={onClose} disabled={isDeleting}>
             Cancel
           </Button>
           <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
             {isDeleting && <Loader2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2 animate-spin" />}
-            Delete
+            {onStage ? "Stage Deletion" : "Delete"}
           </Button>
         </AlertDialogFooter>
       </AlertDialogContent>
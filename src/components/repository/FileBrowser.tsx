@@ -51,6 +51,8 @@ interface FileBrowserProps {
   onMove: (files: FileItem[]) => void;
   onToggleSelect: (path: string) => void;
   onToggleSelectAll: () => void;
+  /** Hides the actions that change the repository, for users without write access */
+  readOnly?: boolean;
 }
 
 const getFileIcon = (file: FileItem) => {
@@ -128,7 +130,8 @@ export function FileBrowser({
   onRename,
   onMove,
   onToggleSelect,
-  onToggleSelectAll
+  onToggleSelectAll,
+  readOnly = false,
 }: FileBrowserProps) {
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
@@ -235,7 +238,7 @@ export function FileBrowser({
     <>
       {/* VSCode-inspired File Browser */}
       <div className="rounded-md border border-border/50 bg-[hsl(var(--github-gray-0))] overflow-hidden shadow-sm">
-        {hasSelection && (
+        {hasSelection && !readOnly && (
           <div className="flex items-center gap-3 px-4 py-2.5 border-b border-border/50 bg-[hsl(var(--github-gray-1))]">
             <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
               {selectedFiles.length} item{selectedFiles.length > 1 ? 's' : ''} selected
@@ -405,14 +408,16 @@ export function FileBrowser({
           <div className="px-4 pb-4 space-y-2">
             {selectedFile?.type === 'file' && (
               <>
-                <Button
-                  variant="outline"
-                  className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
-                  onClick={() => handleDrawerAction('edit')}
-                >
-                  <Pencil className="h-5 w-5 mr-3 text-accent" />
-                  <span className="font-medium">Edit File</span>
-                </Button>
+                {!readOnly && (
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
+                    onClick={() => handleDrawerAction('edit')}
+                  >
+                    <Pencil className="h-5 w-5 mr-3 text-accent" />
+                    <span className="font-medium">Edit File</span>
+                  </Button>
+                )}
                 
                 <Button
                   variant="outline"
@@ -425,34 +430,38 @@ export function FileBrowser({
               </>
             )}
 
-            <Button
-              variant="outline"
-              className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
-              onClick={() => handleDrawerAction('rename')}
-            >
-              <Pencil className="h-5 w-5 mr-3 text-accent" />
-              <span className="font-medium">Rename</span>
-            </Button>
+            {!readOnly && (
+              <>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
+                  onClick={() => handleDrawerAction('rename')}
+                >
+                  <Pencil className="h-5 w-5 mr-3 text-accent" />
+                  <span className="font-medium">Rename</span>
+                </Button>
 
-            <Button
-              variant="outline"
-              className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
-              onClick={() => handleDrawerAction('move')}
-            >
-              <FolderInput className="h-5 w-5 mr-3 text-accent" />
-              <span className="font-medium">Move</span>
-            </Button>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-[hsl(var(--github-gray-2))] hover:border-accent/50"
+                  onClick={() => handleDrawerAction('move')}
+                >
+                  <FolderInput className="h-5 w-5 mr-3 text-accent" />
+                  <span className="font-medium">Move</span>
+                </Button>
             
-            <div className="h-px bg-border/50 my-2" />
+                <div className="h-px bg-border/50 my-2" />
             
-            <Button
-              variant="outline"
-              className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-destructive/10 hover:border-destructive/50 text-destructive hover:text-destructive"
-              onClick={() => handleDrawerAction('delete')}
-            >
-              <Trash2 className="h-5 w-5 mr-3" />
-              <span className="font-medium">Delete {selectedFile?.type === 'dir' ? 'Folder' : 'File'}</span>
-            </Button>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start h-14 text-base bg-[hsl(var(--github-gray-1))] border-border/50 hover:bg-destructive/10 hover:border-destructive/50 text-destructive hover:text-destructive"
+                  onClick={() => handleDrawerAction('delete')}
+                >
+                  <Trash2 className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Delete {selectedFile?.type === 'dir' ? 'Folder' : 'File'}</span>
+                </Button>
+              </>
+            )}
           </div>
 
           <DrawerFooter className="pt-2 pb-6">
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Dialog,
@@ -10,14 +10,23 @@ import {
   VisuallyHidden,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import CodeEditor from "@uiw/react-textarea-code-editor";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
-import { commitMessageSchema, fileContentSchema, validateInput } from "@/lib/input-validation";
+import { fileContentSchema, validateInput } from "@/lib/input-validation";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
+import { PatchDiff, type DiffViewMode } from "@/components/diff/PatchDiff";
+import { ConflictResolver } from "@/components/repository/ConflictResolver";
+import { createPatch } from "@/lib/diff";
+import { countConflicts, mergeThreeWay, resolveMerge, type ConflictResolution, type MergeChunk } from "@/lib/merge";
+import { callFunction } from "@/lib/supabase-functions";
+import { base64ToBytes, decodeText } from "@/lib/import-files";
+import type { StagedChangeInput } from "@/lib/staging";
 
 interface FileEditorModalProps {
   file: { name: string; path: string; sha: string; download_url?: string };
@@ -26,8 +35,22 @@ interface FileEditorModalProps {
   branch: string;
   onClose: () => void;
   onSave: () => void;
+  /** When set, the edit is staged instead of committed */
+  onStage?: (changes: StagedChangeInput[]) => void;
+  /** Content of an edit to this file that is already staged */
+  stagedContent?: string;
 }
 
+type EditorStep = "edit" | "review" | "merge";
+
+interface PendingMerge {
+  chunks: MergeChunk[];
+  remoteContent: string;
+  remoteSha: string;
+}
+
+const CONFLICT_MARKER = /^(<<<<<<< yours|>>>>>>> latest)$/m;
+
 export function FileEditorModal({
   file,
   owner,
@@ -35,10 +58,19 @@ export function FileEditorModal({
   branch,
   onClose,
   onSave,
+  onStage,
+  stagedContent,
 }: FileEditorModalProps) {
   const isMobile = useIsMobile();
   const [content, setContent] = useState("");
-  const [commitMessage, setCommitMessage] = useState(`Update ${file.name}`);
+  // The version the edits are based on; the sha sent with the update must match it
+  const [originalContent, setOriginalContent] = useState("");
+  const [fileSha, setFileSha] = useState(file.sha);
+  const [step, setStep] = useState<EditorStep>("edit");
+  const [diffMode, setDiffMode] = useState<DiffViewMode>("unified");
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [resolutions, setResolutions] = useState<(ConflictResolution | undefined)[]>([]);
+  const [commit, setCommit] = useState(() => createCommitDetails(`Update ${file.name}`));
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   
@@ -112,7 +144,8 @@ export function FileEditorModal({
       }
       
       const text = await response.text();
-      setContent(text);
+      setContent(stagedContent ?? text);
+      setOriginalContent(text);
     } catch (err) {
       console.error('Error fetching file content:', err);
       const { getHumanFriendlyError, extractErrorMessage } = await import('@/lib/error-messages');
@@ -130,9 +163,79 @@ export function FileEditorModal({
     }
   };
 
+  const patch = useMemo(
+    () => (step === "review" ? createPatch(originalContent, content) : ""),
+    [step, originalContent, content]
+  );
+  const conflictCount = pendingMerge ? countConflicts(pendingMerge.chunks) : 0;
+  const unresolvedCount = conflictCount - resolutions.filter(Boolean).length;
+
+  const handleReview = () => {
+    if (CONFLICT_MARKER.test(content)) {
+      toast({
+        title: "Unresolved conflicts",
+        description: "Remove the <<<<<<< and >>>>>>> conflict markers before committing.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setStep("review");
+  };
+
+  /**
+   * Someone else committed to the file since it was opened: merge their version
+   * with the local edits so nothing is lost
+   */
+  const handleConflict = async () => {
+    try {
+      const { contents } = await callFunction<{ contents: { content: string; sha: string } }>('get-repo-contents', {
+        owner,
+        repo,
+        path: file.path,
+        ref: branch,
+      });
+      const remoteContent = decodeText(base64ToBytes(contents.content));
+      if (remoteContent === null) throw new Error("The latest version of this file is not text.");
+
+      const chunks = mergeThreeWay(originalContent, content, remoteContent);
+      setPendingMerge({ chunks, remoteContent, remoteSha: contents.sha });
+      setResolutions([]);
+      setStep("merge");
+      toast({
+        title: "File changed on GitHub",
+        description: countConflicts(chunks) > 0
+          ? "Someone else updated this file. Resolve the conflicting changes to continue."
+          : "Someone else updated this file. Their changes were merged with yours.",
+      });
+    } catch (err) {
+      console.error('Error loading latest version:', err);
+      const { getHumanFriendlyError } = await import('@/lib/error-messages');
+      const friendlyError = getHumanFriendlyError({ status: 409, operation: 'update' });
+      toast({
+        title: friendlyError.title,
+        description: friendlyError.description,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyMerge = (nextStep: EditorStep) => {
+    if (!pendingMerge) return;
+    setContent(resolveMerge(pendingMerge.chunks, resolutions));
+    setOriginalContent(pendingMerge.remoteContent);
+    setFileSha(pendingMerge.remoteSha);
+    setPendingMerge(null);
+    // Unresolved conflicts are left as markers to fix by hand
+    setStep(nextStep);
+  };
+
+  const handleStage = () => {
+    onStage?.([{ type: "upsert", path: file.path, content, base_sha: fileSha, original_content: originalContent }]);
+  };
+
   const handleSave = async () => {
-    // Validate commit message
-    const commitError = validateInput(commitMessageSchema, commitMessage);
+    // Validate commit message and identities
+    const commitError = validateCommitDetails(commit, true);
     if (commitError) {
       toast({
         title: "Invalid commit message",
@@ -162,8 +265,8 @@ export function FileEditorModal({
           repo,
           path: file.path,
           content,
-          sha: file.sha,
-          message: commitMessage,
+          sha: fileSha,
+          ...toCommitFields(commit),
           branch,
           provider_token: session?.provider_token,
         }
@@ -172,8 +275,13 @@ export function FileEditorModal({
       if (error) {
         console.error('Error updating file:', error);
         const { getHumanFriendlyError, extractErrorStatus, extractErrorMessage } = await import('@/lib/error-messages');
+        const status = extractErrorStatus(error);
+        if (status === 409) {
+          await handleConflict();
+          return;
+        }
         const friendlyError = getHumanFriendlyError({
-          status: extractErrorStatus(error),
+          status,
           message: extractErrorMessage(error),
           operation: 'update'
         });
@@ -214,7 +322,9 @@ export function FileEditorModal({
         )}
       >
         <DialogHeader className={isMobile ? "pb-4" : ""}>
-          <DialogTitle>Edit {file.name}</DialogTitle>
+          <DialogTitle>
+            {step === "review" ? "Review changes to" : step === "merge" ? "Merge changes to" : "Edit"} {file.name}
+          </DialogTitle>
           <VisuallyHidden>
             <DialogDescription>Edit file content and commit changes</DialogDescription>
           </VisuallyHidden>
@@ -230,17 +340,61 @@ export function FileEditorModal({
             </div>
           ) : (
             <>
-              <div className="space-y-2">
-                <Label htmlFor="commit-message">Commit Message</Label>
-                <Input
-                  id="commit-message"
-                  value={commitMessage}
-                  onChange={(e) => setCommitMessage(e.target.value)}
-                  placeholder="Update file..."
-                />
-              </div>
+              {step === "review" && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Your changes</Label>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={diffMode}
+                      onValueChange={(value) => value && setDiffMode(value as DiffViewMode)}
+                    >
+                      <ToggleGroupItem value="unified">Unified</ToggleGroupItem>
+                      <ToggleGroupItem value="split">Split</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                  <div className="border rounded-lg overflow-hidden">
+                    {patch ? (
+                      <PatchDiff patch={patch} mode={diffMode} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">No changes to commit</p>
+                    )}
+                  </div>
+                  {/* Staged edits get their message when the staged changes are committed */}
+                  {!onStage && (
+                    <CommitComposer
+                      value={commit}
+                      onChange={setCommit}
+                      placeholder="Update file..."
+                      disabled={isSaving}
+                    />
+                  )}
+                </div>
+              )}
 
-              <div className="space-y-2">
+              {step === "merge" && pendingMerge && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {conflictCount > 0
+                      ? `Your edits and the latest version on GitHub changed the same lines in ${conflictCount} place${conflictCount === 1 ? "" : "s"}. Choose what to keep, or edit the result by hand.`
+                      : "Your edits and the latest version on GitHub were merged without conflicts."}
+                  </p>
+                  <ConflictResolver
+                    chunks={pendingMerge.chunks}
+                    resolutions={resolutions}
+                    onResolve={(index, resolution) =>
+                      setResolutions((prev) => {
+                        const next = [...prev];
+                        next[index] = resolution;
+                        return next;
+                      })
+                    }
+                  />
+                </div>
+              )}
+
+              <div className={cn("space-y-2", step !== "edit" && "hidden")}>
                 <Label htmlFor="file-content">File Content</Label>
                 <div className="code-editor-container">
                   <CodeEditor
@@ -268,22 +422,62 @@ export function FileEditorModal({
         <DialogFooter className={cn(
           isMobile ? "flex-row gap-2 pt-4" : ""
         )}>
-          <Button 
-            variant="outline" 
-            onClick={onClose} 
-            disabled={isSaving}
-            className={isMobile ? "flex-1" : ""}
-          >
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSave} 
-            disabled={isSaving || isLoading}
-            className={isMobile ? "flex-1" : ""}
-          >
-            {isSaving && <Loader2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2 animate-spin" />}
-            Save Changes
-          </Button>
+          {step === "edit" && (
+            <>
+              <Button 
+                variant="outline" 
+                onClick={onClose} 
+                className={isMobile ? "flex-1" : ""}
+              >
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleReview} 
+                disabled={isLoading || content === originalContent}
+                className={isMobile ? "flex-1" : ""}
+              >
+                Review Changes
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button 
+                variant="outline" 
+                onClick={() => setStep("edit")} 
+                disabled={isSaving}
+                className={isMobile ? "flex-1" : ""}
+              >
+                Back to Editing
+              </Button>
+              <Button 
+                onClick={onStage ? handleStage : handleSave} 
+                disabled={isSaving || !patch}
+                className={isMobile ? "flex-1" : ""}
+              >
+                {isSaving && <Loader2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2 animate-spin" />}
+                {onStage ? "Stage Changes" : "Commit Changes"}
+              </Button>
+            </>
+          )}
+          {step === "merge" && (
+            <>
+              <Button 
+                variant="outline" 
+                onClick={() => applyMerge("edit")} 
+                className={isMobile ? "flex-1" : ""}
+              >
+                Edit Result
+              </Button>
+              <Button 
+                onClick={() => applyMerge("review")} 
+                disabled={unresolvedCount > 0}
+                className={isMobile ? "flex-1" : ""}
+              >
+                {unresolvedCount > 0 ? `${unresolvedCount} Unresolved` : "Use Merged Version"}
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
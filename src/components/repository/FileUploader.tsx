@@ -10,12 +10,13 @@ import {
   VisuallyHidden,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Upload, Loader2, X } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { commitMessageSchema, fileContentSchema, validateInput } from "@/lib/input-validation";
+import { fileContentSchema } from "@/lib/input-validation";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
 
 interface FileUploaderProps {
   owner: string;
@@ -35,7 +36,7 @@ export function FileUploader({
   onUploadComplete,
 }: FileUploaderProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [commitMessage, setCommitMessage] = useState("");
+  const [commit, setCommit] = useState(() => createCommitDetails());
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -44,7 +45,7 @@ export function FileUploader({
     if (e.target.files) {
       const filesArray = Array.from(e.target.files);
       setSelectedFiles(filesArray);
-      setCommitMessage(`Upload ${filesArray.length} file${filesArray.length > 1 ? 's' : ''}`);
+      setCommit((prev) => ({ ...prev, message: `Upload ${filesArray.length} file${filesArray.length > 1 ? 's' : ''}` }));
     }
   };
 
@@ -53,7 +54,7 @@ export function FileUploader({
     if (e.dataTransfer.files) {
       const filesArray = Array.from(e.dataTransfer.files);
       setSelectedFiles(filesArray);
-      setCommitMessage(`Upload ${filesArray.length} file${filesArray.length > 1 ? 's' : ''}`);
+      setCommit((prev) => ({ ...prev, message: `Upload ${filesArray.length} file${filesArray.length > 1 ? 's' : ''}` }));
     }
   };
 
@@ -68,8 +69,8 @@ export function FileUploader({
   const handleUpload = async () => {
     if (selectedFiles.length === 0) return;
 
-    // Validate commit message
-    const commitError = validateInput(commitMessageSchema, commitMessage);
+    // Validate commit message and identities
+    const commitError = validateCommitDetails(commit, true);
     if (commitError) {
       toast({
         title: "Invalid commit message",
@@ -115,7 +116,7 @@ export function FileUploader({
           repo,
           files: filesData,
           branch,
-          message: commitMessage,
+          ...toCommitFields(commit),
           provider_token: session?.provider_token,
         }
       });
@@ -251,17 +252,12 @@ export function FileUploader({
             </div>
           )}
 
-          <div className="space-y-2.5">
-            <Label htmlFor="commit-message" className="text-sm font-semibold">Commit Message</Label>
-            <Input
-              id="commit-message"
-              value={commitMessage}
-              onChange={(e) => setCommitMessage(e.target.value)}
-              placeholder="Upload files..."
-              disabled={isUploading}
-              className="h-11 md:h-10 text-base md:text-sm"
-            />
-          </div>
+          <CommitComposer
+            value={commit}
+            onChange={setCommit}
+            placeholder="Upload files..."
+            disabled={isUploading}
+          />
 
           {isUploading && (
             <div className="space-y-2.5 bg-muted/30 p-4 rounded-lg">
@@ -11,12 +11,14 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Pencil, Download, Trash2, Loader2, FileText, Eye } from "lucide-react";
+import { Pencil, Download, Trash2, Loader2, FileText, Eye, History, ScanLine } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import ReactMarkdown from "react-markdown";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
 import remarkGfm from "remark-gfm";
+import { CommitHistory } from "@/components/repository/CommitHistory";
+import { BlameView } from "@/components/repository/BlameView";
 
 interface FileViewerModalProps {
   file: { name: string; path: string; sha: string; download_url?: string };
@@ -27,6 +29,9 @@ interface FileViewerModalProps {
   onEdit: () => void;
   onDelete: () => void;
   onDownload: () => void;
+  onSelectCommit: (sha: string) => void;
+  /** Hides editing and deleting, for users without write access */
+  readOnly?: boolean;
 }
 
 export function FileViewerModal({
@@ -38,7 +43,10 @@ export function FileViewerModal({
   onEdit,
   onDelete,
   onDownload,
+  onSelectCommit,
+  readOnly = false,
 }: FileViewerModalProps) {
+  const [panel, setPanel] = useState<"content" | "history" | "blame">("content");
   const [content, setContent] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [fileType, setFileType] = useState<"text" | "image" | "pdf" | "markdown" | "binary">("text");
@@ -186,11 +194,33 @@ export function FileViewerModal({
             <DialogDescription>View and manage file content</DialogDescription>
           </VisuallyHidden>
         </DialogHeader>
-        <div className="flex-1 overflow-auto">{renderContent()}</div>
+        <Tabs value={panel} onValueChange={(value) => setPanel(value as typeof panel)} className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="content"><FileText className="h-4 w-4 mr-2" />File</TabsTrigger>
+            <TabsTrigger value="history"><History className="h-4 w-4 mr-2" />History</TabsTrigger>
+            {(fileType === "text" || fileType === "markdown") && (
+              <TabsTrigger value="blame"><ScanLine className="h-4 w-4 mr-2" />Blame</TabsTrigger>
+            )}
+          </TabsList>
+          <TabsContent value="content" className="flex-1 overflow-auto">{renderContent()}</TabsContent>
+          <TabsContent value="history" className="flex-1 overflow-auto">
+            <CommitHistory owner={owner} repo={repo} branch={branch} path={file.path} onSelectCommit={onSelectCommit} />
+          </TabsContent>
+          <TabsContent value="blame" className="flex-1 overflow-auto">
+            <BlameView
+              owner={owner}
+              repo={repo}
+              branch={branch}
+              path={file.path}
+              content={content}
+              onSelectCommit={onSelectCommit}
+            />
+          </TabsContent>
+        </Tabs>
         <DialogFooter className="flex gap-2">
           <Button variant="outline" size="sm" onClick={onDownload}><Download className="h-6 w-6 sm:h-5 sm:w-5 mr-2" />Download</Button>
-          {fileType === "text" && <Button variant="outline" size="sm" onClick={onEdit}><Pencil className="h-6 w-6 sm:h-5 sm:w-5 mr-2" />Edit</Button>}
-          <Button variant="outline" size="sm" onClick={onDelete} className="text-destructive"><Trash2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2" />Delete</Button>
+          {fileType === "text" && !readOnly && <Button variant="outline" size="sm" onClick={onEdit}><Pencil className="h-6 w-6 sm:h-5 sm:w-5 mr-2" />Edit</Button>}
+          {!readOnly && <Button variant="outline" size="sm" onClick={onDelete} className="text-destructive"><Trash2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2" />Delete</Button>}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { revertCommit, restoreFromCommit, type HistoryWriteResult } from "@/lib/commits";
+
+export interface HistoryAction {
+  mode: "revert" | "restore";
+  sha: string;
+  /** First line of the commit message, for the confirmation text */
+  title: string;
+  /** File or folder to restore; empty for the whole repository */
+  path?: string;
+}
+
+interface HistoryActionDialogProps {
+  action: HistoryAction;
+  owner: string;
+  repo: string;
+  branch: string;
+  onClose: () => void;
+  onDone: (result: HistoryWriteResult) => void;
+}
+
+export function HistoryActionDialog({ action, owner, repo, branch, onClose, onDone }: HistoryActionDialogProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const shortSha = action.sha.slice(0, 7);
+  const target = action.path || "the whole repository";
+
+  const handleConfirm = async () => {
+    setIsRunning(true);
+    try {
+      const result = action.mode === "revert"
+        ? await revertCommit({ owner, repo }, branch, action.sha)
+        : await restoreFromCommit({ owner, repo }, branch, action.sha, action.path ?? "");
+
+      if (result.files_changed === 0) {
+        toast({
+          title: "Nothing to change",
+          description: action.mode === "revert"
+            ? "This commit's changes are no longer on the branch."
+            : `${target} already matches ${shortSha}.`,
+        });
+        onClose();
+        return;
+      }
+      onDone(result);
+    } catch (error) {
+      console.error(`Error running ${action.mode}:`, error);
+      toast({
+        variant: "destructive",
+        title: action.mode === "revert" ? "Revert failed" : "Restore failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !isRunning && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {action.mode === "revert" ? `Revert commit ${shortSha}?` : `Restore ${target}?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action.mode === "revert" ? (
+              <>
+                Adds a new commit to <strong>{branch}</strong> that undoes the changes made by "{action.title}".
+                Files changed again since then are left alone and the revert is refused.
+              </>
+            ) : (
+              <>
+                Adds a new commit to <strong>{branch}</strong> that makes <strong>{target}</strong> match
+                commit {shortSha} ("{action.title}"). Files added since then are removed.
+              </>
+            )}
+            <span className="block mt-2">History is kept, so this can be undone.</span>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isRunning}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isRunning}>
+            {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {action.mode === "revert" ? "Revert" : "Restore"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -13,6 +13,10 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { showUndoToast } from "@/lib/undo-toast";
+import type { StagedChangeInput } from "@/lib/staging";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
 
 interface FileItem {
   name: string;
@@ -29,6 +33,8 @@ interface MoveItemsDialogProps {
   currentPath: string;
   onClose: () => void;
   onMove: () => void;
+  /** When set, the moves are staged instead of committed */
+  onStage?: (changes: StagedChangeInput[]) => void;
 }
 
 export function MoveItemsDialog({
@@ -39,11 +45,13 @@ export function MoveItemsDialog({
   currentPath,
   onClose,
   onMove,
+  onStage,
 }: MoveItemsDialogProps) {
   const [destination, setDestination] = useState("");
   const [folders, setFolders] = useState<string[]>([]);
   const [isMoving, setIsMoving] = useState(false);
   const [isLoadingFolders, setIsLoadingFolders] = useState(true);
+  const [commit, setCommit] = useState(() => createCommitDetails());
 
   const fetchFolders = useCallback(async () => {
     try {
@@ -120,6 +128,26 @@ export function MoveItemsDialog({
       return;
     }
 
+    if (onStage) {
+      onStage(files.map((f) => ({
+        type: "move",
+        from: f.path,
+        to: resolvedDest ? `${resolvedDest}/${f.name}` : f.name,
+        itemType: f.type,
+      })));
+      return;
+    }
+
+    const commitError = validateCommitDetails(commit);
+    if (commitError) {
+      toast({
+        title: "Invalid commit details",
+        description: commitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsMoving(true);
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -130,6 +158,7 @@ export function MoveItemsDialog({
           files: files.map(f => ({ path: f.path, sha: f.sha, type: f.type })),
           destination: resolvedDest,
           branch,
+          ...toCommitFields(commit),
           provider_token: session?.provider_token,
         }
       });
@@ -149,9 +178,13 @@ export function MoveItemsDialog({
       
       onMove();
       onClose();
-      toast({
+      showUndoToast({
         title: "Moved ✓",
         description: `${moved} item${moved > 1 ? 's' : ''} moved${skipped > 0 ? `, ${skipped} skipped` : ''}`,
+        location: { owner, repo },
+        branch,
+        range: data,
+        onUndone: onMove,
       });
     } catch (err) {
       console.error('Exception moving items:', err);
@@ -216,6 +249,15 @@ export function MoveItemsDialog({
               </Select>
             )}
           </div>
+          {/* Staged moves get their message when the staged changes are committed */}
+          {!onStage && (
+            <CommitComposer
+              value={commit}
+              onChange={setCommit}
+              placeholder={files.length === 1 ? `Move ${files[0].name}` : `Move ${files.length} items`}
+              disabled={isMoving}
+            />
+          )}
         </div>
         <DialogFooter className="gap-3 sm:gap-2">
           <Button 
@@ -232,7 +274,7 @@ export function MoveItemsDialog({
             className="h-12 md:h-10 text-base md:text-sm min-w-[100px] touch-manipulation"
           >
             {isMoving && <Loader2 className="h-6 w-6 sm:h-5 sm:w-5 mr-2 animate-spin" />}
-            Move
+            {onStage ? "Stage Move" : "Move"}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -13,7 +13,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { showUndoToast } from "@/lib/undo-toast";
+import type { StagedChangeInput } from "@/lib/staging";
 import { fileNameSchema, folderNameSchema, validateInput } from "@/lib/input-validation";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
+import { readFunctionErrorMessage } from "@/lib/supabase-functions";
 
 interface RenameItemDialogProps {
   file: { name: string; path: string; sha: string; type: "file" | "dir" };
@@ -23,6 +28,8 @@ interface RenameItemDialogProps {
   currentPath: string;
   onClose: () => void;
   onRename: () => void;
+  /** When set, the rename is staged instead of committed */
+  onStage?: (changes: StagedChangeInput[]) => void;
 }
 
 export function RenameItemDialog({
@@ -33,9 +40,11 @@ export function RenameItemDialog({
   currentPath,
   onClose,
   onRename,
+  onStage,
 }: RenameItemDialogProps) {
   const [newName, setNewName] = useState(file.name);
   const [isRenaming, setIsRenaming] = useState(false);
+  const [commit, setCommit] = useState(() => createCommitDetails());
 
   const handleRename = async () => {
     // Check if name actually changed
@@ -60,6 +69,14 @@ export function RenameItemDialog({
       return;
     }
 
+    const newPath = currentPath ? `${currentPath}/${newName}` : newName;
+
+    // Staged renames are applied to the whole tree at once, so folders work too
+    if (onStage) {
+      onStage([{ type: "move", from: file.path, to: newPath, itemType: file.type }]);
+      return;
+    }
+
     if (file.type === "dir") {
       toast({
         title: "Cannot rename folders",
@@ -69,12 +86,20 @@ export function RenameItemDialog({
       return;
     }
 
+    const commitError = validateCommitDetails(commit);
+    if (commitError) {
+      toast({
+        title: "Invalid commit details",
+        description: commitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsRenaming(true);
     try {
-      const newPath = currentPath ? `${currentPath}/${newName}` : newName;
-      
       const { data: { session } } = await supabase.auth.getSession();
-      const { error } = await supabase.functions.invoke('rename-file', {
+      const { data, error } = await supabase.functions.invoke('rename-file', {
         body: {
           owner,
           repo,
@@ -82,6 +107,7 @@ export function RenameItemDialog({
           new_path: newPath,
           sha: file.sha,
           branch,
+          ...toCommitFields(commit),
           provider_token: session?.provider_token,
         }
       });
@@ -90,16 +116,21 @@ export function RenameItemDialog({
         console.error('Error renaming item:', error);
         toast({
           title: "Rename failed",
-          description: "Could not rename the item. Please try again.",
+          // e.g. the file changed on the branch or the new name is taken
+          description: (await readFunctionErrorMessage(error)) ?? "Could not rename the item. Please try again.",
           variant: "destructive",
         });
         return;
       }
 
       onRename();
-      toast({
+      showUndoToast({
         title: "Renamed ✓",
         description: `${file.name} renamed to ${newName}.`,
+        location: { owner, repo },
+        branch,
+        range: data,
+        onUndone: onRename,
       });
     } catch (err) {
       console.error('Exception renaming item:', err);
@@ -135,6 +166,14 @@ export function RenameItemDialog({
               autoFocus
             />
           </div>
+          {!onStage && file.type === "file" && (
+            <CommitComposer
+              value={commit}
+              onChange={setCommit}
+              placeholder={`Rename ${file.name} to ${newName || "..."}`}
+              disabled={isRenaming}
+            />
+          )}
         </div>
         <DialogFooter className="gap-3 sm:gap-2">
           <Button 
@@ -151,7 +190,7 @@ export function RenameItemDialog({
             className="h-12 md:h-10 text-base md:text-sm min-w-[100px] touch-manipulation"
           >
             {isRenaming && <Loader2 className="h-5 w-5 md:h-4 md:w-4 mr-2 animate-spin" />}
-            Rename
+            {onStage ? "Stage Rename" : "Rename"}
           </Button>
         </DialogFooter>
       </DialogContent>
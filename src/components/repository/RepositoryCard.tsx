@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   GitBranch, 
   ExternalLink, 
@@ -13,10 +14,12 @@ import {
   Lock,
   Globe,
   GitFork,
-  Eye
+  Eye,
+  BarChart3
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { hasRepositoryRole, type RepositoryPermissions } from "@/lib/repositories";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -50,20 +53,28 @@ interface Repository {
   size: number;
   language: string | null;
   default_branch: string;
+  archived?: boolean;
+  topics?: string[];
+  permissions?: RepositoryPermissions;
 }
 
 interface RepositoryCardProps {
   repo: Repository;
   onUpdate: () => void;
   onSettings: (repo: Repository) => void;
+  /** Shows a selection checkbox for bulk actions when set */
+  onSelectedChange?: (selected: boolean) => void;
+  selected?: boolean;
 }
 
-export const RepositoryCard = ({ repo, onUpdate, onSettings }: RepositoryCardProps) => {
+export const RepositoryCard = ({ repo, onUpdate, onSettings, onSelectedChange, selected = false }: RepositoryCardProps) => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isStarred, setIsStarred] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  // Settings and deletion need admin access on organization and collaborator repositories
+  const isAdmin = hasRepositoryRole(repo.permissions, "admin");
 
   const handleCopyCloneUrl = async () => {
     await navigator.clipboard.writeText(repo.clone_url);
@@ -141,16 +152,27 @@ export const RepositoryCard = ({ repo, onUpdate, onSettings }: RepositoryCardPro
 
   return (
     <>
-      <Card className="shadow-elevated gradient-card hover:shadow-glow transition-smooth group">
+      <Card className={`shadow-elevated gradient-card hover:shadow-glow transition-smooth group ${selected ? 'ring-2 ring-primary' : ''}`}>
         <CardHeader className="p-4 sm:p-6">
           <div className="flex items-start justify-between gap-2">
             <div className="flex items-center gap-2">
+              {onSelectedChange && (
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                  aria-label={`Select ${repo.full_name}`}
+                  className="h-5 w-5 touch-manipulation"
+                />
+              )}
               <GitBranch className="h-4 w-4 sm:h-5 sm:w-5 text-primary shrink-0" />
               {repo.private ? (
                 <Lock className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground shrink-0" />
               ) : (
                 <Globe className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground shrink-0" />
               )}
+              {repo.archived && (
+                <Badge variant="secondary" className="text-xs">Archived</Badge>
+              )}
             </div>
             <div className="flex items-center gap-0.5 sm:gap-1 shrink-0">
               <Button
@@ -168,10 +190,14 @@ export const RepositoryCard = ({ repo, onUpdate, onSettings }: RepositoryCardPro
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-48">
-                  <DropdownMenuItem onClick={() => onSettings(repo)}>
+                  <DropdownMenuItem onClick={() => onSettings(repo)} disabled={!isAdmin}>
                     <Settings className="h-4 w-4 mr-2" />
                     Settings
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate(`/repository/${repo.full_name.replace('/', '--')}/insights`)}>
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Insights
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleCopyCloneUrl}>
                     <Copy className="h-4 w-4 mr-2" />
                     Copy clone URL
@@ -182,14 +208,18 @@ export const RepositoryCard = ({ repo, onUpdate, onSettings }: RepositoryCardPro
                       View on GitHub
                     </a>
                   </DropdownMenuItem>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem 
-                    onClick={() => setShowDeleteDialog(true)}
-                    className="text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete
-                  </DropdownMenuItem>
+                  {isAdmin && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem 
+                        onClick={() => setShowDeleteDialog(true)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, Users } from "lucide-react";
+import {
+  REPOSITORY_AFFILIATIONS,
+  type GitHubOrganization,
+  type RepositoryAffiliation,
+} from "@/lib/repositories";
+
+/** Everything the user can see, the user's own repositories, or one organization's */
+export type OwnerFilterValue = "all" | "own" | `org:${string}`;
+
+interface RepositoryOwnerFilterProps {
+  owner: OwnerFilterValue;
+  onOwnerChange: (owner: OwnerFilterValue) => void;
+  organizations: GitHubOrganization[];
+  /** Empty means every affiliation */
+  affiliations: RepositoryAffiliation[];
+  onAffiliationsChange: (affiliations: RepositoryAffiliation[]) => void;
+  disabled?: boolean;
+}
+
+export const RepositoryOwnerFilter = ({
+  owner,
+  onOwnerChange,
+  organizations,
+  affiliations,
+  onAffiliationsChange,
+  disabled,
+}: RepositoryOwnerFilterProps) => {
+  const toggleAffiliation = (affiliation: RepositoryAffiliation, checked: boolean) => {
+    const current = affiliations.length === 0 ? REPOSITORY_AFFILIATIONS.map((a) => a.value) : affiliations;
+    const next = checked ? [...current, affiliation] : current.filter((a) => a !== affiliation);
+    // All three checked is the same as no filter
+    onAffiliationsChange(next.length === REPOSITORY_AFFILIATIONS.length ? [] : next);
+  };
+
+  const isChecked = (affiliation: RepositoryAffiliation) =>
+    affiliations.length === 0 || affiliations.includes(affiliation);
+
+  return (
+    <div className="flex gap-3 md:gap-2 w-full">
+      <Select value={owner} onValueChange={(value) => onOwnerChange(value as OwnerFilterValue)} disabled={disabled}>
+        <SelectTrigger className="flex-1 md:w-[220px] md:flex-none h-12 md:h-10 text-base md:text-sm touch-manipulation">
+          <SelectValue placeholder="Owner" />
+        </SelectTrigger>
+        <SelectContent className="max-h-[300px]">
+          <SelectItem value="all" className="text-base md:text-sm py-3 md:py-2">All repositories</SelectItem>
+          <SelectItem value="own" className="text-base md:text-sm py-3 md:py-2">My repositories</SelectItem>
+          {organizations.map((org) => (
+            <SelectItem key={org.login} value={`org:${org.login}`} className="text-base md:text-sm py-3 md:py-2">
+              <span className="flex items-center gap-2">
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={org.avatar_url} alt={org.login} />
+                  <AvatarFallback>{org.login.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                {org.login}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {owner === "all" && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              className="flex-1 md:flex-none h-12 md:h-10 text-base md:text-sm touch-manipulation"
+              disabled={disabled}
+            >
+              <Users className="h-4 w-4 mr-2" />
+              {affiliations.length === 0 ? "Any affiliation" : `${affiliations.length} of ${REPOSITORY_AFFILIATIONS.length} affiliations`}
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>My role</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {REPOSITORY_AFFILIATIONS.map(({ value, label }) => (
+              <DropdownMenuCheckboxItem
+                key={value}
+                checked={isChecked(value)}
+                onCheckedChange={(checked) => toggleAffiliation(value, checked === true)}
+                // The last checked affiliation stays checked
+                disabled={isChecked(value) && affiliations.length === 1}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+};
@@ -16,10 +16,21 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { AlertTriangle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, Archive, GitFork, Lock } from "lucide-react";
+import { CollaboratorsSection } from "@/components/repository/CollaboratorsSection";
+import { WebhooksSection } from "@/components/repository/WebhooksSection";
+import { ActionsSecretsSection } from "@/components/repository/ActionsSecretsSection";
+import { BranchProtectionEditor } from "@/components/repository/BranchProtectionEditor";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { branchNameSchema, validateInput } from "@/lib/input-validation";
+import {
+  forkRepository,
+  setRepositoryArchived,
+  transferRepository,
+  type GitHubOrganization,
+} from "@/lib/repositories";
 
 const repoSettingsSchema = z.object({
   description: z.string().max(350, "Description must be less than 350 characters").optional(),
@@ -39,6 +50,7 @@ interface Repository {
   private: boolean;
   default_branch?: string;
   topics?: string[];
+  archived?: boolean;
 }
 
 interface RepositorySettingsDialogProps {
@@ -46,19 +58,26 @@ interface RepositorySettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onUpdate: () => void;
+  /** Offered as fork destinations besides the user's own account */
+  organizations?: GitHubOrganization[];
 }
 
+const OWNER_NAME_PATTERN = /^[a-zA-Z0-9-]+$/;
+const REPO_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/;
+
 export const RepositorySettingsDialog = ({
   repo,
   open,
   onOpenChange,
   onUpdate,
+  organizations = [],
 }: RepositorySettingsDialogProps) => {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDangerZone, setShowDangerZone] = useState(false);
   const [branches, setBranches] = useState<string[]>([]);
+  const [protectedBranches, setProtectedBranches] = useState<string[]>([]);
   const [isFetchingBranches, setIsFetchingBranches] = useState(false);
   const [showRenameBranch, setShowRenameBranch] = useState(false);
   const [selectedBranchToRename, setSelectedBranchToRename] = useState("");
@@ -68,6 +87,18 @@ export const RepositorySettingsDialog = ({
   const [selectedBranchToDelete, setSelectedBranchToDelete] = useState("");
   const [isDeletingBranch, setIsDeletingBranch] = useState(false);
   const [confirmBranchName, setConfirmBranchName] = useState("");
+  const [showArchive, setShowArchive] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [transferOwner, setTransferOwner] = useState("");
+  const [transferName, setTransferName] = useState("");
+  const [confirmTransferName, setConfirmTransferName] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+  // Empty forks into the user's own account
+  const [forkOrganization, setForkOrganization] = useState("");
+  const [forkName, setForkName] = useState("");
+  const [forkDefaultBranchOnly, setForkDefaultBranchOnly] = useState(false);
+  const [isForking, setIsForking] = useState(false);
 
   const { register, handleSubmit, formState: { errors }, watch, setValue } = useForm<RepoSettingsForm>({
     resolver: zodResolver(repoSettingsSchema),
@@ -91,12 +122,21 @@ export const RepositorySettingsDialog = ({
     if (repo && open) {
       // Reset state when dialog opens
       setBranches([]);
+      setProtectedBranches([]);
       setShowRenameBranch(false);
       setShowDeleteBranch(false);
       setSelectedBranchToRename("");
       setSelectedBranchToDelete("");
       setNewBranchName("");
       setConfirmBranchName("");
+      setShowArchive(false);
+      setShowTransfer(false);
+      setTransferOwner("");
+      setTransferName("");
+      setConfirmTransferName("");
+      setForkOrganization("");
+      setForkName("");
+      setForkDefaultBranchOnly(false);
       fetchBranches();
     }
   }, [repo, open]);
@@ -122,6 +162,7 @@ export const RepositorySettingsDialog = ({
       const { data, error } = await supabase.functions.invoke('get-repo-branches', {
         body: { 
           repositoryName: repoName,
+          owner,
           provider_token: session.provider_token,
         }
       });
@@ -150,6 +191,9 @@ export const RepositorySettingsDialog = ({
         const branchNames = data.branches.map((b: any) => b.name);
         console.log('Fetched branches:', branchNames);
         setBranches(branchNames);
+        setProtectedBranches(
+          (data.branches as { name: string; protected: boolean }[]).filter((b) => b.protected).map((b) => b.name)
+        );
       } else {
         console.error('Unexpected response format:', data);
         setBranches([]);
@@ -342,6 +386,114 @@ export const RepositorySettingsDialog = ({
     }
   };
 
+  const handleArchive = async () => {
+    if (!repo) return;
+
+    const archived = !repo.archived;
+    setIsArchiving(true);
+    try {
+      const [owner, repoName] = repo.full_name.split('/');
+      await setRepositoryArchived(owner, repoName, archived);
+
+      toast({
+        title: archived ? "Repository archived" : "Repository unarchived",
+        description: archived
+          ? `${repo.name} is now read-only`
+          : `${repo.name} can be written to again`,
+      });
+
+      onUpdate();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${archived ? "archive" : "unarchive"} repository`,
+      });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!repo || confirmTransferName !== repo.full_name) return;
+
+    const newOwner = transferOwner.trim();
+    const newName = transferName.trim();
+    if (!OWNER_NAME_PATTERN.test(newOwner) || (newName && !REPO_NAME_PATTERN.test(newName))) {
+      toast({
+        variant: "destructive",
+        title: "Invalid transfer target",
+        description: "Check the new owner and repository name",
+      });
+      return;
+    }
+
+    setIsTransferring(true);
+    try {
+      const [owner, repoName] = repo.full_name.split('/');
+      const result = await transferRepository(owner, repoName, newOwner, newName);
+
+      toast({
+        title: result.pending ? "Transfer requested" : "Repository transferred",
+        description: result.pending
+          ? `${newOwner} must accept the transfer from the email GitHub sends them`
+          : `${repo.name} now belongs to ${newOwner}`,
+      });
+
+      onUpdate();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to transfer repository",
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleFork = async () => {
+    if (!repo) return;
+
+    const name = forkName.trim();
+    if (name && !REPO_NAME_PATTERN.test(name)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid repository name",
+        description: "Use only letters, numbers, dots, underscores and hyphens",
+      });
+      return;
+    }
+
+    setIsForking(true);
+    try {
+      const [owner, repoName] = repo.full_name.split('/');
+      const { repository } = await forkRepository(owner, repoName, {
+        organization: forkOrganization || undefined,
+        name,
+        defaultBranchOnly: forkDefaultBranchOnly,
+      });
+
+      toast({
+        title: "Fork created",
+        description: `${repository.full_name} is being created and may take a few minutes to fill in`,
+      });
+
+      onUpdate();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fork repository",
+      });
+    } finally {
+      setIsForking(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] flex flex-col p-0">
@@ -354,7 +506,13 @@ export const RepositorySettingsDialog = ({
         
         <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col flex-1 min-h-0">
           <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-6 pb-24 md:pb-6 space-y-4">
-            
+            {repo?.archived && (
+              <div className="flex items-start gap-2 p-3 rounded-lg border bg-muted/50 text-sm">
+                <Archive className="h-4 w-4 shrink-0 mt-0.5 text-muted-foreground" />
+                <p>This repository is archived and read-only. Unarchive it below to change its settings.</p>
+              </div>
+            )}
+
             {/* Basic Information Section */}
             <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
               <h3 className="font-semibold text-sm sm:text-base">Basic Information</h3>
@@ -451,7 +609,10 @@ export const RepositorySettingsDialog = ({
                         <SelectContent>
                           {branches.map((branch) => (
                             <SelectItem key={branch} value={branch}>
-                              {branch}
+                              <span className="flex items-center gap-2">
+                                {branch}
+                                {protectedBranches.includes(branch) && <Lock className="h-3 w-3 text-muted-foreground" />}
+                              </span>
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -460,6 +621,15 @@ export const RepositorySettingsDialog = ({
                     
                     {selectedBranchToRename && (
                       <div className="space-y-2">
+                        {protectedBranches.includes(selectedBranchToRename) && (
+                          <div className="flex items-start gap-2 p-3 rounded-md border border-yellow-500/30 bg-yellow-500/10 text-sm">
+                            <Lock className="h-4 w-4 shrink-0 mt-0.5 text-yellow-600" />
+                            <p>
+                              <strong>{selectedBranchToRename}</strong> is protected. Its protection rules move to the new name,
+                              and anything pushing to the old name will start failing.
+                            </p>
+                          </div>
+                        )}
                         <Label htmlFor="new_branch_name">New Branch Name</Label>
                         <Input
                           id="new_branch_name"
@@ -483,6 +653,19 @@ export const RepositorySettingsDialog = ({
               </div>
             </section>
 
+            {/* Branch Protection Section */}
+            <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
+              {repo && open && (
+                <BranchProtectionEditor
+                  owner={repo.full_name.split('/')[0]}
+                  repo={repo.name}
+                  branches={branches}
+                  defaultBranch={repo.default_branch}
+                  onChanged={fetchBranches}
+                />
+              )}
+            </section>
+
             {/* Repository Access Section */}
             <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
               <h3 className="font-semibold text-sm sm:text-base">Repository Access</h3>
@@ -503,6 +686,79 @@ export const RepositorySettingsDialog = ({
               </div>
             </section>
 
+            {/* Collaborators Section */}
+            {repo && open && (
+              <CollaboratorsSection owner={repo.full_name.split('/')[0]} repo={repo.name} />
+            )}
+
+            {/* Webhooks Section */}
+            {repo && open && (
+              <WebhooksSection owner={repo.full_name.split('/')[0]} repo={repo.name} />
+            )}
+
+            {/* Secrets & Variables Section */}
+            {repo && open && (
+              <ActionsSecretsSection owner={repo.full_name.split('/')[0]} repo={repo.name} />
+            )}
+
+            {/* Fork Section */}
+            <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
+              <h3 className="font-semibold text-sm sm:text-base">Fork</h3>
+
+              <div className="space-y-2">
+                <Label htmlFor="fork_owner">Fork into</Label>
+                <Select
+                  value={forkOrganization || "__self"}
+                  onValueChange={(value) => setForkOrganization(value === "__self" ? "" : value)}
+                >
+                  <SelectTrigger id="fork_owner" className="min-h-[48px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__self">My account</SelectItem>
+                    {organizations.map((org) => (
+                      <SelectItem key={org.login} value={org.login}>
+                        {org.login}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fork_name">Fork name</Label>
+                <Input
+                  id="fork_name"
+                  placeholder={repo?.name}
+                  className="min-h-[48px]"
+                  value={forkName}
+                  onChange={(e) => setForkName(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="fork_default_branch_only"
+                  checked={forkDefaultBranchOnly}
+                  onCheckedChange={(checked) => setForkDefaultBranchOnly(checked === true)}
+                />
+                <Label htmlFor="fork_default_branch_only" className="font-normal cursor-pointer">
+                  Copy only the {repo?.default_branch || "default"} branch
+                </Label>
+              </div>
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full min-h-[48px]"
+                onClick={handleFork}
+                disabled={isForking}
+              >
+                <GitFork className="h-4 w-4 mr-2" />
+                {isForking ? "Forking..." : "Create Fork"}
+              </Button>
+            </section>
+
             {/* Danger Zone Section */}
             <section className="space-y-3 p-3 sm:p-4 rounded-lg border-2 border-destructive/30 bg-destructive/5">
               <div className="flex items-center gap-2">
@@ -554,7 +810,10 @@ export const RepositorySettingsDialog = ({
                                 .filter(branch => branch !== repo?.default_branch)
                                 .map((branch) => (
                                   <SelectItem key={branch} value={branch}>
-                                    {branch}
+                                    <span className="flex items-center gap-2">
+                                      {branch}
+                                      {protectedBranches.includes(branch) && <Lock className="h-3 w-3 text-muted-foreground" />}
+                                    </span>
                                   </SelectItem>
                                 ))
                             )}
@@ -564,6 +823,15 @@ export const RepositorySettingsDialog = ({
 
                       {selectedBranchToDelete && (
                         <div className="space-y-2">
+                          {protectedBranches.includes(selectedBranchToDelete) && (
+                            <div className="flex items-start gap-2 p-3 rounded-md border border-yellow-500/30 bg-yellow-500/10 text-sm">
+                              <Lock className="h-4 w-4 shrink-0 mt-0.5 text-yellow-600" />
+                              <p>
+                                <strong>{selectedBranchToDelete}</strong> is protected. GitHub refuses to delete it
+                                unless its protection allows deletions or is removed first.
+                              </p>
+                            </div>
+                          )}
                           <p className="text-sm font-medium">
                             Type <code className="px-1.5 py-0.5 bg-muted rounded text-xs">{selectedBranchToDelete}</code> to confirm:
                           </p>
@@ -590,6 +858,114 @@ export const RepositorySettingsDialog = ({
 
                 <Separator className="bg-destructive/20" />
 
+                {/* Transfer Ownership */}
+                <div className="space-y-3">
+                  <div>
+                    <h4 className="font-medium text-sm">Transfer ownership</h4>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Move this repository to another user or to an organization where you can create repositories.
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full min-h-[48px] border-destructive/50 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                    onClick={() => setShowTransfer(!showTransfer)}
+                  >
+                    {showTransfer ? "Cancel" : "Transfer"}
+                  </Button>
+
+                  {showTransfer && (
+                    <div className="space-y-3 p-4 border border-destructive/30 rounded-lg bg-background">
+                      <div className="space-y-2">
+                        <Label htmlFor="transfer_owner">New owner</Label>
+                        <Input
+                          id="transfer_owner"
+                          placeholder="Username or organization"
+                          className="min-h-[48px]"
+                          value={transferOwner}
+                          onChange={(e) => setTransferOwner(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="transfer_name">New repository name (optional)</Label>
+                        <Input
+                          id="transfer_name"
+                          placeholder={repo?.name}
+                          className="min-h-[48px]"
+                          value={transferName}
+                          onChange={(e) => setTransferName(e.target.value)}
+                        />
+                      </div>
+                      <p className="text-sm font-medium">
+                        Type <code className="px-1.5 py-0.5 bg-muted rounded text-xs">{repo?.full_name}</code> to confirm:
+                      </p>
+                      <Input
+                        placeholder={repo?.full_name}
+                        value={confirmTransferName}
+                        className="min-h-[48px]"
+                        onChange={(e) => setConfirmTransferName(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        className="w-full min-h-[48px]"
+                        onClick={handleTransfer}
+                        disabled={!transferOwner.trim() || confirmTransferName !== repo?.full_name || isTransferring}
+                      >
+                        {isTransferring ? "Transferring..." : "I understand, transfer this repository"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <Separator className="bg-destructive/20" />
+
+                {/* Archive Repository */}
+                <div className="space-y-3">
+                  <div>
+                    <h4 className="font-medium text-sm">
+                      {repo?.archived ? "Unarchive this repository" : "Archive this repository"}
+                    </h4>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {repo?.archived
+                        ? "Make the repository writable again."
+                        : "Mark the repository as read-only. Nobody can push, edit files or change settings until it is unarchived."}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full min-h-[48px] border-destructive/50 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                    onClick={() => setShowArchive(!showArchive)}
+                  >
+                    {showArchive ? "Cancel" : repo?.archived ? "Unarchive" : "Archive"}
+                  </Button>
+
+                  {showArchive && (
+                    <div className="space-y-3 p-4 border border-destructive/30 rounded-lg bg-background">
+                      <p className="text-sm">
+                        {repo?.archived
+                          ? <>Unarchive <strong>{repo?.name}</strong>?</>
+                          : <>Archive <strong>{repo?.name}</strong>? It can be unarchived later.</>}
+                      </p>
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        className="w-full min-h-[48px]"
+                        onClick={handleArchive}
+                        disabled={isArchiving}
+                      >
+                        {isArchiving
+                          ? repo?.archived ? "Unarchiving..." : "Archiving..."
+                          : repo?.archived ? "Unarchive this repository" : "Archive this repository"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <Separator className="bg-destructive/20" />
+
                 {/* Delete Repository */}
                 <div className="space-y-3">
                   <div>
@@ -652,7 +1028,7 @@ export const RepositorySettingsDialog = ({
               </Button>
               <Button 
                 type="submit" 
-                disabled={isSaving}
+                disabled={isSaving || repo?.archived}
                 className="flex-1 sm:flex-none sm:w-auto min-h-[48px] font-semibold"
               >
                 {isSaving ? "Saving..." : "Save Changes"}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown, ChevronRight, FilePlus, FilePen, FileX, FolderInput, GitCommit, Loader2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { PatchDiff } from "@/components/diff/PatchDiff";
+import { createPatch } from "@/lib/diff";
+import { branchNameSchema, validateInput } from "@/lib/input-validation";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
+import {
+  commitStagedChanges,
+  describeStagedChange,
+  type CommitStagedResult,
+  type StagedChange,
+} from "@/lib/staging";
+
+interface StagedChangesPanelProps {
+  owner: string;
+  repo: string;
+  branch: string;
+  changes: StagedChange[];
+  onUnstage: (id: string) => void;
+  onClear: () => void;
+  onCommitted: (result: CommitStagedResult) => void;
+}
+
+function ChangeIcon({ change }: { change: StagedChange }) {
+  const className = "h-4 w-4 shrink-0";
+  if (change.type === "delete") return <FileX className={`${className} text-red-600`} />;
+  if (change.type === "move") return <FolderInput className={`${className} text-blue-600`} />;
+  return change.base_sha === null
+    ? <FilePlus className={`${className} text-green-600`} />
+    : <FilePen className={`${className} text-amber-600`} />;
+}
+
+function StagedChangeRow({ change, onUnstage }: { change: StagedChange; onUnstage: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const patch = change.type === "upsert" && isOpen
+    ? createPatch(change.original_content ?? "", change.content)
+    : "";
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-b last:border-b-0">
+      <div className="flex items-center gap-2 px-3 py-2">
+        {change.type === "upsert" ? (
+          <CollapsibleTrigger className="flex items-center gap-2 min-w-0 flex-1 text-left">
+            {isOpen ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+            <ChangeIcon change={change} />
+            <span className="font-mono text-xs sm:text-sm truncate">{describeStagedChange(change)}</span>
+          </CollapsibleTrigger>
+        ) : (
+          <div className="flex items-center gap-2 min-w-0 flex-1 pl-6">
+            <ChangeIcon change={change} />
+            <span className="font-mono text-xs sm:text-sm truncate">{describeStagedChange(change)}</span>
+          </div>
+        )}
+        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onUnstage} title="Discard this change">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <CollapsibleContent>
+        {patch ? (
+          <PatchDiff patch={patch} mode="unified" />
+        ) : (
+          <p className="text-xs text-muted-foreground px-3 pb-2">No changes to the content</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function StagedChangesPanel({
+  owner,
+  repo,
+  branch,
+  changes,
+  onUnstage,
+  onClear,
+  onCommitted,
+}: StagedChangesPanelProps) {
+  const count = changes.length;
+  const [commit, setCommit] = useState(() => createCommitDetails());
+  const [useNewBranch, setUseNewBranch] = useState(false);
+  const [newBranch, setNewBranch] = useState("");
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const handleCommit = async () => {
+    const commitError = validateCommitDetails(commit);
+    if (commitError) {
+      toast({ title: "Invalid commit details", description: commitError, variant: "destructive" });
+      return;
+    }
+    if (useNewBranch) {
+      const branchError = validateInput(branchNameSchema, newBranch);
+      if (branchError) {
+        toast({ title: "Invalid branch name", description: branchError, variant: "destructive" });
+        return;
+      }
+    }
+
+    setIsCommitting(true);
+    try {
+      const result = await commitStagedChanges({ owner, repo }, branch, changes, {
+        ...toCommitFields(commit),
+        message: commit.message.trim() || `Update ${count} file${count === 1 ? "" : "s"}`,
+        newBranch: useNewBranch ? newBranch : undefined,
+      });
+      setCommit(createCommitDetails());
+      setNewBranch("");
+      setUseNewBranch(false);
+      onCommitted(result);
+    } catch (error) {
+      console.error("Error committing staged changes:", error);
+      toast({
+        variant: "destructive",
+        title: "Commit failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-card">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-secondary/50 border-b">
+        <p className="text-sm font-medium">
+          {count} staged change{count === 1 ? "" : "s"} on <span className="font-mono">{branch}</span>
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={isCommitting}>
+          Discard all
+        </Button>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto">
+        {changes.map((change) => (
+          <StagedChangeRow key={change.id} change={change} onUnstage={() => onUnstage(change.id)} />
+        ))}
+      </div>
+
+      <div className="space-y-3 p-3 border-t">
+        <CommitComposer
+          value={commit}
+          onChange={setCommit}
+          placeholder={`Update ${count} file${count === 1 ? "" : "s"}`}
+          disabled={isCommitting}
+          idPrefix="staged-commit"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="staged-new-branch"
+            checked={useNewBranch}
+            onCheckedChange={(checked) => setUseNewBranch(checked === true)}
+            disabled={isCommitting}
+          />
+          <Label htmlFor="staged-new-branch" className="font-normal cursor-pointer">
+            Commit to a new branch
+          </Label>
+        </div>
+        {useNewBranch && (
+          <Input
+            value={newBranch}
+            onChange={(e) => setNewBranch(e.target.value)}
+            placeholder="feature/my-changes"
+            disabled={isCommitting}
+          />
+        )}
+        <Button className="w-full" onClick={handleCommit} disabled={isCommitting || count === 0}>
+          {isCommitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCommit className="h-4 w-4 mr-2" />}
+          Commit {count} change{count === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,622 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  CheckCircle2,
+  History,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+  XCircle,
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  manageWebhook,
+  WEBHOOK_EVENT_OPTIONS,
+  type Webhook,
+  type WebhookAction,
+  type WebhookContentType,
+  type WebhookDelivery,
+  type WebhookSettings,
+} from "@/lib/webhooks";
+
+interface WebhooksSectionProps {
+  owner: string;
+  repo: string;
+}
+
+type EventMode = "push" | "all" | "custom";
+
+interface WebhookFormState {
+  url: string;
+  content_type: WebhookContentType;
+  secret: string;
+  remove_secret: boolean;
+  verify_ssl: boolean;
+  event_mode: EventMode;
+  events: string[];
+  active: boolean;
+}
+
+function toFormState(hook?: Webhook): WebhookFormState {
+  const events = hook?.events ?? ["push"];
+  return {
+    url: hook?.url ?? "",
+    content_type: hook?.content_type ?? "json",
+    secret: "",
+    remove_secret: false,
+    verify_ssl: !hook?.insecure_ssl,
+    event_mode: events.includes("*") ? "all" : events.length === 1 && events[0] === "push" ? "push" : "custom",
+    events,
+    active: hook?.active ?? true,
+  };
+}
+
+function selectedEvents(form: WebhookFormState) {
+  if (form.event_mode === "all") return ["*"];
+  if (form.event_mode === "push") return ["push"];
+  return form.events.filter((event) => event !== "*");
+}
+
+const sameEvents = (a: string[], b: string[]) => [...a].sort().join(",") === [...b].sort().join(",");
+
+const isValidUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+const describeEvents = (events: string[]) =>
+  events.includes("*") ? "All events" : events.length === 1 ? events[0] : `${events.length} events`;
+
+function WebhookForm({
+  hook,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  /** Undefined when adding a webhook */
+  hook?: Webhook;
+  isSaving: boolean;
+  onSave: (settings: Partial<WebhookSettings>) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(() => toFormState(hook));
+  const update = (changes: Partial<WebhookFormState>) => setForm((previous) => ({ ...previous, ...changes }));
+  const idPrefix = `webhook_${hook?.id ?? "new"}`;
+
+  // Events the hook already has that aren't offered as checkboxes, so editing doesn't drop them
+  const otherEvents = form.events.filter(
+    (event) => event !== "*" && !WEBHOOK_EVENT_OPTIONS.some((option) => option.value === event)
+  );
+
+  const toggleEvent = (event: string, checked: boolean) =>
+    update({ events: checked ? [...form.events, event] : form.events.filter((existing) => existing !== event) });
+
+  const handleSave = () => {
+    const url = form.url.trim();
+    const events = selectedEvents(form);
+    if (!isValidUrl(url)) {
+      toast({ variant: "destructive", title: "Invalid payload URL", description: "Enter a full http:// or https:// URL" });
+      return;
+    }
+    if (events.length === 0) {
+      toast({ variant: "destructive", title: "No events selected", description: "Choose at least one event" });
+      return;
+    }
+
+    const secret = form.remove_secret ? "" : form.secret || undefined;
+    const settings: WebhookSettings = {
+      url,
+      content_type: form.content_type,
+      insecure_ssl: !form.verify_ssl,
+      events,
+      active: form.active,
+      secret,
+    };
+    if (!hook) {
+      onSave(settings);
+      return;
+    }
+
+    // Only send what changed, so an untouched config keeps its secret
+    const changes: Partial<WebhookSettings> = {};
+    if (url !== hook.url) changes.url = url;
+    if (settings.content_type !== hook.content_type) changes.content_type = settings.content_type;
+    if (settings.insecure_ssl !== hook.insecure_ssl) changes.insecure_ssl = settings.insecure_ssl;
+    if (!sameEvents(events, hook.events)) changes.events = events;
+    if (settings.active !== hook.active) changes.active = settings.active;
+    if (secret !== undefined) changes.secret = secret;
+
+    const changesConfig = ["url", "content_type", "insecure_ssl"].some((key) => key in changes);
+    if (changesConfig && hook.has_secret && secret === undefined) {
+      toast({
+        variant: "destructive",
+        title: "Secret required",
+        description: "GitHub needs the secret again, or for it to be removed, when the URL or content type changes",
+      });
+      return;
+    }
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}_url`}>Payload URL</Label>
+        <Input
+          id={`${idPrefix}_url`}
+          type="url"
+          placeholder="https://example.com/github/events"
+          className="h-9"
+          value={form.url}
+          onChange={(e) => update({ url: e.target.value })}
+          // Keep Enter from submitting the surrounding settings form
+          onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}_content_type`}>Content type</Label>
+          <Select value={form.content_type} onValueChange={(value) => update({ content_type: value as WebhookContentType })}>
+            <SelectTrigger id={`${idPrefix}_content_type`} className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="json">application/json</SelectItem>
+              <SelectItem value="form">application/x-www-form-urlencoded</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}_secret`}>Secret</Label>
+          <Input
+            id={`${idPrefix}_secret`}
+            type="password"
+            autoComplete="new-password"
+            placeholder={hook?.has_secret ? "Leave blank to keep the current secret" : "Optional"}
+            className="h-9"
+            value={form.secret}
+            disabled={form.remove_secret}
+            onChange={(e) => update({ secret: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {hook?.has_secret && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}_remove_secret`}
+              checked={form.remove_secret}
+              onCheckedChange={(checked) => update({ remove_secret: checked === true, secret: "" })}
+            />
+            <Label htmlFor={`${idPrefix}_remove_secret`} className="text-sm font-normal cursor-pointer">
+              Remove secret
+            </Label>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}_verify_ssl`}
+            checked={form.verify_ssl}
+            onCheckedChange={(checked) => update({ verify_ssl: checked === true })}
+          />
+          <Label htmlFor={`${idPrefix}_verify_ssl`} className="text-sm font-normal cursor-pointer">
+            Verify SSL certificate
+          </Label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Events</Label>
+        <RadioGroup
+          value={form.event_mode}
+          onValueChange={(value) => update({ event_mode: value as EventMode })}
+          className="grid gap-2 sm:grid-cols-3"
+        >
+          {([
+            ["push", "Just pushes"],
+            ["all", "Everything"],
+            ["custom", "Choose events"],
+          ] as const).map(([value, label]) => (
+            <div key={value} className="flex items-center space-x-2">
+              <RadioGroupItem value={value} id={`${idPrefix}_events_${value}`} />
+              <Label htmlFor={`${idPrefix}_events_${value}`} className="text-sm font-normal cursor-pointer">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        {form.event_mode === "custom" && (
+          <div className="grid gap-2 pl-4 border-l sm:grid-cols-2">
+            {WEBHOOK_EVENT_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${idPrefix}_event_${option.value}`}
+                  checked={form.events.includes(option.value)}
+                  onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                />
+                <Label htmlFor={`${idPrefix}_event_${option.value}`} className="text-sm font-normal cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+            {otherEvents.length > 0 && (
+              <p className="text-xs text-muted-foreground sm:col-span-2">
+                Also subscribed to: {otherEvents.join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-0.5 flex-1">
+          <Label htmlFor={`${idPrefix}_active`} className="text-sm">Active</Label>
+          <p className="text-xs text-muted-foreground">Deliver events when they happen</p>
+        </div>
+        <Switch id={`${idPrefix}_active`} checked={form.active} onCheckedChange={(checked) => update({ active: checked })} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1 min-h-[44px]" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" className="flex-1 min-h-[44px]" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : hook ? "Update Webhook" : "Add Webhook"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function WebhookDeliveries({ owner, repo, hookId }: { owner: string; repo: string; hookId: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [redeliveringId, setRedeliveringId] = useState<number | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDeliveries(await fetchWebhookDeliveries(owner, repo, hookId));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load deliveries",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, hookId]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      await manageWebhook(owner, repo, { action: "redeliver", hook_id: hookId, delivery_id: delivery.id });
+      toast({
+        title: "Redelivery requested",
+        description: `The ${delivery.event} event will be sent again`,
+      });
+      await loadDeliveries();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to redeliver",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 pl-4 border-l">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground">Recent deliveries</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Refresh deliveries"
+          onClick={loadDeliveries}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      {isLoading && !deliveries ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : deliveries && deliveries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No deliveries yet</p>
+      ) : deliveries && (
+        <div className="divide-y rounded-md border max-h-64 overflow-y-auto">
+          {deliveries.map((delivery) => {
+            const succeeded = delivery.status_code >= 200 && delivery.status_code < 300;
+            return (
+              <div key={delivery.id} className="flex items-center gap-2 px-3 py-2 text-xs">
+                {succeeded ? (
+                  <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                ) : (
+                  <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-medium">
+                    {delivery.action ? `${delivery.event}.${delivery.action}` : delivery.event}
+                    {delivery.redelivery && (
+                      <Badge variant="outline" className="ml-2 text-[10px] px-1 py-0">Redelivery</Badge>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground truncate">
+                    {delivery.status_code || "No response"} · {delivery.duration.toFixed(2)}s ·{" "}
+                    {formatDistanceToNow(new Date(delivery.delivered_at), { addSuffix: true })}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Redeliver"
+                  onClick={() => handleRedeliver(delivery)}
+                  disabled={redeliveringId !== null}
+                >
+                  {redeliveringId === delivery.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WebhooksSection({ owner, repo }: WebhooksSectionProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Key of the webhook being changed, so only its controls are disabled
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [editing, setEditing] = useState<number | "new" | null>(null);
+  const [showingDeliveries, setShowingDeliveries] = useState<number | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Webhook | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setWebhooks(await fetchWebhooks(owner, repo));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load webhooks",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const runAction = async (key: string, action: WebhookAction, success: { title: string; description: string }) => {
+    setPendingKey(key);
+    try {
+      await manageWebhook(owner, repo, action);
+      toast(success);
+      // Pings don't change the webhook itself
+      if (action.action !== "ping") await loadWebhooks();
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Webhook action failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return false;
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleSave = async (hook: Webhook | undefined, settings: Partial<WebhookSettings>) => {
+    const saved = hook
+      ? await runAction(`hook:${hook.id}`, { action: "update", hook_id: hook.id, ...settings }, {
+          title: "Webhook updated",
+          description: hook.url,
+        })
+      : await runAction("new", { action: "create", ...(settings as WebhookSettings) }, {
+          title: "Webhook added",
+          description: "GitHub sends a ping event to confirm it works",
+        });
+    if (saved) setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const hook = deleteTarget;
+    setDeleteTarget(null);
+    const deleted = await runAction(`hook:${hook.id}`, { action: "delete", hook_id: hook.id }, {
+      title: "Webhook deleted",
+      description: hook.url,
+    });
+    if (deleted && showingDeliveries === hook.id) setShowingDeliveries(null);
+  };
+
+  return (
+    <section className="space-y-3 p-3 sm:p-4 rounded-lg border bg-card">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-sm sm:text-base">Webhooks</h3>
+        {editing !== "new" && (
+          <Button type="button" variant="outline" size="sm" className="h-9" onClick={() => setEditing("new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Webhook
+          </Button>
+        )}
+      </div>
+
+      {editing === "new" && (
+        <WebhookForm
+          isSaving={pendingKey === "new"}
+          onSave={(settings) => handleSave(undefined, settings)}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading && !webhooks ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : webhooks && (
+        <div className="divide-y rounded-md border">
+          {webhooks.length === 0 && (
+            <p className="px-3 py-4 text-sm text-muted-foreground text-center">No webhooks</p>
+          )}
+          {webhooks.map((hook) => {
+            const key = `hook:${hook.id}`;
+            const lastCode = hook.last_response.code;
+            return (
+              <div key={hook.id} className="space-y-3 px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <WebhookIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-sm" title={hook.url}>{hook.url}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {describeEvents(hook.events)} · {hook.content_type}
+                      {lastCode !== null && ` · last response ${lastCode}`}
+                    </div>
+                  </div>
+                  {!hook.active && <Badge variant="outline" className="shrink-0">Inactive</Badge>}
+                  {lastCode !== null && (lastCode < 200 || lastCode >= 300) && (
+                    <Badge variant="destructive" className="shrink-0">Failing</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8"
+                    disabled={pendingKey !== null}
+                    onClick={() =>
+                      runAction(key, { action: "ping", hook_id: hook.id }, {
+                        title: "Ping sent",
+                        description: "Check recent deliveries for the response",
+                      })
+                    }
+                  >
+                    {pendingKey === key ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                    Ping
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8"
+                    onClick={() => setShowingDeliveries(showingDeliveries === hook.id ? null : hook.id)}
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    Deliveries
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8"
+                    disabled={pendingKey !== null}
+                    onClick={() => setEditing(editing === hook.id ? null : hook.id)}
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-destructive hover:text-destructive"
+                    disabled={pendingKey !== null}
+                    onClick={() => setDeleteTarget(hook)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+                {editing === hook.id && (
+                  <WebhookForm
+                    hook={hook}
+                    isSaving={pendingKey === key}
+                    onSave={(settings) => handleSave(hook, settings)}
+                    onCancel={() => setEditing(null)}
+                  />
+                )}
+                {showingDeliveries === hook.id && <WebhookDeliveries owner={owner} repo={repo} hookId={hook.id} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.url} will stop receiving events from {owner}/{repo}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+}
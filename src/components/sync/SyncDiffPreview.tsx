@@ -0,0 +1,170 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle } from "lucide-react";
+import type { SyncFile, SyncFileStatus, SyncPreview } from "@/lib/sync-diff";
+
+const statusStyles: Record<SyncFileStatus, string> = {
+  added: "bg-green-500/15 text-green-600 border-green-500/30",
+  modified: "bg-amber-500/15 text-amber-600 border-amber-500/30",
+  deleted: "bg-red-500/15 text-red-600 border-red-500/30",
+};
+
+interface SyncDiffPreviewProps {
+  preview: SyncPreview;
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  propagateDeletions: boolean;
+  onPropagateDeletionsChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+export function SyncDiffPreview({
+  preview,
+  selected,
+  onSelectedChange,
+  propagateDeletions,
+  onPropagateDeletionsChange,
+  disabled,
+}: SyncDiffPreviewProps) {
+  const [filter, setFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<SyncFileStatus | "all">("all");
+
+  const counts = useMemo(() => ({
+    added: preview.files.filter((f) => f.status === "added").length,
+    modified: preview.files.filter((f) => f.status === "modified").length,
+    deleted: preview.files.filter((f) => f.status === "deleted").length,
+    conflicts: preview.files.filter((f) => f.changedIn === "both").length,
+  }), [preview.files]);
+
+  const visibleFiles = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return preview.files.filter((file) =>
+      (statusFilter === "all" || file.status === statusFilter) &&
+      (!query || file.path.toLowerCase().includes(query))
+    );
+  }, [preview.files, filter, statusFilter]);
+
+  const isApplicable = (file: SyncFile) => file.status !== "deleted" || propagateDeletions;
+  const applicableVisible = visibleFiles.filter(isApplicable);
+  const allVisibleSelected = applicableVisible.length > 0 && applicableVisible.every((f) => selected.has(f.path));
+
+  const toggle = (path: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(path);
+    else next.delete(path);
+    onSelectedChange(next);
+  };
+
+  const toggleVisible = (checked: boolean) => {
+    const next = new Set(selected);
+    for (const file of applicableVisible) {
+      if (checked) next.add(file.path);
+      else next.delete(file.path);
+    }
+    onSelectedChange(next);
+  };
+
+  if (preview.files.length === 0) {
+    return (
+      <div className="p-4 bg-primary/10 rounded-lg">
+        <p className="text-sm">Branches are already in sync ({preview.unchanged} identical files).</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(["all", "added", "modified", "deleted"] as const).map((status) => (
+          <Badge
+            key={status}
+            variant={statusFilter === status ? "default" : "outline"}
+            className="cursor-pointer capitalize"
+            onClick={() => setStatusFilter(status)}
+          >
+            {status === "all" ? `All ${preview.files.length}` : `${counts[status]} ${status}`}
+          </Badge>
+        ))}
+        <Badge variant="secondary">{preview.unchanged} unchanged</Badge>
+        {counts.conflicts > 0 && (
+          <Badge variant="destructive">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {counts.conflicts} changed on both sides
+          </Badge>
+        )}
+      </div>
+
+      {!preview.mergeBaseSha && (
+        <p className="text-xs text-muted-foreground">
+          These branches share no history, so changes are compared file by file without a common base.
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+        <Input
+          placeholder="Filter files..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="bg-secondary sm:max-w-xs"
+        />
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="propagateDeletions"
+            checked={propagateDeletions}
+            onCheckedChange={onPropagateDeletionsChange}
+            disabled={disabled}
+          />
+          <Label htmlFor="propagateDeletions" className="text-sm cursor-pointer">
+            Delete files missing from source
+          </Label>
+        </div>
+      </div>
+
+      <div className="border rounded-lg">
+        <div className="flex items-center gap-3 px-3 py-2 border-b bg-secondary/50">
+          <Checkbox
+            checked={allVisibleSelected}
+            onCheckedChange={(checked) => toggleVisible(checked === true)}
+            disabled={disabled || applicableVisible.length === 0}
+          />
+          <span className="text-xs text-muted-foreground">
+            {visibleFiles.length} file{visibleFiles.length === 1 ? "" : "s"} shown
+          </span>
+        </div>
+        <ScrollArea className="h-[320px]">
+          <ul className="divide-y">
+            {visibleFiles.map((file) => {
+              const applicable = isApplicable(file);
+              return (
+                <li key={file.path} className={`flex items-center gap-3 px-3 py-2 ${applicable ? "" : "opacity-50"}`}>
+                  <Checkbox
+                    checked={applicable && selected.has(file.path)}
+                    onCheckedChange={(checked) => toggle(file.path, checked === true)}
+                    disabled={disabled || !applicable}
+                  />
+                  <Badge variant="outline" className={`capitalize shrink-0 ${statusStyles[file.status]}`}>
+                    {file.status}
+                  </Badge>
+                  <span className="font-mono text-xs sm:text-sm truncate flex-1" title={file.path}>
+                    {file.path}
+                  </span>
+                  {file.changedIn === "both" && (
+                    <Badge variant="destructive" className="shrink-0">Conflict</Badge>
+                  )}
+                  {file.changedIn === "destination" && (
+                    <Badge variant="secondary" className="shrink-0">Changed in destination</Badge>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
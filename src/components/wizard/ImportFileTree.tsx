@@ -0,0 +1,138 @@
+import { useMemo, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, File, Folder } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatBytes, type ImportCandidateMap, type ImportFileMap } from "@/lib/import-files";
+
+interface ImportFileTreeProps {
+  candidates: ImportCandidateMap;
+  /** Included files; every other candidate is left out of the push */
+  selectedFiles: ImportFileMap;
+  onToggle: (paths: string[], include: boolean) => void;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  /** Every file at or below this node */
+  files: string[];
+}
+
+function buildTree(paths: string[]): TreeNode {
+  const root: TreeNode = { name: "", path: "", children: [], files: [] };
+  const dirs = new Map<string, TreeNode>([["", root]]);
+
+  for (const path of [...paths].sort()) {
+    const parts = path.split("/");
+    let parent = root;
+    root.files.push(path);
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const nodePath = parts.slice(0, depth).join("/");
+      let node = dirs.get(nodePath);
+      if (!node) {
+        node = { name: parts[depth - 1], path: nodePath, children: [], files: [] };
+        parent.children.push(node);
+        if (depth < parts.length) dirs.set(nodePath, node);
+      }
+      node.files.push(path);
+      parent = node;
+    }
+  }
+
+  // Folders before files, like the repository browser
+  const sort = (node: TreeNode) => {
+    node.children.sort((a, b) => Number(b.children.length > 0) - Number(a.children.length > 0) || a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+export function ImportFileTree({ candidates, selectedFiles, onToggle }: ImportFileTreeProps) {
+  const allPaths = useMemo(() => Object.keys(candidates), [candidates]);
+  const tree = useMemo(() => buildTree(allPaths), [allPaths]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  // ZIP entries have no size until they are read
+  const sizeOf = (path: string) => selectedFiles[path]?.size ?? candidates[path]?.size ?? null;
+  const includedPaths = allPaths.filter((path) => selectedFiles[path]);
+  const includedBytes = includedPaths.reduce((total, path) => total + selectedFiles[path].size, 0);
+  const ignoredCount = allPaths.filter((path) => candidates[path].ignoredBy).length;
+
+  const toggleExpanded = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: TreeNode, depth: number) => {
+    const isDir = node.children.length > 0;
+    const included = node.files.filter((path) => selectedFiles[path]).length;
+    const checked = included === node.files.length ? true : included > 0 ? "indeterminate" : false;
+    const ignoredBy = isDir
+      ? (node.files.every((path) => candidates[path].ignoredBy) ? candidates[node.files[0]].ignoredBy : null)
+      : candidates[node.path].ignoredBy;
+    const size = isDir
+      ? node.files.reduce((total, path) => total + (selectedFiles[path]?.size ?? 0), 0)
+      : sizeOf(node.path);
+    const isOpen = expanded.has(node.path);
+
+    return (
+      <div key={node.path}>
+        <div
+          className={cn("flex items-center gap-2 py-1 pr-2 hover:bg-secondary/50 rounded", included === 0 && "text-muted-foreground")}
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+        >
+          {isDir ? (
+            <button type="button" onClick={() => toggleExpanded(node.path)} className="shrink-0" aria-label={isOpen ? "Collapse" : "Expand"}>
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+          <Checkbox
+            checked={checked}
+            onCheckedChange={() => onToggle(node.files, checked !== true)}
+            aria-label={`Include ${node.path}`}
+          />
+          {isDir ? <Folder className="h-4 w-4 shrink-0 text-primary" /> : <File className="h-4 w-4 shrink-0" />}
+          <span className="text-sm truncate flex-1 min-w-0" title={node.path}>{node.name}</span>
+          {ignoredBy && (
+            <Badge variant="outline" className="text-[10px] shrink-0" title={`Ignored by ${ignoredBy}`}>
+              ignored
+            </Badge>
+          )}
+          <span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+            {isDir ? `${included}/${node.files.length} · ` : ""}
+            {size === null ? "—" : formatBytes(size)}
+          </span>
+        </div>
+        {isDir && isOpen && node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span>
+          <span className="font-medium">{includedPaths.length}</span> of {allPaths.length} files ·{" "}
+          <span className="font-medium">{formatBytes(includedBytes)}</span>
+        </span>
+        {ignoredCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {ignoredCount} ignored by .gitignore and default rules
+          </span>
+        )}
+      </div>
+      <div className="border rounded-lg max-h-80 overflow-y-auto py-1">
+        {tree.children.map((node) => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Globe, Lock } from "lucide-react";
+import { fetchRepositoryTemplates, type NewRepositoryOptions, type RepositoryTemplates } from "@/lib/chunked-push";
+
+interface NewRepositoryOptionsFormProps {
+  options: NewRepositoryOptions;
+  onChange: (options: NewRepositoryOptions) => void;
+  disabled?: boolean;
+}
+
+// Radix Select does not allow an empty value
+const NO_TEMPLATE = "none";
+
+export function NewRepositoryOptionsForm({ options, onChange, disabled }: NewRepositoryOptionsFormProps) {
+  const [templates, setTemplates] = useState<RepositoryTemplates | null>(null);
+  const [templatesFailed, setTemplatesFailed] = useState(false);
+  // Kept as typed so separators are not swallowed while editing
+  const [topicsText, setTopicsText] = useState(() => options.topics?.join(", ") ?? "");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRepositoryTemplates()
+      .then((result) => {
+        if (!cancelled) setTemplates(result);
+      })
+      .catch((error) => {
+        console.error("Error loading repository templates:", error);
+        if (!cancelled) setTemplatesFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = (changes: Partial<NewRepositoryOptions>) => onChange({ ...options, ...changes });
+
+  const handleTopicsChange = (text: string) => {
+    setTopicsText(text);
+    const topics = text.split(/[\s,]+/).map((topic) => topic.trim().toLowerCase()).filter(Boolean);
+    update({ topics: [...new Set(topics)] });
+  };
+
+  const templatePlaceholder = templatesFailed ? "Templates unavailable" : templates ? "None" : "Loading...";
+
+  return (
+    <div className="space-y-4 sm:space-y-5">
+      <div className="space-y-2 sm:space-y-3">
+        <Label className="text-base sm:text-sm font-semibold">Visibility</Label>
+        <RadioGroup
+          value={options.private ? "private" : "public"}
+          onValueChange={(v) => update({ private: v === "private" })}
+          disabled={disabled}
+          className="grid gap-2 sm:grid-cols-2"
+        >
+          <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-smooth touch-manipulation">
+            <RadioGroupItem value="public" id="visibility-public" className="h-5 w-5 sm:h-4 sm:w-4" />
+            <Label htmlFor="visibility-public" className="font-normal cursor-pointer flex-1 flex items-center gap-2 text-sm">
+              <Globe className="h-4 w-4 text-muted-foreground" />
+              Public
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-smooth touch-manipulation">
+            <RadioGroupItem value="private" id="visibility-private" className="h-5 w-5 sm:h-4 sm:w-4" />
+            <Label htmlFor="visibility-private" className="font-normal cursor-pointer flex-1 flex items-center gap-2 text-sm">
+              <Lock className="h-4 w-4 text-muted-foreground" />
+              Private
+            </Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="repoDescription" className="text-sm">Description (optional)</Label>
+        <Textarea
+          id="repoDescription"
+          value={options.description ?? ""}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="What this repository is about"
+          maxLength={350}
+          rows={2}
+          disabled={disabled}
+          className="bg-secondary text-base sm:text-sm"
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="repoHomepage" className="text-sm">Homepage (optional)</Label>
+          <Input
+            id="repoHomepage"
+            type="url"
+            value={options.homepage ?? ""}
+            onChange={(e) => update({ homepage: e.target.value })}
+            placeholder="https://example.com"
+            disabled={disabled}
+            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="repoTopics" className="text-sm">Topics (optional)</Label>
+          <Input
+            id="repoTopics"
+            value={topicsText}
+            onChange={(e) => handleTopicsChange(e.target.value)}
+            placeholder="react, typescript"
+            disabled={disabled}
+            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label className="text-sm">License</Label>
+          <Select
+            value={options.license_template || NO_TEMPLATE}
+            onValueChange={(v) => update({ license_template: v === NO_TEMPLATE ? undefined : v })}
+            disabled={disabled || !templates}
+          >
+            <SelectTrigger className="bg-secondary h-12 sm:h-10 text-base sm:text-sm touch-manipulation">
+              <SelectValue placeholder={templatePlaceholder} />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              <SelectItem value={NO_TEMPLATE}>None</SelectItem>
+              {templates?.licenses.map((license) => (
+                <SelectItem key={license.key} value={license.key}>
+                  {license.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm">.gitignore template</Label>
+          <Select
+            value={options.gitignore_template || NO_TEMPLATE}
+            onValueChange={(v) => update({ gitignore_template: v === NO_TEMPLATE ? undefined : v })}
+            disabled={disabled || !templates}
+          >
+            <SelectTrigger className="bg-secondary h-12 sm:h-10 text-base sm:text-sm touch-manipulation">
+              <SelectValue placeholder={templatePlaceholder} />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              <SelectItem value={NO_TEMPLATE}>None</SelectItem>
+              {templates?.gitignore_templates.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="repoDefaultBranch" className="text-sm">Default branch</Label>
+          <Input
+            id="repoDefaultBranch"
+            value={options.default_branch ?? ""}
+            onChange={(e) => update({ default_branch: e.target.value })}
+            placeholder="main"
+            disabled={disabled}
+            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, GitBranch, Loader2, Package, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatBytes } from "@/lib/import-files";
+import type { PlannedPaths, PushPlan } from "@/lib/chunked-push";
+
+interface PushPlanSummaryProps {
+  plan: PushPlan | null;
+  isLoading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  /** The files go to a new topic branch created from plan.branch */
+  asPullRequest?: boolean;
+}
+
+function PathGroup({ label, paths, className }: { label: string; paths: PlannedPaths; className: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (paths.count === 0) return null;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm w-full text-left py-1">
+        {isOpen ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+        <span className={cn("font-medium tabular-nums", className)}>{paths.count}</span>
+        <span>{label}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="ml-6 max-h-48 overflow-y-auto border-l pl-3 space-y-0.5">
+          {paths.paths.map((path) => (
+            <li key={path} className="font-mono text-xs truncate" title={path}>{path}</li>
+          ))}
+          {paths.count > paths.paths.length && (
+            <li className="text-xs text-muted-foreground">…and {paths.count - paths.paths.length} more</li>
+          )}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function PushPlanSummary({ plan, isLoading, error, onRefresh, asPullRequest }: PushPlanSummaryProps) {
+  return (
+    <div className="border rounded-lg p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold">What will happen</p>
+        <Button variant="ghost" size="sm" onClick={onRefresh} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span className="ml-2">Refresh</span>
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!plan && !error && (
+        <p className="text-sm text-muted-foreground">{isLoading ? "Comparing with the branch..." : "No plan yet"}</p>
+      )}
+
+      {plan && (
+        <div className={cn("space-y-3", isLoading && "opacity-60")}>
+          <div className="space-y-1 text-sm">
+            <p className="flex items-center gap-2">
+              <Package className="h-4 w-4 text-muted-foreground shrink-0" />
+              {plan.repository.action === "create"
+                ? `Creates the ${plan.repository.private ? "private" : "public"} repository ${plan.repository.name}`
+                : `Uses the existing repository ${plan.repository.name}`}
+            </p>
+            <p className="flex items-center gap-2">
+              <GitBranch className="h-4 w-4 text-muted-foreground shrink-0" />
+              {asPullRequest
+                ? `Creates a topic branch from ${plan.branch.name} and opens a pull request against it`
+                : plan.branch.action === "create"
+                  ? `Creates the branch ${plan.branch.name} from ${plan.branch.from}`
+                  : `Commits to the existing branch ${plan.branch.name}`}
+            </p>
+            {plan.backup_branch && !asPullRequest && (
+              <p className="text-muted-foreground pl-6">
+                The current contents are saved to {plan.backup_branch} first
+              </p>
+            )}
+          </div>
+
+          <div>
+            <PathGroup label="added" paths={plan.added} className="text-green-600" />
+            <PathGroup label="modified" paths={plan.modified} className="text-amber-600" />
+            <PathGroup label="removed" paths={plan.removed} className="text-red-600" />
+            <PathGroup label="unchanged" paths={plan.unchanged} className="text-muted-foreground" />
+            <PathGroup label="left as they are" paths={plan.kept} className="text-muted-foreground" />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {plan.total_files} files
+            {plan.total_bytes !== null && ` · ${formatBytes(plan.total_bytes)}`}
+            {plan.source?.commits != null && ` · ${plan.source.commits} commits replayed`}
+            {plan.added.count + plan.modified.count + plan.removed.count === 0 && " · nothing would change"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useCallback, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchAllRepositories, type RepositoryListScope } from "@/lib/repositories";
 
 export interface GitHubRepo {
   name: string;
@@ -20,28 +21,16 @@ export const useGitHubRepos = () => {
   const [loadingBranches, setLoadingBranches] = useState(false);
   const { toast } = useToast();
 
-  const fetchRepos = async () => {
+  // Every page is fetched; repos fills in as pages arrive
+  const fetchRepos = async (scope: RepositoryListScope = {}) => {
     setLoadingRepos(true);
     try {
-      // Get session to access provider token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.provider_token) {
-        throw new Error('Your GitHub session has expired. Please log out and log back in.');
-      }
-
-      const { data, error } = await supabase.functions.invoke('list-repos', {
-        body: { provider_token: session.provider_token }
+      const loaded: GitHubRepo[] = [];
+      await fetchAllRepositories<GitHubRepo>(scope, (page) => {
+        loaded.push(...page.repositories);
+        setRepos([...loaded]);
       });
-      
-      if (error) throw error;
-      if (data?.error) {
-        if (data.error.includes('token') || data.error.includes('Unauthorized')) {
-          throw new Error('Your GitHub session has expired. Please log out and log back in.');
-        }
-        throw new Error(data.error);
-      }
-      
-      setRepos(data.repositories || []);
+      setRepos(loaded);
     } catch (error: any) {
       console.error('Error fetching repos:', error);
       toast({
@@ -55,7 +44,9 @@ export const useGitHubRepos = () => {
     }
   };
 
-  const fetchBranches = async (repoName: string) => {
+  // Stable, so pages can list it as an effect dependency.
+  // Without an owner the repository is looked up under the signed-in user.
+  const fetchBranches = useCallback(async (repoName: string, owner?: string) => {
     if (!repoName) return;
     
     setLoadingBranches(true);
@@ -70,6 +61,7 @@ export const useGitHubRepos = () => {
       const { data, error } = await supabase.functions.invoke('get-repo-branches', {
         body: { 
           repositoryName: repoName,
+          owner,
           provider_token: session.provider_token 
         }
       });
@@ -94,7 +86,7 @@ export const useGitHubRepos = () => {
     } finally {
       setLoadingBranches(false);
     }
-  };
+  }, [toast]);
 
   return {
     repos,
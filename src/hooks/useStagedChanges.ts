@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addStagedChange,
+  getStagingKey,
+  loadStagedChanges,
+  saveStagedChanges,
+  type StagedChange,
+  type StagedChangeInput,
+} from "@/lib/staging";
+
+/**
+ * Staged changes for one branch of a repository, persisted across reloads
+ */
+export const useStagedChanges = (owner: string, repo: string, branch: string) => {
+  const [changes, setChanges] = useState<StagedChange[]>([]);
+  const { toast } = useToast();
+  const key = owner && repo && branch ? getStagingKey({ owner, repo }, branch) : null;
+
+  useEffect(() => {
+    setChanges([]);
+    if (!key) return;
+    let cancelled = false;
+    loadStagedChanges(key)
+      .then((stored) => {
+        if (!cancelled) setChanges(stored);
+      })
+      .catch((error) => console.error("Error loading staged changes:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  const update = useCallback((next: StagedChange[]) => {
+    setChanges(next);
+    if (!key) return;
+    saveStagedChanges(key, next).catch((error) => {
+      console.error("Error saving staged changes:", error);
+      toast({
+        variant: "destructive",
+        title: "Could not save staged changes",
+        description: "They will be lost if this page is reloaded.",
+      });
+    });
+  }, [key, toast]);
+
+  const stage = (inputs: StagedChangeInput[]) => update(inputs.reduce(addStagedChange, changes));
+  const unstage = (id: string) => update(changes.filter((change) => change.id !== id));
+  const clear = () => update([]);
+
+  return { changes, stage, unstage, clear };
+};
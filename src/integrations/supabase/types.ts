@@ -38,6 +38,89 @@ export type Database = {
         }
         Relationships: []
       }
+      push_session_batches: {
+        Row: {
+          batch_index: number
+          commit_sha: string | null
+          created_at: string
+          session_id: string
+          tree_entries: Json
+        }
+        Insert: {
+          batch_index: number
+          commit_sha?: string | null
+          created_at?: string
+          session_id: string
+          tree_entries: Json
+        }
+        Update: {
+          batch_index?: number
+          commit_sha?: string | null
+          created_at?: string
+          session_id?: string
+          tree_entries?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_session_batches_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "push_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_sessions: {
+        Row: {
+          branch: string
+          commit_sha: string | null
+          created_at: string
+          fingerprint: string
+          id: string
+          import_mode: string
+          owner: string
+          repository_name: string
+          repository_url: string
+          source: Json | null
+          status: string
+          total_batches: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          branch: string
+          commit_sha?: string | null
+          created_at?: string
+          fingerprint: string
+          id?: string
+          import_mode?: string
+          owner: string
+          repository_name: string
+          repository_url: string
+          source?: Json | null
+          status?: string
+          total_batches: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          branch?: string
+          commit_sha?: string | null
+          created_at?: string
+          fingerprint?: string
+          id?: string
+          import_mode?: string
+          owner?: string
+          repository_name?: string
+          repository_url?: string
+          source?: Json | null
+          status?: string
+          total_batches?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,103 @@
+/**
+ * GitHub Actions secrets and variables for a repository or one of its environments,
+ * via list-actions-secrets and manage-actions-secrets
+ */
+import { callFunction } from "@/lib/supabase-functions";
+
+export interface ActionsSecret {
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ActionsVariable extends ActionsSecret {
+  value: string;
+}
+
+/** Key that secret values are sealed with before leaving the browser */
+export interface ActionsPublicKey {
+  key_id: string;
+  /** Base64 Curve25519 public key */
+  key: string;
+}
+
+export interface ActionsSecretsList {
+  secrets: ActionsSecret[];
+  variables: ActionsVariable[];
+  public_key: ActionsPublicKey;
+  /** Deployment environment names; null when listing an environment */
+  environments: string[] | null;
+}
+
+type VariableAction = "create_variable" | "update_variable";
+
+export const ACTIONS_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Why a secret or variable name would be rejected, or null if it's valid */
+export function validateActionsName(name: string): string | null {
+  if (!ACTIONS_NAME_PATTERN.test(name)) {
+    return "Use only letters, numbers and underscores, not starting with a number";
+  }
+  if (name.toUpperCase().startsWith("GITHUB_")) {
+    return "Names cannot start with GITHUB_";
+  }
+  return null;
+}
+
+/**
+ * Encrypts a secret with a libsodium sealed box, which is what GitHub expects.
+ * libsodium is loaded on first use to keep it out of the main bundle.
+ */
+export async function encryptSecret(value: string, publicKey: ActionsPublicKey): Promise<string> {
+  const { default: sodium } = await import("libsodium-wrappers");
+  await sodium.ready;
+  const key = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
+  const sealed = sodium.crypto_box_seal(sodium.from_string(value), key);
+  return sodium.to_base64(sealed, sodium.base64_variants.ORIGINAL);
+}
+
+export function fetchActionsSecrets(owner: string, repo: string, environment?: string) {
+  return callFunction<ActionsSecretsList>("list-actions-secrets", { owner, repo, environment });
+}
+
+/** Creates or replaces a secret; only the sealed value is sent */
+export async function setActionsSecret(
+  owner: string,
+  repo: string,
+  environment: string | undefined,
+  name: string,
+  value: string,
+  publicKey: ActionsPublicKey
+) {
+  const encrypted_value = await encryptSecret(value, publicKey);
+  return callFunction<{ success: boolean }>("manage-actions-secrets", {
+    owner,
+    repo,
+    environment,
+    action: "set_secret",
+    name,
+    encrypted_value,
+    key_id: publicKey.key_id,
+  });
+}
+
+export function setActionsVariable(
+  owner: string,
+  repo: string,
+  environment: string | undefined,
+  action: VariableAction,
+  name: string,
+  value: string
+) {
+  return callFunction<{ success: boolean }>("manage-actions-secrets", { owner, repo, environment, action, name, value });
+}
+
+export function deleteActionsSecret(owner: string, repo: string, environment: string | undefined, kind: "secret" | "variable", name: string) {
+  return callFunction<{ success: boolean }>("manage-actions-secrets", {
+    owner,
+    repo,
+    environment,
+    action: kind === "secret" ? "delete_secret" : "delete_variable",
+    name,
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Branch protection rules via get-branch-protection and update-branch-protection
+ * (see supabase/functions/_shared/branch-protection.ts)
+ */
+import { callFunction } from "@/lib/supabase-functions";
+
+export interface BranchProtectionSettings {
+  /** Null does not require pull request reviews */
+  required_pull_request_reviews: {
+    required_approving_review_count: number;
+    dismiss_stale_reviews: boolean;
+    require_code_owner_reviews: boolean;
+  } | null;
+  /** Null does not require status checks */
+  required_status_checks: {
+    /** Branches must be up to date with the base before merging */
+    strict: boolean;
+    contexts: string[];
+  } | null;
+  required_linear_history: boolean;
+  allow_force_pushes: boolean;
+  allow_deletions: boolean;
+  enforce_admins: boolean;
+}
+
+export interface BranchProtection {
+  protected: boolean;
+  settings: BranchProtectionSettings | null;
+}
+
+/** What a newly protected branch starts with: one approving review, no force pushes or deletion */
+export function createProtectionSettings(): BranchProtectionSettings {
+  return {
+    required_pull_request_reviews: {
+      required_approving_review_count: 1,
+      dismiss_stale_reviews: false,
+      require_code_owner_reviews: false,
+    },
+    required_status_checks: null,
+    required_linear_history: false,
+    allow_force_pushes: false,
+    allow_deletions: false,
+    enforce_admins: false,
+  };
+}
+
+export function fetchBranchProtection(owner: string, repo: string, branch: string) {
+  return callFunction<BranchProtection>("get-branch-protection", { owner, repo, branch });
+}
+
+export function setBranchProtection(owner: string, repo: string, branch: string, settings: BranchProtectionSettings) {
+  return callFunction<BranchProtection>("update-branch-protection", { owner, repo, branch, action: "set", settings });
+}
+
+export function removeBranchProtection(owner: string, repo: string, branch: string) {
+  return callFunction<BranchProtection>("update-branch-protection", { owner, repo, branch, action: "remove" });
+}
@@ -0,0 +1,69 @@
+/**
+ * Applies one action to several repositories in turn, reporting each outcome
+ * so a single failure does not stop the rest
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import { setRepositoryArchived } from "@/lib/repositories";
+
+export type BulkRepositoryAction =
+  | { type: "visibility"; private: boolean }
+  | { type: "archive"; archived: boolean }
+  | { type: "topics"; add: string[]; remove: string[] }
+  | { type: "description"; description: string }
+  | { type: "star"; starred: boolean }
+  | { type: "delete" };
+
+export interface BulkRepositoryResult {
+  full_name: string;
+  success: boolean;
+  error?: string;
+}
+
+function runAction(owner: string, repo: string, action: BulkRepositoryAction) {
+  switch (action.type) {
+    case "visibility":
+      return callFunction("update-repo", { owner, repo, private: action.private });
+    case "archive":
+      return setRepositoryArchived(owner, repo, action.archived);
+    case "topics":
+      return callFunction("update-repo", { owner, repo, add_topics: action.add, remove_topics: action.remove });
+    case "description":
+      return callFunction("update-repo", { owner, repo, description: action.description });
+    case "star":
+      return callFunction("star-repo", { owner, repo, starred: action.starred });
+    case "delete":
+      return callFunction("delete-repo", { owner, repo });
+  }
+}
+
+/**
+ * Runs the action on each repository one at a time, so GitHub's secondary rate
+ * limits are not hit. Stops before the next repository once the signal is aborted.
+ */
+export async function runBulkRepositoryAction(
+  fullNames: string[],
+  action: BulkRepositoryAction,
+  onResult: (result: BulkRepositoryResult) => void,
+  signal?: AbortSignal
+): Promise<BulkRepositoryResult[]> {
+  const results: BulkRepositoryResult[] = [];
+  for (const full_name of fullNames) {
+    if (signal?.aborted) break;
+    const [owner, repo] = full_name.split("/");
+    let result: BulkRepositoryResult;
+    try {
+      await runAction(owner, repo, action);
+      result = { full_name, success: true };
+    } catch (err) {
+      result = { full_name, success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+    results.push(result);
+    onResult(result);
+  }
+  return results;
+}
+
+/** Splits comma or whitespace separated topics into GitHub's lowercase form */
+export function parseTopics(input: string): string[] {
+  return [...new Set(input.split(/[\s,]+/).map((topic) => topic.trim().toLowerCase()).filter(Boolean))];
+}
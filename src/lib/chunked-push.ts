@@ -0,0 +1,260 @@
+/**
+ * Client side of the resumable push protocol in create-and-push-repo.
+ * Files are split into batches that each become blobs in their own call; the
+ * server keeps an upload session, so a retried push skips batches that already landed.
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import { getGitBlobSha, type ImportFileMap } from "@/lib/import-files";
+import type { CommitFields } from "@/lib/commit-details";
+
+// Must not exceed MAX_BATCH_SIZE in supabase/functions/_shared/validation.ts
+export const PUSH_BATCH_MAX_FILES = 100;
+// Keeps each request body comfortably below the edge function payload limit
+export const PUSH_BATCH_MAX_BYTES = 4 * 1024 * 1024;
+
+/** Settings for a repository the push creates; ignored when it already exists */
+export interface NewRepositoryOptions {
+  private: boolean;
+  description?: string;
+  homepage?: string;
+  topics?: string[];
+  license_template?: string;
+  gitignore_template?: string;
+  default_branch?: string;
+}
+
+export interface PushTarget {
+  /** Account or organization the repository belongs to; the signed-in user when omitted */
+  owner?: string;
+  repositoryName: string;
+  targetBranch: string;
+  importMode: string;
+  /** Branch targetBranch is created from when it does not exist; the default branch otherwise */
+  baseBranch?: string;
+  repositoryOptions?: NewRepositoryOptions;
+  /** Overwrite only: saves the branch's current head under this name first */
+  backupBranch?: string;
+  /** Message and identity of the final commit; sent with finalize only */
+  commit?: CommitFields;
+}
+
+export interface RepositoryTemplates {
+  licenses: { key: string; name: string; spdx_id: string }[];
+  gitignore_templates: string[];
+}
+
+export function fetchRepositoryTemplates() {
+  return callFunction<RepositoryTemplates>("get-repo-templates");
+}
+
+export type PushSource =
+  | { type: "files"; files: ImportFileMap }
+  | { type: "url"; githubUrl: string; sourceRef?: string; sourcePath?: string; preserveHistory?: boolean };
+
+export interface PushProgress {
+  stage: "starting" | "uploading" | "finalizing";
+  completedBatches: number;
+  totalBatches: number;
+  resumed: boolean;
+}
+
+export interface PushSourceSummary {
+  fullName: string;
+  ref: string;
+  commitSha: string;
+  files: number;
+  commits: number | null;
+  historyTruncated: boolean;
+}
+
+export interface PushResult {
+  repository_url: string;
+  repository_name: string;
+  commit_sha: string | null;
+  /** Branch holding the replaced contents; null when none was created */
+  backup_branch: string | null;
+  source: PushSourceSummary | null;
+}
+
+/** Paths in one category of a plan; `paths` is capped, `count` is exact */
+export interface PlannedPaths {
+  count: number;
+  paths: string[];
+}
+
+export interface PushPlan {
+  repository: { name: string; action: "create" | "reuse"; url: string | null; private: boolean };
+  branch: { name: string; action: "create" | "reuse"; from: string | null };
+  backup_branch: string | null;
+  mode: string;
+  added: PlannedPaths;
+  modified: PlannedPaths;
+  unchanged: PlannedPaths;
+  /** Overwrite only: paths on the branch that are not in the upload */
+  removed: PlannedPaths;
+  /** Add only: paths on the branch the push leaves alone */
+  kept: PlannedPaths;
+  total_files: number;
+  /** Null when the source host does not report file sizes */
+  total_bytes: number | null;
+  source: PushSourceSummary | null;
+}
+
+interface StartResponse {
+  success: boolean;
+  sessionId: string;
+  totalBatches: number;
+  completedBatches: number[];
+  resumed: boolean;
+  backup_branch?: string | null;
+  source: PushSourceSummary | null;
+  error?: string;
+}
+
+interface PushResponse extends Omit<PushResult, "source" | "backup_branch"> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Splits files into batches by count and payload size. Paths are sorted so the
+ * same upload always produces the same batches, which is what makes resuming safe.
+ */
+export function createPushBatches(files: ImportFileMap): ImportFileMap[] {
+  const batches: ImportFileMap[] = [];
+  let current: ImportFileMap = {};
+  let currentCount = 0;
+  let currentBytes = 0;
+
+  for (const path of Object.keys(files).sort()) {
+    const file = files[path];
+    const bytes = file.content.length + path.length;
+    if (currentCount > 0 && (currentCount >= PUSH_BATCH_MAX_FILES || currentBytes + bytes > PUSH_BATCH_MAX_BYTES)) {
+      batches.push(current);
+      current = {};
+      currentCount = 0;
+      currentBytes = 0;
+    }
+    current[path] = file;
+    currentCount++;
+    currentBytes += bytes;
+  }
+
+  if (currentCount > 0) batches.push(current);
+  return batches;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Identifies an upload by its batch layout and file contents, so a session is only
+ * resumed for exactly the same files
+ */
+export async function getPushFingerprint(batches: ImportFileMap[]): Promise<string> {
+  const parts: string[] = [];
+  for (let i = 0; i < batches.length; i++) {
+    for (const [path, file] of Object.entries(batches[i])) {
+      parts.push(`${i}\0${path}\0${file.mode}\0${file.encoding}\0${await sha256Hex(file.content)}`);
+    }
+  }
+  return sha256Hex(parts.join("\n"));
+}
+
+async function callPush<T extends { success: boolean }>(body: Record<string, unknown>): Promise<T> {
+  // callFunction surfaces the server's own message, e.g. a backup branch that already exists
+  const data = await callFunction<T>("create-and-push-repo", body);
+  if (!data?.success) {
+    throw new Error("Failed to push content. Please check the repository settings and try again.");
+  }
+  return data;
+}
+
+/**
+ * Asks the server what a push with these settings would do, without writing anything
+ */
+export async function planPush(target: PushTarget, source: PushSource): Promise<PushPlan> {
+  const { commit, ...settings } = target;
+  return callFunction<PushPlan>("create-and-push-repo", {
+    phase: "plan",
+    ...settings,
+    ...(source.type === "url"
+      ? {
+          githubUrl: source.githubUrl,
+          sourceRef: source.sourceRef || undefined,
+          sourcePath: source.sourcePath || undefined,
+          preserveHistory: source.preserveHistory,
+        }
+      : {
+          files: await Promise.all(
+            Object.entries(source.files).map(async ([path, file]) => ({
+              path,
+              sha: await getGitBlobSha(file),
+              mode: file.mode,
+              size: file.size,
+            }))
+          ),
+        }),
+  });
+}
+
+/**
+ * Runs start, batch and finalize calls. Safe to call again after a failure:
+ * the server resumes the matching session and only missing batches are sent.
+ */
+export async function runChunkedPush(
+  target: PushTarget,
+  source: PushSource,
+  onProgress?: (progress: PushProgress) => void
+): Promise<PushResult> {
+  const { commit, ...settings } = target;
+  const batches = source.type === "files" ? createPushBatches(source.files) : [];
+
+  onProgress?.({ stage: "starting", completedBatches: 0, totalBatches: batches.length, resumed: false });
+
+  const start = await callPush<StartResponse>({
+    phase: "start",
+    ...settings,
+    ...(source.type === "url"
+      ? {
+          githubUrl: source.githubUrl,
+          sourceRef: source.sourceRef || undefined,
+          sourcePath: source.sourcePath || undefined,
+          preserveHistory: source.preserveHistory,
+        }
+      : { fingerprint: await getPushFingerprint(batches), totalBatches: batches.length }),
+  });
+
+  const done = new Set(start.completedBatches);
+  const report = (stage: PushProgress["stage"]) =>
+    onProgress?.({ stage, completedBatches: done.size, totalBatches: start.totalBatches, resumed: start.resumed });
+
+  report("uploading");
+
+  for (let batchIndex = 0; batchIndex < start.totalBatches; batchIndex++) {
+    if (done.has(batchIndex)) continue;
+
+    await callPush({
+      phase: "batch",
+      sessionId: start.sessionId,
+      batchIndex,
+      ...(source.type === "files" ? { fileMap: batches[batchIndex] } : {}),
+    });
+
+    done.add(batchIndex);
+    report("uploading");
+  }
+
+  report("finalizing");
+
+  const result = await callPush<PushResponse>({ phase: "finalize", sessionId: start.sessionId, ...commit });
+  return {
+    repository_url: result.repository_url,
+    repository_name: result.repository_name,
+    commit_sha: result.commit_sha,
+    backup_branch: start.backup_branch ?? null,
+    source: start.source,
+  };
+}
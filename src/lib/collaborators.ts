@@ -0,0 +1,63 @@
+/**
+ * Repository collaborators, invitations and team access, via list-collaborators and manage-collaborators
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import type { RepositoryRole } from "@/lib/repositories";
+
+/** Lowest first, labelled as GitHub's web UI names them */
+export const REPOSITORY_ROLE_OPTIONS: { value: RepositoryRole; label: string; description: string }[] = [
+  { value: "pull", label: "Read", description: "View and clone" },
+  { value: "triage", label: "Triage", description: "Manage issues and pull requests without write access" },
+  { value: "push", label: "Write", description: "Push to the repository" },
+  { value: "maintain", label: "Maintain", description: "Manage the repository without destructive actions" },
+  { value: "admin", label: "Admin", description: "Full access, including settings and deletion" },
+];
+
+export interface Collaborator {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  permission: RepositoryRole;
+}
+
+export interface CollaboratorInvitation {
+  id: number;
+  login: string;
+  avatar_url: string | null;
+  permission: RepositoryRole;
+  created_at: string;
+  expired: boolean;
+}
+
+export interface TeamAccess {
+  id: number;
+  slug: string;
+  name: string;
+  permission: RepositoryRole;
+}
+
+export interface RepositoryAccessList {
+  collaborators: Collaborator[];
+  invitations: CollaboratorInvitation[];
+  /** Null for repositories owned by a user */
+  teams: TeamAccess[] | null;
+  /** Teams of the owning organization the user can see; null for user repositories */
+  organization_teams: { slug: string; name: string }[] | null;
+}
+
+export type CollaboratorAction =
+  | { action: "set_collaborator"; username: string; permission: RepositoryRole }
+  | { action: "remove_collaborator"; username: string }
+  | { action: "update_invitation"; invitation_id: number; permission: RepositoryRole }
+  | { action: "cancel_invitation"; invitation_id: number }
+  | { action: "set_team"; team_slug: string; permission: RepositoryRole }
+  | { action: "remove_team"; team_slug: string };
+
+export function fetchRepositoryAccess(owner: string, repo: string) {
+  return callFunction<RepositoryAccessList>("list-collaborators", { owner, repo });
+}
+
+/** `invited` is true when set_collaborator sent an invitation rather than updating existing access */
+export function manageCollaborators(owner: string, repo: string, action: CollaboratorAction) {
+  return callFunction<{ success: boolean; invited?: boolean }>("manage-collaborators", { owner, repo, ...action });
+}
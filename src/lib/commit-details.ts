@@ -0,0 +1,112 @@
+/**
+ * Commit message and identity chosen in the commit composer, and their conversion
+ * to the fields every committing edge function accepts
+ * (see supabase/functions/_shared/commit-options.ts)
+ */
+import { z } from "zod";
+import { commitMessageSchema, validateInput } from "@/lib/input-validation";
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+}
+
+export interface CommitDetails {
+  /** Subject line; blank uses the operation's own message */
+  message: string;
+  description: string;
+  /** Blank name and email commit as the signed-in GitHub user */
+  author: CommitIdentity;
+  /** Null commits as the author */
+  committer: CommitIdentity | null;
+  coAuthors: CommitIdentity[];
+}
+
+/** Request fields for the edge functions; blank values are left out */
+export interface CommitFields {
+  message?: string;
+  description?: string;
+  author?: CommitIdentity;
+  committer?: CommitIdentity;
+  co_authors?: CommitIdentity[];
+}
+
+const IDENTITY_STORAGE_KEY = "repopush_commit_identity";
+
+const emailSchema = z.string().trim().email("Enter a valid email address");
+
+const isBlank = (identity: CommitIdentity) => !identity.name.trim() && !identity.email.trim();
+
+const trimIdentity = (identity: CommitIdentity): CommitIdentity => ({
+  name: identity.name.trim(),
+  email: identity.email.trim(),
+});
+
+/** New details with the author, committer and co-authors used last time */
+export function createCommitDetails(message = ""): CommitDetails {
+  const details: CommitDetails = {
+    message,
+    description: "",
+    author: { name: "", email: "" },
+    committer: null,
+    coAuthors: [],
+  };
+  try {
+    const saved = JSON.parse(localStorage.getItem(IDENTITY_STORAGE_KEY) ?? "null");
+    if (saved) {
+      details.author = saved.author ?? details.author;
+      details.committer = saved.committer ?? null;
+      details.coAuthors = saved.coAuthors ?? [];
+    }
+  } catch {
+    // Ignore unreadable saved identities
+  }
+  return details;
+}
+
+export function rememberCommitIdentity(details: CommitDetails) {
+  const { author, committer, coAuthors } = details;
+  localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify({ author, committer, coAuthors }));
+}
+
+function validateIdentity(identity: CommitIdentity, label: string): string | null {
+  if (!identity.name.trim() || !identity.email.trim()) return `${label} needs both a name and an email`;
+  const emailError = validateInput(emailSchema, identity.email);
+  return emailError && `${label}: ${emailError}`;
+}
+
+/**
+ * Returns the first problem with the details, or null. The message may be blank
+ * unless `requireMessage` is set.
+ */
+export function validateCommitDetails(details: CommitDetails, requireMessage = false): string | null {
+  if (requireMessage || details.message.trim()) {
+    const messageError = validateInput(commitMessageSchema, details.message);
+    if (messageError) return messageError;
+  }
+  if (details.description.length > 10000) return "Description must be less than 10000 characters";
+  if (!isBlank(details.author)) {
+    const error = validateIdentity(details.author, "Author");
+    if (error) return error;
+  }
+  if (details.committer && !isBlank(details.committer)) {
+    const error = validateIdentity(details.committer, "Committer");
+    if (error) return error;
+  }
+  for (const coAuthor of details.coAuthors.filter((identity) => !isBlank(identity))) {
+    const error = validateIdentity(coAuthor, "Co-author");
+    if (error) return error;
+  }
+  return null;
+}
+
+export function toCommitFields(details: CommitDetails): CommitFields {
+  const fields: CommitFields = {};
+  if (details.message.trim()) fields.message = details.message.trim();
+  if (details.description.trim()) fields.description = details.description.trim();
+  if (!isBlank(details.author)) fields.author = trimIdentity(details.author);
+  if (details.committer && !isBlank(details.committer)) fields.committer = trimIdentity(details.committer);
+  const coAuthors = details.coAuthors.filter((identity) => !isBlank(identity)).map(trimIdentity);
+  if (coAuthors.length > 0) fields.co_authors = coAuthors;
+  return fields;
+}
@@ -0,0 +1,100 @@
+/**
+ * Types and calls for the history edge functions (list-commits, get-commit, get-blame)
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import type { ChangedFile } from "@/lib/diff";
+
+export interface CommitAuthor {
+  login: string;
+  avatar_url: string;
+}
+
+export interface CommitSummary {
+  sha: string;
+  message: string;
+  author_name: string | null;
+  author_email: string | null;
+  date: string | null;
+  author: CommitAuthor | null;
+  parents: string[];
+  html_url: string;
+}
+
+export interface CommitDetail {
+  commit: CommitSummary & {
+    committer_name: string | null;
+    committed_date: string | null;
+    stats: { additions: number; deletions: number; total: number } | null;
+  };
+  files: ChangedFile[];
+  files_truncated: boolean;
+}
+
+export interface CommitPage {
+  commits: CommitSummary[];
+  page: number;
+  has_more: boolean;
+}
+
+export interface BlameRange {
+  start_line: number;
+  end_line: number;
+  /** 1 for the most recent changes up to 10 for the oldest */
+  age: number;
+  commit: {
+    sha: string;
+    message: string;
+    date: string;
+    author_name: string | null;
+    author: CommitAuthor | null;
+    html_url: string;
+  };
+}
+
+export interface Blame {
+  commit_sha: string;
+  ranges: BlameRange[];
+}
+
+export interface RepoLocation {
+  owner: string;
+  repo: string;
+}
+
+export function getCommitTitle(message: string): string {
+  return message.split("\n")[0];
+}
+
+export function listCommits(location: RepoLocation, ref: string, path = "", page = 1) {
+  return callFunction<CommitPage>("list-commits", { ...location, ref, path, page });
+}
+
+export function getCommit(location: RepoLocation, sha: string) {
+  return callFunction<CommitDetail>("get-commit", { ...location, sha });
+}
+
+export function getBlame(location: RepoLocation, ref: string, path: string) {
+  return callFunction<Blame>("get-blame", { ...location, ref, path });
+}
+
+export interface HistoryWriteResult {
+  parent_sha?: string;
+  commit_sha: string | null;
+  commit_url?: string;
+  files_changed: number;
+}
+
+/**
+ * Undoes a commit with a new commit on the branch. With `base`, undoes every
+ * change between base and sha, e.g. an operation that made several commits.
+ */
+export function revertCommit(location: RepoLocation, branch: string, sha: string, base?: string) {
+  return callFunction<HistoryWriteResult>("restore-from-history", { ...location, branch, mode: "revert", sha, base });
+}
+
+/**
+ * Makes a file or folder on the branch match its state at an earlier commit
+ */
+export function restoreFromCommit(location: RepoLocation, branch: string, sha: string, path: string) {
+  return callFunction<HistoryWriteResult>("restore-from-history", { ...location, branch, mode: "restore", sha, path });
+}
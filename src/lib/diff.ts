@@ -0,0 +1,230 @@
+/**
+ * Parsing for unified diff patches as returned by GitHub, e.g. the `patch`
+ * field of a pull request file, into rows for unified and split rendering,
+ * and a line diff for producing the same patches from two local texts.
+ */
+
+/** A file entry from a commit, compare or pull request diff */
+export interface ChangedFile {
+  filename: string;
+  previous_filename: string | null;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  /** Omitted by GitHub for binary files and very large diffs */
+  patch: string | null;
+}
+
+export type DiffLineType = "hunk" | "context" | "add" | "del";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface SplitDiffRow {
+  /** Set for hunk header rows, which span both columns */
+  hunk?: string;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+export function parsePatch(patch: string): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of patch.split("\n")) {
+    const header = HUNK_HEADER.exec(raw);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[2]);
+      lines.push({ type: "hunk", content: raw, oldNumber: null, newNumber: null });
+      continue;
+    }
+    // "\ No newline at end of file" markers carry no content
+    if (raw.startsWith("\\")) continue;
+
+    if (raw.startsWith("+")) {
+      lines.push({ type: "add", content: raw.slice(1), oldNumber: null, newNumber: newLine++ });
+    } else if (raw.startsWith("-")) {
+      lines.push({ type: "del", content: raw.slice(1), oldNumber: oldLine++, newNumber: null });
+    } else {
+      lines.push({ type: "context", content: raw.slice(1), oldNumber: oldLine++, newNumber: newLine++ });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Pairs each run of deletions with the additions that follow it, so a changed
+ * line shows old and new side by side
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.type === "hunk") {
+      rows.push({ hunk: line.content, left: null, right: null });
+      i++;
+    } else if (line.type === "context") {
+      rows.push({ left: line, right: line });
+      i++;
+    } else {
+      const deleted: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (i < lines.length && lines[i].type === "del") deleted.push(lines[i++]);
+      while (i < lines.length && lines[i].type === "add") added.push(lines[i++]);
+      for (let j = 0; j < Math.max(deleted.length, added.length); j++) {
+        rows.push({ left: deleted[j] ?? null, right: added[j] ?? null });
+      }
+    }
+  }
+
+  return rows;
+}
+
+export interface LineEdit {
+  type: "equal" | "del" | "add";
+  line: string;
+}
+
+// Past this many changed lines the diff is shown as a full replacement instead
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ */
+export function diffLines(a: string[], b: string[]): LineEdit[] {
+  // Common prefix and suffix are cheap to strip and usually most of a file
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): LineEdit => ({ type: "equal", line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+function myers(a: string[], b: string[]): LineEdit[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map((line) => ({ type: "add", line }));
+  if (m === 0) return a.map((line) => ({ type: "del", line }));
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+
+  return [
+    ...a.map((line): LineEdit => ({ type: "del", line })),
+    ...b.map((line): LineEdit => ({ type: "add", line })),
+  ];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: "add", line: b[--y] });
+      else edits.push({ type: "del", line: a[--x] });
+    }
+  }
+
+  return edits.reverse();
+}
+
+/** Splits text into lines, ignoring the final newline */
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Builds a unified diff patch between two texts, in the format parsePatch reads
+ */
+export function createPatch(oldText: string, newText: string, context = 3): string {
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+
+  let oldIndex = 0;
+  let newIndex = 0;
+  const rows = edits.map((edit) => {
+    const row = { ...edit, oldIndex, newIndex };
+    if (edit.type !== "add") oldIndex++;
+    if (edit.type !== "del") newIndex++;
+    return row;
+  });
+
+  // Group changes whose context windows touch into a single hunk
+  const ranges: { start: number; end: number }[] = [];
+  rows.forEach((row, index) => {
+    if (row.type === "equal") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(rows.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) last.end = end;
+    else ranges.push({ start, end });
+  });
+
+  const prefixes: Record<LineEdit["type"], string> = { equal: " ", del: "-", add: "+" };
+  return ranges
+    .map(({ start, end }) => {
+      const hunk = rows.slice(start, end);
+      const oldCount = hunk.filter((row) => row.type !== "add").length;
+      const newCount = hunk.filter((row) => row.type !== "del").length;
+      const oldStart = oldCount === 0 ? hunk[0].oldIndex : hunk[0].oldIndex + 1;
+      const newStart = newCount === 0 ? hunk[0].newIndex : hunk[0].newIndex + 1;
+      return [
+        `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+        ...hunk.map((row) => prefixes[row.type] + row.line),
+      ].join("\n");
+    })
+    .join("\n");
+}
@@ -116,7 +116,8 @@ export function getHumanFriendlyError(context: ErrorContext): {
  * Extracts status code from various error objects
  */
 export function extractErrorStatus(error: any): number | undefined {
-  return error?.status || error?.response?.status || error?.statusCode;
+  // FunctionsHttpError keeps the function's Response in `context`
+  return error?.status || error?.response?.status || error?.statusCode || error?.context?.status;
 }
 
 /**
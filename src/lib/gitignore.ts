@@ -0,0 +1,143 @@
+/**
+ * .gitignore matching for uploads, following git's rules: patterns are relative
+ * to the directory of their .gitignore, later rules win, "!" re-includes, a
+ * trailing "/" only matches directories, and nothing inside an ignored
+ * directory can be re-included.
+ */
+
+/** Ignored even without a .gitignore: VCS data, dependencies, build output and OS junk */
+export const DEFAULT_IGNORE_PATTERNS = [
+  ".git/",
+  ".svn/",
+  ".hg/",
+  "node_modules/",
+  "bower_components/",
+  "dist/",
+  "__pycache__/",
+  ".venv/",
+  "__MACOSX/",
+  ".DS_Store",
+  "._*",
+  "Thumbs.db",
+  "desktop.ini",
+  "*.swp",
+  ".env",
+  ".env.*.local",
+  ".env.local",
+];
+
+interface IgnoreRule {
+  /** Directory the rule's .gitignore lives in, "" for the root */
+  baseDir: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Where the rule came from, e.g. "docs/.gitignore" */
+  source: string;
+}
+
+function globToRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches any number of directories, a trailing "**" everything below
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        out += `[${body.startsWith("!") ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      out += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+function parseRule(line: string, baseDir: string, source: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) return null;
+
+  const negate = pattern.startsWith("!");
+  if (negate) pattern = pattern.slice(1);
+  if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) pattern = pattern.slice(1);
+
+  const dirOnly = pattern.endsWith("/");
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+  const body = globToRegex(pattern);
+  return {
+    baseDir,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negate,
+    dirOnly,
+    source,
+  };
+}
+
+export function parseGitignore(content: string, baseDir = "", source = ".gitignore"): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => parseRule(line, baseDir, source))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Builds a matcher from the default patterns plus every .gitignore among the
+ * files. Returns the source of the rule that ignores a path, or null.
+ */
+export function createIgnoreMatcher(gitignores: Record<string, string>, useDefaults = true) {
+  const rules = useDefaults ? parseGitignore(DEFAULT_IGNORE_PATTERNS.join("\n"), "", "default rules") : [];
+
+  // Shallower files first, so rules closer to a path take precedence
+  Object.keys(gitignores)
+    .sort((a, b) => a.split("/").length - b.split("/").length)
+    .forEach((path) => {
+      const baseDir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+      rules.push(...parseGitignore(gitignores[path], baseDir, path));
+    });
+
+  const matchOne = (path: string, isDir: boolean): string | null => {
+    let match: IgnoreRule | null = null;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.baseDir && !path.startsWith(`${rule.baseDir}/`)) continue;
+      const relative = rule.baseDir ? path.slice(rule.baseDir.length + 1) : path;
+      if (rule.regex.test(relative)) match = rule;
+    }
+    return match && !match.negate ? match.source : null;
+  };
+
+  return (path: string): string | null => {
+    const parts = path.split("/");
+    for (let depth = 1; depth < parts.length; depth++) {
+      const source = matchOne(parts.slice(0, depth).join("/"), true);
+      if (source) return source;
+    }
+    return matchOne(path, false);
+  };
+}
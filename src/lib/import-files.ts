@@ -0,0 +1,180 @@
+/**
+ * Binary-safe file handling for the import wizard
+ * Reads uploads as raw bytes, keeps text as UTF-8 and everything else as base64,
+ * and carries git file modes (executable bit, symlinks) through to the edge function
+ */
+import type JSZip from "jszip";
+import { createIgnoreMatcher } from "@/lib/gitignore";
+
+export type ImportFileEncoding = "utf-8" | "base64";
+
+// Git tree modes: regular file, executable file, symbolic link
+export type ImportFileMode = "100644" | "100755" | "120000";
+
+export interface ImportFile {
+  content: string;
+  encoding: ImportFileEncoding;
+  mode: ImportFileMode;
+  size: number;
+}
+
+export type ImportFileMap = Record<string, ImportFile>;
+
+/** A file found in an upload, only read into memory while it is included */
+export interface ImportCandidate {
+  /** Size in bytes when known without reading the file (folder uploads) */
+  size: number | null;
+  /** The .gitignore (or "default rules") excluding the file, if any */
+  ignoredBy: string | null;
+  read: () => Promise<ImportFile>;
+}
+
+export type ImportCandidateMap = Record<string, ImportCandidate>;
+
+// Same heuristic git uses: a NUL byte in the first 8000 bytes means binary
+const BINARY_SNIFF_LENGTH = 8000;
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+const EXECUTABLE_BITS = 0o111;
+
+/**
+ * Returns the bytes decoded as UTF-8, or null if they look like binary data
+ */
+export function decodeText(bytes: Uint8Array): string | null {
+  const sniffLength = Math.min(bytes.length, BINARY_SNIFF_LENGTH);
+  for (let i = 0; i < sniffLength; i++) {
+    if (bytes[i] === 0) return null;
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  const CHUNK_SIZE = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  // GitHub wraps base64 content at 60 characters
+  return Uint8Array.from(atob(base64.replace(/\s/g, "")), (char) => char.charCodeAt(0));
+}
+
+export function bytesToImportFile(bytes: Uint8Array, mode: ImportFileMode = "100644"): ImportFile {
+  const text = decodeText(bytes);
+  if (text !== null) {
+    return { content: text, encoding: "utf-8", mode, size: bytes.length };
+  }
+  return { content: bytesToBase64(bytes), encoding: "base64", mode, size: bytes.length };
+}
+
+/**
+ * Reads a browser File (folder picker, drag and drop) without lossy text decoding.
+ * Browsers don't expose permissions, so these are always regular files.
+ */
+export async function readImportFile(file: File): Promise<ImportFile> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return bytesToImportFile(bytes);
+}
+
+/**
+ * Maps ZIP unix permissions to a git mode (symlink, executable or regular)
+ */
+export function getZipEntryMode(entry: JSZip.JSZipObject): ImportFileMode {
+  const permissions = typeof entry.unixPermissions === "number" ? entry.unixPermissions : null;
+  if (permissions === null) return "100644";
+
+  if ((permissions & S_IFMT) === S_IFLNK) return "120000";
+  if ((permissions & EXECUTABLE_BITS) !== 0) return "100755";
+  return "100644";
+}
+
+/**
+ * Reads a ZIP entry as bytes. Symlink entries store their target path as content,
+ * which is exactly what git expects for a 120000 blob.
+ */
+export async function readZipEntry(entry: JSZip.JSZipObject): Promise<ImportFile> {
+  const bytes = await entry.async("uint8array");
+  return bytesToImportFile(bytes, getZipEntryMode(entry));
+}
+
+/** The SHA git gives the file's blob, for comparing with files already on a branch */
+export async function getGitBlobSha(file: ImportFile): Promise<string> {
+  const bytes = file.encoding === "base64" ? base64ToBytes(file.content) : new TextEncoder().encode(file.content);
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const data = new Uint8Array(header.length + bytes.length);
+  data.set(header);
+  data.set(bytes, header.length);
+  const digest = await crypto.subtle.digest("SHA-1", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function getImportFileStats(files: ImportFileMap) {
+  const entries = Object.values(files);
+  return {
+    count: entries.length,
+    totalBytes: entries.reduce((acc, f) => acc + f.size, 0),
+    binaryCount: entries.filter(f => f.encoding === "base64").length,
+    executableCount: entries.filter(f => f.mode === "100755").length,
+    symlinkCount: entries.filter(f => f.mode === "120000").length,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+const isGitignore = (path: string) => path === ".gitignore" || path.endsWith("/.gitignore");
+
+/**
+ * Applies .gitignore files found in the upload and the default ignore rules,
+ * and reads every file that is not ignored. Ignored files stay unread until
+ * they are explicitly included.
+ */
+export async function prepareImport(
+  sources: Record<string, Pick<ImportCandidate, "size" | "read">>
+): Promise<{ candidates: ImportCandidateMap; files: ImportFileMap }> {
+  const gitignores: Record<string, string> = {};
+  const gitignoreFiles: ImportFileMap = {};
+
+  for (const path of Object.keys(sources).filter(isGitignore)) {
+    gitignoreFiles[path] = await sources[path].read();
+    if (gitignoreFiles[path].encoding === "utf-8") gitignores[path] = gitignoreFiles[path].content;
+  }
+
+  const isIgnored = createIgnoreMatcher(gitignores);
+  const candidates: ImportCandidateMap = {};
+  for (const [path, source] of Object.entries(sources)) {
+    candidates[path] = { ...source, ignoredBy: isIgnored(path) };
+  }
+
+  // A .gitignore inside an ignored directory still contributes rules, but is not uploaded
+  const files: ImportFileMap = {};
+  for (const [path, file] of Object.entries(gitignoreFiles)) {
+    if (!candidates[path].ignoredBy) files[path] = file;
+  }
+
+  Object.assign(files, await readImportCandidates(
+    candidates,
+    Object.keys(candidates).filter((path) => !candidates[path].ignoredBy && !files[path])
+  ));
+  return { candidates, files };
+}
+
+export async function readImportCandidates(candidates: ImportCandidateMap, paths: string[]): Promise<ImportFileMap> {
+  const entries = await Promise.all(
+    paths.map(async (path) => [path, await candidates[path].read()] as const)
+  );
+  return Object.fromEntries(entries);
+}
@@ -81,6 +81,29 @@ export const repoNameSchema = z
   .max(100, 'Repository name must be less than 100 characters')
   .regex(REPO_NAME_REGEX, 'Repository name can only contain alphanumeric characters, dots, underscores, and hyphens');
 
+// Topic validation (GitHub allows lowercase letters, numbers and hyphens)
+const TOPIC_REGEX = /^[a-z0-9][a-z0-9-]*$/;
+
+export const repoDescriptionSchema = z
+  .string()
+  .max(350, 'Description must be less than 350 characters');
+
+export const homepageSchema = z
+  .string()
+  .trim()
+  .url('Homepage must be a full URL, e.g. https://example.com')
+  .max(255, 'Homepage must be less than 255 characters')
+  .or(z.literal(''));
+
+export const topicsSchema = z
+  .array(
+    z
+      .string()
+      .max(50, 'Topics must be less than 50 characters')
+      .regex(TOPIC_REGEX, 'Topics can only contain lowercase letters, numbers, and hyphens')
+  )
+  .max(20, 'A repository can have at most 20 topics');
+
 /**
  * Helper function to validate input and return user-friendly error messages
  */
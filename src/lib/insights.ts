@@ -0,0 +1,59 @@
+/**
+ * Repository statistics and traffic from get-repo-stats and get-repo-traffic
+ */
+import { callFunction } from "@/lib/supabase-functions";
+
+export type StatName = "commit_activity" | "contributors" | "code_frequency";
+
+export interface ContributorStats {
+  login: string;
+  avatar_url: string | null;
+  html_url: string | null;
+  commits: number;
+  additions: number;
+  deletions: number;
+}
+
+/** Each statistic is null while GitHub is still computing it; `computing` lists those */
+export interface RepositoryStats {
+  /** Bytes of code per language */
+  languages: Record<string, number>;
+  /** The last 52 weeks; `week` is a Unix timestamp in seconds */
+  commit_activity: { week: number; total: number }[] | null;
+  contributors: ContributorStats[] | null;
+  code_frequency: { week: number; additions: number; deletions: number }[] | null;
+  computing: StatName[];
+}
+
+export interface TrafficPoint {
+  timestamp: string;
+  count: number;
+  uniques: number;
+}
+
+/** The last 14 days, which is all GitHub keeps */
+export interface RepositoryTraffic {
+  views: { count: number; uniques: number; views: TrafficPoint[] };
+  clones: { count: number; uniques: number; clones: TrafficPoint[] };
+  referrers: { referrer: string; count: number; uniques: number }[];
+}
+
+export function fetchRepositoryStats(owner: string, repo: string) {
+  return callFunction<RepositoryStats>("get-repo-stats", { owner, repo });
+}
+
+export function fetchRepositoryTraffic(owner: string, repo: string) {
+  return callFunction<RepositoryTraffic>("get-repo-traffic", { owner, repo });
+}
+
+/** Merges a later response into earlier stats, keeping sections the later one was still computing */
+export function mergeRepositoryStats(previous: RepositoryStats | null, next: RepositoryStats): RepositoryStats {
+  if (!previous) return next;
+  return {
+    ...next,
+    commit_activity: next.commit_activity ?? previous.commit_activity,
+    contributors: next.contributors ?? previous.contributors,
+    code_frequency: next.code_frequency ?? previous.code_frequency,
+    computing: next.computing.filter((name) => previous[name] === null),
+  };
+}
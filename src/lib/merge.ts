@@ -0,0 +1,148 @@
+/**
+ * Line-based three-way merge, used to combine local edits with a newer
+ * remote version of the same file.
+ */
+import { diffLines } from "@/lib/diff";
+
+export type MergeChunk =
+  | { type: "stable"; lines: string[] }
+  | { type: "conflict"; base: string[]; ours: string[]; theirs: string[] };
+
+export type ConflictResolution = "ours" | "theirs" | "both";
+
+interface Hunk {
+  side: "ours" | "theirs";
+  /** Base lines [baseStart, baseEnd) replaced by `lines` */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+function toHunks(base: string[], other: string[], side: Hunk["side"]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let baseIndex = 0;
+
+  for (const edit of diffLines(base, other)) {
+    if (edit.type === "equal") {
+      if (current) hunks.push(current);
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    current ??= { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+    if (edit.type === "del") {
+      current.baseEnd++;
+      baseIndex++;
+    } else {
+      current.lines.push(edit.line);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+/** One side's version of base[start, end), given its hunks inside that range */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merges two edited versions of base. Changes to separate regions are combined;
+ * overlapping or adjacent changes that differ become conflicts.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = base.split("\n");
+  const hunks = [
+    ...toHunks(baseLines, ours.split("\n"), "ours"),
+    ...toHunks(baseLines, theirs.split("\n"), "theirs"),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "stable") last.lines.push(...lines);
+    else chunks.push({ type: "stable", lines: [...lines] });
+  };
+
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    const group = [hunks[i]];
+    const regionStart = hunks[i].baseStart;
+    let regionEnd = hunks[i].baseEnd;
+    i++;
+    while (i < hunks.length && hunks[i].baseStart <= regionEnd) {
+      regionEnd = Math.max(regionEnd, hunks[i].baseEnd);
+      group.push(hunks[i++]);
+    }
+
+    pushStable(baseLines.slice(position, regionStart));
+    const ourHunks = group.filter((hunk) => hunk.side === "ours");
+    const theirHunks = group.filter((hunk) => hunk.side === "theirs");
+    const ourLines = applyHunks(baseLines, regionStart, regionEnd, ourHunks);
+    const theirLines = applyHunks(baseLines, regionStart, regionEnd, theirHunks);
+
+    if (theirHunks.length === 0 || sameLines(ourLines, theirLines)) {
+      pushStable(ourLines);
+    } else if (ourHunks.length === 0) {
+      pushStable(theirLines);
+    } else {
+      chunks.push({
+        type: "conflict",
+        base: baseLines.slice(regionStart, regionEnd),
+        ours: ourLines,
+        theirs: theirLines,
+      });
+    }
+    position = regionEnd;
+  }
+  pushStable(baseLines.slice(position));
+
+  return chunks;
+}
+
+export function countConflicts(chunks: MergeChunk[]): number {
+  return chunks.filter((chunk) => chunk.type === "conflict").length;
+}
+
+/**
+ * Joins merged chunks into text. Conflicts take their resolution, in order;
+ * unresolved conflicts are written out with git-style conflict markers.
+ */
+export function resolveMerge(chunks: MergeChunk[], resolutions: (ConflictResolution | undefined)[] = []): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type === "stable") {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    switch (resolutions[conflictIndex++]) {
+      case "ours":
+        lines.push(...chunk.ours);
+        break;
+      case "theirs":
+        lines.push(...chunk.theirs);
+        break;
+      case "both":
+        lines.push(...chunk.ours, ...chunk.theirs);
+        break;
+      default:
+        lines.push("<<<<<<< yours", ...chunk.ours, "=======", ...chunk.theirs, ">>>>>>> latest");
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,188 @@
+/**
+ * Types and calls for the pull request edge functions
+ * (list-pull-requests, get-pull-request, create-pull-request, manage-pull-request)
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import type { ChangedFile } from "@/lib/diff";
+
+export type PullRequestState = "open" | "closed" | "merged";
+export type PullRequestStateFilter = PullRequestState | "all";
+export type MergeMethod = "merge" | "squash" | "rebase";
+
+export interface PullRequestAuthor {
+  login: string;
+  avatar_url: string;
+}
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  state: PullRequestState;
+  draft: boolean;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  author: PullRequestAuthor | null;
+  head: string;
+  base: string;
+  labels: { name: string; color: string }[];
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  state: PullRequestState;
+  draft: boolean;
+  mergeable: boolean | null;
+  mergeable_state: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  author: PullRequestAuthor | null;
+  head: string;
+  head_sha: string;
+  base: string;
+  additions: number;
+  deletions: number;
+  changed_files: number;
+}
+
+export interface PullRequestCommit {
+  sha: string;
+  message: string;
+  author_name: string | null;
+  date: string | null;
+  author: PullRequestAuthor | null;
+  html_url: string;
+}
+
+export type PullRequestFile = ChangedFile;
+
+export interface PullRequestCheckRun {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string | null;
+}
+
+export interface PullRequestStatus {
+  id: number;
+  context: string;
+  state: string;
+  description: string | null;
+  target_url: string | null;
+}
+
+export interface PullRequestChecks {
+  state: string;
+  check_runs: PullRequestCheckRun[];
+  statuses: PullRequestStatus[];
+}
+
+export interface PullRequestReview {
+  id: number;
+  author: PullRequestAuthor | null;
+  state: string;
+  body: string;
+  submitted_at: string | null;
+  html_url: string;
+}
+
+export interface PullRequestComment {
+  id: number;
+  author: PullRequestAuthor | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+}
+
+export interface PullRequestReviewComment extends PullRequestComment {
+  path: string | null;
+  line: number | null;
+  diff_hunk: string | null;
+  in_reply_to_id: number | null;
+}
+
+export interface PullRequestDetail {
+  pull_request: PullRequestInfo;
+  commits: PullRequestCommit[];
+  files: PullRequestFile[];
+  checks: PullRequestChecks;
+  reviews: PullRequestReview[];
+  review_comments: PullRequestReviewComment[];
+  comments: PullRequestComment[];
+}
+
+export interface PullRequestPage {
+  pull_requests: PullRequestSummary[];
+  page: number;
+  has_more: boolean;
+}
+
+export type PullRequestAction =
+  | { action: "merge"; mergeMethod: MergeMethod; commitTitle?: string; commitMessage?: string; sha?: string }
+  | { action: "close" }
+  | { action: "reopen" }
+  | { action: "comment"; body: string };
+
+export type CheckOutcome = "success" | "failure" | "pending" | "neutral";
+
+export function getCheckRunOutcome(run: PullRequestCheckRun): CheckOutcome {
+  if (run.status !== "completed") return "pending";
+  if (run.conclusion === "success") return "success";
+  if (run.conclusion === "neutral" || run.conclusion === "skipped") return "neutral";
+  return "failure";
+}
+
+export function getStatusOutcome(status: PullRequestStatus): CheckOutcome {
+  if (status.state === "success") return "success";
+  if (status.state === "pending") return "pending";
+  return "failure";
+}
+
+/**
+ * Rolls check runs and commit statuses up into one outcome, the way GitHub's
+ * merge box does: any failure wins, then anything still running
+ */
+export function summarizeChecks(checks: PullRequestChecks): CheckOutcome | "none" {
+  const outcomes = [...checks.check_runs.map(getCheckRunOutcome), ...checks.statuses.map(getStatusOutcome)];
+
+  if (outcomes.length === 0) return "none";
+  if (outcomes.includes("failure")) return "failure";
+  if (outcomes.includes("pending")) return "pending";
+  return "success";
+}
+
+/** Route of a pull request's page; the repository is encoded as owner--repo like the repository pages */
+export function pullRequestPath(owner: string, repo: string, number: number) {
+  return `/pull-requests/${owner}--${repo}/${number}`;
+}
+
+export function listPullRequests(owner: string, repo: string, state: PullRequestStateFilter, page = 1) {
+  return callFunction<PullRequestPage>("list-pull-requests", { owner, repositoryName: repo, state, page });
+}
+
+export function getPullRequest(owner: string, repo: string, number: number) {
+  return callFunction<PullRequestDetail>("get-pull-request", { owner, repositoryName: repo, number });
+}
+
+export function createPullRequest(
+  owner: string,
+  repo: string,
+  pullRequest: { title: string; body?: string; head: string; base: string }
+) {
+  return callFunction<{ success: boolean; pull_request_url: string; pull_request_number: number }>(
+    "create-pull-request",
+    { owner, repositoryName: repo, ...pullRequest }
+  );
+}
+
+export function managePullRequest(owner: string, repo: string, number: number, action: PullRequestAction) {
+  return callFunction<{ success: boolean }>("manage-pull-request", { owner, repositoryName: repo, number, ...action });
+}
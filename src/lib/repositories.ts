@@ -0,0 +1,129 @@
+/**
+ * Paged repository listing from list-repos, for the user's own list or an organization's
+ */
+import { callFunction } from "@/lib/supabase-functions";
+
+export type RepositoryAffiliation = "owner" | "collaborator" | "organization_member";
+
+export const REPOSITORY_AFFILIATIONS: { value: RepositoryAffiliation; label: string }[] = [
+  { value: "owner", label: "Owner" },
+  { value: "collaborator", label: "Collaborator" },
+  { value: "organization_member", label: "Organization member" },
+];
+
+export interface GitHubOrganization {
+  login: string;
+  avatar_url: string;
+}
+
+export interface RepositoryListScope {
+  /** Lists this organization's repositories instead of the user's */
+  organization?: string;
+  /** Narrows the user's list; every affiliation when unset */
+  affiliation?: RepositoryAffiliation[];
+}
+
+export interface RepositoryPage<T> {
+  repositories: T[];
+  page: number;
+  has_more: boolean;
+  /** Only present when requested with includeOrganizations */
+  organizations?: GitHubOrganization[];
+}
+
+export function fetchRepositoryPage<T>(scope: RepositoryListScope, page: number, includeOrganizations = false) {
+  return callFunction<RepositoryPage<T>>("list-repos", {
+    page,
+    organization: scope.organization,
+    affiliation: scope.affiliation?.length ? scope.affiliation : undefined,
+    include_organizations: includeOrganizations || undefined,
+  });
+}
+
+/** Organizations the user belongs to, without loading their repositories */
+export async function fetchOrganizations() {
+  const { organizations } = await callFunction<RepositoryPage<unknown>>("list-repos", {
+    page: 1,
+    per_page: 1,
+    include_organizations: true,
+  });
+  return organizations ?? [];
+}
+
+/**
+ * Fetches every page in order, handing each to onPage as it arrives.
+ * Stops without error once the signal is aborted.
+ */
+export async function fetchAllRepositories<T>(
+  scope: RepositoryListScope,
+  onPage?: (page: RepositoryPage<T>) => void,
+  options: { signal?: AbortSignal; includeOrganizations?: boolean } = {}
+): Promise<T[]> {
+  const repositories: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchRepositoryPage<T>(scope, page, page === 1 && options.includeOrganizations);
+    if (options.signal?.aborted) return repositories;
+    repositories.push(...result.repositories);
+    onPage?.(result);
+    if (!result.has_more) return repositories;
+  }
+}
+
+/** GitHub's repository roles, lowest first */
+export type RepositoryRole = "pull" | "triage" | "push" | "maintain" | "admin";
+
+/** The signed-in user's access, as GitHub reports it on each repository */
+export interface RepositoryPermissions {
+  admin: boolean;
+  maintain?: boolean;
+  push: boolean;
+  triage?: boolean;
+  pull: boolean;
+}
+
+const ROLE_ORDER: RepositoryRole[] = ["pull", "triage", "push", "maintain", "admin"];
+
+/**
+ * Mirrors the server's check in supabase/functions/_shared/repository-access.ts:
+ * higher roles include every lower one, and archived repositories cannot be written to
+ */
+export function hasRepositoryRole(
+  permissions: RepositoryPermissions | null | undefined,
+  role: RepositoryRole,
+  archived = false
+): boolean {
+  if (!permissions) return false;
+  if (archived && (role === "push" || role === "maintain")) return false;
+  return ROLE_ORDER.slice(ROLE_ORDER.indexOf(role)).some((r) => permissions[r] === true);
+}
+
+export function setRepositoryArchived(owner: string, repo: string, archived: boolean) {
+  return callFunction("update-repo", { owner, repo, archived });
+}
+
+export interface TransferResult {
+  /** True while a user recipient has yet to accept the transfer by email */
+  pending: boolean;
+  repository: { name: string; full_name: string; html_url: string };
+}
+
+export function transferRepository(owner: string, repo: string, newOwner: string, newName?: string) {
+  return callFunction<TransferResult>("transfer-repo", { owner, repo, new_owner: newOwner, new_name: newName || undefined });
+}
+
+export interface ForkOptions {
+  /** Forks into the user's own account when unset */
+  organization?: string;
+  name?: string;
+  defaultBranchOnly?: boolean;
+}
+
+export function forkRepository(owner: string, repo: string, options: ForkOptions = {}) {
+  return callFunction<{ repository: { name: string; full_name: string; html_url: string } }>("fork-repo", {
+    owner,
+    repo,
+    organization: options.organization,
+    name: options.name || undefined,
+    default_branch_only: options.defaultBranchOnly,
+  });
+}
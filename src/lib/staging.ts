@@ -0,0 +1,142 @@
+/**
+ * Staged changes for a repository branch, kept in IndexedDB so they survive
+ * reloads, and committed together through the commit-changes edge function.
+ */
+import { callFunction } from "@/lib/supabase-functions";
+import type { RepoLocation } from "@/lib/commits";
+import type { CommitFields } from "@/lib/commit-details";
+
+export type StagedChange =
+  | {
+      id: string;
+      type: "upsert";
+      path: string;
+      content: string;
+      /** Blob the edit started from; null for a new file */
+      base_sha: string | null;
+      /** Content of base_sha, kept to show the edit as a diff */
+      original_content: string | null;
+    }
+  | { id: string; type: "delete"; path: string; itemType: "file" | "dir" }
+  | { id: string; type: "move"; from: string; to: string; itemType: "file" | "dir" };
+
+// Omit applied to each member, so the union stays discriminated
+type WithoutId<T> = T extends StagedChange ? Omit<T, "id"> : never;
+
+export type StagedChangeInput = WithoutId<StagedChange>;
+
+export interface CommitStagedResult {
+  branch: string;
+  parent_sha: string;
+  commit_sha: string;
+  commit_url: string;
+  files_changed: number;
+}
+
+const DB_NAME = "repo-staging";
+const STORE_NAME = "changes";
+
+export function getStagingKey(location: RepoLocation, branch: string) {
+  return `${location.owner}/${location.repo}@${branch}`;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadStagedChanges(key: string): Promise<StagedChange[]> {
+  const changes = await withStore<StagedChange[] | undefined>("readonly", (store) => store.get(key));
+  return changes ?? [];
+}
+
+export async function saveStagedChanges(key: string, changes: StagedChange[]): Promise<void> {
+  await withStore("readwrite", (store) => (changes.length > 0 ? store.put(changes, key) : store.delete(key)));
+}
+
+/**
+ * Adds a change, folding it into an earlier one where the result is the same:
+ * editing a staged file replaces the staged content, and a later delete or move
+ * of a staged new file applies to the staged file instead of the branch.
+ */
+export function addStagedChange(changes: StagedChange[], input: StagedChangeInput): StagedChange[] {
+  const change = { ...input, id: crypto.randomUUID() } as StagedChange;
+
+  if (change.type === "upsert") {
+    const existing = changes.find((c) => c.type === "upsert" && c.path === change.path);
+    if (existing && existing.type === "upsert") {
+      return changes.map((c) =>
+        c === existing ? { ...existing, content: change.content } : c
+      );
+    }
+  }
+
+  if (change.type === "delete" || change.type === "move") {
+    const path = change.type === "delete" ? change.path : change.from;
+    const created = changes.find((c) => c.type === "upsert" && c.path === path && c.base_sha === null);
+    if (created && created.type === "upsert") {
+      return change.type === "delete"
+        ? changes.filter((c) => c !== created)
+        : changes.map((c) => (c === created ? { ...created, path: change.to } : c));
+    }
+  }
+
+  return [...changes, change];
+}
+
+export function describeStagedChange(change: StagedChange): string {
+  switch (change.type) {
+    case "upsert":
+      return `${change.base_sha === null ? "Create" : "Edit"} ${change.path}`;
+    case "delete":
+      return `Delete ${change.path}`;
+    case "move":
+      return `Move ${change.from} → ${change.to}`;
+  }
+}
+
+/**
+ * Commits all changes as one commit on the branch, or on a new branch created from it
+ */
+export function commitStagedChanges(
+  location: RepoLocation,
+  branch: string,
+  changes: StagedChange[],
+  options: CommitFields & { message: string; newBranch?: string }
+) {
+  const { newBranch, ...commit } = options;
+  return callFunction<CommitStagedResult>("commit-changes", {
+    ...location,
+    branch,
+    new_branch: newBranch || undefined,
+    ...commit,
+    // The server only needs what to apply, not the local bookkeeping
+    changes: changes.map((change) => {
+      switch (change.type) {
+        case "upsert":
+          return { type: change.type, path: change.path, content: change.content, base_sha: change.base_sha };
+        case "delete":
+          return { type: change.type, path: change.path };
+        case "move":
+          return { type: change.type, from: change.from, to: change.to };
+      }
+    }),
+  });
+}
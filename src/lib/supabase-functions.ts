@@ -25,3 +25,39 @@ export async function invokeFunction<T = any>(
     }
   });
 }
+
+/**
+ * Reads the message a function sent with a non-2xx response, which supabase-js
+ * surfaces as a FunctionsHttpError with the JSON body unread. Validation details
+ * are appended so the user can see which field was rejected.
+ */
+export async function readFunctionErrorMessage(error: unknown): Promise<string | null> {
+  const response = (error as { context?: unknown } | null)?.context;
+  if (!(response instanceof Response)) return null;
+  const payload = await response.clone().json().catch(() => null);
+  if (typeof payload?.error !== 'string') return null;
+  return Array.isArray(payload.details) && payload.details.length > 0
+    ? `${payload.error}: ${payload.details.join('; ')}`
+    : payload.error;
+}
+
+/**
+ * Like invokeFunction, but resolves to the response data and throws an Error
+ * carrying the function's own message on failure
+ */
+export async function callFunction<T>(functionName: string, body: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await invokeFunction<T & { error?: string }>(functionName, body);
+
+  if (data?.error) {
+    if (data.error.includes('token') || data.error.includes('expired')) {
+      throw new Error('Your GitHub session has expired. Please log out and log back in.');
+    }
+    throw new Error(data.error);
+  }
+  if (error) {
+    const message = await readFunctionErrorMessage(error);
+    if (message) throw new Error(message);
+    throw error;
+  }
+  return data as T;
+}
@@ -0,0 +1,39 @@
+/**
+ * Shapes returned by sync-repo-contents in preview and apply mode
+ */
+export type SyncFileStatus = "added" | "modified" | "deleted";
+
+export interface SyncFile {
+  path: string;
+  status: SyncFileStatus;
+  mode: string;
+  sourceSha: string | null;
+  destSha: string | null;
+  /** Which side changed the file since the merge base; null without a common base */
+  changedIn: "source" | "destination" | "both" | null;
+}
+
+export interface SyncPreview {
+  sourceCommitSha: string;
+  destCommitSha: string;
+  mergeBaseSha: string | null;
+  files: SyncFile[];
+  unchanged: number;
+}
+
+export interface SyncResult {
+  commit_sha: string;
+  commit_url: string;
+  files_synced: number;
+  added: number;
+  modified: number;
+  deleted: number;
+}
+
+/**
+ * Files picked by default: everything the source changed. Changes made only in the
+ * destination are left alone, since syncing them would undo the destination's work.
+ */
+export function getDefaultSyncSelection(files: SyncFile[]): Set<string> {
+  return new Set(files.filter((file) => file.changedIn !== "destination").map((file) => file.path));
+}
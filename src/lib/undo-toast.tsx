@@ -0,0 +1,54 @@
+/**
+ * Success toast with an Undo action for operations that write commits.
+ * Undo reverts everything between the branch head before and after the
+ * operation, so it also covers operations that made several commits.
+ */
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { revertCommit, type RepoLocation } from "@/lib/commits";
+
+/** The commit range an edge function reports for a write */
+export interface CommitRange {
+  parent_sha?: string | null;
+  commit_sha?: string | null;
+}
+
+interface UndoToastOptions {
+  title: string;
+  description: string;
+  location: RepoLocation;
+  branch: string;
+  range: CommitRange | null | undefined;
+  onUndone: () => void;
+}
+
+export function showUndoToast({ title, description, location, branch, range, onUndone }: UndoToastOptions) {
+  const parentSha = range?.parent_sha;
+  const commitSha = range?.commit_sha;
+
+  const undo = async () => {
+    if (!parentSha || !commitSha) return;
+    try {
+      await revertCommit(location, branch, commitSha, parentSha);
+      onUndone();
+      toast({ title: "Undone ✓", description: "A commit restoring the previous state was added." });
+    } catch (error) {
+      console.error("Error undoing operation:", error);
+      toast({
+        variant: "destructive",
+        title: "Undo failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  toast({
+    title,
+    description,
+    action: parentSha && commitSha ? (
+      <ToastAction altText="Undo this change" onClick={undo}>
+        Undo
+      </ToastAction>
+    ) : undefined,
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Repository webhooks and their recent deliveries, via list-webhooks and manage-webhook
+ */
+import { callFunction } from "@/lib/supabase-functions";
+
+/** Events offered when choosing individual events; "*" subscribes to everything */
+export const WEBHOOK_EVENT_OPTIONS: { value: string; label: string }[] = [
+  { value: "push", label: "Pushes" },
+  { value: "pull_request", label: "Pull requests" },
+  { value: "pull_request_review", label: "Pull request reviews" },
+  { value: "issues", label: "Issues" },
+  { value: "issue_comment", label: "Issue comments" },
+  { value: "create", label: "Branch or tag creation" },
+  { value: "delete", label: "Branch or tag deletion" },
+  { value: "release", label: "Releases" },
+  { value: "workflow_run", label: "Workflow runs" },
+  { value: "deployment_status", label: "Deployment statuses" },
+  { value: "star", label: "Stars" },
+  { value: "fork", label: "Forks" },
+];
+
+export type WebhookContentType = "json" | "form";
+
+export interface Webhook {
+  id: number;
+  active: boolean;
+  events: string[];
+  url: string;
+  content_type: WebhookContentType;
+  insecure_ssl: boolean;
+  has_secret: boolean;
+  created_at: string;
+  updated_at: string;
+  last_response: { code: number | null; status: string; message: string | null };
+}
+
+export interface WebhookDelivery {
+  id: number;
+  guid: string;
+  delivered_at: string;
+  redelivery: boolean;
+  /** Seconds */
+  duration: number;
+  status: string;
+  /** 0 when GitHub couldn't connect */
+  status_code: number;
+  event: string;
+  action: string | null;
+}
+
+export interface WebhookSettings {
+  url: string;
+  content_type: WebhookContentType;
+  insecure_ssl: boolean;
+  events: string[];
+  active: boolean;
+  /** Omitted keeps the current secret; an empty string removes it */
+  secret?: string;
+}
+
+export type WebhookAction =
+  | ({ action: "create" } & WebhookSettings)
+  | ({ action: "update"; hook_id: number } & Partial<WebhookSettings>)
+  | { action: "delete"; hook_id: number }
+  | { action: "ping"; hook_id: number }
+  | { action: "redeliver"; hook_id: number; delivery_id: number };
+
+export async function fetchWebhooks(owner: string, repo: string) {
+  const { webhooks } = await callFunction<{ webhooks: Webhook[] }>("list-webhooks", { owner, repo });
+  return webhooks;
+}
+
+/** Newest first, as GitHub returns them */
+export async function fetchWebhookDeliveries(owner: string, repo: string, hookId: number) {
+  const { deliveries } = await callFunction<{ deliveries: WebhookDelivery[] }>("list-webhooks", { owner, repo, hook_id: hookId });
+  return deliveries;
+}
+
+export function manageWebhook(owner: string, repo: string, action: WebhookAction) {
+  return callFunction<{ success: boolean; hook_id?: number }>("manage-webhook", { owner, repo, ...action });
+}
@@ -9,16 +9,73 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Upload, Link as LinkIcon, FileArchive, Folder, Loader2, ArrowRight, ArrowLeft } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Upload, Link as LinkIcon, FileArchive, Folder, Loader2, ArrowRight, ArrowLeft, GitPullRequest, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { StepIndicator } from "@/components/wizard/StepIndicator";
 import { WizardStep } from "@/components/wizard/WizardStep";
+import { ImportFileTree } from "@/components/wizard/ImportFileTree";
+import { NewRepositoryOptionsForm } from "@/components/wizard/NewRepositoryOptionsForm";
+import { PushPlanSummary } from "@/components/wizard/PushPlanSummary";
 import { useGitHubRepos } from "@/hooks/useGitHubRepos";
 import { WelcomeModal } from "@/components/onboarding/WelcomeModal";
 import { TutorialOverlay } from "@/components/onboarding/TutorialOverlay";
 import { BottomNav } from "@/components/BottomNav";
 import JSZip from "jszip";
-import { repoNameSchema, branchNameSchema, validateInput } from "@/lib/input-validation";
+import { format } from "date-fns";
+import {
+  repoNameSchema,
+  branchNameSchema,
+  repoDescriptionSchema,
+  homepageSchema,
+  topicsSchema,
+  validateInput,
+} from "@/lib/input-validation";
+import {
+  type NewRepositoryOptions,
+  type PushPlan,
+  type PushProgress,
+  type PushSource,
+  planPush,
+  runChunkedPush,
+} from "@/lib/chunked-push";
+import { createPullRequest, pullRequestPath } from "@/lib/pull-requests";
+import { fetchOrganizations, type GitHubOrganization } from "@/lib/repositories";
+import { createCommitDetails, toCommitFields, validateCommitDetails } from "@/lib/commit-details";
+import { CommitComposer } from "@/components/commit/CommitComposer";
+import {
+  type ImportCandidate,
+  type ImportCandidateMap,
+  type ImportFileMap,
+  readImportFile,
+  readZipEntry,
+  getImportFileStats,
+  formatBytes,
+  prepareImport,
+  readImportCandidates,
+} from "@/lib/import-files";
+
+// e.g. backup/main-20250101-1230
+const defaultBackupBranch = (branch: string) =>
+  `backup/${branch || "branch"}-${format(new Date(), "yyyyMMdd-HHmm")}`;
+
+const toUrlSource = (url: string, ref: string, path: string, preserveHistory: boolean): PushSource => ({
+  type: "url",
+  githubUrl: url.trim(),
+  sourceRef: ref.trim(),
+  sourcePath: path.trim().replace(/^\/+|\/+$/g, ""),
+  preserveHistory,
+});
+
+// Blank optional fields are left for GitHub to default
+const toRepositoryOptions = (options: NewRepositoryOptions, defaultBranch: string): NewRepositoryOptions => ({
+  ...options,
+  description: options.description?.trim() || undefined,
+  homepage: options.homepage?.trim() || undefined,
+  default_branch: defaultBranch,
+});
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -32,20 +89,53 @@ const Dashboard = () => {
   
   // Step 2: Repository & Branch
   const [repoName, setRepoName] = useState("");
+  // Organization to create the repository in; empty for the user's own account
+  const [newRepoOwner, setNewRepoOwner] = useState("");
+  const [organizations, setOrganizations] = useState<GitHubOrganization[]>([]);
   const [repoNameValidation, setRepoNameValidation] = useState<"checking" | "available" | "taken" | null>(null);
+  const [repoOptions, setRepoOptions] = useState<NewRepositoryOptions>({ private: false, default_branch: "main" });
+  // Full name (owner/repo), so organization and collaborator repositories keep their owner
   const [selectedRepo, setSelectedRepo] = useState("");
   const [targetBranch, setTargetBranch] = useState("");
   const [newBranchName, setNewBranchName] = useState("");
   const [useExistingBranch, setUseExistingBranch] = useState(true);
+  const [selectedOwner, selectedRepoName] = selectedRepo.split("/");
+  const destinationOwner = destinationType === "new" ? newRepoOwner || undefined : selectedOwner;
+  const destinationRepo = destinationType === "new" ? repoName : selectedRepoName;
+  const destinationLabel = destinationType === "new" ? [newRepoOwner, repoName].filter(Boolean).join("/") : selectedRepo;
   
   // Step 3: Content & Mode
   const [importMode, setImportMode] = useState("add");
+  const [createBackup, setCreateBackup] = useState(true);
+  const [commit, setCommit] = useState(() => createCommitDetails());
+  const [backupBranchName, setBackupBranchName] = useState("");
   const [importUrl, setImportUrl] = useState("");
-  const [selectedFiles, setSelectedFiles] = useState<Record<string, string>>({});
+  const [sourceRef, setSourceRef] = useState("");
+  const [sourcePath, setSourcePath] = useState("");
+  const [preserveHistory, setPreserveHistory] = useState(false);
+  const [selectedFiles, setSelectedFiles] = useState<ImportFileMap>({});
+  const [importCandidates, setImportCandidates] = useState<ImportCandidateMap>({});
   const [uploadType, setUploadType] = useState<"folder" | "zip" | "url">("folder");
   const [zipFileName, setZipFileName] = useState<string>("");
   
+  // Step 4: Pull request
+  const [proposeAsPullRequest, setProposeAsPullRequest] = useState(false);
+  const [pullRequestTitle, setPullRequestTitle] = useState("");
+  const [pullRequestBody, setPullRequestBody] = useState("");
+  // Generated once, so a retried push resumes into the same topic branch
+  const [topicBranch, setTopicBranch] = useState("");
+  // Set once the files are on the topic branch, so a retry only opens the pull request
+  const [pushedTopicBranch, setPushedTopicBranch] = useState<string | null>(null);
+  const [createdPullRequest, setCreatedPullRequest] = useState<{ url: string; number: number } | null>(null);
+
+  const [plan, setPlan] = useState<PushPlan | null>(null);
+  const [planLoading, setPlanLoading] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  // Bumped to plan again on request
+  const [planRequest, setPlanRequest] = useState(0);
+
   const [isLoading, setIsLoading] = useState(false);
+  const [pushProgress, setPushProgress] = useState<PushProgress | null>(null);
   
   // Onboarding state
   const [showWelcome, setShowWelcome] = useState(false);
@@ -104,6 +194,14 @@ const Dashboard = () => {
     }
   };
 
+  // Organizations offered as the owner of a new repository
+  useEffect(() => {
+    if (!profileLoaded) return;
+    fetchOrganizations()
+      .then(setOrganizations)
+      .catch((error) => console.error('Error fetching organizations:', error));
+  }, [profileLoaded]);
+
   // Load repos when choosing existing repository
   useEffect(() => {
     if (destinationType === "existing" && currentStep === 0) {
@@ -113,10 +211,88 @@ const Dashboard = () => {
 
   // Load branches when repository is selected
   useEffect(() => {
-    if (selectedRepo && currentStep === 1) {
-      fetchBranches(selectedRepo);
+    if (selectedRepo && currentStep === 1 && destinationType === "existing") {
+      fetchBranches(selectedRepoName, selectedOwner);
     }
-  }, [selectedRepo, currentStep]);
+  }, [selectedRepo, selectedRepoName, selectedOwner, currentStep, destinationType, fetchBranches]);
+
+  // A new repository only starts with its default branch
+  const newDefaultBranch = repoOptions.default_branch?.trim() || "main";
+  const branchOptions = destinationType === "new" ? [newDefaultBranch] : branches.map((branch) => branch.name);
+
+  useEffect(() => {
+    if (destinationType === "new" && currentStep === 1) {
+      setTargetBranch(newDefaultBranch);
+    }
+  }, [destinationType, currentStep, newDefaultBranch]);
+
+  // Different content or target needs a fresh topic branch
+  useEffect(() => {
+    setTopicBranch("");
+    setPushedTopicBranch(null);
+  }, [selectedRepo, targetBranch, selectedFiles, importUrl, sourceRef, sourcePath, importMode]);
+
+  const canProposePullRequest = destinationType === "existing" && useExistingBranch;
+  const asPullRequest = proposeAsPullRequest && canProposePullRequest;
+
+  // Dry run of the push, refreshed while the review step is open
+  useEffect(() => {
+    if (currentStep !== 3) return;
+    const branch = useExistingBranch ? targetBranch : newBranchName;
+    if (!destinationRepo || !branch) return;
+    if (uploadType === "url" ? !importUrl.trim() : Object.keys(selectedFiles).length === 0) {
+      setPlan(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setPlanLoading(true);
+      setPlanError(null);
+      try {
+        const result = await planPush(
+          {
+            owner: destinationOwner,
+            repositoryName: destinationRepo,
+            importMode,
+            // A pull request's topic branch starts as a copy of its base, so the comparison is the same
+            targetBranch: branch,
+            backupBranch: importMode === "overwrite" && destinationType === "existing" && createBackup && !asPullRequest
+              ? backupBranchName.trim() || defaultBackupBranch(branch)
+              : undefined,
+            repositoryOptions: destinationType === "new" ? toRepositoryOptions(repoOptions, newDefaultBranch) : undefined,
+          },
+          uploadType === "url"
+            ? toUrlSource(importUrl, sourceRef, sourcePath, preserveHistory)
+            : { type: "files", files: selectedFiles }
+        );
+        if (!cancelled) setPlan(result);
+      } catch (error) {
+        console.error('Error planning push:', error);
+        if (!cancelled) {
+          setPlan(null);
+          setPlanError(error instanceof Error ? error.message : "Could not compare with the branch");
+        }
+      } finally {
+        if (!cancelled) setPlanLoading(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    currentStep, planRequest, destinationType, destinationOwner, destinationRepo, useExistingBranch, targetBranch, newBranchName,
+    importMode, createBackup, backupBranchName, asPullRequest, repoOptions, newDefaultBranch,
+    uploadType, importUrl, sourceRef, sourcePath, preserveHistory, selectedFiles,
+  ]);
+
+  const repoOptionsError =
+    validateInput(repoDescriptionSchema, repoOptions.description ?? "") ??
+    validateInput(homepageSchema, repoOptions.homepage ?? "") ??
+    validateInput(topicsSchema, repoOptions.topics ?? []) ??
+    validateInput(branchNameSchema, newDefaultBranch);
 
   const checkRepoName = async (retryCount: number) => {
     setRepoNameValidation("checking");
@@ -125,6 +301,7 @@ const Dashboard = () => {
       const { data, error } = await supabase.functions.invoke('check-repo-name', {
         body: { 
           repositoryName: repoName.trim(),
+          owner: newRepoOwner || undefined,
           provider_token: session?.provider_token,
         }
       });
@@ -163,7 +340,7 @@ const Dashboard = () => {
     } else {
       setRepoNameValidation(null);
     }
-  }, [repoName, destinationType, currentStep, profileLoaded]);
+  }, [repoName, newRepoOwner, destinationType, currentStep, profileLoaded]);
 
   // Helper function to strip common root folder from paths
   const stripCommonRoot = (paths: string[]): Record<string, string> => {
@@ -218,34 +395,60 @@ const Dashboard = () => {
     return result;
   };
 
+  // Strips the common root folder, applies ignore rules and reads the included files
+  const loadUpload = async (sources: Record<string, Pick<ImportCandidate, "size" | "read">>, title: string) => {
+    const pathMapping = stripCommonRoot(Object.keys(sources));
+    const stripped: Record<string, Pick<ImportCandidate, "size" | "read">> = {};
+    Object.entries(pathMapping).forEach(([strippedPath, originalPath]) => {
+      stripped[strippedPath] = sources[originalPath];
+    });
+
+    const { candidates, files: fileMap } = await prepareImport(stripped);
+    setImportCandidates(candidates);
+    setSelectedFiles(fileMap);
+
+    const stats = getImportFileStats(fileMap);
+    const ignoredCount = Object.keys(candidates).length - stats.count;
+    toast({
+      title,
+      description: `${stats.count} files ready to upload (${formatBytes(stats.totalBytes)}${stats.binaryCount > 0 ? `, ${stats.binaryCount} binary` : ''})${ignoredCount > 0 ? `, ${ignoredCount} ignored` : ''}`,
+    });
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
-    const tempMap: Record<string, string> = {};
-    const paths: string[] = [];
-    
+    const sources: Record<string, Pick<ImportCandidate, "size" | "read">> = {};
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const content = await file.text();
-      const path = (file as any).webkitRelativePath || file.name;
-      tempMap[path] = content;
-      paths.push(path);
+      sources[file.webkitRelativePath || file.name] = { size: file.size, read: () => readImportFile(file) };
     }
 
-    // Strip common root folder and create final file map
-    const pathMapping = stripCommonRoot(paths);
-    const fileMap: Record<string, string> = {};
-    
-    Object.entries(pathMapping).forEach(([strippedPath, originalPath]) => {
-      fileMap[strippedPath] = tempMap[originalPath];
-    });
+    await loadUpload(sources, "Files loaded");
+  };
 
-    setSelectedFiles(fileMap);
-    toast({
-      title: "Files loaded",
-      description: `${Object.keys(fileMap).length} files ready to upload`,
-    });
+  const handleToggleImportPaths = async (paths: string[], include: boolean) => {
+    if (!include) {
+      setSelectedFiles((prev) => {
+        const next = { ...prev };
+        paths.forEach((path) => delete next[path]);
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const loaded = await readImportCandidates(importCandidates, paths.filter((path) => !selectedFiles[path]));
+      setSelectedFiles((prev) => ({ ...prev, ...loaded }));
+    } catch (error) {
+      console.error('Error reading files:', error);
+      toast({
+        variant: "destructive",
+        title: "Could not read files",
+        description: error instanceof Error ? error.message : "Please select the files again.",
+      });
+    }
   };
 
   const handleZipSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -257,37 +460,15 @@ const Dashboard = () => {
     try {
       const zip = new JSZip();
       const zipContent = await zip.loadAsync(file);
-      const tempMap: Record<string, string> = {};
-      const paths: string[] = [];
+      const sources: Record<string, Pick<ImportCandidate, "size" | "read">> = {};
 
-      const filePromises: Promise<void>[] = [];
       zipContent.forEach((relativePath, zipEntry) => {
         if (!zipEntry.dir) {
-          paths.push(relativePath);
-          filePromises.push(
-            zipEntry.async("text").then((content) => {
-              tempMap[relativePath] = content;
-            })
-          );
+          sources[relativePath] = { size: null, read: () => readZipEntry(zipEntry) };
         }
       });
 
-      await Promise.all(filePromises);
-      
-      // Strip common root folder and create final file map
-      const pathMapping = stripCommonRoot(paths);
-      const fileMap: Record<string, string> = {};
-      
-      Object.entries(pathMapping).forEach(([strippedPath, originalPath]) => {
-        fileMap[strippedPath] = tempMap[originalPath];
-      });
-      
-      setSelectedFiles(fileMap);
-
-      toast({
-        title: "ZIP file extracted",
-        description: `${Object.keys(fileMap).length} files ready to upload`,
-      });
+      await loadUpload(sources, "ZIP file extracted");
     } catch (error) {
       console.error('Error extracting ZIP:', error);
       toast({
@@ -302,14 +483,15 @@ const Dashboard = () => {
     switch (step) {
       case 1:
         if (destinationType === "new") {
-          return repoName.trim() !== "" && repoNameValidation === "available";
+          return repoName.trim() !== "" && repoNameValidation === "available" && repoOptionsError === null;
         }
         return selectedRepo !== "";
       case 2:
         return useExistingBranch ? targetBranch !== "" : newBranchName.trim() !== "";
       case 3:
         if (uploadType === "url") return importUrl.trim() !== "";
-        return Object.keys(selectedFiles).length > 0;
+        // Ignored files can still be included from the review step
+        return Object.keys(importCandidates).length > 0;
       default:
         return true;
     }
@@ -331,6 +513,8 @@ const Dashboard = () => {
     if (isLoading) return; // Prevent duplicate calls
     
     setIsLoading(true);
+    let lastProgress: PushProgress | null = null;
+    let pushed = false;
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -344,7 +528,7 @@ const Dashboard = () => {
         return;
       }
 
-      const finalRepoName = destinationType === "new" ? repoName : selectedRepo;
+      const finalRepoName = destinationRepo;
       const finalBranch = useExistingBranch ? targetBranch : newBranchName;
 
       if (!finalRepoName || !finalBranch) {
@@ -381,11 +565,35 @@ const Dashboard = () => {
         return;
       }
 
-      const payload: any = {
-        repositoryName: finalRepoName,
-        importMode,
-        targetBranch: finalBranch,
-      };
+      // Nothing on the base branch is replaced when the push goes through a pull request
+      const backupBranch = importMode === "overwrite" && destinationType === "existing" && createBackup && !asPullRequest
+        ? backupBranchName.trim() || defaultBackupBranch(finalBranch)
+        : undefined;
+      if (backupBranch) {
+        const backupError = validateInput(branchNameSchema, backupBranch);
+        if (backupError) {
+          toast({
+            variant: "destructive",
+            title: "Invalid backup branch name",
+            description: backupError,
+          });
+          setIsLoading(false);
+          return;
+        }
+      }
+
+      const commitError = validateCommitDetails(commit);
+      if (commitError) {
+        toast({
+          variant: "destructive",
+          title: "Invalid commit details",
+          description: commitError,
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      let source: PushSource;
 
       if (uploadType === "folder" || uploadType === "zip") {
         if (Object.keys(selectedFiles).length === 0) {
@@ -397,49 +605,68 @@ const Dashboard = () => {
           setIsLoading(false);
           return;
         }
-        payload.fileMap = selectedFiles;
-      } else if (uploadType === "url") {
+        source = { type: "files", files: selectedFiles };
+      } else {
         if (!importUrl.trim()) {
           toast({
             variant: "destructive",
             title: "No URL provided",
-            description: "Please enter a GitHub URL",
+            description: "Please enter a repository URL",
           });
           setIsLoading(false);
           return;
         }
-        payload.githubUrl = importUrl;
+        source = toUrlSource(importUrl, sourceRef, sourcePath, preserveHistory);
       }
 
-      const { data, error } = await supabase.functions.invoke('create-and-push-repo', {
-        body: {
-          ...payload,
-          provider_token: session?.provider_token,
-        },
-      });
+      const headBranch = asPullRequest
+        ? topicBranch || `import/${format(new Date(), "yyyyMMdd-HHmmss")}`
+        : finalBranch;
+      if (asPullRequest) setTopicBranch(headBranch);
 
-      if (error) {
-        console.error('Edge function error:', error);
-        throw new Error(`Failed to push content: ${error.message || 'Edge function returned an error'}`);
+      if (asPullRequest && pushedTopicBranch === headBranch) {
+        pushed = true;
+        await openPullRequest(headBranch, finalBranch);
+        return;
       }
-      
-      if (data?.error) {
-        console.error('API error:', data.error);
-        if (data.error.includes('token') || data.error.includes('expired')) {
-          throw new Error('Your GitHub session has expired. Please log out and log back in.');
+
+      const result = await runChunkedPush(
+        {
+          owner: destinationOwner,
+          repositoryName: finalRepoName,
+          importMode,
+          targetBranch: headBranch,
+          baseBranch: asPullRequest ? finalBranch : undefined,
+          backupBranch,
+          repositoryOptions: destinationType === "new" ? toRepositoryOptions(repoOptions, newDefaultBranch) : undefined,
+          commit: toCommitFields(commit),
+        },
+        source,
+        (progress) => {
+          lastProgress = progress;
+          setPushProgress(progress);
         }
-        throw new Error(data.error);
-      }
-      
-      if (!data || !data.success) {
-        console.error('Unexpected response:', data);
-        throw new Error('Failed to push content. Please check the repository settings and try again.');
+      );
+
+      pushed = true;
+      if (asPullRequest) {
+        setPushedTopicBranch(headBranch);
+        await openPullRequest(headBranch, finalBranch);
+        return;
       }
 
       toast({
         title: "Success!",
-        description: `Files pushed to ${finalBranch} branch successfully`,
+        description: result.source?.historyTruncated
+          ? `Imported the latest ${result.source.commits} commits of ${result.source.fullName} into ${finalBranch}`
+          : `Files pushed to ${finalBranch} branch successfully`,
       });
+      if (result.backup_branch) {
+        toast({
+          title: "Previous contents saved",
+          description: `The replaced files are kept on the ${result.backup_branch} branch`,
+        });
+      }
 
       // Reset and redirect
       setTimeout(() => navigate("/repositories"), 1500);
@@ -448,14 +675,43 @@ const Dashboard = () => {
       console.error('Error pushing to repository:', error);
       toast({
         variant: "destructive",
-        title: "Failed to push",
+        title: pushed ? "Failed to open pull request" : "Failed to push",
         description: error.message || "Unable to push files. Please try again.",
       });
+      if (pushed) {
+        toast({
+          title: "Files are on the topic branch",
+          description: "Click the button again to retry opening the pull request.",
+        });
+      } else if (lastProgress && lastProgress.completedBatches > 0) {
+        toast({
+          title: "Upload progress saved",
+          description: "Click Create & Push again to resume from the last completed batch.",
+        });
+      }
     } finally {
       setIsLoading(false);
+      setPushProgress(null);
     }
   };
 
+  // Pull requests are only proposed against an existing repository
+  const openPullRequest = async (head: string, base: string) => {
+    const result = await createPullRequest(selectedOwner, selectedRepoName, {
+      title: pullRequestTitle.trim() || `Import files into ${base}`,
+      body: pullRequestBody.trim() || undefined,
+      head,
+      base,
+    });
+    setCreatedPullRequest({ url: result.pull_request_url, number: result.pull_request_number });
+    toast({
+      title: "Pull request opened",
+      description: `#${result.pull_request_number} proposes ${head} for ${base}`,
+    });
+  };
+
+  const selectedStats = getImportFileStats(selectedFiles);
+
   return (
     <div className="min-h-screen">
       <Header username={username} showNav={true} />
@@ -521,6 +777,29 @@ const Dashboard = () => {
 
                   {destinationType === "new" ? (
                     <div className="space-y-2 sm:space-y-3">
+                      {organizations.length > 0 && (
+                        <div className="space-y-2 sm:space-y-3 pb-2">
+                          <Label htmlFor="repoOwner" className="text-base sm:text-sm font-semibold">Owner</Label>
+                          <Select
+                            value={newRepoOwner || "__self"}
+                            onValueChange={(value) => setNewRepoOwner(value === "__self" ? "" : value)}
+                          >
+                            <SelectTrigger id="repoOwner" className="bg-secondary h-12 sm:h-10 text-base sm:text-sm touch-manipulation">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="__self" className="text-base sm:text-sm py-3 sm:py-2">
+                                {username ?? "My account"}
+                              </SelectItem>
+                              {organizations.map((org) => (
+                                <SelectItem key={org.login} value={org.login} className="text-base sm:text-sm py-3 sm:py-2">
+                                  {org.login}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
                       <Label htmlFor="repoName" className="text-base sm:text-sm font-semibold">Repository Name</Label>
                       <Input
                         id="repoName"
@@ -552,6 +831,16 @@ const Dashboard = () => {
                           ✗ Repository name already exists
                         </p>
                       )}
+                      <div className="pt-2 sm:pt-3">
+                        <NewRepositoryOptionsForm
+                          options={repoOptions}
+                          onChange={setRepoOptions}
+                          disabled={!profileLoaded}
+                        />
+                      </div>
+                      {repoOptionsError && (
+                        <p className="text-sm text-destructive">{repoOptionsError}</p>
+                      )}
                     </div>
                   ) : (
                     <div className="space-y-2 sm:space-y-3">
@@ -562,8 +851,8 @@ const Dashboard = () => {
                         </SelectTrigger>
                         <SelectContent className="max-h-[300px]">
                           {repos.map((repo) => (
-                            <SelectItem key={repo.name} value={repo.name} className="text-base sm:text-sm py-3 sm:py-2">
-                              {repo.name}
+                            <SelectItem key={repo.full_name} value={repo.full_name} className="text-base sm:text-sm py-3 sm:py-2">
+                              {repo.full_name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -602,9 +891,9 @@ const Dashboard = () => {
                           <SelectValue placeholder={loadingBranches ? "Loading branches..." : "Select branch"} />
                         </SelectTrigger>
                         <SelectContent className="max-h-[300px]">
-                          {branches.map((branch) => (
-                            <SelectItem key={branch.name} value={branch.name} className="text-base sm:text-sm py-3 sm:py-2">
-                              {branch.name}
+                          {branchOptions.map((branch) => (
+                            <SelectItem key={branch} value={branch} className="text-base sm:text-sm py-3 sm:py-2">
+                              {branch}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -656,6 +945,8 @@ const Dashboard = () => {
                           {Object.keys(selectedFiles).length > 0 && (
                             <p className="text-sm text-primary font-medium">
                               {Object.keys(selectedFiles).length} files selected
+                              {Object.keys(importCandidates).length > Object.keys(selectedFiles).length &&
+                                `, ${Object.keys(importCandidates).length - Object.keys(selectedFiles).length} ignored`}
                             </p>
                           )}
                         </div>
@@ -694,7 +985,7 @@ const Dashboard = () => {
 
                     <TabsContent value="url" className="space-y-4">
                       <div className="space-y-2 sm:space-y-3">
-                        <Label htmlFor="importUrl" className="text-base sm:text-sm font-semibold">GitHub Repository URL</Label>
+                        <Label htmlFor="importUrl" className="text-base sm:text-sm font-semibold">Repository URL</Label>
                         <Input
                           id="importUrl"
                           type="url"
@@ -703,6 +994,47 @@ const Dashboard = () => {
                           onChange={(e) => setImportUrl(e.target.value)}
                           className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
                         />
+                        <p className="text-xs text-muted-foreground">
+                          GitHub, GitLab and Bitbucket URLs work, including links to a branch or folder.
+                        </p>
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="sourceRef" className="text-sm">Branch, tag or commit (optional)</Label>
+                          <Input
+                            id="sourceRef"
+                            placeholder="Default branch"
+                            value={sourceRef}
+                            onChange={(e) => setSourceRef(e.target.value)}
+                            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="sourcePath" className="text-sm">Subdirectory (optional)</Label>
+                          <Input
+                            id="sourcePath"
+                            placeholder="Whole repository"
+                            value={sourcePath}
+                            onChange={(e) => setSourcePath(e.target.value)}
+                            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <Checkbox
+                          id="preserveHistory"
+                          checked={preserveHistory}
+                          onCheckedChange={(checked) => setPreserveHistory(checked === true)}
+                          className="mt-0.5"
+                        />
+                        <div className="space-y-1">
+                          <Label htmlFor="preserveHistory" className="font-normal cursor-pointer text-sm">
+                            Preserve commit history
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Recreates the source commits (GitHub sources only) instead of a single commit.
+                          </p>
+                        </div>
                       </div>
                     </TabsContent>
                   </Tabs>
@@ -719,10 +1051,32 @@ const Dashboard = () => {
                       <div className="flex items-center space-x-2">
                         <RadioGroupItem value="overwrite" id="overwrite" className="h-5 w-5 sm:h-4 sm:w-4" />
                         <Label htmlFor="overwrite" className="font-normal cursor-pointer text-sm sm:text-base">
-                          Overwrite branch content
+                          Replace branch content (files not in the upload are removed)
                         </Label>
                       </div>
                     </RadioGroup>
+                    {importMode === "overwrite" && destinationType === "existing" && (
+                      <div className="space-y-2 pl-7 sm:pl-6">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="createBackup"
+                            checked={createBackup}
+                            onCheckedChange={(checked) => setCreateBackup(checked === true)}
+                          />
+                          <Label htmlFor="createBackup" className="font-normal cursor-pointer text-sm">
+                            Save the current contents to a backup branch first
+                          </Label>
+                        </div>
+                        {createBackup && (
+                          <Input
+                            value={backupBranchName}
+                            onChange={(e) => setBackupBranchName(e.target.value)}
+                            placeholder={defaultBackupBranch(useExistingBranch ? targetBranch : newBranchName)}
+                            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </WizardStep>
@@ -735,27 +1089,196 @@ const Dashboard = () => {
                   <div className="bg-secondary/50 p-4 sm:p-6 rounded-lg space-y-2 sm:space-y-3">
                     <p className="text-sm">
                       <span className="font-medium">Repository:</span>{" "}
-                      <span className="text-primary">{destinationType === "new" ? repoName : selectedRepo}</span>
+                      <span className="text-primary">{destinationLabel}</span>
                     </p>
+                    {destinationType === "new" && (
+                      <>
+                        <p className="text-sm">
+                          <span className="font-medium">Visibility:</span>{" "}
+                          {repoOptions.private ? "Private" : "Public"}
+                          {" · "}default branch <span className="font-mono">{newDefaultBranch}</span>
+                        </p>
+                        {repoOptions.description?.trim() && (
+                          <p className="text-sm">
+                            <span className="font-medium">Description:</span> {repoOptions.description.trim()}
+                          </p>
+                        )}
+                        {repoOptions.homepage?.trim() && (
+                          <p className="text-sm">
+                            <span className="font-medium">Homepage:</span> {repoOptions.homepage.trim()}
+                          </p>
+                        )}
+                        {repoOptions.topics && repoOptions.topics.length > 0 && (
+                          <p className="text-sm">
+                            <span className="font-medium">Topics:</span> {repoOptions.topics.join(", ")}
+                          </p>
+                        )}
+                        {(repoOptions.license_template || repoOptions.gitignore_template) && (
+                          <p className="text-sm">
+                            <span className="font-medium">Templates:</span>{" "}
+                            {[
+                              repoOptions.license_template && `${repoOptions.license_template} license`,
+                              repoOptions.gitignore_template && `${repoOptions.gitignore_template} .gitignore`,
+                            ].filter(Boolean).join(", ")}
+                          </p>
+                        )}
+                      </>
+                    )}
                     <p className="text-sm">
                       <span className="font-medium">Target Branch:</span>{" "}
                       <span className="text-primary">{useExistingBranch ? targetBranch : newBranchName}</span>
                     </p>
                     <p className="text-sm">
                       <span className="font-medium">Content:</span>{" "}
-                      {uploadType === "url" ? importUrl : `${Object.keys(selectedFiles).length} files`}
+                      {uploadType === "url"
+                        ? `${importUrl}${sourceRef.trim() ? ` @ ${sourceRef.trim()}` : ""}${sourcePath.trim() ? ` (${sourcePath.trim()})` : ""}`
+                        : `${Object.keys(selectedFiles).length} files`}
                     </p>
+                    {uploadType === "url" && (
+                      <p className="text-sm">
+                        <span className="font-medium">History:</span>{" "}
+                        {preserveHistory ? "Preserve source commits" : "Single commit"}
+                      </p>
+                    )}
+                    {uploadType !== "url" && (
+                      <p className="text-sm">
+                        <span className="font-medium">Size:</span>{" "}
+                        {formatBytes(selectedStats.totalBytes)}
+                        {selectedStats.binaryCount > 0 && ` · ${selectedStats.binaryCount} binary`}
+                        {selectedStats.executableCount > 0 && ` · ${selectedStats.executableCount} executable`}
+                        {selectedStats.symlinkCount > 0 && ` · ${selectedStats.symlinkCount} symlink${selectedStats.symlinkCount > 1 ? 's' : ''}`}
+                      </p>
+                    )}
                     <p className="text-sm">
                       <span className="font-medium">Mode:</span>{" "}
-                      {importMode === "add" ? "Add to branch" : "Overwrite branch"}
+                      {importMode === "add"
+                        ? "Add to branch"
+                        : `Replace branch content${destinationType === "existing" && createBackup
+                          ? ` (backup on ${backupBranchName.trim() || defaultBackupBranch(useExistingBranch ? targetBranch : newBranchName)})`
+                          : ""}`}
                     </p>
                   </div>
 
-                  <p className="text-xs sm:text-sm text-muted-foreground">
-                    You are about to push the selected content to the{" "}
-                    <strong>{useExistingBranch ? targetBranch : newBranchName}</strong> branch in{" "}
-                    <strong>{destinationType === "new" ? repoName : selectedRepo}</strong>. Proceed?
-                  </p>
+                  {uploadType !== "url" && Object.keys(importCandidates).length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-base sm:text-sm font-semibold">Files to push</Label>
+                      <ImportFileTree
+                        candidates={importCandidates}
+                        selectedFiles={selectedFiles}
+                        onToggle={handleToggleImportPaths}
+                      />
+                    </div>
+                  )}
+
+                  <PushPlanSummary
+                    plan={plan}
+                    isLoading={planLoading}
+                    error={planError}
+                    onRefresh={() => setPlanRequest((n) => n + 1)}
+                    asPullRequest={asPullRequest}
+                  />
+
+                  <CommitComposer
+                    value={commit}
+                    onChange={setCommit}
+                    placeholder={importMode === "overwrite" ? "Replace contents with the imported files" : "Add imported files"}
+                    disabled={isLoading}
+                    idPrefix="push-commit"
+                  />
+
+                  {canProposePullRequest && (
+                    <div className="space-y-3 border rounded-lg p-3 sm:p-4">
+                      <div className="flex items-start space-x-2">
+                        <Checkbox
+                          id="proposeAsPullRequest"
+                          checked={proposeAsPullRequest}
+                          onCheckedChange={(checked) => setProposeAsPullRequest(checked === true)}
+                          disabled={isLoading || createdPullRequest !== null}
+                          className="mt-0.5"
+                        />
+                        <div className="space-y-1">
+                          <Label htmlFor="proposeAsPullRequest" className="font-normal cursor-pointer text-sm">
+                            Propose as pull request
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Pushes to a new topic branch and opens a pull request against {targetBranch}, so the
+                            import can be reviewed before it lands.
+                          </p>
+                        </div>
+                      </div>
+                      {proposeAsPullRequest && (
+                        <div className="space-y-2">
+                          <Input
+                            value={pullRequestTitle}
+                            onChange={(e) => setPullRequestTitle(e.target.value)}
+                            placeholder={`Import files into ${targetBranch}`}
+                            maxLength={256}
+                            disabled={isLoading || createdPullRequest !== null}
+                            className="bg-secondary h-12 sm:h-10 text-base sm:text-sm"
+                          />
+                          <Textarea
+                            value={pullRequestBody}
+                            onChange={(e) => setPullRequestBody(e.target.value)}
+                            placeholder="Describe the import (optional)"
+                            maxLength={10000}
+                            rows={3}
+                            disabled={isLoading || createdPullRequest !== null}
+                            className="bg-secondary text-base sm:text-sm"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {createdPullRequest ? (
+                    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-primary/40 bg-primary/5 p-3 sm:p-4">
+                      <p className="text-sm flex items-center gap-2">
+                        <GitPullRequest className="h-4 w-4 text-primary" />
+                        Pull request #{createdPullRequest.number} is open for review
+                      </p>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={createdPullRequest.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                            View on GitHub
+                          </a>
+                        </Button>
+                        <Button size="sm" onClick={() => navigate(pullRequestPath(selectedOwner, selectedRepoName, createdPullRequest.number))}>
+                          Review
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {asPullRequest ? (
+                        <>
+                          You are about to push the selected content to a new branch in{" "}
+                          <strong>{selectedRepo}</strong> and propose it for <strong>{targetBranch}</strong>. Proceed?
+                        </>
+                      ) : (
+                        <>
+                          You are about to push the selected content to the{" "}
+                          <strong>{useExistingBranch ? targetBranch : newBranchName}</strong> branch in{" "}
+                          <strong>{destinationLabel}</strong>. Proceed?
+                        </>
+                      )}
+                    </p>
+                  )}
+
+                  {pushProgress && (
+                    <div className="space-y-2">
+                      <Progress
+                        value={pushProgress.totalBatches > 0 ? (pushProgress.completedBatches / pushProgress.totalBatches) * 100 : 0}
+                        className="h-2"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {pushProgress.stage === "starting" && "Preparing repository..."}
+                        {pushProgress.stage === "uploading" &&
+                          `${pushProgress.resumed ? "Resuming: " : ""}uploaded ${pushProgress.completedBatches} of ${pushProgress.totalBatches} batches`}
+                        {pushProgress.stage === "finalizing" && "Creating commit..."}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </WizardStep>
 
@@ -785,7 +1308,7 @@ const Dashboard = () => {
                 ) : (
                   <Button
                     onClick={handlePush}
-                    disabled={isLoading}
+                    disabled={isLoading || createdPullRequest !== null}
                     className="transition-smooth hover:shadow-glow h-12 sm:h-10 px-6 sm:px-6 text-base sm:text-sm flex-1 sm:flex-initial touch-manipulation"
                   >
                     {isLoading ? (
@@ -796,7 +1319,7 @@ const Dashboard = () => {
                       </>
                     ) : (
                       <>
-                        <span>Create & Push</span>
+                        <span>{asPullRequest ? "Push & Open Pull Request" : "Create & Push"}</span>
                       </>
                     )}
                   </Button>
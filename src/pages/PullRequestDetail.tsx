@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Header } from "@/components/Header";
+import { BottomNav } from "@/components/BottomNav";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, ExternalLink, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { PullRequestStateIcon } from "@/components/pull-requests/PullRequestList";
+import { PullRequestConversation } from "@/components/pull-requests/PullRequestConversation";
+import { PullRequestFiles } from "@/components/pull-requests/PullRequestFiles";
+import { PullRequestChecks, CheckOutcomeIcon } from "@/components/pull-requests/PullRequestChecks";
+import { PullRequestMergeBox } from "@/components/pull-requests/PullRequestMergeBox";
+import { getPullRequest, summarizeChecks, type PullRequestDetail as Detail } from "@/lib/pull-requests";
+
+const PullRequestDetail = () => {
+  const { repoName, number } = useParams<{ repoName: string; number: string }>();
+  const navigate = useNavigate();
+  // Route format: owner--repo
+  const [owner, ...repoParts] = (repoName ?? "").split("--");
+  const repo = repoParts.join("--");
+  const [username, setUsername] = useState<string | null>(null);
+  const [detail, setDetail] = useState<Detail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const prNumber = Number(number);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        fetchProfile(session.user.id);
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') {
+        navigate("/auth");
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const fetchProfile = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("github_username")
+      .eq("id", userId)
+      .single();
+
+    if (!error && data) {
+      setUsername(data.github_username);
+    }
+  };
+
+  const loadPullRequest = useCallback(async () => {
+    if (!owner || !repo || !Number.isInteger(prNumber) || prNumber < 1) return;
+    setIsLoading(true);
+    try {
+      setDetail(await getPullRequest(owner, repo, prNumber));
+    } catch (error) {
+      console.error("Error loading pull request:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to load pull request",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, prNumber]);
+
+  useEffect(() => {
+    loadPullRequest();
+  }, [loadPullRequest]);
+
+  const pr = detail?.pull_request;
+  const checkOutcome = detail ? summarizeChecks(detail.checks) : "none";
+
+  return (
+    <div className="min-h-screen">
+      <Header username={username} showNav={true} />
+
+      <main className="container mx-auto px-4 py-8 pb-24 md:pb-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(`/pull-requests?repo=${encodeURIComponent(`${owner}/${repo}`)}`)}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {owner}/{repo} pull requests
+          </Button>
+
+          {isLoading && !detail ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !detail || !pr ? (
+            <p className="text-center text-muted-foreground py-16">Pull request not found</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-start gap-3">
+                  <PullRequestStateIcon state={pr.state} className="h-6 w-6 mt-1 shrink-0" />
+                  <h2 className="text-2xl font-bold break-words flex-1">
+                    {pr.title} <span className="text-muted-foreground font-normal">#{pr.number}</span>
+                  </h2>
+                  <Button variant="outline" size="sm" onClick={() => window.open(pr.html_url, '_blank')}>
+                    <ExternalLink className="h-4 w-4 md:mr-2" />
+                    <span className="hidden md:inline">GitHub</span>
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <Badge variant="outline" className="capitalize">{pr.draft ? "draft" : pr.state}</Badge>
+                  <span>
+                    {pr.author?.login ?? "unknown"} wants to merge {detail.commits.length} commit
+                    {detail.commits.length === 1 ? "" : "s"} into
+                  </span>
+                  <Badge variant="secondary" className="font-mono">{pr.base}</Badge>
+                  <span>from</span>
+                  <Badge variant="secondary" className="font-mono">{pr.head}</Badge>
+                  <span className="text-green-600">+{pr.additions}</span>
+                  <span className="text-red-600">-{pr.deletions}</span>
+                </div>
+              </div>
+
+              <PullRequestMergeBox
+                owner={owner}
+                repositoryName={repo}
+                pullRequest={pr}
+                checks={detail.checks}
+                onChanged={loadPullRequest}
+              />
+
+              <Tabs defaultValue="conversation">
+                <TabsList className="w-full justify-start overflow-x-auto">
+                  <TabsTrigger value="conversation">
+                    Conversation {detail.comments.length + detail.reviews.length > 0 && `(${detail.comments.length + detail.reviews.length})`}
+                  </TabsTrigger>
+                  <TabsTrigger value="commits">Commits ({detail.commits.length})</TabsTrigger>
+                  <TabsTrigger value="files">Files ({detail.files.length})</TabsTrigger>
+                  <TabsTrigger value="checks" className="gap-1">
+                    {checkOutcome !== "none" && <CheckOutcomeIcon outcome={checkOutcome} className="h-3 w-3" />}
+                    Checks
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="conversation">
+                  <PullRequestConversation
+                    owner={owner}
+                repositoryName={repo}
+                    pullRequest={pr}
+                    reviews={detail.reviews}
+                    comments={detail.comments}
+                    onCommented={loadPullRequest}
+                  />
+                </TabsContent>
+
+                <TabsContent value="commits">
+                  <ul className="divide-y border rounded-lg">
+                    {detail.commits.map((commit) => (
+                      <li key={commit.sha} className="flex items-center gap-3 px-3 py-2">
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{commit.message.split("\n")[0]}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {commit.author?.login ?? commit.author_name ?? "unknown"}
+                            {commit.date && ` committed ${formatDistanceToNow(new Date(commit.date), { addSuffix: true })}`}
+                          </p>
+                        </div>
+                        <a
+                          href={commit.html_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          {commit.sha.slice(0, 7)}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </TabsContent>
+
+                <TabsContent value="files">
+                  <PullRequestFiles files={detail.files} reviewComments={detail.review_comments} />
+                </TabsContent>
+
+                <TabsContent value="checks">
+                  <PullRequestChecks checks={detail.checks} />
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+      </main>
+
+      <BottomNav username={username} />
+    </div>
+  );
+};
+
+export default PullRequestDetail;
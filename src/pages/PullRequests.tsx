@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Header } from "@/components/Header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,16 +8,21 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { GitPullRequest, Loader2, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useGitHubRepos } from "@/hooks/useGitHubRepos";
 import { BottomNav } from "@/components/BottomNav";
+import { PullRequestList } from "@/components/pull-requests/PullRequestList";
 
 const PullRequests = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [username, setUsername] = useState<string | null>(null);
-  const [selectedRepo, setSelectedRepo] = useState("");
+  // Full name (owner/repo), so organization and collaborator repositories keep their owner
+  const [selectedRepo, setSelectedRepo] = useState(searchParams.get("repo") ?? "");
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") === "create" ? "create" : "browse");
   const [headBranch, setHeadBranch] = useState("");
   const [baseBranch, setBaseBranch] = useState("");
   const [prTitle, setPrTitle] = useState("");
@@ -26,6 +31,7 @@ const PullRequests = () => {
   const [prUrl, setPrUrl] = useState("");
 
   const { repos, branches, loadingRepos, loadingBranches, fetchRepos, fetchBranches } = useGitHubRepos();
+  const [repoOwner = "", repoName = ""] = selectedRepo.split("/");
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -61,13 +67,21 @@ const PullRequests = () => {
   };
 
   useEffect(() => {
-    if (selectedRepo) {
-      fetchBranches(selectedRepo);
+    if (repoOwner && repoName) {
+      fetchBranches(repoName, repoOwner);
     }
-  }, [selectedRepo]);
+  }, [repoOwner, repoName, fetchBranches]);
+
+  useEffect(() => {
+    // Keep the selection in the URL so returning from a PR lands on the same list
+    const params: Record<string, string> = {};
+    if (selectedRepo) params.repo = selectedRepo;
+    if (activeTab === "create") params.tab = "create";
+    setSearchParams(params, { replace: true });
+  }, [selectedRepo, activeTab, setSearchParams]);
 
   const handleCreatePR = async () => {
-    if (!selectedRepo || !headBranch || !baseBranch || !prTitle.trim()) {
+    if (!repoOwner || !repoName || !headBranch || !baseBranch || !prTitle.trim()) {
       toast({
         variant: "destructive",
         title: "Validation Error",
@@ -91,7 +105,8 @@ const PullRequests = () => {
       const { data: { session } } = await supabase.auth.getSession();
       const { data, error } = await supabase.functions.invoke('create-pull-request', {
         body: {
-          repositoryName: selectedRepo,
+          owner: repoOwner,
+          repositoryName: repoName,
           title: prTitle,
           body: prDescription,
           head: headBranch,
@@ -141,130 +156,157 @@ const PullRequests = () => {
         <div className="max-w-3xl mx-auto space-y-6">
           <div className="text-center">
             <GitPullRequest className="h-16 w-16 mx-auto mb-4 text-primary" />
-            <h2 className="text-3xl font-bold mb-2">Create Pull Request</h2>
+            <h2 className="text-3xl font-bold mb-2">Pull Requests</h2>
             <p className="text-muted-foreground">
-              Merge your feature branch into another branch
+              Review, merge and open pull requests across your repositories
             </p>
           </div>
 
-          <Card className="shadow-elevated gradient-card">
-            <CardHeader>
-              <CardTitle>Pull Request Details</CardTitle>
-              <CardDescription>
-                Choose branches and provide details for your pull request
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-3">
-                <Label htmlFor="repo" className="text-base md:text-sm font-semibold">Select Repository</Label>
-                <Select value={selectedRepo} onValueChange={setSelectedRepo} disabled={loadingRepos}>
-                  <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
-                    <SelectValue placeholder={loadingRepos ? "Loading repositories..." : "Choose a repository"} />
-                  </SelectTrigger>
-                  <SelectContent className="max-h-[300px]">
-                    {repos.map((repo) => (
-                      <SelectItem key={repo.name} value={repo.name} className="text-base md:text-sm py-3 md:py-2">
-                        {repo.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+          <div className="space-y-3">
+            <Label htmlFor="repo" className="text-base md:text-sm font-semibold">Select Repository</Label>
+            <Select value={selectedRepo} onValueChange={setSelectedRepo} disabled={loadingRepos}>
+              <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
+                <SelectValue placeholder={loadingRepos ? "Loading repositories..." : "Choose a repository"} />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                {repos.map((repo) => (
+                  <SelectItem key={repo.full_name} value={repo.full_name} className="text-base md:text-sm py-3 md:py-2">
+                    {repo.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="browse">Browse</TabsTrigger>
+              <TabsTrigger value="create">Create</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="browse">
+              <Card className="shadow-elevated gradient-card">
+                <CardContent className="pt-6">
+                  {repoOwner && repoName ? (
+                    <PullRequestList owner={repoOwner} repositoryName={repoName} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      Choose a repository to see its pull requests
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="create">
+              <Card className="shadow-elevated gradient-card">
+                <CardHeader>
+                  <CardTitle>Pull Request Details</CardTitle>
+                  <CardDescription>
+                    Choose branches and provide details for your pull request
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {!selectedRepo && (
+                    <p className="text-sm text-muted-foreground">Choose a repository above to get started</p>
+                  )}
 
-              {selectedRepo && (
-                <>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-5 md:gap-4">
-                    <div className="space-y-3">
-                      <Label htmlFor="head" className="text-base md:text-sm font-semibold">Merge From (Head)</Label>
-                      <Select value={headBranch} onValueChange={setHeadBranch} disabled={loadingBranches}>
-                        <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
-                          <SelectValue placeholder="Feature branch" />
-                        </SelectTrigger>
-                        <SelectContent className="max-h-[300px]">
-                          {branches.map((branch) => (
-                            <SelectItem key={branch.name} value={branch.name} className="text-base md:text-sm py-3 md:py-2">
-                              {branch.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
+                  {selectedRepo && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-5 md:gap-4">
+                        <div className="space-y-3">
+                          <Label htmlFor="head" className="text-base md:text-sm font-semibold">Merge From (Head)</Label>
+                          <Select value={headBranch} onValueChange={setHeadBranch} disabled={loadingBranches}>
+                            <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
+                              <SelectValue placeholder="Feature branch" />
+                            </SelectTrigger>
+                            <SelectContent className="max-h-[300px]">
+                              {branches.map((branch) => (
+                                <SelectItem key={branch.name} value={branch.name} className="text-base md:text-sm py-3 md:py-2">
+                                  {branch.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
 
-                    <div className="space-y-3">
-                      <Label htmlFor="base" className="text-base md:text-sm font-semibold">Into (Base)</Label>
-                      <Select value={baseBranch} onValueChange={setBaseBranch} disabled={loadingBranches}>
-                        <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
-                          <SelectValue placeholder="Target branch" />
-                        </SelectTrigger>
-                        <SelectContent className="max-h-[300px]">
-                          {branches.map((branch) => (
-                            <SelectItem key={branch.name} value={branch.name} className="text-base md:text-sm py-3 md:py-2">
-                              {branch.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
+                        <div className="space-y-3">
+                          <Label htmlFor="base" className="text-base md:text-sm font-semibold">Into (Base)</Label>
+                          <Select value={baseBranch} onValueChange={setBaseBranch} disabled={loadingBranches}>
+                            <SelectTrigger className="bg-secondary h-12 md:h-10 text-base md:text-sm touch-manipulation">
+                              <SelectValue placeholder="Target branch" />
+                            </SelectTrigger>
+                            <SelectContent className="max-h-[300px]">
+                              {branches.map((branch) => (
+                                <SelectItem key={branch.name} value={branch.name} className="text-base md:text-sm py-3 md:py-2">
+                                  {branch.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
 
-                  <div className="space-y-3">
-                    <Label htmlFor="title" className="text-base md:text-sm font-semibold">Pull Request Title *</Label>
-                    <Input
-                      id="title"
-                      placeholder="Brief description of changes"
-                      value={prTitle}
-                      onChange={(e) => setPrTitle(e.target.value)}
-                      className="bg-secondary h-12 md:h-10 text-base md:text-sm"
-                    />
-                  </div>
+                      <div className="space-y-3">
+                        <Label htmlFor="title" className="text-base md:text-sm font-semibold">Pull Request Title *</Label>
+                        <Input
+                          id="title"
+                          placeholder="Brief description of changes"
+                          value={prTitle}
+                          onChange={(e) => setPrTitle(e.target.value)}
+                          className="bg-secondary h-12 md:h-10 text-base md:text-sm"
+                        />
+                      </div>
 
-                  <div className="space-y-3">
-                    <Label htmlFor="description" className="text-base md:text-sm font-semibold">Description</Label>
-                    <Textarea
-                      id="description"
-                      placeholder="Detailed description of the changes..."
-                      value={prDescription}
-                      onChange={(e) => setPrDescription(e.target.value)}
-                      className="bg-secondary min-h-[150px] md:min-h-[120px] text-base md:text-sm"
-                    />
-                  </div>
+                      <div className="space-y-3">
+                        <Label htmlFor="description" className="text-base md:text-sm font-semibold">Description</Label>
+                        <Textarea
+                          id="description"
+                          placeholder="Detailed description of the changes..."
+                          value={prDescription}
+                          onChange={(e) => setPrDescription(e.target.value)}
+                          className="bg-secondary min-h-[150px] md:min-h-[120px] text-base md:text-sm"
+                        />
+                      </div>
+
+                      {prUrl && (
+                        <div className="p-4 bg-primary/10 rounded-lg flex items-center justify-between">
+                          <span className="text-sm">Pull request created!</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.open(prUrl, '_blank')}
+                          >
+                            View on GitHub
+                            <ExternalLink className="h-4 w-4 ml-2" />
+                          </Button>
+                        </div>
+                      )}
 
-                  {prUrl && (
-                    <div className="p-4 bg-primary/10 rounded-lg flex items-center justify-between">
-                      <span className="text-sm">Pull request created!</span>
                       <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => window.open(prUrl, '_blank')}
+                        onClick={handleCreatePR}
+                        disabled={isLoading || !prTitle.trim() || !headBranch || !baseBranch}
+                        className="w-full h-12 text-base font-medium transition-smooth hover:shadow-glow"
+                        size="lg"
                       >
-                        View on GitHub
-                        <ExternalLink className="h-4 w-4 ml-2" />
+                        {isLoading ? (
+                          <>
+                            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                            Creating Pull Request...
+                          </>
+                        ) : (
+                          <>
+                            <GitPullRequest className="mr-2 h-5 w-5" />
+                            Create Pull Request
+                          </>
+                        )}
                       </Button>
-                    </div>
+                    </>
                   )}
-
-                  <Button
-                    onClick={handleCreatePR}
-                    disabled={isLoading || !prTitle.trim() || !headBranch || !baseBranch}
-                    className="w-full h-12 text-base font-medium transition-smooth hover:shadow-glow"
-                    size="lg"
-                  >
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                        Creating Pull Request...
-                      </>
-                    ) : (
-                      <>
-                        <GitPullRequest className="mr-2 h-5 w-5" />
-                        Create Pull Request
-                      </>
-                    )}
-                  </Button>
-                </>
-              )}
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
       
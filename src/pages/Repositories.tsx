@@ -1,18 +1,34 @@
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Header } from "@/components/Header";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { GitBranch, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, CheckSquare, ChevronDown, Eye, FileText, GitBranch, Loader2, Star, Tags, Trash2, X } from "lucide-react";
 import { RepositoryCard } from "@/components/repository/RepositoryCard";
 import { RepositorySearch } from "@/components/repository/RepositorySearch";
+import { RepositoryOwnerFilter, type OwnerFilterValue } from "@/components/repository/RepositoryOwnerFilter";
 import { RepositorySettingsDialog } from "@/components/repository/RepositorySettingsDialog";
 import { RenameRepoDialog } from "@/components/repository/RenameRepoDialog";
 import { DeleteConfirmDialog } from "@/components/repository/DeleteConfirmDialog";
+import { BulkRepositoryDialog, type BulkActionType } from "@/components/repository/BulkRepositoryDialog";
 import { TutorialOverlay } from "@/components/onboarding/TutorialOverlay";
 import { BottomNav } from "@/components/BottomNav";
+import {
+  fetchAllRepositories,
+  type GitHubOrganization,
+  type RepositoryAffiliation,
+  type RepositoryListScope,
+  type RepositoryPermissions,
+} from "@/lib/repositories";
 
 interface Repository {
   id: number;
@@ -29,15 +45,30 @@ interface Repository {
   size: number;
   language: string | null;
   default_branch: string;
+  archived?: boolean;
+  topics?: string[];
+  permissions?: RepositoryPermissions;
   homepage: string | null;
 }
 
+function toListScope(owner: OwnerFilterValue, affiliations: RepositoryAffiliation[]): RepositoryListScope {
+  if (owner === "own") return { affiliation: ["owner"] };
+  if (owner.startsWith("org:")) return { organization: owner.slice("org:".length) };
+  return { affiliation: affiliations };
+}
+
 const Repositories = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [username, setUsername] = useState<string | null>(null);
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Later pages still arriving after the first one is shown
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilterValue>("all");
+  const [affiliations, setAffiliations] = useState<RepositoryAffiliation[]>([]);
+  const [organizations, setOrganizations] = useState<GitHubOrganization[]>([]);
+  const loadController = useRef<AbortController | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState("updated");
   const [filterBy, setFilterBy] = useState("all");
@@ -46,6 +77,10 @@ const Repositories = () => {
   const [showTutorial, setShowTutorial] = useState(false);
   const [repoToRename, setRepoToRename] = useState<{ owner: string; repo: string } | null>(null);
   const [repoToDelete, setRepoToDelete] = useState<{ owner: string; repo: string; name: string } | null>(null);
+  // Full names of the repositories picked for a bulk action
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedRepos, setSelectedRepos] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkActionType | null>(null);
 
   useEffect(() => {
     // Check if we should start the tutorial (coming from dashboard)
@@ -62,7 +97,6 @@ const Repositories = () => {
         navigate("/auth");
       } else {
         fetchProfile(session.user.id);
-        fetchRepositories();
       }
     });
 
@@ -89,41 +123,53 @@ const Repositories = () => {
     }
   };
 
-  const fetchRepositories = async () => {
+  const fetchRepositories = useCallback(async () => {
+    // A newer load replaces one still paging through an older scope
+    loadController.current?.abort();
+    const controller = new AbortController();
+    loadController.current = controller;
+
     setIsLoading(true);
+    setIsLoadingMore(false);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const { data, error } = await supabase.functions.invoke('list-repos', {
-        body: { 
-          provider_token: session?.provider_token 
-        }
-      });
-
-      if (error) {
-        console.error('Error fetching repositories:', error);
-        if (error.message?.includes('token is invalid') || error.message?.includes('expired')) {
-          navigate("/auth");
-        }
-        return;
-      }
-
-      if (data?.error) {
-        console.error('API Error:', data.error);
-        if (data.error.includes('token is invalid') || data.error.includes('expired')) {
-          navigate("/auth");
-        }
+      const loaded: Repository[] = [];
+      await fetchAllRepositories<Repository>(
+        toListScope(ownerFilter, affiliations),
+        (page) => {
+          if (page.organizations) setOrganizations(page.organizations);
+          loaded.push(...page.repositories);
+          setRepositories([...loaded]);
+          setIsLoading(false);
+          setIsLoadingMore(page.has_more);
+        },
+        { signal: controller.signal, includeOrganizations: true }
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error fetching repositories:', err);
+      const message = err instanceof Error ? err.message : "";
+      if (message.includes('expired')) {
+        navigate("/auth");
         return;
       }
-
-      if (data?.repositories) {
-        setRepositories(data.repositories);
-      }
-    } catch (err) {
-      console.error('Exception fetching repositories:', err);
+      toast({
+        variant: "destructive",
+        title: "Failed to load repositories",
+        description: message || "Please try again.",
+      });
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
     }
-  };
+  }, [ownerFilter, affiliations, navigate, toast]);
+
+  useEffect(() => {
+    fetchRepositories();
+  }, [fetchRepositories]);
+
+  useEffect(() => () => loadController.current?.abort(), []);
 
   const filteredAndSortedRepos = useMemo(() => {
     if (!repositories || repositories.length === 0) {
@@ -192,6 +238,26 @@ const Repositories = () => {
     });
   };
 
+  const toggleSelected = (fullName: string, selected: boolean) => {
+    setSelectedRepos((previous) => {
+      const next = new Set(previous);
+      if (selected) next.add(fullName);
+      else next.delete(fullName);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedRepos(new Set());
+  };
+
+  const closeBulkAction = () => {
+    // Deleted repositories cannot stay selected
+    if (bulkAction === "delete") setSelectedRepos(new Set());
+    setBulkAction(null);
+  };
+
   const handleSettings = (repo: Repository) => {
     setSelectedRepo(repo);
     setShowSettings(true);
@@ -212,11 +278,80 @@ const Repositories = () => {
             <div>
               <h2 className="text-2xl sm:text-3xl font-bold">My Repositories</h2>
               <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                {repositories.length} {repositories.length === 1 ? 'repository' : 'repositories'}
+                {repositories.length}{isLoadingMore && "+"} {repositories.length === 1 && !isLoadingMore ? 'repository' : 'repositories'}
               </p>
             </div>
+            {repositories.length > 0 && (
+              <Button
+                variant={isSelecting ? "secondary" : "outline"}
+                className="h-11 sm:h-10 touch-manipulation"
+                onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+              >
+                {isSelecting ? <X className="h-4 w-4 mr-2" /> : <CheckSquare className="h-4 w-4 mr-2" />}
+                {isSelecting ? "Cancel selection" : "Select"}
+              </Button>
+            )}
           </div>
 
+          {isSelecting && (
+            <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 p-3 shadow-sm backdrop-blur">
+              <span className="text-sm font-medium mr-auto">{selectedRepos.size} selected</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedRepos(new Set(filteredAndSortedRepos.map((repo) => repo.full_name)))}
+              >
+                Select all {filteredAndSortedRepos.length}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedRepos(new Set())} disabled={selectedRepos.size === 0}>
+                Clear
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" disabled={selectedRepos.size === 0}>
+                    Actions
+                    <ChevronDown className="h-4 w-4 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-52">
+                  <DropdownMenuItem onClick={() => setBulkAction("visibility")}>
+                    <Eye className="h-4 w-4 mr-2" />
+                    Change visibility
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkAction("archive")}>
+                    <Archive className="h-4 w-4 mr-2" />
+                    Archive or unarchive
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkAction("topics")}>
+                    <Tags className="h-4 w-4 mr-2" />
+                    Edit topics
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkAction("description")}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Set description
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkAction("star")}>
+                    <Star className="h-4 w-4 mr-2" />
+                    Star or unstar
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setBulkAction("delete")} className="text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )}
+
+          <RepositoryOwnerFilter
+            owner={ownerFilter}
+            onOwnerChange={setOwnerFilter}
+            organizations={organizations}
+            affiliations={affiliations}
+            onAffiliationsChange={setAffiliations}
+          />
+
           {!isLoading && repositories.length > 0 && (
             <RepositorySearch
               searchQuery={searchQuery}
@@ -241,10 +376,18 @@ const Repositories = () => {
                   repo={repo}
                   onUpdate={fetchRepositories}
                   onSettings={handleSettings}
+                  onSelectedChange={isSelecting ? (selected) => toggleSelected(repo.full_name, selected) : undefined}
+                  selected={selectedRepos.has(repo.full_name)}
                 />
               ))}
+              {isLoadingMore && (
+                <div className="col-span-full flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading more repositories...
+                </div>
+              )}
             </div>
-          ) : repositories.length === 0 ? (
+          ) : repositories.length === 0 && ownerFilter === "all" && affiliations.length === 0 ? (
             <Card className="shadow-elevated gradient-card">
               <CardContent className="py-12 text-center">
                 <GitBranch className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -276,6 +419,14 @@ const Repositories = () => {
         open={showSettings}
         onOpenChange={setShowSettings}
         onUpdate={fetchRepositories}
+        organizations={organizations}
+      />
+
+      <BulkRepositoryDialog
+        type={bulkAction}
+        repositories={[...selectedRepos]}
+        onClose={closeBulkAction}
+        onComplete={fetchRepositories}
       />
       
       <BottomNav username={username} />
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Header } from "@/components/Header";
+import { BottomNav } from "@/components/BottomNav";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { InsightCard } from "@/components/insights/InsightCard";
+import { LanguageChart } from "@/components/insights/LanguageChart";
+import { CodeFrequencyChart, CommitActivityChart } from "@/components/insights/ActivityCharts";
+import { ContributorChart } from "@/components/insights/ContributorChart";
+import { TrafficCharts } from "@/components/insights/TrafficCharts";
+import {
+  fetchRepositoryStats,
+  fetchRepositoryTraffic,
+  mergeRepositoryStats,
+  type RepositoryStats,
+  type RepositoryTraffic,
+} from "@/lib/insights";
+
+// GitHub usually finishes computing statistics within a minute
+const STATS_POLL_INTERVAL_MS = 5000;
+const STATS_MAX_POLLS = 12;
+
+const RepositoryInsights = () => {
+  const { repoName } = useParams<{ repoName: string }>();
+  const navigate = useNavigate();
+  const [username, setUsername] = useState<string | null>(null);
+  const [stats, setStats] = useState<RepositoryStats | null>(null);
+  const [isLoadingStats, setIsLoadingStats] = useState(true);
+  const [traffic, setTraffic] = useState<RepositoryTraffic | null>(null);
+  const [trafficError, setTrafficError] = useState<string | null>(null);
+  const [isLoadingTraffic, setIsLoadingTraffic] = useState(true);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [owner, ...repoParts] = (repoName ?? "").split("--");
+  const repo = repoParts.join("--");
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        fetchProfile(session.user.id);
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') {
+        navigate("/auth");
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const fetchProfile = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("github_username")
+      .eq("id", userId)
+      .single();
+
+    if (!error && data) {
+      setUsername(data.github_username);
+    }
+  };
+
+  const loadStats = useCallback(async (poll = 0) => {
+    if (!owner || !repo) return;
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+    if (poll === 0) {
+      setIsLoadingStats(true);
+      setStats(null);
+    }
+    try {
+      const next = await fetchRepositoryStats(owner, repo);
+      setStats((previous) => mergeRepositoryStats(poll === 0 ? null : previous, next));
+      // Ask again while GitHub is still computing some statistics
+      if (next.computing.length > 0 && poll < STATS_MAX_POLLS) {
+        pollTimer.current = setTimeout(() => loadStats(poll + 1), STATS_POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error("Error loading repository statistics:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to load statistics",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsLoadingStats(false);
+    }
+  }, [owner, repo]);
+
+  const loadTraffic = useCallback(async () => {
+    if (!owner || !repo) return;
+    setIsLoadingTraffic(true);
+    setTrafficError(null);
+    try {
+      setTraffic(await fetchRepositoryTraffic(owner, repo));
+    } catch (error) {
+      // Usually missing write access, which is expected for repositories the user only reads
+      setTraffic(null);
+      setTrafficError(error instanceof Error ? error.message : "Traffic is unavailable");
+    } finally {
+      setIsLoadingTraffic(false);
+    }
+  }, [owner, repo]);
+
+  useEffect(() => {
+    loadStats();
+    loadTraffic();
+  }, [loadStats, loadTraffic]);
+
+  useEffect(() => () => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+  }, []);
+
+  const refresh = () => {
+    loadStats();
+    loadTraffic();
+  };
+
+  const isComputing = (name: RepositoryStats["computing"][number]) => stats?.computing.includes(name) ?? false;
+
+  return (
+    <div className="min-h-screen">
+      <Header username={username} showNav={true} />
+
+      <main className="container mx-auto px-4 py-8 pb-24 md:pb-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex items-center justify-between gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/repository/${repoName}`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {owner}/{repo}
+            </Button>
+            <Button variant="outline" size="sm" onClick={refresh} disabled={isLoadingStats || isLoadingTraffic}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoadingStats || isLoadingTraffic ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <h2 className="text-2xl sm:text-3xl font-bold">Insights</h2>
+
+          {isLoadingStats && !stats ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : stats && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <InsightCard
+                title="Languages"
+                description="Share of code by language"
+                emptyMessage={Object.keys(stats.languages).length === 0 ? "No code detected" : null}
+              >
+                <LanguageChart languages={stats.languages} />
+              </InsightCard>
+
+              <InsightCard
+                title="Commit activity"
+                description="Commits per week over the last year"
+                computing={isComputing("commit_activity")}
+                emptyMessage={stats.commit_activity?.length === 0 ? "No commits in the last year" : null}
+              >
+                <CommitActivityChart weeks={stats.commit_activity ?? []} />
+              </InsightCard>
+
+              <InsightCard
+                title="Code frequency"
+                description="Lines added and removed per week"
+                computing={isComputing("code_frequency")}
+                emptyMessage={stats.code_frequency?.length === 0 ? "Not available for this repository" : null}
+                className="md:col-span-2"
+              >
+                <CodeFrequencyChart weeks={stats.code_frequency ?? []} />
+              </InsightCard>
+
+              <InsightCard
+                title="Contributors"
+                description="Commits to the default branch"
+                computing={isComputing("contributors")}
+                emptyMessage={stats.contributors?.length === 0 ? "No contributors yet" : null}
+                className="md:col-span-2"
+              >
+                <ContributorChart contributors={stats.contributors ?? []} />
+              </InsightCard>
+            </div>
+          )}
+
+          <InsightCard
+            title="Traffic"
+            description="Views, clones and referring sites over the last 14 days"
+            emptyMessage={trafficError}
+          >
+            {isLoadingTraffic ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : traffic && (
+              <TrafficCharts traffic={traffic} />
+            )}
+          </InsightCard>
+        </div>
+      </main>
+
+      <BottomNav username={username} />
+    </div>
+  );
+};
+
+export default RepositoryInsights;
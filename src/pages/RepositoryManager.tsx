@@ -13,9 +13,22 @@ import { DeleteConfirmDialog } from "@/components/repository/DeleteConfirmDialog
 import { RenameItemDialog } from "@/components/repository/RenameItemDialog";
 import { MoveItemsDialog } from "@/components/repository/MoveItemsDialog";
 import { CreateBranchDialog } from "@/components/repository/CreateBranchDialog";
+import { CommitHistory } from "@/components/repository/CommitHistory";
+import { CommitDetailDialog } from "@/components/repository/CommitDetailDialog";
+import { HistoryActionDialog, type HistoryAction } from "@/components/repository/HistoryActionDialog";
+import { StagedChangesPanel } from "@/components/repository/StagedChangesPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Plus, ArrowLeft, Upload, GitBranch } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Plus, ArrowLeft, Upload, GitBranch, FolderOpen, History, Lock, Archive, BarChart3 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { showUndoToast, type CommitRange } from "@/lib/undo-toast";
+import type { HistoryWriteResult } from "@/lib/commits";
+import type { CommitStagedResult, StagedChangeInput } from "@/lib/staging";
+import { useStagedChanges } from "@/hooks/useStagedChanges";
+import { hasRepositoryRole, type RepositoryPermissions } from "@/lib/repositories";
 import { BottomNav } from "@/components/BottomNav";
 
 interface FileItem {
@@ -49,6 +62,16 @@ const RepositoryManager = () => {
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [showFAB, setShowFAB] = useState(false);
   const [showCreateBranch, setShowCreateBranch] = useState(false);
+  const [activeTab, setActiveTab] = useState<"files" | "history">("files");
+  const [selectedCommitSha, setSelectedCommitSha] = useState<string | null>(null);
+  const [historyAction, setHistoryAction] = useState<HistoryAction | null>(null);
+  const [isStaging, setIsStaging] = useState(false);
+  // Null until the repository metadata has loaded
+  const [permissions, setPermissions] = useState<RepositoryPermissions | null>(null);
+  const [isArchived, setIsArchived] = useState(false);
+  const canWrite = hasRepositoryRole(permissions, "push", isArchived);
+  const staging = useStagedChanges(owner, repo, currentBranch);
+  const hasStagedChanges = staging.changes.length > 0;
 
   useEffect(() => {
     if (repoName) {
@@ -139,6 +162,11 @@ const RepositoryManager = () => {
         return;
       }
 
+      if (data?.repository) {
+        setPermissions(data.repository.permissions ?? null);
+        setIsArchived(data.repository.archived === true);
+      }
+
       if (data?.default_branch) {
         console.log('Setting default branch to:', data.default_branch);
         setDefaultBranch(data.default_branch);
@@ -322,16 +350,81 @@ const RepositoryManager = () => {
     setSelectedFiles([]);
   };
 
-  const handleFileDeleted = () => {
+  const handleFileDeleted = (range: CommitRange | null) => {
     fetchContents(true);
     const count = filesToDelete.length;
     setFilesToDelete([]);
     setSelectedFiles([]);
-    toast({
+    showUndoToast({
       title: "Deleted ✓",
       description: count > 1 
         ? `${count} items have been removed from GitHub.`
         : `${filesToDelete[0]?.name} has been removed from GitHub.`,
+      location: { owner, repo },
+      branch: currentBranch,
+      range,
+      onUndone: () => fetchContents(true),
+    });
+  };
+
+  const handleStage = (inputs: StagedChangeInput[]) => {
+    staging.stage(inputs);
+    setViewMode(null);
+    setSelectedFile(null);
+    setShowCreateModal(false);
+    setFilesToDelete([]);
+    setFileToRename(null);
+    setFilesToMove([]);
+    setSelectedFiles([]);
+    toast({
+      title: "Staged",
+      description: `${inputs.length} change${inputs.length === 1 ? "" : "s"} added to the staging area.`,
+    });
+  };
+
+  const handleStagedCommitted = (result: CommitStagedResult) => {
+    staging.clear();
+    setIsStaging(false);
+    if (result.branch !== currentBranch) {
+      setCurrentBranch(result.branch);
+    } else {
+      fetchContents(true);
+    }
+    showUndoToast({
+      title: "Committed ✓",
+      description: `${result.files_changed} file${result.files_changed === 1 ? "" : "s"} changed on ${result.branch} in one commit.`,
+      location: { owner, repo },
+      branch: result.branch,
+      range: result,
+      onUndone: () => fetchContents(true),
+    });
+  };
+
+  const stageHandler = isStaging ? handleStage : undefined;
+  // Editing a file that already has a staged edit continues from the staged content
+  const stagedEdit = isStaging
+    ? staging.changes.find((change) => change.type === "upsert" && change.path === selectedFile?.path)
+    : undefined;
+
+  const handleHistoryAction = (action: HistoryAction) => {
+    setSelectedCommitSha(null);
+    setHistoryAction(action);
+  };
+
+  const handleHistoryActionDone = (result: HistoryWriteResult) => {
+    const action = historyAction;
+    setHistoryAction(null);
+    // The open file may no longer match the branch
+    setViewMode(null);
+    setSelectedFile(null);
+    fetchContents(true);
+    showUndoToast({
+      title: action?.mode === "revert" ? "Reverted ✓" : "Restored ✓",
+      description: `${result.files_changed} file${result.files_changed === 1 ? "" : "s"} changed on ${currentBranch}.`,
+      location: { owner, repo },
+      branch: currentBranch,
+      range: result,
+      onUndone: () => fetchContents(true),
     });
   };
 
@@ -365,10 +458,24 @@ const RepositoryManager = () => {
             <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 sm:gap-4">
               <div className="min-w-0">
                 <h1 className="text-xl sm:text-2xl font-semibold text-foreground truncate">{repo}</h1>
-                <p className="text-sm text-muted-foreground mt-1 truncate">{owner}/{repo}</p>
+                <p className="text-sm text-muted-foreground mt-1 truncate">
+                  {owner}/{repo}
+                  {permissions && !canWrite && (
+                    <Badge variant="outline" className="ml-2" title={isArchived ? "This repository is archived" : "You do not have write access"}>
+                      <Lock className="h-3 w-3 mr-1" />
+                      {isArchived ? "Archived" : "Read-only"}
+                    </Badge>
+                  )}
+                </p>
               </div>
               
               <div className="flex items-center gap-2 flex-wrap sm:flex-nowrap">
+                <div className="flex items-center gap-2 mr-1" title="Collect changes and commit them together">
+                  <Switch id="stage-changes" checked={isStaging} onCheckedChange={setIsStaging} disabled={!canWrite} />
+                  <Label htmlFor="stage-changes" className="text-sm font-normal cursor-pointer whitespace-nowrap">
+                    Stage changes
+                  </Label>
+                </div>
                 <BranchSelector
                   owner={owner}
                   repo={repo}
@@ -376,10 +483,19 @@ const RepositoryManager = () => {
                   onBranchChange={setCurrentBranch}
                 />
                 
+                <Button
+                  onClick={() => navigate(`/repository/${repoName}/insights`)}
+                  variant="outline"
+                  className="hidden md:flex h-9 text-sm"
+                >
+                  <BarChart3 className="h-4 w-4 mr-1" />
+                  Insights
+                </Button>
                 <Button 
                   onClick={() => setShowCreateBranch(true)} 
                   variant="outline" 
                   className="hidden md:flex h-9 text-sm"
+                  disabled={!canWrite}
                 >
                   <GitBranch className="h-4 w-4 mr-1" />
                   New Branch
@@ -388,6 +504,7 @@ const RepositoryManager = () => {
                   onClick={() => setShowUploader(true)} 
                   variant="outline" 
                   className="hidden md:flex h-9 text-sm"
+                  disabled={!canWrite}
                 >
                   Upload Files
                 </Button>
@@ -395,6 +512,7 @@ const RepositoryManager = () => {
                   onClick={() => setShowCreateModal(true)} 
                   variant="outline"
                   className="hidden md:flex h-9 text-sm"
+                  disabled={!canWrite}
                 >
                   <Plus className="h-4 w-4 mr-1" />
                   New
@@ -402,42 +520,84 @@ const RepositoryManager = () => {
               </div>
             </div>
 
+            {isArchived && (
+              <div className="flex items-start gap-2 p-3 rounded-lg border bg-muted/50 text-sm">
+                <Archive className="h-4 w-4 shrink-0 mt-0.5 text-muted-foreground" />
+                <p>This repository has been archived. It is read-only until an admin unarchives it from its settings.</p>
+              </div>
+            )}
+
             <Breadcrumbs
               currentPath={currentPath}
               onNavigate={handleBreadcrumbClick}
             />
           </div>
 
-          {/* File Browser - VSCode Style */}
-          <div className="bg-background rounded-lg">
-            <FileBrowser
-              files={files}
-              isLoading={isLoading}
-              selectedFiles={selectedFiles}
-              onFileClick={handleFileClick}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
-              onDownload={handleDownload}
-              onRename={handleRename}
-              onMove={handleMove}
-              onToggleSelect={handleToggleSelect}
-              onToggleSelectAll={handleToggleSelectAll}
-            />
-          </div>
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "files" | "history")}>
+            <TabsList>
+              <TabsTrigger value="files"><FolderOpen className="h-4 w-4 mr-2" />Files</TabsTrigger>
+              <TabsTrigger value="history"><History className="h-4 w-4 mr-2" />History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="files" className="space-y-4">
+              {hasStagedChanges && (
+                <StagedChangesPanel
+                  owner={owner}
+                  repo={repo}
+                  branch={currentBranch}
+                  changes={staging.changes}
+                  onUnstage={staging.unstage}
+                  onClear={staging.clear}
+                  onCommitted={handleStagedCommitted}
+                />
+              )}
+
+              {/* File Browser - VSCode Style */}
+              <div className="bg-background rounded-lg">
+                <FileBrowser
+                  files={files}
+                  isLoading={isLoading}
+                  selectedFiles={selectedFiles}
+                  onFileClick={handleFileClick}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  onDownload={handleDownload}
+                  onRename={handleRename}
+                  onMove={handleMove}
+                  onToggleSelect={handleToggleSelect}
+                  onToggleSelectAll={handleToggleSelectAll}
+                  readOnly={!canWrite}
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="history">
+              {/* Scoped to the folder open in the breadcrumbs */}
+              <CommitHistory
+                owner={owner}
+                repo={repo}
+                branch={currentBranch}
+                path={currentPath}
+                onSelectCommit={setSelectedCommitSha}
+              />
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
 
       {/* Floating Action Button (Mobile) */}
-      <div className="md:hidden fixed bottom-20 sm:bottom-6 right-4 sm:right-6 z-40 pb-safe">
-        <Button
-          className="h-14 w-14 rounded-full shadow-glow transition-smooth hover:scale-110 touch-manipulation active:scale-95"
-          onClick={() => setShowFAB(!showFAB)}
-        >
-          <Plus className="h-6 w-6" />
-        </Button>
-      </div>
-
-      {showFAB && (
+      {canWrite && (
+        <div className="md:hidden fixed bottom-20 sm:bottom-6 right-4 sm:right-6 z-40 pb-safe">
+          <Button
+            className="h-14 w-14 rounded-full shadow-glow transition-smooth hover:scale-110 touch-manipulation active:scale-95"
+            onClick={() => setShowFAB(!showFAB)}
+          >
+            <Plus className="h-6 w-6" />
+          </Button>
+        </div>
+      )}
+
+      {showFAB && canWrite && (
         <>
           {/* Backdrop */}
           <div 
@@ -488,6 +648,30 @@ const RepositoryManager = () => {
             setViewMode(null);
           }}
           onDownload={() => handleDownload(selectedFile)}
+          onSelectCommit={setSelectedCommitSha}
+          readOnly={!canWrite}
+        />
+      )}
+
+      {selectedCommitSha && (
+        <CommitDetailDialog
+          owner={owner}
+          repo={repo}
+          sha={selectedCommitSha}
+          restorePath={selectedFile && viewMode === "view" ? selectedFile.path : currentPath}
+          onHistoryAction={canWrite ? handleHistoryAction : undefined}
+          onClose={() => setSelectedCommitSha(null)}
+        />
+      )}
+
+      {historyAction && (
+        <HistoryActionDialog
+          action={historyAction}
+          owner={owner}
+          repo={repo}
+          branch={currentBranch}
+          onClose={() => setHistoryAction(null)}
+          onDone={handleHistoryActionDone}
         />
       )}
 
@@ -502,6 +686,8 @@ const RepositoryManager = () => {
             setSelectedFile(null);
           }}
           onSave={handleFileSaved}
+          onStage={stageHandler}
+          stagedContent={stagedEdit?.type === "upsert" ? stagedEdit.content : undefined}
         />
       )}
 
@@ -524,6 +710,7 @@ const RepositoryManager = () => {
           currentPath={currentPath}
           onClose={() => setShowCreateModal(false)}
           onCreate={handleFileCreated}
+          onStage={stageHandler}
         />
       )}
 
@@ -535,6 +722,7 @@ const RepositoryManager = () => {
           branch={currentBranch}
           onClose={() => setFilesToDelete([])}
           onDelete={handleFileDeleted}
+          onStage={stageHandler}
         />
       )}
 
@@ -547,6 +735,7 @@ const RepositoryManager = () => {
           currentPath={currentPath}
           onClose={() => setFileToRename(null)}
           onRename={handleFileRenamed}
+          onStage={stageHandler}
         />
       )}
 
@@ -559,6 +748,7 @@ const RepositoryManager = () => {
           currentPath={currentPath}
           onClose={() => setFilesToMove([])}
           onMove={handleFilesMoved}
+          onStage={stageHandler}
         />
       )}
 
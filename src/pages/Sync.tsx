@@ -6,25 +6,36 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RefreshCw, Loader2, AlertTriangle } from "lucide-react";
+import { RefreshCw, Loader2, AlertTriangle, GitCompare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useGitHubRepos } from "@/hooks/useGitHubRepos";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { BottomNav } from "@/components/BottomNav";
+import { SyncDiffPreview } from "@/components/sync/SyncDiffPreview";
+import { getDefaultSyncSelection, type SyncPreview, type SyncResult } from "@/lib/sync-diff";
+import { callFunction } from "@/lib/supabase-functions";
 
 const Sync = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [username, setUsername] = useState<string | null>(null);
   
+  // Repositories are selected by full name (owner/repo)
   const [sourceRepo, setSourceRepo] = useState("");
   const [sourceBranch, setSourceBranch] = useState("");
   const [destRepo, setDestRepo] = useState("");
   const [destBranch, setDestBranch] = useState("");
+  const [sourceOwner, sourceName] = sourceRepo.split("/");
+  const [destOwner, destName] = destRepo.split("/");
   
   const [isLoading, setIsLoading] = useState(false);
   const [syncProgress, setSyncProgress] = useState("");
 
+  const [preview, setPreview] = useState<SyncPreview | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [propagateDeletions, setPropagateDeletions] = useState(false);
+
   const {
     repos,
     branches: sourceBranches,
@@ -72,9 +83,9 @@ const Sync = () => {
 
   useEffect(() => {
     if (sourceRepo) {
-      fetchSourceBranches(sourceRepo);
+      fetchSourceBranches(sourceName, sourceOwner);
     }
-  }, [sourceRepo]);
+  }, [sourceRepo, sourceName, sourceOwner, fetchSourceBranches]);
 
   useEffect(() => {
     if (destRepo) {
@@ -82,6 +93,12 @@ const Sync = () => {
     }
   }, [destRepo]);
 
+  // A preview only describes the branches it was computed for
+  useEffect(() => {
+    setPreview(null);
+    setSyncProgress("");
+  }, [sourceRepo, sourceBranch, destRepo, destBranch]);
+
   const fetchDestBranches = async () => {
     if (!destRepo) return;
     
@@ -90,7 +107,8 @@ const Sync = () => {
       const { data: { session } } = await supabase.auth.getSession();
       const { data, error } = await supabase.functions.invoke('get-repo-branches', {
         body: { 
-          repositoryName: destRepo,
+          repositoryName: destName,
+          owner: destOwner,
           provider_token: session?.provider_token,
         }
       });
@@ -112,14 +130,14 @@ const Sync = () => {
     }
   };
 
-  const handleSync = async () => {
+  const validateSelection = () => {
     if (!sourceRepo || !sourceBranch || !destRepo || !destBranch) {
       toast({
         variant: "destructive",
         title: "Validation Error",
         description: "Please select all repositories and branches",
       });
-      return;
+      return false;
     }
 
     if (sourceRepo === destRepo && sourceBranch === destBranch) {
@@ -128,37 +146,76 @@ const Sync = () => {
         title: "Invalid Selection",
         description: "Source and destination must be different",
       });
-      return;
+      return false;
     }
 
+    return true;
+  };
+
+  // callFunction reads the body of error responses, e.g. the 409 asking for a fresh preview
+  const invokeSync = <T,>(body: Record<string, unknown>) =>
+    callFunction<T>('sync-repo-contents', {
+      sourceOwner,
+      sourceRepo: sourceName,
+      sourceBranch,
+      destOwner,
+      destRepo: destName,
+      destBranch,
+      ...body,
+    });
+
+  const handleCompare = async () => {
+    if (!validateSelection()) return;
+
+    setIsComparing(true);
+    setSyncProgress("");
+
+    try {
+      const data = await invokeSync<SyncPreview>({ mode: "preview" });
+      setPreview(data);
+      setSelectedPaths(getDefaultSyncSelection(data.files));
+    } catch (error) {
+      console.error('Error comparing repos:', error);
+      setPreview(null);
+      toast({
+        variant: "destructive",
+        title: "Compare failed",
+        description: error instanceof Error ? error.message : "Unable to compare branches. Please try again.",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const selectedChanges = preview
+    ? preview.files.filter((file) =>
+        selectedPaths.has(file.path) && (file.status !== "deleted" || propagateDeletions)
+      )
+    : [];
+
+  const handleSync = async () => {
+    if (!preview || selectedChanges.length === 0 || !validateSelection()) return;
+
     setIsLoading(true);
-    setSyncProgress("Initiating sync...");
+    setSyncProgress(`Committing ${selectedChanges.length} changes...`);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const { data, error } = await supabase.functions.invoke('sync-repo-contents', {
-        body: {
-          sourceRepo,
-          sourceBranch,
-          destRepo,
-          destBranch,
-          provider_token: session?.provider_token,
-        },
+      const data = await invokeSync<SyncResult>({
+        mode: "apply",
+        paths: selectedChanges.map((file) => file.path),
+        propagateDeletions,
+        expectedSourceSha: preview.sourceCommitSha,
+        expectedDestSha: preview.destCommitSha,
       });
 
-      if (error) throw error;
-      if (data?.error) {
-        if (data.error.includes('token') || data.error.includes('expired')) {
-          throw new Error('Your GitHub session has expired. Please log out and log back in.');
-        }
-        throw new Error(data.error);
-      }
+      setSyncProgress(
+        `Synced ${data.files_synced} files in one commit (${data.added} added, ${data.modified} modified, ${data.deleted} deleted)`
+      );
+      setPreview(null);
 
-      setSyncProgress(`Synced ${data.files_synced} of ${data.total_files} files successfully`);
-      
       toast({
         title: "Success!",
-        description: `Successfully synced ${data.files_synced} of ${data.total_files} files`,
+        description: `Synced ${data.files_synced} files to ${destRepo}:${destBranch} in a single commit`,
       });
 
     } catch (error: any) {
@@ -199,7 +256,7 @@ const Sync = () => {
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
-                  This will overwrite files in the destination branch. Use with caution.
+                  Compare the branches first, then pick which changes to copy into the destination. They are applied as a single commit.
                 </AlertDescription>
               </Alert>
 
@@ -214,8 +271,8 @@ const Sync = () => {
                       </SelectTrigger>
                       <SelectContent className="max-h-[300px]">
                         {repos.map((repo) => (
-                          <SelectItem key={repo.name} value={repo.name} className="text-base md:text-sm py-3 md:py-2">
-                            {repo.name}
+                          <SelectItem key={repo.full_name} value={repo.full_name} className="text-base md:text-sm py-3 md:py-2">
+                            {repo.full_name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -251,8 +308,8 @@ const Sync = () => {
                       </SelectTrigger>
                       <SelectContent className="max-h-[300px]">
                         {repos.map((repo) => (
-                          <SelectItem key={repo.name} value={repo.name} className="text-base md:text-sm py-3 md:py-2">
-                            {repo.name}
+                          <SelectItem key={repo.full_name} value={repo.full_name} className="text-base md:text-sm py-3 md:py-2">
+                            {repo.full_name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -283,24 +340,59 @@ const Sync = () => {
                 </div>
               )}
 
-              <Button
-                onClick={handleSync}
-                disabled={isLoading || !sourceRepo || !sourceBranch || !destRepo || !destBranch}
-                className="w-full h-12 text-base font-medium transition-smooth hover:shadow-glow"
-                size="lg"
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Syncing...
-                  </>
-                ) : (
-                  <>
-                    <RefreshCw className="mr-2 h-5 w-5" />
-                    Initiate Sync
-                  </>
+              {preview && (
+                <SyncDiffPreview
+                  preview={preview}
+                  selected={selectedPaths}
+                  onSelectedChange={setSelectedPaths}
+                  propagateDeletions={propagateDeletions}
+                  onPropagateDeletionsChange={setPropagateDeletions}
+                  disabled={isLoading}
+                />
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  onClick={handleCompare}
+                  variant={preview ? "outline" : "default"}
+                  disabled={isComparing || isLoading || !sourceRepo || !sourceBranch || !destRepo || !destBranch}
+                  className="w-full h-12 text-base font-medium"
+                  size="lg"
+                >
+                  {isComparing ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Comparing...
+                    </>
+                  ) : (
+                    <>
+                      <GitCompare className="mr-2 h-5 w-5" />
+                      {preview ? "Refresh Comparison" : "Compare Branches"}
+                    </>
+                  )}
+                </Button>
+
+                {preview && preview.files.length > 0 && (
+                  <Button
+                    onClick={handleSync}
+                    disabled={isLoading || isComparing || selectedChanges.length === 0}
+                    className="w-full h-12 text-base font-medium transition-smooth hover:shadow-glow"
+                    size="lg"
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                        Syncing...
+                      </>
+                    ) : (
+                      <>
+                        <RefreshCw className="mr-2 h-5 w-5" />
+                        Sync {selectedChanges.length} {selectedChanges.length === 1 ? "change" : "changes"}
+                      </>
+                    )}
+                  </Button>
                 )}
-              </Button>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,13 @@
+/**
+ * Paths for Actions secrets and variables, which GitHub scopes either to the
+ * whole repository or to one of its deployment environments
+ */
+
+/**
+ * Base path that `/secrets` and `/variables` hang off for the given scope
+ */
+export function actionsScopePath(owner: string, repo: string, environment?: string): string {
+  return environment
+    ? `/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}`
+    : `/repos/${owner}/${repo}/actions`;
+}
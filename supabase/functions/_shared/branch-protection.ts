@@ -0,0 +1,107 @@
+/**
+ * Branch protection settings shared by get-branch-protection and update-branch-protection.
+ * GitHub's protection API nests every flag in its own object; these helpers flatten it into
+ * the editable settings the client works with, and build the full PUT body back from them.
+ */
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { GitHubClient } from './github-client.ts';
+
+export const branchProtectionSettingsSchema = z.object({
+  // Null does not require pull request reviews
+  required_pull_request_reviews: z.object({
+    required_approving_review_count: z.number().int().min(0).max(6),
+    dismiss_stale_reviews: z.boolean(),
+    require_code_owner_reviews: z.boolean(),
+  }).nullable(),
+  // Null does not require status checks
+  required_status_checks: z.object({
+    // Branches must be up to date with the base before merging
+    strict: z.boolean(),
+    contexts: z.array(z.string().trim().min(1).max(255)).max(100),
+  }).nullable(),
+  required_linear_history: z.boolean(),
+  allow_force_pushes: z.boolean(),
+  allow_deletions: z.boolean(),
+  enforce_admins: z.boolean(),
+});
+
+export type BranchProtectionSettings = z.infer<typeof branchProtectionSettingsSchema>;
+
+interface Enabled {
+  enabled: boolean;
+}
+
+export interface GitHubBranchProtection {
+  required_pull_request_reviews?: {
+    required_approving_review_count?: number;
+    dismiss_stale_reviews?: boolean;
+    require_code_owner_reviews?: boolean;
+  };
+  required_status_checks?: { strict: boolean; contexts: string[] };
+  required_linear_history?: Enabled;
+  allow_force_pushes?: Enabled;
+  allow_deletions?: Enabled;
+  enforce_admins?: Enabled;
+  restrictions?: {
+    users: Array<{ login: string }>;
+    teams: Array<{ slug: string }>;
+    apps: Array<{ slug: string }>;
+  };
+}
+
+/**
+ * Loads a branch's protection, or null when the branch is not protected
+ */
+export async function getBranchProtection(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<GitHubBranchProtection | null> {
+  return github.getIfExists<GitHubBranchProtection>(
+    `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}/protection`
+  );
+}
+
+export function toProtectionSettings(protection: GitHubBranchProtection): BranchProtectionSettings {
+  const reviews = protection.required_pull_request_reviews;
+  const checks = protection.required_status_checks;
+  return {
+    required_pull_request_reviews: reviews
+      ? {
+          required_approving_review_count: reviews.required_approving_review_count ?? 1,
+          dismiss_stale_reviews: reviews.dismiss_stale_reviews ?? false,
+          require_code_owner_reviews: reviews.require_code_owner_reviews ?? false,
+        }
+      : null,
+    required_status_checks: checks ? { strict: checks.strict, contexts: checks.contexts ?? [] } : null,
+    required_linear_history: protection.required_linear_history?.enabled ?? false,
+    allow_force_pushes: protection.allow_force_pushes?.enabled ?? false,
+    allow_deletions: protection.allow_deletions?.enabled ?? false,
+    enforce_admins: protection.enforce_admins?.enabled ?? false,
+  };
+}
+
+/**
+ * Builds the PUT body, carrying over push restrictions from the current protection
+ * because this editor does not manage them and GitHub replaces whatever is omitted
+ */
+export function toProtectionRequest(settings: BranchProtectionSettings, current: GitHubBranchProtection | null) {
+  const restrictions = current?.restrictions
+    ? {
+        users: current.restrictions.users.map((user) => user.login),
+        teams: current.restrictions.teams.map((team) => team.slug),
+        apps: current.restrictions.apps.map((app) => app.slug),
+      }
+    : null;
+
+  return {
+    required_status_checks: settings.required_status_checks,
+    enforce_admins: settings.enforce_admins,
+    required_pull_request_reviews: settings.required_pull_request_reviews,
+    restrictions,
+    required_linear_history: settings.required_linear_history,
+    allow_force_pushes: settings.allow_force_pushes,
+    allow_deletions: settings.allow_deletions,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Commit message and identity options shared by every function that writes commits.
+ * Spread commitOptionsFields into an input schema, then use composeCommitMessage and
+ * commitIdentity when calling the contents or git data APIs.
+ */
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { commitMessageField } from './validation.ts';
+
+export const commitIdentityField = z.object({
+  name: z.string().trim().min(1).max(100),
+  email: z.string().trim().email().max(254),
+});
+
+export type CommitIdentity = z.infer<typeof commitIdentityField>;
+
+export const commitOptionsFields = {
+  // Subject line; each function falls back to its own generated message
+  message: commitMessageField.optional(),
+  // Body below the subject
+  description: z.string().max(10000).optional(),
+  // Defaults to the token's user
+  author: commitIdentityField.optional(),
+  // Defaults to the author
+  committer: commitIdentityField.optional(),
+  // Added as Co-authored-by trailers
+  co_authors: z.array(commitIdentityField).max(20).optional(),
+};
+
+const commitOptionsSchema = z.object(commitOptionsFields);
+
+export type CommitOptions = z.infer<typeof commitOptionsSchema>;
+
+/**
+ * Subject, description and Co-authored-by trailers joined the way git expects:
+ * a blank line after the subject and before the trailers
+ */
+export function composeCommitMessage(options: CommitOptions, fallback: string): string {
+  const parts = [options.message?.trim() || fallback];
+  const description = options.description?.trim();
+  if (description) parts.push(description);
+  if (options.co_authors?.length) {
+    parts.push(options.co_authors.map(({ name, email }) => `Co-authored-by: ${name} <${email}>`).join('\n'));
+  }
+  return parts.join('\n\n');
+}
+
+/** Author and committer fields for a contents API or git commits API request */
+export function commitIdentity(options: CommitOptions): { author?: CommitIdentity; committer?: CommitIdentity } {
+  return {
+    ...(options.author ? { author: options.author } : {}),
+    ...(options.committer ? { committer: options.committer } : {}),
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Shared GitHub REST API client for edge functions
+ * Centralizes auth headers, JSON parsing, Link-header pagination and
+ * secondary rate limit retries so individual functions only describe the call
+ */
+import { sanitizeGitHubError, type SanitizedError } from './error-sanitizer.ts';
+
+const DEFAULT_BASE_URL = 'https://api.github.com';
+const DEFAULT_ACCEPT = 'application/vnd.github.v3+json';
+const USER_AGENT = 'RepoPush';
+const DEFAULT_MAX_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 60000; // Never sleep longer than a minute inside an invocation
+const DEFAULT_MAX_PAGES = 50;
+
+export type QueryValue = string | number | boolean | undefined | null;
+
+export interface GitHubClientOptions {
+  /** Overrides GITHUB_API_URL, e.g. to point at a local stand-in server in tests */
+  baseUrl?: string;
+  maxRetries?: number;
+}
+
+export interface GitHubRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  accept?: string;
+  headers?: Record<string, string>;
+}
+
+export interface GitHubResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+}
+
+export interface PaginateOptions {
+  query?: Record<string, QueryValue>;
+  accept?: string;
+  /** For endpoints that wrap results in an object, e.g. `workflow_runs` */
+  itemsKey?: string;
+  maxPages?: number;
+}
+
+// Git Data API shapes shared by the tree-building functions
+export interface GitRef {
+  ref: string;
+  object: { sha: string; type: string };
+}
+
+export interface GitCommit {
+  sha: string;
+  message: string;
+  tree: { sha: string };
+  parents: Array<{ sha: string }>;
+}
+
+export interface GitTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+export interface GitTree {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
+
+/**
+ * Error thrown for any non-2xx GitHub response.
+ * `status` is GitHub's raw status; `sanitized` is safe to return to clients.
+ */
+export class GitHubApiError extends Error {
+  readonly status: number;
+  readonly sanitized: SanitizedError;
+
+  constructor(status: number, rawError?: string) {
+    const sanitized = sanitizeGitHubError(status, rawError);
+    super(sanitized.message);
+    this.name = 'GitHubApiError';
+    this.status = status;
+    this.sanitized = sanitized;
+  }
+}
+
+/**
+ * Resolves the API base URL (no trailing slash).
+ * GITHUB_API_URL lets tests and GHES deployments swap out api.github.com.
+ */
+export function getGitHubApiBaseUrl(): string {
+  return (Deno.env.get('GITHUB_API_URL') ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Parses the `rel="next"` target out of a GitHub Link header
+ */
+export function getNextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match && match[2].split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns how long to wait before retrying a rate limited response,
+ * or null when the response is not a retryable rate limit
+ */
+function getRetryDelayMs(response: Response): number | null {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // Primary rate limit: wait until the window resets
+  if (response.headers.get('x-ratelimit-remaining') === '0') {
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    if (!Number.isNaN(reset) && reset > 0) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+  }
+
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  if (response.status === 204 || response.status === 205) return null;
+
+  const text = await response.text();
+  if (!text) return null;
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    return JSON.parse(text);
+  }
+  return text;
+}
+
+/**
+ * Creates a GitHub client bound to a user's provider token
+ */
+export function createGitHubClient(token: string, options: GitHubClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? getGitHubApiBaseUrl()).replace(/\/+$/, '');
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const buildUrl = (path: string, query?: Record<string, QueryValue>): string => {
+    const url = new URL(/^https?:\/\//.test(path) ? path : `${baseUrl}${path.startsWith('/') ? '' : '/'}${path}`);
+    if (query) {
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) {
+          url.searchParams.set(key, String(value));
+        }
+      }
+    }
+    return url.toString();
+  };
+
+  async function request<T = unknown>(path: string, requestOptions: GitHubRequestOptions = {}): Promise<GitHubResponse<T>> {
+    const { method = 'GET', body, query, accept = DEFAULT_ACCEPT, headers = {} } = requestOptions;
+    const url = buildUrl(path, query);
+
+    const requestHeaders: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+      'Accept': accept,
+      'User-Agent': USER_AGENT,
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...headers,
+    };
+    if (body !== undefined) {
+      requestHeaders['Content-Type'] = 'application/json';
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: requestHeaders,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+
+      if (response.ok) {
+        const data = await parseBody(response) as T;
+        return { data, status: response.status, headers: response.headers };
+      }
+
+      const delay = getRetryDelayMs(response);
+      if (delay !== null && delay <= MAX_RETRY_DELAY_MS && attempt < maxRetries) {
+        console.warn(`[GitHub API] Rate limited on ${method} ${path}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await response.body?.cancel();
+        await sleep(delay);
+        continue;
+      }
+
+      const rawError = await response.text();
+      throw new GitHubApiError(response.status, `${method} ${path}: ${rawError}`);
+    }
+  }
+
+  async function get<T = unknown>(path: string, requestOptions: Omit<GitHubRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return (await request<T>(path, requestOptions)).data;
+  }
+
+  /**
+   * Like `get`, but resolves to null on 404 instead of throwing
+   */
+  async function getIfExists<T = unknown>(path: string, requestOptions: Omit<GitHubRequestOptions, 'method' | 'body'> = {}): Promise<T | null> {
+    try {
+      return await get<T>(path, requestOptions);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  const withBody = (method: 'POST' | 'PUT' | 'PATCH' | 'DELETE') =>
+    async <T = unknown>(path: string, body?: unknown, requestOptions: Omit<GitHubRequestOptions, 'method' | 'body'> = {}): Promise<T> =>
+      (await request<T>(path, { ...requestOptions, method, body })).data;
+  const post = withBody('POST');
+
+  /**
+   * Follows Link headers and concatenates every page of results
+   */
+  async function paginate<T = unknown>(path: string, paginateOptions: PaginateOptions = {}): Promise<T[]> {
+    const { query, accept, itemsKey, maxPages = DEFAULT_MAX_PAGES } = paginateOptions;
+    const results: T[] = [];
+    let nextUrl: string | null = buildUrl(path, { per_page: 100, ...query });
+
+    for (let page = 0; nextUrl && page < maxPages; page++) {
+      const response: GitHubResponse<unknown> = await request(nextUrl, { accept });
+      const items = itemsKey
+        ? (response.data as Record<string, unknown>)?.[itemsKey]
+        : response.data;
+      if (Array.isArray(items)) {
+        results.push(...(items as T[]));
+      }
+      nextUrl = getNextPageUrl(response.headers.get('link'));
+    }
+
+    return results;
+  }
+
+  /**
+   * Runs a GraphQL query, for data REST doesn't expose (e.g. blame).
+   * GHES serves GraphQL at /api/graphql next to the /api/v3 REST root.
+   */
+  async function graphql<T = unknown>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const graphqlUrl = /\/api\/v3$/.test(baseUrl) ? baseUrl.replace(/\/v3$/, '/graphql') : `${baseUrl}/graphql`;
+    const result = await post<{ data?: T; errors?: { type?: string; message: string }[] }>(graphqlUrl, { query, variables });
+    if (result.errors?.length) {
+      const notFound = result.errors.some((e) => e.type === 'NOT_FOUND');
+      throw new GitHubApiError(notFound ? 404 : 422, `GraphQL: ${result.errors.map((e) => e.message).join('; ')}`);
+    }
+    return result.data as T;
+  }
+
+  return {
+    baseUrl,
+    request,
+    get,
+    getIfExists,
+    post,
+    put: withBody('PUT'),
+    patch: withBody('PATCH'),
+    delete: withBody('DELETE'),
+    paginate,
+    graphql,
+  };
+}
+
+export type GitHubClient = ReturnType<typeof createGitHubClient>;
+
+/**
+ * Converts a GitHubApiError into the JSON error response shape used by every function
+ */
+export function githubErrorResponse(error: GitHubApiError, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: error.sanitized.message }),
+    { status: error.sanitized.status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+}
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import type { GitHubClient } from './github-client.ts';
 
 export interface GitHubProfile {
   github_access_token: string;
@@ -68,90 +69,54 @@ export async function getGitHubToken(req: Request, providerToken?: string): Prom
 }
 
 export async function createOrGetBranch(
+  github: GitHubClient,
   owner: string,
   repo: string,
   branch: string,
-  token: string
+  baseBranch?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Check if branch exists
-    const branchResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/branches/${branch}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
+    const existingBranch = await github.getIfExists(`/repos/${owner}/${repo}/branches/${branch}`);
 
-    if (branchResponse.ok) {
+    if (existingBranch) {
       console.log(`Branch ${branch} already exists`);
       return { success: true };
     }
 
-    // Branch doesn't exist, create it from default branch
+    // Branch doesn't exist, create it from the base branch or the default branch
     console.log(`Creating new branch: ${branch}`);
     
-    // Get the default branch SHA
-    const repoResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
+    let sourceBranch: string;
+    if (baseBranch) {
+      sourceBranch = baseBranch;
+    } else {
+      try {
+        const repoData = await github.get<{ default_branch: string }>(`/repos/${owner}/${repo}`);
+        sourceBranch = repoData.default_branch;
+      } catch {
+        return { success: false, error: 'Failed to fetch repository info' };
       }
-    );
-
-    if (!repoResponse.ok) {
-      return { success: false, error: 'Failed to fetch repository info' };
     }
 
-    const repoData = await repoResponse.json();
-    const defaultBranch = repoData.default_branch;
-
-    // Get the SHA of the default branch
-    const refResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${defaultBranch}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!refResponse.ok) {
-      return { success: false, error: 'Failed to fetch default branch ref' };
+    // Get the SHA of the source branch
+    let sha: string;
+    try {
+      const refData = await github.get<{ object: { sha: string } }>(
+        `/repos/${owner}/${repo}/git/refs/heads/${sourceBranch}`
+      );
+      sha = refData.object.sha;
+    } catch {
+      return { success: false, error: `Failed to fetch ${sourceBranch} branch ref` };
     }
 
-    const refData = await refResponse.json();
-    const sha = refData.object.sha;
-
     // Create new branch
-    const createBranchResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          ref: `refs/heads/${branch}`,
-          sha: sha,
-        }),
-      }
-    );
-
-    if (!createBranchResponse.ok) {
-      const error = await createBranchResponse.text();
+    try {
+      await github.post(`/repos/${owner}/${repo}/git/refs`, {
+        ref: `refs/heads/${branch}`,
+        sha: sha,
+      });
+    } catch (error) {
       console.error('Failed to create branch:', error);
       return { success: false, error: 'Failed to create branch' };
     }
@@ -164,3 +129,19 @@ export async function createOrGetBranch(
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
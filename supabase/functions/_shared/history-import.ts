@@ -0,0 +1,166 @@
+/**
+ * Replays the commit history of a GitHub source repository into another repository
+ * Each source commit is recreated with its original message, author and dates.
+ * Only files that changed since the previous commit are copied, so a batch of
+ * commits costs roughly one blob copy per changed file.
+ */
+import type { GitHubClient } from './github-client.ts';
+import { mapWithConcurrency } from './github-helper.ts';
+import { listGitHubEntries, SUBMODULE_MODE, type SourceEntry } from './source-repository.ts';
+
+// Parallel blob copies per commit, kept low to avoid secondary rate limits
+const BLOB_CONCURRENCY = 8;
+// Entries per create-tree call
+const TREE_CHUNK_SIZE = 1000;
+
+export interface HistorySource {
+  /** owner/repo of the GitHub source */
+  fullName: string;
+  subdirectory?: string;
+}
+
+export interface HistoryTarget {
+  owner: string;
+  repo: string;
+}
+
+/** The last replayed commit; all null before the first one */
+export interface ReplayState {
+  sourceCommitSha: string | null;
+  commitSha: string | null;
+  treeSha: string | null;
+}
+
+interface SourceCommit {
+  sha: string;
+  message: string;
+  author: { name: string; email: string; date: string };
+  committer: { name: string; email: string; date: string };
+  tree: { sha: string };
+}
+
+interface TreeChange {
+  path: string;
+  mode: string;
+  type: 'blob' | 'commit';
+  sha: string | null;
+}
+
+/**
+ * Lists the first-parent history ending at `headSha`, oldest first.
+ * `truncated` is true when older commits exist beyond `maxCommits`.
+ */
+export async function listFirstParentHistory(
+  github: GitHubClient,
+  fullName: string,
+  headSha: string,
+  maxCommits: number
+): Promise<{ commits: string[]; truncated: boolean }> {
+  const listed = await github.paginate<{ sha: string; parents: Array<{ sha: string }> }>(
+    `/repos/${fullName}/commits`,
+    { query: { sha: headSha }, maxPages: Math.ceil(maxCommits / 100) + 1 }
+  );
+  const bySha = new Map(listed.map((commit) => [commit.sha, commit]));
+
+  const chain: string[] = [];
+  let current = bySha.get(headSha);
+  while (current && chain.length < maxCommits) {
+    chain.push(current.sha);
+    const parentSha = current.parents[0]?.sha;
+    current = parentSha ? bySha.get(parentSha) : undefined;
+    // A parent outside the listed pages means the history goes further back
+    if (parentSha && !current) {
+      return { commits: chain.reverse(), truncated: true };
+    }
+  }
+
+  return { commits: chain.reverse(), truncated: current !== undefined };
+}
+
+const toEntryMap = (entries: SourceEntry[]) =>
+  new Map(entries.map((entry) => [entry.path, entry]));
+
+/**
+ * Recreates `commitShas` (oldest first) on top of `state` in the target repository
+ * and returns the new state. Commits that do not touch the subdirectory are skipped.
+ */
+export async function replayCommits(
+  github: GitHubClient,
+  source: HistorySource,
+  target: HistoryTarget,
+  commitShas: string[],
+  state: ReplayState
+): Promise<ReplayState> {
+  const targetPath = `/repos/${target.owner}/${target.repo}`;
+  let current = { ...state };
+
+  let previousEntries = new Map<string, SourceEntry>();
+  if (current.sourceCommitSha) {
+    const previous = await github.get<SourceCommit>(`/repos/${source.fullName}/git/commits/${current.sourceCommitSha}`);
+    previousEntries = toEntryMap(await listGitHubEntries(github, source.fullName, previous.tree.sha, source.subdirectory));
+  }
+
+  for (const sha of commitShas) {
+    const commit = await github.get<SourceCommit>(`/repos/${source.fullName}/git/commits/${sha}`);
+    const entries = toEntryMap(await listGitHubEntries(github, source.fullName, commit.tree.sha, source.subdirectory));
+
+    const changed = [...entries.values()].filter((entry) => {
+      const before = previousEntries.get(entry.path);
+      return !before || before.sha !== entry.sha || before.mode !== entry.mode;
+    });
+    const deleted = [...previousEntries.keys()].filter((path) => !entries.has(path));
+
+    previousEntries = entries;
+
+    if (changed.length === 0 && deleted.length === 0) {
+      current = { ...current, sourceCommitSha: sha };
+      continue;
+    }
+
+    // Copy each new blob once; blob SHAs are content hashes, so they match the source
+    const blobsToCopy = [...new Map(
+      changed.filter((entry) => entry.mode !== SUBMODULE_MODE).map((entry) => [entry.sha!, entry])
+    ).values()];
+    await mapWithConcurrency(blobsToCopy, BLOB_CONCURRENCY, async (entry) => {
+      const blob = await github.get<{ content: string }>(`/repos/${source.fullName}/git/blobs/${entry.sha}`);
+      await github.post(`${targetPath}/git/blobs`, { content: blob.content.replace(/\n/g, ''), encoding: 'base64' });
+    });
+
+    const changes: TreeChange[] = [
+      ...changed.map((entry) => ({
+        path: entry.path,
+        mode: entry.mode,
+        type: entry.mode === SUBMODULE_MODE ? 'commit' as const : 'blob' as const,
+        sha: entry.sha!,
+      })),
+      // Deletions only make sense on top of an existing tree
+      ...(current.treeSha ? deleted.map((path) => ({ path, mode: '100644', type: 'blob' as const, sha: null })) : []),
+    ];
+
+    if (changes.length === 0) {
+      current = { ...current, sourceCommitSha: sha };
+      continue;
+    }
+
+    let treeSha = current.treeSha;
+    for (let i = 0; i < changes.length; i += TREE_CHUNK_SIZE) {
+      const tree = await github.post<{ sha: string }>(`${targetPath}/git/trees`, {
+        ...(treeSha ? { base_tree: treeSha } : {}),
+        tree: changes.slice(i, i + TREE_CHUNK_SIZE),
+      });
+      treeSha = tree.sha;
+    }
+
+    const newCommit = await github.post<{ sha: string }>(`${targetPath}/git/commits`, {
+      message: commit.message,
+      tree: treeSha,
+      parents: current.commitSha ? [current.commitSha] : [],
+      author: commit.author,
+      committer: commit.committer,
+    });
+
+    current = { sourceCommitSha: sha, commitSha: newCommit.sha, treeSha };
+  }
+
+  return current;
+}
@@ -0,0 +1,125 @@
+/**
+ * Repository access checks based on the permissions GitHub reports for the token's user,
+ * so organization and collaborator repositories work the same as the user's own
+ */
+import type { GitHubClient } from './github-client.ts';
+
+/** GitHub's repository roles, lowest first */
+export type RepositoryRole = 'pull' | 'triage' | 'push' | 'maintain' | 'admin';
+
+export interface RepositoryPermissions {
+  admin: boolean;
+  // Only reported for organization repositories
+  maintain?: boolean;
+  push: boolean;
+  triage?: boolean;
+  pull: boolean;
+}
+
+export interface RepositoryAccess {
+  name: string;
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+  private: boolean;
+  archived: boolean;
+  topics?: string[];
+  owner: { login: string; type: string };
+  permissions?: RepositoryPermissions;
+}
+
+/**
+ * Error for repositories the user cannot use at the required role; `status` is safe to return to clients
+ */
+export class RepositoryAccessError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RepositoryAccessError';
+    this.status = status;
+  }
+}
+
+const ROLE_ORDER: RepositoryRole[] = ['pull', 'triage', 'push', 'maintain', 'admin'];
+
+const ROLE_LABELS: Record<RepositoryRole, string> = {
+  pull: 'read',
+  triage: 'triage',
+  push: 'write',
+  maintain: 'maintain',
+  admin: 'admin',
+};
+
+/**
+ * True when the permissions include the role; higher roles include every lower one
+ */
+export function hasRepositoryRole(permissions: RepositoryPermissions | undefined, role: RepositoryRole): boolean {
+  if (!permissions) return false;
+  return ROLE_ORDER.slice(ROLE_ORDER.indexOf(role)).some((r) => permissions[r] === true);
+}
+
+export interface RepositoryRoleOptions {
+  /** For reads GitHub reserves to a role, such as traffic; archived repositories still allow them */
+  readOnly?: boolean;
+}
+
+/**
+ * Throws RepositoryAccessError unless the user has at least `role` on an already loaded repository.
+ * Archived repositories are read-only, so nobody may write to them.
+ */
+export function assertRepositoryRole(
+  repository: RepositoryAccess,
+  role: RepositoryRole,
+  options: RepositoryRoleOptions = {}
+): void {
+  if (!hasRepositoryRole(repository.permissions, role)) {
+    throw new RepositoryAccessError(403, `You need ${ROLE_LABELS[role]} access to ${repository.full_name} to do this`);
+  }
+  if (repository.archived && !options.readOnly && (role === 'push' || role === 'maintain')) {
+    throw new RepositoryAccessError(403, `${repository.full_name} is archived and read-only`);
+  }
+}
+
+/**
+ * Loads the repository and checks the user has at least `role` on it
+ */
+export async function requireRepositoryAccess(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  role: RepositoryRole,
+  options: RepositoryRoleOptions = {}
+): Promise<RepositoryAccess> {
+  const repository = await github.getIfExists<RepositoryAccess>(`/repos/${owner}/${repo}`);
+  if (!repository) {
+    throw new RepositoryAccessError(404, `Repository ${owner}/${repo} not found or you do not have access to it`);
+  }
+  assertRepositoryRole(repository, role, options);
+  return repository;
+}
+
+/**
+ * Checks the user may create repositories under `owner`: their own account or an organization
+ * they are an active member of. Whether the organization lets members create repositories is left to GitHub.
+ */
+export async function requireOwnerMembership(github: GitHubClient, owner: string, username: string): Promise<void> {
+  if (owner.toLowerCase() === username.toLowerCase()) return;
+  const membership = await github.getIfExists<{ state: 'active' | 'pending' }>(`/user/memberships/orgs/${owner}`);
+  if (membership?.state !== 'active') {
+    throw new RepositoryAccessError(
+      403,
+      `You can only create repositories in your own account or an organization you belong to, and you are not a member of ${owner}`
+    );
+  }
+}
+
+/**
+ * Converts a RepositoryAccessError into the JSON error response shape used by every function
+ */
+export function accessErrorResponse(error: RepositoryAccessError, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: error.message }),
+    { status: error.status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+}
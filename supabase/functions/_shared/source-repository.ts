@@ -0,0 +1,402 @@
+/**
+ * Reads source repositories for URL imports
+ * Parses clone and browse URLs for GitHub, GitLab and Bitbucket, resolves a ref
+ * (branch, tag or commit SHA) to a commit, lists the files under an optional
+ * subdirectory in bulk and fetches individual blobs as base64
+ */
+import { getNextPageUrl, type GitHubClient, type GitTree, type GitTreeEntry } from './github-client.ts';
+
+export type SourceHost = 'github' | 'gitlab' | 'bitbucket';
+
+export interface SourceLocation {
+  host: SourceHost;
+  /** Web origin, so allowlisted self-hosted GitLab instances work too */
+  origin: string;
+  /** owner/repo, or group/subgroup/project on GitLab */
+  fullName: string;
+  ref?: string;
+  subdirectory?: string;
+}
+
+export interface SourceEntry {
+  /** Path relative to the imported subdirectory */
+  path: string;
+  mode: string;
+  /** Blob SHA, or the pinned commit for submodules. Bitbucket does not expose blob SHAs. */
+  sha?: string;
+  /** Blob size in bytes, where the host's listing includes it (GitHub) */
+  size?: number;
+}
+
+export interface SourceSnapshot {
+  location: SourceLocation;
+  /** The ref that was resolved, defaulting to the repository's default branch */
+  ref: string;
+  commitSha: string;
+  entries: SourceEntry[];
+}
+
+export const SUBMODULE_MODE = '160000';
+
+// Keeps the listing (stored with the upload session) to a sane size
+const MAX_SOURCE_FILES = 50000;
+
+/**
+ * Error for source repositories that cannot be read; `status` is safe to return to clients
+ */
+export class SourceRepositoryError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SourceRepositoryError';
+    this.status = status;
+  }
+}
+
+/**
+ * GitLab hosts the import may call: gitlab.com plus any self-hosted instances
+ * listed (comma-separated) in GITLAB_HOSTS. Anything else would let a URL make
+ * the edge function request arbitrary internal hosts.
+ */
+function getAllowedGitLabHosts(): Set<string> {
+  const configured = (Deno.env.get('GITLAB_HOSTS') ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return new Set(['gitlab.com', ...configured]);
+}
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, '');
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Parses https, scp-style (git@host:owner/repo.git) and browse URLs such as
+ * github.com/owner/repo/tree/<ref>/<path>. Returns null for unsupported hosts,
+ * GitLab instances outside the allowlist and URLs with an explicit port.
+ */
+export function parseRepositoryUrl(input: string): SourceLocation | null {
+  let text = input.trim();
+
+  const scpMatch = text.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (scpMatch) {
+    text = `https://${scpMatch[1]}/${scpMatch[2]}`;
+  } else if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+    text = `https://${text}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+
+  // Sources are only ever fetched over https on the default port
+  if (url.port) return null;
+
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  const origin = `https://${hostname}`;
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-escapes
+    return null;
+  }
+  const stripGit = (name: string) => name.replace(/\.git$/, '');
+  const optional = (value: string | undefined) => (value ? value : undefined);
+
+  if (hostname === 'github.com') {
+    const [owner, repo, kind, ref, ...rest] = segments;
+    if (!owner || !repo) return null;
+    const browsing = kind === 'tree' || kind === 'commit';
+    return {
+      host: 'github',
+      origin,
+      fullName: `${owner}/${stripGit(repo)}`,
+      ref: browsing ? optional(ref) : undefined,
+      subdirectory: kind === 'tree' ? optional(rest.join('/')) : undefined,
+    };
+  }
+
+  if (hostname === 'bitbucket.org') {
+    const [workspace, repo, kind, ref, ...rest] = segments;
+    if (!workspace || !repo) return null;
+    return {
+      host: 'bitbucket',
+      origin,
+      fullName: `${workspace}/${stripGit(repo)}`,
+      ref: kind === 'src' ? optional(ref) : undefined,
+      subdirectory: kind === 'src' ? optional(rest.join('/')) : undefined,
+    };
+  }
+
+  if (getAllowedGitLabHosts().has(hostname)) {
+    // Project paths can be nested groups; browse URLs continue after a "-" segment
+    const separator = segments.indexOf('-');
+    const projectSegments = separator === -1 ? segments : segments.slice(0, separator);
+    if (projectSegments.length < 2) return null;
+    projectSegments[projectSegments.length - 1] = stripGit(projectSegments[projectSegments.length - 1]);
+
+    const [kind, ref, ...rest] = separator === -1 ? [] : segments.slice(separator + 1);
+    return {
+      host: 'gitlab',
+      origin,
+      fullName: projectSegments.join('/'),
+      ref: kind === 'tree' || kind === 'commit' ? optional(ref) : undefined,
+      subdirectory: kind === 'tree' ? optional(rest.join('/')) : undefined,
+    };
+  }
+
+  return null;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  const CHUNK_SIZE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Unauthenticated request to a non-GitHub host (public repositories only)
+ */
+async function fetchPublic(url: string): Promise<Response> {
+  const response = await fetch(url, { headers: { 'User-Agent': 'RepoPush' } });
+  if (response.ok) return response;
+
+  await response.body?.cancel();
+  if (response.status === 401 || response.status === 403 || response.status === 404) {
+    throw new SourceRepositoryError(404, 'Source repository or ref not found. Only public repositories can be imported from this host.');
+  }
+  throw new SourceRepositoryError(502, `Source host returned an error (${response.status})`);
+}
+
+async function fetchPublicJson<T>(url: string): Promise<{ data: T; next: string | null }> {
+  const response = await fetchPublic(url);
+  return { data: await response.json() as T, next: getNextPageUrl(response.headers.get('link')) };
+}
+
+function checkEntryCount(count: number) {
+  if (count > MAX_SOURCE_FILES) {
+    throw new SourceRepositoryError(400, `Repository is too large to import (more than ${MAX_SOURCE_FILES} files). Try importing a subdirectory.`);
+  }
+}
+
+// --- GitHub -------------------------------------------------------------
+
+async function listGitHubTree(github: GitHubClient, fullName: string, treeSha: string, prefix = ''): Promise<GitTreeEntry[]> {
+  const tree = await github.get<GitTree>(`/repos/${fullName}/git/trees/${treeSha}`, { query: { recursive: 1 } });
+  if (!tree.truncated) {
+    return tree.tree.map((entry) => ({ ...entry, path: prefix + entry.path }));
+  }
+
+  // Truncated listings are walked one level at a time instead
+  const level = await github.get<GitTree>(`/repos/${fullName}/git/trees/${treeSha}`);
+  const entries: GitTreeEntry[] = [];
+  for (const entry of level.tree) {
+    if (entry.type === 'tree') {
+      entries.push(...await listGitHubTree(github, fullName, entry.sha, `${prefix}${entry.path}/`));
+      checkEntryCount(entries.length);
+    } else {
+      entries.push({ ...entry, path: prefix + entry.path });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Resolves the tree SHA of a subdirectory within a tree, or null if it does not exist
+ */
+async function findGitHubSubtree(github: GitHubClient, fullName: string, treeSha: string, subdirectory: string): Promise<string | null> {
+  let currentSha = treeSha;
+  for (const name of subdirectory.split('/')) {
+    const level = await github.get<GitTree>(`/repos/${fullName}/git/trees/${currentSha}`);
+    const match = level.tree.find((entry) => entry.path === name && entry.type === 'tree');
+    if (!match) return null;
+    currentSha = match.sha;
+  }
+  return currentSha;
+}
+
+/**
+ * Lists the blobs and submodules of a GitHub tree, relative to an optional subdirectory.
+ * Returns an empty list if the subdirectory does not exist in that tree.
+ */
+export async function listGitHubEntries(
+  github: GitHubClient,
+  fullName: string,
+  treeSha: string,
+  subdirectory?: string
+): Promise<SourceEntry[]> {
+  const rootSha = subdirectory ? await findGitHubSubtree(github, fullName, treeSha, subdirectory) : treeSha;
+  if (!rootSha) return [];
+
+  return (await listGitHubTree(github, fullName, rootSha))
+    .filter((entry) => entry.type === 'blob' || entry.type === 'commit')
+    .map(({ path, mode, sha, size }) => ({ path, mode, sha, size }));
+}
+
+async function resolveGitHubSnapshot(github: GitHubClient, location: SourceLocation): Promise<SourceSnapshot> {
+  const repoPath = `/repos/${location.fullName}`;
+
+  const repo = await github.getIfExists<{ default_branch: string }>(repoPath);
+  if (!repo) {
+    throw new SourceRepositoryError(404, 'Source repository not found or not accessible');
+  }
+
+  const ref = location.ref || repo.default_branch;
+  // The commits endpoint accepts branch names, tags and (abbreviated) SHAs alike
+  const commit = await github.getIfExists<{ sha: string; commit: { tree: { sha: string } } }>(
+    `${repoPath}/commits/${encodePath(ref)}`
+  );
+  if (!commit) {
+    throw new SourceRepositoryError(404, `Could not find branch, tag or commit "${ref}" in ${location.fullName}`);
+  }
+
+  const entries = await listGitHubEntries(github, location.fullName, commit.commit.tree.sha, location.subdirectory);
+  return { location, ref, commitSha: commit.sha, entries };
+}
+
+// --- GitLab -------------------------------------------------------------
+
+const gitLabProjectUrl = (location: SourceLocation) =>
+  `${location.origin}/api/v4/projects/${encodeURIComponent(location.fullName)}`;
+
+async function resolveGitLabSnapshot(location: SourceLocation): Promise<SourceSnapshot> {
+  const projectUrl = gitLabProjectUrl(location);
+
+  let ref = location.ref;
+  if (!ref) {
+    const { data: project } = await fetchPublicJson<{ default_branch: string }>(projectUrl);
+    ref = project.default_branch;
+  }
+
+  const { data: commit } = await fetchPublicJson<{ id: string }>(
+    `${projectUrl}/repository/commits/${encodeURIComponent(ref)}`
+  );
+
+  const prefix = location.subdirectory ? `${location.subdirectory}/` : '';
+  const entries: SourceEntry[] = [];
+  const firstPage = new URL(`${projectUrl}/repository/tree`);
+  firstPage.searchParams.set('ref', commit.id);
+  firstPage.searchParams.set('recursive', 'true');
+  firstPage.searchParams.set('per_page', '100');
+  firstPage.searchParams.set('pagination', 'keyset');
+  if (location.subdirectory) firstPage.searchParams.set('path', location.subdirectory);
+
+  for (let nextUrl: string | null = firstPage.toString(); nextUrl;) {
+    const page: { data: Array<{ id: string; type: string; path: string; mode: string }>; next: string | null } =
+      await fetchPublicJson(nextUrl);
+    for (const item of page.data) {
+      if (item.type === 'blob' || item.type === 'commit') {
+        entries.push({ path: item.path.slice(prefix.length), mode: item.mode, sha: item.id });
+      }
+    }
+    checkEntryCount(entries.length);
+    nextUrl = page.next;
+  }
+
+  return { location, ref, commitSha: commit.id, entries };
+}
+
+// --- Bitbucket ----------------------------------------------------------
+
+const bitbucketRepoUrl = (location: SourceLocation) =>
+  `https://api.bitbucket.org/2.0/repositories/${location.fullName}`;
+
+async function resolveBitbucketSnapshot(location: SourceLocation): Promise<SourceSnapshot> {
+  const repoUrl = bitbucketRepoUrl(location);
+
+  let ref = location.ref;
+  if (!ref) {
+    const { data: repo } = await fetchPublicJson<{ mainbranch?: { name: string } }>(repoUrl);
+    ref = repo.mainbranch?.name ?? 'main';
+  }
+
+  const { data: commit } = await fetchPublicJson<{ hash: string }>(`${repoUrl}/commit/${encodeURIComponent(ref)}`);
+
+  const prefix = location.subdirectory ? `${location.subdirectory}/` : '';
+  const entries: SourceEntry[] = [];
+  const directories = [location.subdirectory ?? ''];
+
+  // The src listing is one directory per request, so walk it breadth first
+  while (directories.length > 0) {
+    const directory = directories.shift()!;
+    let nextUrl: string | null = `${repoUrl}/src/${commit.hash}/${directory ? `${encodePath(directory)}/` : ''}?pagelen=100`;
+
+    while (nextUrl) {
+      const { data: page }: { data: { values: Array<{ type: string; path: string; attributes?: string[] }>; next?: string } } =
+        await fetchPublicJson(nextUrl);
+      for (const item of page.values) {
+        if (item.type === 'commit_directory') {
+          directories.push(item.path);
+        } else if (item.type === 'commit_file' && !item.attributes?.includes('subrepository')) {
+          const mode = item.attributes?.includes('link') ? '120000'
+            : item.attributes?.includes('executable') ? '100755'
+            : '100644';
+          entries.push({ path: item.path.slice(prefix.length), mode });
+        }
+      }
+      checkEntryCount(entries.length);
+      nextUrl = page.next ?? null;
+    }
+  }
+
+  return { location, ref, commitSha: commit.hash, entries };
+}
+
+// --- Public entry points ------------------------------------------------
+
+/**
+ * Resolves the location's ref to a commit and lists every file to import
+ */
+export async function resolveSourceSnapshot(github: GitHubClient, location: SourceLocation): Promise<SourceSnapshot> {
+  const subdirectory = location.subdirectory ? trimSlashes(location.subdirectory) : undefined;
+  const normalized = { ...location, subdirectory: subdirectory || undefined };
+
+  let snapshot: SourceSnapshot;
+  switch (normalized.host) {
+    case 'github':
+      snapshot = await resolveGitHubSnapshot(github, normalized);
+      break;
+    case 'gitlab':
+      snapshot = await resolveGitLabSnapshot(normalized);
+      break;
+    case 'bitbucket':
+      snapshot = await resolveBitbucketSnapshot(normalized);
+      break;
+  }
+
+  checkEntryCount(snapshot.entries.length);
+  return snapshot;
+}
+
+/**
+ * Fetches one file of a snapshot as base64, byte for byte
+ */
+export async function fetchSourceBlob(github: GitHubClient, snapshot: SourceSnapshot, entry: SourceEntry): Promise<string> {
+  const { location } = snapshot;
+
+  switch (location.host) {
+    case 'github': {
+      const blob = await github.get<{ content: string }>(`/repos/${location.fullName}/git/blobs/${entry.sha}`);
+      return blob.content.replace(/\n/g, '');
+    }
+    case 'gitlab': {
+      const { data: blob } = await fetchPublicJson<{ content: string }>(
+        `${gitLabProjectUrl(location)}/repository/blobs/${entry.sha}`
+      );
+      return blob.content.replace(/\n/g, '');
+    }
+    case 'bitbucket': {
+      const sourcePath = location.subdirectory ? `${location.subdirectory}/${entry.path}` : entry.path;
+      const response = await fetchPublic(`${bitbucketRepoUrl(location)}/src/${snapshot.commitSha}/${encodePath(sourcePath)}`);
+      return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+    }
+  }
+}
@@ -51,6 +51,29 @@ export const contentField = z
   .string()
   .max(MAX_FILE_SIZE, `Content must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`);
 
+// GitHub's repository roles as the collaborator and team APIs name them
+export const repositoryPermissionField = z.enum(['pull', 'triage', 'push', 'maintain', 'admin']);
+
+export const teamSlugField = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[a-z0-9_-]+$/, 'Invalid team slug - only lowercase letters, numbers, underscores, and hyphens allowed');
+
+// Actions secret and variable names; GitHub reserves the GITHUB_ prefix
+export const actionsNameField = z
+  .string()
+  .min(1)
+  .max(255)
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid name - only letters, numbers, and underscores allowed, not starting with a number')
+  .refine((name) => !name.toUpperCase().startsWith('GITHUB_'), 'Names cannot start with GITHUB_');
+
+export const environmentField = z
+  .string()
+  .min(1)
+  .max(255)
+  .refine((name) => !name.includes('\0'), 'Invalid environment name - cannot contain null bytes');
+
 export const commitMessageField = z
   .string()
   .min(1)
@@ -80,6 +103,24 @@ export const repoOperationSchema = z.object({
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
+// Binary-safe file payloads: UTF-8 text or base64 bytes plus a git tree mode
+const MAX_BASE64_FILE_SIZE = Math.ceil(MAX_FILE_SIZE / 3) * 4;
+
+export const fileEncodingField = z.enum(['utf-8', 'base64']);
+
+// Regular file, executable file, symbolic link
+export const fileModeField = z.enum(['100644', '100755', '120000']);
+
+export const importFileSchema = z.object({
+  content: z
+    .string()
+    .max(MAX_BASE64_FILE_SIZE, `File must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`),
+  encoding: fileEncodingField.default('utf-8'),
+  mode: fileModeField.default('100644'),
+});
+
+export type ImportFile = z.infer<typeof importFileSchema>;
+
 // Batch operation limits
 export const MAX_BATCH_SIZE = 100;
 
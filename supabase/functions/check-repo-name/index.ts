@@ -1,6 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField } from '../_shared/validation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +10,8 @@ const corsHeaders = {
 
 const checkRepoSchema = z.object({
   repositoryName: z.string().min(1).max(100).regex(/^[a-zA-Z0-9._-]+$/, 'Invalid repository name'),
+  // Account or organization the repository would be created in; the user's own account when omitted
+  owner: ownerField.optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
@@ -31,7 +34,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { repositoryName, provider_token } = validation.data;
+    const { repositoryName, owner: repositoryOwner, provider_token } = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -65,34 +68,16 @@ Deno.serve(async (req) => {
     }
 
     const githubToken = provider_token;
-    const owner = profile.github_username;
+    const owner = repositoryOwner ?? profile.github_username;
 
     console.log(`Checking if repository ${owner}/${repositoryName} exists`);
 
     // Check if repository exists
-    const checkResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repositoryName}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
+    const github = createGitHubClient(githubToken);
+    const existingRepo = await github.getIfExists(`/repos/${owner}/${repositoryName}`);
 
-    if (checkResponse.status === 401 || checkResponse.status === 403) {
-      const rawError = await checkResponse.text();
-      const sanitized = sanitizeGitHubError(checkResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const exists = checkResponse.ok;
-    console.log(`Repository ${repositoryName} ${exists ? 'exists' : 'is available'}`);
+    const exists = existingRepo !== null;
+    console.log(`Repository ${owner}/${repositoryName} ${exists ? 'exists' : 'is available'}`);
 
     return new Response(
       JSON.stringify({
@@ -106,6 +91,9 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in check-repo-name function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
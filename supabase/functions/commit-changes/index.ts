@@ -0,0 +1,217 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import {
+  ownerField,
+  repoField,
+  requiredPathField,
+  branchField,
+  contentField,
+  commitMessageField,
+  MAX_BATCH_SIZE,
+} from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import {
+  createGitHubClient,
+  GitHubApiError,
+  githubErrorResponse,
+  type GitCommit,
+  type GitRef,
+} from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { listGitHubEntries, SUBMODULE_MODE } from '../_shared/source-repository.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const changeSchema = z.discriminatedUnion('type', [
+  // Create or edit a text file. base_sha is the blob the edit started from (null for a new file),
+  // so edits made on top of an outdated version are refused instead of overwriting newer work.
+  z.object({
+    type: z.literal('upsert'),
+    path: requiredPathField,
+    content: contentField,
+    base_sha: z.string().max(100).nullable().optional(),
+  }),
+  // Delete a file, or a folder with everything in it
+  z.object({ type: z.literal('delete'), path: requiredPathField }),
+  // Rename or move a file or folder
+  z.object({ type: z.literal('move'), from: requiredPathField, to: requiredPathField }),
+]);
+
+const commitChangesSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  branch: branchField,
+  // Commit onto a new branch created from `branch` instead of updating it
+  new_branch: branchField.optional(),
+  ...commitOptionsFields,
+  message: commitMessageField,
+  changes: z.array(changeSchema).min(1).max(MAX_BATCH_SIZE, `Limited to ${MAX_BATCH_SIZE} changes per commit`),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+type WorkingEntry = { mode: string; sha?: string; content?: string };
+
+/** The path itself plus everything under it when it is a folder */
+const pathsUnder = (working: Map<string, WorkingEntry>, path: string) =>
+  [...working.keys()].filter((key) => key === path || key.startsWith(`${path}/`));
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = commitChangesSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, branch, new_branch, message, changes, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+    const repoPath = `/repos/${owner}/${repo}`;
+    console.log(`Committing ${changes.length} staged change(s) to ${owner}/${repo}@${new_branch ?? branch}`);
+
+    const headRef = await github.get<GitRef>(`${repoPath}/git/ref/heads/${branch}`);
+    const headSha = headRef.object.sha;
+    const headCommit = await github.get<GitCommit>(`${repoPath}/git/commits/${headSha}`);
+    const headEntries = new Map(
+      (await listGitHubEntries(github, `${owner}/${repo}`, headCommit.tree.sha)).map((entry) => [entry.path, entry])
+    );
+
+    // Apply the changes in the order they were staged to a copy of the head tree
+    const working = new Map<string, WorkingEntry>(
+      [...headEntries].map(([path, entry]) => [path, { mode: entry.mode, sha: entry.sha }])
+    );
+    const conflicts: string[] = [];
+
+    for (const change of changes) {
+      if (change.type === 'upsert') {
+        if (change.base_sha === null && headEntries.has(change.path)) {
+          conflicts.push(`${change.path} already exists`);
+        } else if (change.base_sha && headEntries.get(change.path)?.sha !== change.base_sha) {
+          conflicts.push(`${change.path} was changed on ${branch} after it was staged`);
+        }
+        working.set(change.path, { mode: working.get(change.path)?.mode ?? '100644', content: change.content });
+      } else if (change.type === 'delete') {
+        const paths = pathsUnder(working, change.path);
+        if (paths.length === 0) conflicts.push(`${change.path} no longer exists`);
+        paths.forEach((path) => working.delete(path));
+      } else {
+        const paths = pathsUnder(working, change.from);
+        if (paths.length === 0) {
+          conflicts.push(`${change.from} no longer exists`);
+          continue;
+        }
+        if (pathsUnder(working, change.to).length > 0) {
+          conflicts.push(`${change.to} already exists`);
+          continue;
+        }
+        for (const path of paths) {
+          const entry = working.get(path)!;
+          working.delete(path);
+          working.set(change.to + path.slice(change.from.length), entry);
+        }
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `${conflicts.length} staged change(s) no longer apply to ${branch}`,
+          conflicts: conflicts.slice(0, 50),
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const treeChanges: Record<string, string | null>[] = [];
+    for (const path of new Set([...headEntries.keys(), ...working.keys()])) {
+      const before = headEntries.get(path);
+      const after = working.get(path);
+      if (!after) {
+        treeChanges.push({ path, mode: before!.mode, type: before!.mode === SUBMODULE_MODE ? 'commit' : 'blob', sha: null });
+      } else if (after.content !== undefined) {
+        treeChanges.push({ path, mode: after.mode, type: 'blob', content: after.content });
+      } else if (before?.sha !== after.sha || before?.mode !== after.mode) {
+        treeChanges.push({ path, mode: after.mode, type: after.mode === SUBMODULE_MODE ? 'commit' : 'blob', sha: after.sha! });
+      }
+    }
+
+    const newTree = await github.post<{ sha: string }>(`${repoPath}/git/trees`, {
+      base_tree: headCommit.tree.sha,
+      tree: treeChanges,
+    });
+    const newCommit = await github.post<{ sha: string; html_url: string }>(`${repoPath}/git/commits`, {
+      message: composeCommitMessage(validation.data, message),
+      tree: newTree.sha,
+      parents: [headSha],
+      ...commitIdentity(validation.data),
+    });
+
+    if (new_branch) {
+      await github.post(`${repoPath}/git/refs`, { ref: `refs/heads/${new_branch}`, sha: newCommit.sha });
+    } else {
+      // Not forced: fails instead of discarding commits pushed in the meantime
+      await github.patch(`${repoPath}/git/refs/heads/${branch}`, { sha: newCommit.sha });
+    }
+
+    console.log(`Committed ${newCommit.sha} changing ${treeChanges.length} path(s)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        branch: new_branch ?? branch,
+        parent_sha: headSha,
+        commit_sha: newCommit.sha,
+        commit_url: newCommit.html_url,
+        files_changed: treeChanges.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in commit-changes function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
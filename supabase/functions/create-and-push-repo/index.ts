@@ -1,22 +1,752 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
-import { createOrGetBranch } from '../_shared/github-helper.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { createOrGetBranch, mapWithConcurrency } from '../_shared/github-helper.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { branchField, importFileSchema, MAX_BATCH_SIZE, ownerField, pathField, refField, type ImportFile } from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitHubClient, type GitCommit, type GitRef } from '../_shared/github-client.ts';
+import { assertRepositoryRole, RepositoryAccessError, requireOwnerMembership, type RepositoryAccess } from '../_shared/repository-access.ts';
+import {
+  fetchSourceBlob,
+  listGitHubEntries,
+  parseRepositoryUrl,
+  resolveSourceSnapshot,
+  SourceRepositoryError,
+  SUBMODULE_MODE,
+  type SourceSnapshot,
+} from '../_shared/source-repository.ts';
+import { listFirstParentHistory, replayCommits } from '../_shared/history-import.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const pushRepoSchema = z.object({
+// Files copied per batch call for URL imports
+const URL_BATCH_SIZE = 100;
+// Source commits replayed per batch call when preserving history
+const HISTORY_BATCH_COMMITS = 10;
+const MAX_HISTORY_COMMITS = 500;
+// Parallel blob uploads per batch, kept low to avoid secondary rate limits
+const BLOB_CONCURRENCY = 8;
+// Entries per create-tree call when assembling the final tree
+const TREE_CHUNK_SIZE = 1000;
+// Unfinished sessions older than this are not resumed
+const SESSION_RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Plain strings are still accepted as UTF-8 text from older clients
+const fileMapField = z.record(
+  z.union([
+    z.string().transform((content): ImportFile => ({ content, encoding: 'utf-8', mode: '100644' })),
+    importFileSchema,
+  ])
+);
+
+// Settings applied only when the push creates the repository
+const repositoryOptionsSchema = z.object({
+  private: z.boolean().default(false),
+  description: z.string().max(350).optional(),
+  homepage: z.union([z.string().url().max(255), z.literal('')]).optional(),
+  topics: z
+    .array(z.string().regex(/^[a-z0-9][a-z0-9-]{0,49}$/, 'Topics must be lowercase letters, numbers and hyphens'))
+    .max(20)
+    .optional(),
+  license_template: z.string().regex(/^[a-z0-9.-]+$/i).max(50).optional(),
+  gitignore_template: z.string().regex(/^[a-zA-Z0-9_.+-]+$/).max(100).optional(),
+  default_branch: branchField.optional(),
+});
+
+type RepositoryOptions = z.infer<typeof repositoryOptionsSchema>;
+
+/**
+ * The push runs in phases so large imports never have to fit into one invocation:
+ * - start:    creates or reuses the repository and branch, opens an upload session
+ * - batch:    turns one batch of files into blobs and records their tree entries,
+ *             or replays one batch of source commits for history-preserving imports
+ * - finalize: assembles the tree from every batch and commits it to the branch
+ * Calling start again with the same fingerprint resumes the unfinished session.
+ * The plan phase is a dry run of start and finalize: it reports what they would do
+ * without writing anything.
+ */
+const startSchema = z.object({
+  phase: z.literal('start'),
   repositoryName: z.string().min(1),
+  // Organization or collaborator account of the repository; the user's own account when omitted
+  owner: ownerField.optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
-  fileMap: z.record(z.string()).optional(),
+  // Any GitHub, GitLab or Bitbucket repository URL, including browse URLs with a ref and path
   githubUrl: z.string().optional(),
+  // Branch, tag or commit SHA; overrides a ref in the URL
+  sourceRef: refField.optional(),
+  // Imports only this subdirectory of the source; overrides a path in the URL
+  sourcePath: pathField.optional(),
+  // Recreates the source's first-parent history instead of a single commit (GitHub sources only)
+  preserveHistory: z.boolean().optional(),
   importMode: z.string().optional(),
   targetBranch: z.string().optional(),
+  repositoryOptions: repositoryOptionsSchema.optional(),
+  // Where targetBranch is created from when it does not exist yet (default branch otherwise)
+  baseBranch: branchField.optional(),
+  // Overwrite only: branch created at the target branch's current head before it is replaced
+  backupBranch: branchField.optional(),
+  // Hash of the client's batch layout; required for file uploads
+  fingerprint: z.string().min(1).max(128).optional(),
+  totalBatches: z.number().int().min(1).max(10000).optional(),
+});
+
+// File uploads are described by blob SHA, so the plan can tell changed files from unchanged ones
+const plannedFileSchema = z.object({
+  path: pathField,
+  sha: z.string().regex(/^[0-9a-f]{40}$/),
+  mode: z.enum(['100644', '100755', '120000']),
+  size: z.number().int().min(0),
+});
+
+const planSchema = startSchema
+  .omit({ fingerprint: true, totalBatches: true })
+  .extend({
+    phase: z.literal('plan'),
+    // Omitted for URL imports, where the server lists the source itself
+    files: z.array(plannedFileSchema).max(50000).optional(),
+  });
+
+const batchSchema = z.object({
+  phase: z.literal('batch'),
+  provider_token: z.string().min(1, 'GitHub token required'),
+  sessionId: z.string().uuid(),
+  batchIndex: z.number().int().min(0),
+  // Omitted for URL imports, where the server copies the files itself
+  fileMap: fileMapField.optional(),
+});
+
+const finalizeSchema = z.object({
+  phase: z.literal('finalize'),
+  provider_token: z.string().min(1, 'GitHub token required'),
+  sessionId: z.string().uuid(),
+  // Message and identity of the final commit; replayed history keeps its own
+  ...commitOptionsFields,
 });
 
+const pushRepoSchema = z.discriminatedUnion('phase', [startSchema, planSchema, batchSchema, finalizeSchema]);
+
+// Paths listed per category in a plan; the counts are always exact
+const MAX_PLAN_PATHS = 1000;
+
+interface TreeItem {
+  path: string;
+  mode: string;
+  type: 'blob' | 'commit';
+  sha: string;
+}
+
+interface SessionSource {
+  snapshot: SourceSnapshot;
+  /** First-parent commits to replay, oldest first; null for a single-commit import */
+  history: { commits: string[]; truncated: boolean } | null;
+}
+
+interface PushSession {
+  id: string;
+  owner: string;
+  repository_name: string;
+  branch: string;
+  import_mode: string;
+  status: string;
+  total_batches: number;
+  source: SessionSource | null;
+  repository_url: string;
+  commit_sha: string | null;
+}
+
+interface PushContext {
+  supabase: SupabaseClient;
+  github: GitHubClient;
+  userId: string;
+  /** The signed-in user's GitHub login */
+  username: string;
+  /** Account the repository belongs to: the user's own, or an organization or collaborator account */
+  owner: string;
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function getCompletedBatches(supabase: SupabaseClient, sessionId: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('push_session_batches')
+    .select('batch_index')
+    .eq('session_id', sessionId)
+    .order('batch_index');
+
+  if (error) throw new Error(`Failed to load upload progress: ${error.message}`);
+  return (data ?? []).map((row: { batch_index: number }) => row.batch_index);
+}
+
+async function loadSession(supabase: SupabaseClient, sessionId: string): Promise<PushSession | null> {
+  const { data, error } = await supabase
+    .from('push_sessions')
+    .select('id, owner, repository_name, branch, import_mode, status, total_batches, source, repository_url, commit_sha')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load upload session: ${error.message}`);
+  return data as PushSession | null;
+}
+
+/**
+ * Creates the repository with the requested settings, in the user's account or an
+ * organization. GitHub creates the first branch with the account's default name,
+ * so a different one is set by renaming it. Returns the name of the default branch.
+ */
+async function createRepositoryWithOptions(
+  ctx: PushContext,
+  name: string,
+  options: RepositoryOptions = { private: false }
+): Promise<{ html_url: string; default_branch: string }> {
+  const { github, owner, username } = ctx;
+  await requireOwnerMembership(github, owner, username);
+  const createPath = owner.toLowerCase() === username.toLowerCase() ? '/user/repos' : `/orgs/${owner}/repos`;
+  const repo = await github.post<{ html_url: string; default_branch: string }>(createPath, {
+    name,
+    auto_init: true,
+    private: options.private,
+    description: options.description || undefined,
+    homepage: options.homepage || undefined,
+    license_template: options.license_template || undefined,
+    gitignore_template: options.gitignore_template || undefined,
+  });
+
+  if (options.topics?.length) {
+    await github.put(`/repos/${owner}/${name}/topics`, { names: options.topics });
+  }
+
+  let defaultBranch = repo.default_branch;
+  if (options.default_branch && options.default_branch !== defaultBranch) {
+    await github.post(`/repos/${owner}/${name}/branches/${defaultBranch}/rename`, { new_name: options.default_branch });
+    defaultBranch = options.default_branch;
+  }
+
+  return { html_url: repo.html_url, default_branch: defaultBranch };
+}
+
+/**
+ * Resolves the source commit of a URL import and lists its files, plus the
+ * commits to replay when its history is preserved
+ */
+async function resolveImportSource(
+  github: GitHubClient,
+  input: Pick<z.infer<typeof startSchema>, 'githubUrl' | 'sourceRef' | 'sourcePath' | 'preserveHistory'>
+): Promise<SessionSource> {
+  const location = parseRepositoryUrl(input.githubUrl!);
+  if (!location) {
+    throw new SourceRepositoryError(400, 'Invalid repository URL. Use a GitHub, GitLab or Bitbucket repository URL.');
+  }
+  if (input.sourceRef) location.ref = input.sourceRef;
+  if (input.sourcePath !== undefined) location.subdirectory = input.sourcePath;
+
+  if (input.preserveHistory && location.host !== 'github') {
+    throw new SourceRepositoryError(400, 'Commit history can only be preserved when importing from GitHub');
+  }
+
+  console.log(`Resolving source ${location.host}:${location.fullName}@${location.ref ?? '(default branch)'}`);
+  const snapshot = await resolveSourceSnapshot(github, location);
+
+  if (snapshot.entries.length === 0) {
+    throw new SourceRepositoryError(400, 'Source repository has no files to import at that ref and path');
+  }
+
+  const history = input.preserveHistory
+    ? await listFirstParentHistory(github, location.fullName, snapshot.commitSha, MAX_HISTORY_COMMITS)
+    : null;
+
+  console.log(`Source ${location.fullName}@${snapshot.commitSha} has ${snapshot.entries.length} files${history ? `, ${history.commits.length} commits` : ''}`);
+  return { snapshot, history };
+}
+
+function summarizeSource(source: SessionSource | null) {
+  return source && {
+    fullName: source.snapshot.location.fullName,
+    ref: source.snapshot.ref,
+    commitSha: source.snapshot.commitSha,
+    files: source.snapshot.entries.length,
+    commits: source.history?.commits.length ?? null,
+    historyTruncated: source.history?.truncated ?? false,
+  };
+}
+
+async function handleStart(ctx: PushContext, input: z.infer<typeof startSchema>): Promise<Response> {
+  const { supabase, github, userId, owner } = ctx;
+  const { repositoryName, importMode, githubUrl, targetBranch, totalBatches } = input;
+  const branch = targetBranch || 'main';
+  const mode = importMode || 'add';
+
+  if (!githubUrl && (!input.fingerprint || !totalBatches)) {
+    return jsonResponse({ error: 'Invalid input', details: ['fingerprint and totalBatches are required for file uploads'] }, 400);
+  }
+
+  // For URL imports, resolve the source commit and list its files up front so
+  // batches can copy them blob by blob. This does not touch the destination.
+  const source = githubUrl ? await resolveImportSource(github, input) : null;
+
+  // The resolved commit makes URL fingerprints exact: a moved branch starts a new session
+  const fingerprint = source
+    ? `url:${source.snapshot.location.origin}/${source.snapshot.location.fullName}@${source.snapshot.commitSha}:${source.snapshot.location.subdirectory ?? ''}${source.history ? ':history' : ''}`
+    : input.fingerprint!;
+
+  const sourceSummary = summarizeSource(source);
+
+  // Resume an unfinished session for the same upload before touching the repository,
+  // so a retried overwrite never tries to create its backup branch a second time
+  const { data: existingSession, error: lookupError } = await supabase
+    .from('push_sessions')
+    .select('id, total_batches, repository_url')
+    .eq('user_id', userId)
+    .eq('owner', owner)
+    .eq('repository_name', repositoryName)
+    .eq('branch', branch)
+    .eq('import_mode', mode)
+    .eq('fingerprint', fingerprint)
+    .eq('status', 'uploading')
+    .gte('created_at', new Date(Date.now() - SESSION_RESUME_WINDOW_MS).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) throw new Error(`Failed to look up upload session: ${lookupError.message}`);
+
+  if (existingSession && (source || existingSession.total_batches === totalBatches)) {
+    const completedBatches = await getCompletedBatches(supabase, existingSession.id);
+    console.log(`Resuming session ${existingSession.id}: ${completedBatches.length}/${existingSession.total_batches} batches done`);
+    return jsonResponse({
+      success: true,
+      sessionId: existingSession.id,
+      totalBatches: existingSession.total_batches,
+      completedBatches,
+      resumed: true,
+      repository_url: existingSession.repository_url,
+      source: sourceSummary,
+    });
+  }
+
+  console.log(`Processing repository: ${repositoryName} for user: ${owner}, mode: ${mode}, branch: ${branch}`);
+
+  // Check if repository exists and the user may push to it
+  const existingRepo = await github.getIfExists<RepositoryAccess>(`/repos/${owner}/${repositoryName}`);
+  let repoData: { html_url: string; default_branch: string };
+
+  if (existingRepo) {
+    assertRepositoryRole(existingRepo, 'push');
+    // Both modes keep the repository; overwrite only replaces the branch's files when finalizing
+    console.log(`Repository ${repositoryName} already exists, using it`);
+    repoData = existingRepo;
+  } else {
+    console.log(`Creating new repository: ${repositoryName}`);
+    repoData = await createRepositoryWithOptions(ctx, repositoryName, input.repositoryOptions);
+    console.log('Repository created successfully:', repoData.html_url);
+  }
+
+  // Ensure the target branch exists (freshly created repositories only have their default branch)
+  if (existingRepo || branch !== repoData.default_branch) {
+    const branchResult = await createOrGetBranch(github, owner, repositoryName, branch, input.baseBranch);
+    if (!branchResult.success) {
+      return jsonResponse({ error: `Failed to create/access branch: ${branchResult.error}` }, 400);
+    }
+  }
+
+  let backupBranch: string | null = null;
+  if (mode === 'overwrite' && existingRepo && input.backupBranch) {
+    const head = await github.get<GitRef>(`/repos/${owner}/${repositoryName}/git/ref/heads/${branch}`);
+    try {
+      await github.post(`/repos/${owner}/${repositoryName}/git/refs`, {
+        ref: `refs/heads/${input.backupBranch}`,
+        sha: head.object.sha,
+      });
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 422) {
+        return jsonResponse({ error: `Backup branch ${input.backupBranch} already exists. Choose another name.` }, 409);
+      }
+      throw error;
+    }
+    backupBranch = input.backupBranch;
+    console.log(`Saved ${branch}@${head.object.sha} to ${backupBranch}`);
+  }
+
+  const { data: session, error: insertError } = await supabase
+    .from('push_sessions')
+    .insert({
+      user_id: userId,
+      owner,
+      repository_name: repositoryName,
+      branch,
+      import_mode: mode,
+      fingerprint,
+      total_batches: !source ? totalBatches
+        : source.history ? Math.ceil(source.history.commits.length / HISTORY_BATCH_COMMITS)
+        : Math.ceil(source.snapshot.entries.length / URL_BATCH_SIZE),
+      source,
+      repository_url: repoData.html_url,
+    })
+    .select('id, total_batches')
+    .single();
+
+  if (insertError || !session) {
+    throw new Error(`Failed to create upload session: ${insertError?.message ?? 'unknown error'}`);
+  }
+
+  console.log(`Created upload session ${session.id} with ${session.total_batches} batches`);
+
+  return jsonResponse({
+    success: true,
+    sessionId: session.id,
+    totalBatches: session.total_batches,
+    completedBatches: [],
+    resumed: false,
+    repository_url: repoData.html_url,
+    backup_branch: backupBranch,
+    source: sourceSummary,
+  });
+}
+
+/**
+ * Dry run of a push: reports whether the repository and branch would be created,
+ * and how each path compares with the branch's current tree. Nothing is written.
+ */
+async function handlePlan(ctx: PushContext, input: z.infer<typeof planSchema>): Promise<Response> {
+  const { github, owner, username } = ctx;
+  const { repositoryName, githubUrl } = input;
+  const branch = input.targetBranch || 'main';
+  const mode = input.importMode || 'add';
+
+  if (!githubUrl && !input.files?.length) {
+    return jsonResponse({ error: 'Invalid input', details: ['files are required for file uploads'] }, 400);
+  }
+
+  const source = githubUrl ? await resolveImportSource(github, input) : null;
+  const incoming: { path: string; mode: string; sha?: string; size?: number }[] = source
+    ? source.snapshot.entries
+    : input.files!;
+
+  const existingRepo = await github.getIfExists<RepositoryAccess>(`/repos/${owner}/${repositoryName}`);
+  if (existingRepo) {
+    assertRepositoryRole(existingRepo, 'push');
+  } else {
+    // Report an owner the repository can't be created under before anything is uploaded
+    await requireOwnerMembership(github, owner, username);
+  }
+
+  // Tree the upload is compared with: the target branch, or the branch it would be created from
+  let current = new Map<string, { mode: string; sha?: string }>();
+  let branchAction: 'create' | 'reuse' = 'create';
+  let branchFrom: string | null = null;
+
+  if (existingRepo) {
+    const repoPath = `/repos/${owner}/${repositoryName}`;
+    let ref = await github.getIfExists<GitRef>(`${repoPath}/git/ref/heads/${branch}`);
+    if (ref) {
+      branchAction = 'reuse';
+    } else {
+      branchFrom = input.baseBranch || existingRepo.default_branch;
+      ref = await github.getIfExists<GitRef>(`${repoPath}/git/ref/heads/${branchFrom}`);
+    }
+    if (ref) {
+      const commit = await github.get<GitCommit>(`${repoPath}/git/commits/${ref.object.sha}`);
+      const entries = await listGitHubEntries(github, `${owner}/${repositoryName}`, commit.tree.sha);
+      current = new Map(entries.map((entry) => [entry.path, entry]));
+    }
+  } else {
+    // New repositories start with GitHub's initial commit on the default branch
+    const defaultBranch = input.repositoryOptions?.default_branch || 'main';
+    if (branch === defaultBranch) branchAction = 'reuse';
+    else branchFrom = defaultBranch;
+  }
+
+  const added: string[] = [];
+  const modified: string[] = [];
+  const unchanged: string[] = [];
+  for (const entry of incoming) {
+    const before = current.get(entry.path);
+    if (!before) added.push(entry.path);
+    // Without a blob SHA (Bitbucket) the file is assumed to change
+    else if (!entry.sha || before.sha !== entry.sha || before.mode !== entry.mode) modified.push(entry.path);
+    else unchanged.push(entry.path);
+  }
+
+  // Overwrite replaces the whole tree; add leaves everything else in place
+  const incomingPaths = new Set(incoming.map((entry) => entry.path));
+  const untouched = [...current.keys()].filter((path) => !incomingPaths.has(path));
+  const removed = mode === 'overwrite' ? untouched : [];
+  const kept = mode === 'overwrite' ? [] : untouched;
+
+  const listed = (paths: string[]) => ({ count: paths.length, paths: paths.sort().slice(0, MAX_PLAN_PATHS) });
+  const totalBytes = incoming.every((entry) => entry.size !== undefined)
+    ? incoming.reduce((total, entry) => total + entry.size!, 0)
+    : null;
+
+  return jsonResponse({
+    success: true,
+    repository: existingRepo
+      ? { name: repositoryName, action: 'reuse', url: existingRepo.html_url, private: existingRepo.private }
+      : { name: repositoryName, action: 'create', url: null, private: input.repositoryOptions?.private ?? false },
+    branch: { name: branch, action: branchAction, from: branchFrom },
+    backup_branch: mode === 'overwrite' && existingRepo ? input.backupBranch ?? null : null,
+    mode,
+    added: listed(added),
+    modified: listed(modified),
+    unchanged: listed(unchanged),
+    removed: listed(removed),
+    kept: listed(kept),
+    total_files: incoming.length,
+    total_bytes: totalBytes,
+    source: summarizeSource(source),
+  });
+}
+
+async function handleBatch(ctx: PushContext, input: z.infer<typeof batchSchema>): Promise<Response> {
+  const { supabase, github } = ctx;
+  const { sessionId, batchIndex, fileMap } = input;
+
+  const session = await loadSession(supabase, sessionId);
+  if (!session) {
+    return jsonResponse({ error: 'Upload session not found' }, 404);
+  }
+  if (session.status !== 'uploading') {
+    return jsonResponse({ error: `Upload session is already ${session.status}` }, 409);
+  }
+  if (batchIndex >= session.total_batches) {
+    return jsonResponse({ error: `Batch ${batchIndex} is out of range (session has ${session.total_batches} batches)` }, 400);
+  }
+
+  // Batches are idempotent: a retried batch that already landed is skipped
+  const completedBatches = await getCompletedBatches(supabase, sessionId);
+  if (completedBatches.includes(batchIndex)) {
+    return jsonResponse({ success: true, batchIndex, skipped: true });
+  }
+
+  const { owner, repository_name: repositoryName } = session;
+  const createBlob = async (path: string, file: ImportFile): Promise<TreeItem> => {
+    // Content is passed through untouched: GitHub decodes utf-8 or base64 itself
+    try {
+      const blobData = await github.post<{ sha: string }>(`/repos/${owner}/${repositoryName}/git/blobs`, {
+        content: file.content,
+        encoding: file.encoding,
+      });
+      return { path, mode: file.mode, type: 'blob', sha: blobData.sha };
+    } catch (error) {
+      console.error(`Failed to create blob for ${path}`);
+      throw error;
+    }
+  };
+
+  let treeItems: TreeItem[] = [];
+  let replayedCommitSha: string | null = null;
+
+  if (session.source?.history) {
+    // Commits build on each other, so history batches must land in order
+    if (batchIndex > 0 && !completedBatches.includes(batchIndex - 1)) {
+      return jsonResponse({ error: `Batch ${batchIndex - 1} must be completed first` }, 409);
+    }
+
+    const { snapshot, history } = session.source;
+    const startIndex = batchIndex * HISTORY_BATCH_COMMITS;
+    let previousCommitSha: string | null = null;
+    if (batchIndex > 0) {
+      const { data: previousBatch, error: previousError } = await supabase
+        .from('push_session_batches')
+        .select('commit_sha')
+        .eq('session_id', sessionId)
+        .eq('batch_index', batchIndex - 1)
+        .single();
+      if (previousError) throw new Error(`Failed to load batch ${batchIndex - 1}: ${previousError.message}`);
+      previousCommitSha = previousBatch.commit_sha;
+    }
+
+    const previousTreeSha = previousCommitSha
+      ? (await github.get<GitCommit>(`/repos/${owner}/${repositoryName}/git/commits/${previousCommitSha}`)).tree.sha
+      : null;
+
+    const state = await replayCommits(
+      github,
+      { fullName: snapshot.location.fullName, subdirectory: snapshot.location.subdirectory },
+      { owner, repo: repositoryName },
+      history.commits.slice(startIndex, startIndex + HISTORY_BATCH_COMMITS),
+      {
+        sourceCommitSha: startIndex > 0 ? history.commits[startIndex - 1] : null,
+        commitSha: previousCommitSha,
+        treeSha: previousTreeSha,
+      }
+    );
+    replayedCommitSha = state.commitSha;
+  } else if (session.source) {
+    const { snapshot } = session.source;
+    const batchEntries = snapshot.entries.slice(batchIndex * URL_BATCH_SIZE, (batchIndex + 1) * URL_BATCH_SIZE);
+
+    // Copy each blob as base64 so binaries and symlinks survive untouched;
+    // submodules are kept as pointers to their pinned commit
+    treeItems = await mapWithConcurrency(batchEntries, BLOB_CONCURRENCY, async (entry): Promise<TreeItem> => {
+      if (entry.mode === SUBMODULE_MODE) {
+        return { path: entry.path, mode: entry.mode, type: 'commit', sha: entry.sha! };
+      }
+      return createBlob(entry.path, {
+        content: await fetchSourceBlob(github, snapshot, entry),
+        encoding: 'base64',
+        mode: entry.mode as ImportFile['mode'],
+      });
+    });
+  } else {
+    const files = Object.entries(fileMap ?? {});
+    if (files.length === 0) {
+      return jsonResponse({ error: 'Invalid input', details: ['fileMap: Batch contains no files'] }, 400);
+    }
+    if (files.length > MAX_BATCH_SIZE) {
+      return jsonResponse({ error: 'Invalid input', details: [`fileMap: Maximum ${MAX_BATCH_SIZE} files per batch`] }, 400);
+    }
+
+    treeItems = await mapWithConcurrency(files, BLOB_CONCURRENCY, ([path, file]) => createBlob(path, file));
+  }
+
+  const { error: insertError } = await supabase
+    .from('push_session_batches')
+    .upsert(
+      { session_id: sessionId, batch_index: batchIndex, tree_entries: treeItems, commit_sha: replayedCommitSha },
+      { onConflict: 'session_id,batch_index', ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to record batch ${batchIndex}: ${insertError.message}`);
+  }
+
+  console.log(`Session ${sessionId}: batch ${batchIndex + 1}/${session.total_batches} done`);
+
+  return jsonResponse({ success: true, batchIndex, filesUploaded: treeItems.length });
+}
+
+async function handleFinalize(ctx: PushContext, input: z.infer<typeof finalizeSchema>): Promise<Response> {
+  const { supabase, github } = ctx;
+  const { sessionId } = input;
+
+  const session = await loadSession(supabase, sessionId);
+  if (!session) {
+    return jsonResponse({ error: 'Upload session not found' }, 404);
+  }
+
+  const { owner, repository_name: repositoryName, branch } = session;
+  const overwrite = session.import_mode === 'overwrite';
+  const result = {
+    success: true,
+    repository_url: session.repository_url,
+    repository_name: repositoryName,
+  };
+
+  // A repeated finalize after a lost response just reports the existing commit
+  if (session.status === 'completed') {
+    return jsonResponse({ ...result, commit_sha: session.commit_sha });
+  }
+
+  const { data: batches, error: batchesError } = await supabase
+    .from('push_session_batches')
+    .select('batch_index, tree_entries, commit_sha')
+    .eq('session_id', sessionId)
+    .order('batch_index');
+
+  if (batchesError) {
+    throw new Error(`Failed to load upload progress: ${batchesError.message}`);
+  }
+
+  const completed = new Set((batches ?? []).map((batch: { batch_index: number }) => batch.batch_index));
+  const missingBatches = Array.from({ length: session.total_batches }, (_, i) => i).filter(i => !completed.has(i));
+  if (missingBatches.length > 0) {
+    return jsonResponse({ error: 'Upload is incomplete', missingBatches }, 409);
+  }
+
+  const history = session.source?.history ?? null;
+  let treeItems: TreeItem[];
+  let replayedHeadSha: string | null = null;
+
+  if (history) {
+    // Every batch carries the replay head forward, so the last one holds the final commit
+    replayedHeadSha = batches![batches!.length - 1].commit_sha;
+    if (!replayedHeadSha) {
+      return jsonResponse({ error: 'None of the source commits contain the selected path' }, 400);
+    }
+    // The replayed head's blobs now exist in this repository
+    treeItems = session.source!.snapshot.entries.map((entry) => ({
+      path: entry.path,
+      mode: entry.mode,
+      type: entry.mode === SUBMODULE_MODE ? 'commit' : 'blob',
+      sha: entry.sha!,
+    }));
+  } else {
+    treeItems = (batches ?? []).flatMap((batch: { tree_entries: TreeItem[] }) => batch.tree_entries);
+  }
+  console.log(`Committing ${treeItems.length} files from session ${sessionId}...`);
+
+  try {
+    // Get the current branch reference
+    const refData = await github.get<GitRef>(`/repos/${owner}/${repositoryName}/git/ref/heads/${branch}`);
+    const currentCommitSha = refData.object.sha;
+    console.log(`Current commit SHA: ${currentCommitSha}`);
+
+    // Get the current commit to access its tree
+    const commitData = await github.get<GitCommit>(`/repos/${owner}/${repositoryName}/git/commits/${currentCommitSha}`);
+
+    // Build the tree in chunks, each layered on top of the previous one. Overwrite
+    // starts from an empty tree, so files not in the upload are removed from the branch.
+    let treeSha: string | undefined = overwrite ? undefined : commitData.tree.sha;
+    for (let i = 0; i < treeItems.length; i += TREE_CHUNK_SIZE) {
+      const treeData = await github.post<{ sha: string }>(`/repos/${owner}/${repositoryName}/git/trees`, {
+        base_tree: treeSha,
+        tree: treeItems.slice(i, i + TREE_CHUNK_SIZE),
+      });
+      treeSha = treeData.sha;
+    }
+    console.log(`Created tree: ${treeSha}`);
+
+    // Create a new commit; imported history is joined to the branch with a merge commit
+    const snapshot = session.source?.snapshot;
+    const newCommitData = await github.post<{ sha: string }>(`/repos/${owner}/${repositoryName}/git/commits`, {
+      message: composeCommitMessage(
+        input,
+        replayedHeadSha && snapshot
+          ? `Import history of ${snapshot.location.fullName}@${snapshot.ref}`
+          : overwrite ? `Replace contents with ${treeItems.length} files` : `Add ${treeItems.length} files`
+      ),
+      tree: treeSha,
+      parents: replayedHeadSha ? [currentCommitSha, replayedHeadSha] : [currentCommitSha],
+      ...commitIdentity(input),
+    });
+    console.log(`Created commit: ${newCommitData.sha}`);
+
+    // Update the branch reference
+    await github.patch(`/repos/${owner}/${repositoryName}/git/refs/heads/${branch}`, {
+      sha: newCommitData.sha,
+      force: false,
+    });
+
+    await supabase
+      .from('push_sessions')
+      .update({ status: 'completed', commit_sha: newCommitData.sha })
+      .eq('id', sessionId);
+
+    // The tree entries are only needed until the commit exists
+    await supabase.from('push_session_batches').delete().eq('session_id', sessionId);
+
+    console.log(`Successfully uploaded all ${treeItems.length} files in a single commit`);
+
+    return jsonResponse({ ...result, commit_sha: newCommitData.sha });
+  } catch (error) {
+    // The session stays open, so finalize can simply be retried
+    console.error('Error committing files:', error);
+    return jsonResponse(
+      { error: `Failed to upload files: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      500
+    );
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -27,16 +757,13 @@ Deno.serve(async (req) => {
     const validation = pushRepoSchema.safeParse(body);
 
     if (!validation.success) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid input',
-          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({
+        error: 'Invalid input',
+        details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+      }, 400);
     }
 
-    const { repositoryName, fileMap, importMode, githubUrl, targetBranch, provider_token } = validation.data;
+    const input = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -50,26 +777,19 @@ Deno.serve(async (req) => {
 
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Unauthorized' }, 401);
     }
 
-    // Rate limiting: 10 requests per minute for repository creation
-    const rateLimitResult = checkRateLimit(user.id, { maxRequests: 10, windowMs: 60000 });
-    if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-        { 
-          status: 429, 
-          headers: { 
-            ...corsHeaders, 
-            ...getRateLimitHeaders(rateLimitResult),
-            'Content-Type': 'application/json' 
-          } 
-        }
-      );
+    // Rate limiting: 10 requests per minute for repository creation (batches are not counted)
+    if (input.phase === 'start') {
+      const rateLimitResult = checkRateLimit(user.id, { maxRequests: 10, windowMs: 60000 });
+      if (!rateLimitResult.allowed) {
+        return jsonResponse(
+          { error: 'Rate limit exceeded. Please try again later.' },
+          429,
+          getRateLimitHeaders(rateLimitResult)
+        );
+      }
     }
 
     const { data: profile } = await supabase
@@ -79,491 +799,39 @@ Deno.serve(async (req) => {
       .single();
 
     if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'GitHub profile not found' }, 403);
     }
 
-    const githubToken = provider_token;
-    const owner = profile.github_username;
-    const branch = targetBranch || 'main';
-
-    console.log(`Processing repository: ${repositoryName} for user: ${owner}, mode: ${importMode}, branch: ${branch}`);
-
-    // Check if repository exists
-    const checkRepoResponse = await fetch(`https://api.github.com/repos/${owner}/${repositoryName}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${githubToken}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
-    });
-
-    const repoExists = checkRepoResponse.ok;
-    let repoData: any;
-
-    if (repoExists) {
-      console.log(`Repository ${repositoryName} already exists`);
-      
-      if (importMode === 'overwrite') {
-        console.log('Overwrite mode: attempting to delete existing repository...');
-        const deleteResponse = await fetch(`https://api.github.com/repos/${owner}/${repositoryName}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'RepoPush',
-          },
-        });
-        
-        if (deleteResponse.ok) {
-          console.log('Repository deleted successfully');
-          // Wait for GitHub to process deletion
-          await new Promise(resolve => setTimeout(resolve, 3000));
-        } else if (deleteResponse.status === 403) {
-          const errorText = await deleteResponse.text();
-          console.error('Permission denied to delete repository:', errorText);
-          return new Response(
-            JSON.stringify({ 
-              error: 'Cannot overwrite: Missing permissions. Please log out and log back in to grant the required "delete_repo" permission, or manually delete the repository on GitHub first.' 
-            }),
-            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        } else {
-          const deleteError = await deleteResponse.text();
-          console.error('Failed to delete repository:', deleteError);
-          return new Response(
-            JSON.stringify({ 
-              error: `Failed to delete existing repository: ${deleteResponse.statusText}. Please delete it manually on GitHub or use "Add" mode.` 
-            }),
-            { status: deleteResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-
-        // Create new repository after deletion
-        const createRepoResponse = await fetch('https://api.github.com/user/repos', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'RepoPush',
-          },
-          body: JSON.stringify({
-            name: repositoryName,
-            auto_init: true,
-            private: false,
-          }),
-        });
-
-        if (!createRepoResponse.ok) {
-          const error = await createRepoResponse.text();
-          console.error('Failed to create repository:', error);
-          return new Response(
-            JSON.stringify({ error: 'Failed to create repository on GitHub' }),
-            { status: createRepoResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-
-        repoData = await createRepoResponse.json();
-        console.log('Repository created successfully:', repoData.html_url);
-        
-        // Ensure the target branch exists after recreating repo
-        if (branch !== 'main') {
-          console.log(`Creating target branch: ${branch} after repo recreation`);
-          const branchResult = await createOrGetBranch(owner, repositoryName, branch, githubToken);
-          if (!branchResult.success) {
-            return new Response(
-              JSON.stringify({ error: `Failed to create/access branch: ${branchResult.error}` }),
-              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            );
-          }
-        }
-      } else {
-        // Add mode: use existing repository
-        console.log('Add mode: using existing repository');
-      repoData = await checkRepoResponse.json();
-      
-      // Ensure the target branch exists
-      const branchResult = await createOrGetBranch(owner, repositoryName, branch, githubToken);
-      if (!branchResult.success) {
-        return new Response(
-          JSON.stringify({ error: `Failed to create/access branch: ${branchResult.error}` }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      }
-    } else {
-      // Repository doesn't exist, create it
-      console.log(`Creating new repository: ${repositoryName}`);
-      const createRepoResponse = await fetch('https://api.github.com/user/repos', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          name: repositoryName,
-          auto_init: true,
-          private: false,
-        }),
-      });
-
-      if (!createRepoResponse.ok) {
-        const error = await createRepoResponse.text();
-        console.error('Failed to create repository:', error);
-        return new Response(
-          JSON.stringify({ error: 'Failed to create repository on GitHub' }),
-          { status: createRepoResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      repoData = await createRepoResponse.json();
-      console.log('Repository created successfully:', repoData.html_url);
-      
-      // Ensure the target branch exists for new repos
-      if (branch !== 'main') {
-        console.log(`Creating target branch: ${branch}`);
-        const branchResult = await createOrGetBranch(owner, repositoryName, branch, githubToken);
-        if (!branchResult.success) {
-          return new Response(
-            JSON.stringify({ error: `Failed to create/access branch: ${branchResult.error}` }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-      }
+    const ctx: PushContext = {
+      supabase,
+      github: createGitHubClient(input.provider_token),
+      userId: user.id,
+      username: profile.github_username,
+      // Batches and finalize use the owner stored with their session
+      owner: (input.phase === 'start' || input.phase === 'plan') && input.owner
+        ? input.owner
+        : profile.github_username,
+    };
+
+    switch (input.phase) {
+      case 'start':
+        return await handleStart(ctx, input);
+      case 'plan':
+        return await handlePlan(ctx, input);
+      case 'batch':
+        return await handleBatch(ctx, input);
+      case 'finalize':
+        return await handleFinalize(ctx, input);
     }
-
-    let finalFileMap = fileMap;
-
-    // If GitHub URL is provided, fetch the repository contents
-    if (githubUrl) {
-      console.log('Fetching repository contents from GitHub URL:', githubUrl);
-      
-      // Parse GitHub URL to extract owner and repo
-      const urlMatch = githubUrl.match(/github\.com\/([^\/]+)\/([^\/\.]+)/);
-      if (!urlMatch) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid GitHub URL format' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const [, sourceOwner, sourceRepo] = urlMatch;
-      
-      // File limit to prevent timeouts
-      const MAX_FILES = 500;
-      
-      try {
-        // Fetch the repository tree recursively
-        const treeResponse = await fetch(
-          `https://api.github.com/repos/${sourceOwner}/${sourceRepo}/git/trees/main?recursive=1`,
-          {
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'RepoPush',
-            },
-          }
-        );
-
-        if (!treeResponse.ok) {
-          // Try 'master' branch if 'main' doesn't exist
-          const masterTreeResponse = await fetch(
-            `https://api.github.com/repos/${sourceOwner}/${sourceRepo}/git/trees/master?recursive=1`,
-            {
-              headers: {
-                'Authorization': `Bearer ${githubToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'User-Agent': 'RepoPush',
-              },
-            }
-          );
-
-          if (!masterTreeResponse.ok) {
-            throw new Error('Failed to fetch repository tree');
-          }
-
-          const masterTreeData = await masterTreeResponse.json();
-          finalFileMap = {};
-
-          // Check file count
-          const fileCount = masterTreeData.tree.filter((item: any) => item.type === 'blob').length;
-          if (fileCount > MAX_FILES) {
-            return new Response(
-              JSON.stringify({ 
-                error: `Repository is too large (${fileCount} files). Maximum ${MAX_FILES} files allowed. Please use a smaller repository or clone it manually.` 
-              }),
-              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            );
-          }
-
-          // Fetch each file's content
-          let filesProcessed = 0;
-          for (const item of masterTreeData.tree) {
-            if (item.type === 'blob' && filesProcessed < MAX_FILES) {
-              const fileResponse = await fetch(
-                `https://api.github.com/repos/${sourceOwner}/${sourceRepo}/contents/${item.path}`,
-                {
-                  headers: {
-                    'Authorization': `Bearer ${githubToken}`,
-                    'Accept': 'application/vnd.github.v3+json',
-                    'User-Agent': 'RepoPush',
-                  },
-                }
-              );
-
-              if (fileResponse.ok) {
-                const fileData = await fileResponse.json();
-                // Decode base64 content
-                finalFileMap[item.path] = atob(fileData.content);
-                filesProcessed++;
-              }
-            }
-          }
-        } else {
-          const treeData = await treeResponse.json();
-          finalFileMap = {};
-
-          // Check file count
-          const fileCount = treeData.tree.filter((item: any) => item.type === 'blob').length;
-          if (fileCount > MAX_FILES) {
-            return new Response(
-              JSON.stringify({ 
-                error: `Repository is too large (${fileCount} files). Maximum ${MAX_FILES} files allowed. Please use a smaller repository or clone it manually.` 
-              }),
-              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            );
-          }
-
-          // Fetch each file's content
-          let filesProcessed = 0;
-          for (const item of treeData.tree) {
-            if (item.type === 'blob' && filesProcessed < MAX_FILES) {
-              const fileResponse = await fetch(
-                `https://api.github.com/repos/${sourceOwner}/${sourceRepo}/contents/${item.path}`,
-                {
-                  headers: {
-                    'Authorization': `Bearer ${githubToken}`,
-                    'Accept': 'application/vnd.github.v3+json',
-                    'User-Agent': 'RepoPush',
-                  },
-                }
-              );
-
-              if (fileResponse.ok) {
-                const fileData = await fileResponse.json();
-                // Decode base64 content
-                finalFileMap[item.path] = atob(fileData.content);
-                filesProcessed++;
-              }
-            }
-          }
-        }
-
-        console.log(`Fetched ${Object.keys(finalFileMap).length} files from source repository`);
-      } catch (err) {
-        console.error('Error fetching repository contents:', err);
-        return new Response(
-          JSON.stringify({ error: 'Failed to fetch repository contents from GitHub' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+  } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
     }
-
-    // Upload files if we have any
-    if (finalFileMap && Object.keys(finalFileMap).length > 0) {
-      console.log(`Uploading ${Object.keys(finalFileMap).length} files using Git Data API...`);
-      
-      try {
-        // Get the current branch reference
-        const refResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${repositoryName}/git/ref/heads/${branch}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'RepoPush',
-            },
-          }
-        );
-
-        if (!refResponse.ok) {
-          throw new Error(`Failed to get branch reference: ${await refResponse.text()}`);
-        }
-
-        const refData = await refResponse.json();
-        const currentCommitSha = refData.object.sha;
-        console.log(`Current commit SHA: ${currentCommitSha}`);
-
-        // Get the current commit to access its tree
-        const commitResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${repositoryName}/git/commits/${currentCommitSha}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'RepoPush',
-            },
-          }
-        );
-
-        if (!commitResponse.ok) {
-          throw new Error(`Failed to get commit: ${await commitResponse.text()}`);
-        }
-
-        const commitData = await commitResponse.json();
-        const baseTreeSha = commitData.tree.sha;
-
-        // Create blobs for all files
-        console.log(`Creating blobs for ${Object.keys(finalFileMap).length} files...`);
-        const blobPromises = Object.entries(finalFileMap).map(async ([path, content]) => {
-          let base64Content: string;
-          try {
-            base64Content = btoa(content as string);
-          } catch {
-            const encoder = new TextEncoder();
-            const uint8Array = encoder.encode(content as string);
-            const binaryString = Array.from(uint8Array, byte => String.fromCharCode(byte)).join('');
-            base64Content = btoa(binaryString);
-          }
-
-          const blobResponse = await fetch(
-            `https://api.github.com/repos/${owner}/${repositoryName}/git/blobs`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${githubToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'Content-Type': 'application/json',
-                'User-Agent': 'RepoPush',
-              },
-              body: JSON.stringify({
-                content: base64Content,
-                encoding: 'base64',
-              }),
-            }
-          );
-
-          if (!blobResponse.ok) {
-            console.error(`Failed to create blob for ${path}`);
-            return null;
-          }
-
-          const blobData = await blobResponse.json();
-          return {
-            path,
-            mode: '100644',
-            type: 'blob',
-            sha: blobData.sha,
-          };
-        });
-
-        const treeItems = (await Promise.all(blobPromises)).filter(item => item !== null);
-        console.log(`Created ${treeItems.length} blobs successfully`);
-
-        // Create a new tree
-        const treeResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${repositoryName}/git/trees`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'Content-Type': 'application/json',
-              'User-Agent': 'RepoPush',
-            },
-            body: JSON.stringify({
-              base_tree: baseTreeSha,
-              tree: treeItems,
-            }),
-          }
-        );
-
-        if (!treeResponse.ok) {
-          throw new Error(`Failed to create tree: ${await treeResponse.text()}`);
-        }
-
-        const treeData = await treeResponse.json();
-        console.log(`Created tree: ${treeData.sha}`);
-
-        // Create a new commit
-        const newCommitResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${repositoryName}/git/commits`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'Content-Type': 'application/json',
-              'User-Agent': 'RepoPush',
-            },
-            body: JSON.stringify({
-              message: `Add ${Object.keys(finalFileMap).length} files`,
-              tree: treeData.sha,
-              parents: [currentCommitSha],
-            }),
-          }
-        );
-
-        if (!newCommitResponse.ok) {
-          throw new Error(`Failed to create commit: ${await newCommitResponse.text()}`);
-        }
-
-        const newCommitData = await newCommitResponse.json();
-        console.log(`Created commit: ${newCommitData.sha}`);
-
-        // Update the branch reference
-        const updateRefResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${repositoryName}/git/refs/heads/${branch}`,
-          {
-            method: 'PATCH',
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'Content-Type': 'application/json',
-              'User-Agent': 'RepoPush',
-            },
-            body: JSON.stringify({
-              sha: newCommitData.sha,
-              force: false,
-            }),
-          }
-        );
-
-        if (!updateRefResponse.ok) {
-          throw new Error(`Failed to update branch: ${await updateRefResponse.text()}`);
-        }
-
-        console.log(`Successfully uploaded all ${Object.keys(finalFileMap).length} files in a single commit`);
-      } catch (error) {
-        console.error('Error uploading files:', error);
-        return new Response(
-          JSON.stringify({ error: `Failed to upload files: ${error instanceof Error ? error.message : 'Unknown error'}` }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    if (error instanceof SourceRepositoryError || error instanceof RepositoryAccessError) {
+      return jsonResponse({ error: error.message }, error.status);
     }
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        repository_url: repoData.html_url,
-        repository_name: repositoryName,
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
     console.error('Error in create-and-push-repo function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
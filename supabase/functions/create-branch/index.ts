@@ -1,8 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { getGitHubToken } from '../_shared/github-helper.ts';
 import { corsHeaders } from '../_shared/cors.ts';
-
-const GITHUB_API_URL = 'https://api.github.com';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -30,51 +30,33 @@ Deno.serve(async (req) => {
 
     console.log(`Creating branch ${branchName} from ${sourceBranch} in ${owner}/${repo}`);
 
+    const github = createGitHubClient(githubProfile.github_access_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+
     // Get the SHA of the source branch
-    const refResponse = await fetch(
-      `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${sourceBranch}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubProfile.github_access_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
+    const refData = await github.getIfExists<{ object: { sha: string } }>(
+      `/repos/${owner}/${repo}/git/refs/heads/${sourceBranch}`
     );
 
-    if (!refResponse.ok) {
-      const error = await refResponse.text();
-      console.error('Failed to fetch source branch:', error);
+    if (!refData) {
       return new Response(
         JSON.stringify({ error: `Source branch '${sourceBranch}' not found` }),
         { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const refData = await refResponse.json();
     const sha = refData.object.sha;
 
     // Create new branch
-    const createResponse = await fetch(
-      `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${githubProfile.github_access_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          ref: `refs/heads/${branchName}`,
-          sha: sha,
-        }),
+    try {
+      await github.post(`/repos/${owner}/${repo}/git/refs`, {
+        ref: `refs/heads/${branchName}`,
+        sha: sha,
+      });
+    } catch (error) {
+      if (!(error instanceof GitHubApiError) || error.status !== 422) {
+        throw error;
       }
-    );
-
-    if (!createResponse.ok) {
-      const error = await createResponse.text();
-      console.error('Failed to create branch:', error);
       return new Response(
         JSON.stringify({ error: 'Failed to create branch. It may already exist.' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -89,6 +71,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in create-branch function:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
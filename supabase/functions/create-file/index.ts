@@ -1,8 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
-import { ownerField, repoField, requiredPathField, contentField, branchField, commitMessageField } from '../_shared/validation.ts';
+import { ownerField, repoField, requiredPathField, contentField, branchField } from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,7 +16,7 @@ const createFileSchema = z.object({
   repo: repoField,
   path: requiredPathField,
   content: contentField,
-  message: commitMessageField.optional(),
+  ...commitOptionsFields,
   branch: branchField.optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
 });
@@ -38,7 +40,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { owner, repo, path, content, message, branch, provider_token } = validation.data;
+    const { owner, repo, path, content, branch, provider_token } = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -74,60 +76,21 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Encode content as base64
     const encoder = new TextEncoder();
     const contentBytes = encoder.encode(content || '');
     const base64Content = btoa(String.fromCharCode(...contentBytes));
 
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-    console.log('Creating file at:', url);
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+    console.log('Creating file at:', `${owner}/${repo}/${path}`);
 
-    const githubResponse = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-        'User-Agent': 'RepoPush',
-      },
-      body: JSON.stringify({
-        message: message || `Create ${path}`,
-        content: base64Content,
-        branch: branch || 'main',
-      }),
+    const result = await github.put(`/repos/${owner}/${repo}/contents/${path}`, {
+      message: composeCommitMessage(validation.data, `Create ${path}`),
+      content: base64Content,
+      branch: branch || 'main',
+      ...commitIdentity(validation.data),
     });
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const result = await githubResponse.json();
     console.log('Successfully created file');
 
     return new Response(
@@ -136,6 +99,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in create-file function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
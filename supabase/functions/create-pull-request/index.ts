@@ -1,7 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField, branchField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,6 +12,8 @@ const corsHeaders = {
 
 const createPRSchema = z.object({
   repositoryName: repoField,
+  // Organization or collaborator repositories; the user's own account when omitted
+  owner: ownerField.optional(),
   title: z.string().min(1).max(256),
   body: z.string().max(10000).optional(), // Reduced from 64KB to 10KB
   head: branchField,
@@ -24,7 +28,7 @@ Deno.serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { repositoryName, title, body: prBody, head, base, provider_token } = createPRSchema.parse(body);
+    const { repositoryName, owner: repositoryOwner, title, body: prBody, head, base, provider_token } = createPRSchema.parse(body);
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -57,39 +61,21 @@ Deno.serve(async (req) => {
       );
     }
 
-    const owner = profile.github_username;
+    const owner = repositoryOwner ?? profile.github_username;
 
     console.log(`Creating PR for ${owner}/${repositoryName}: ${head} -> ${base}`);
 
-    const prResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repositoryName}/pulls`,
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repositoryName, 'pull');
+    const prData = await github.post<{ html_url: string; number: number }>(
+      `/repos/${owner}/${repositoryName}/pulls`,
       {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${provider_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          title,
-          body: prBody || '',
-          head,
-          base,
-        }),
+        title,
+        body: prBody || '',
+        head,
+        base,
       }
     );
-
-    if (!prResponse.ok) {
-      const rawError = await prResponse.text();
-      const sanitized = sanitizeGitHubError(prResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const prData = await prResponse.json();
     console.log('PR created successfully:', prData.html_url);
 
     return new Response(
@@ -102,6 +88,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
       JSON.stringify({ error: sanitizedError }),
@@ -1,7 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -42,48 +44,11 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub username not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    if (profile.github_username !== owner) {
-      return new Response(
-        JSON.stringify({ error: 'You can only delete branches from your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Deleting branch: ${branch} from ${owner}/${repo}`);
 
-    const githubResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branch}`,
-      {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${provider_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+    await github.delete(`/repos/${owner}/${repo}/git/refs/heads/${branch}`);
 
     console.log('Branch deleted successfully');
     
@@ -93,6 +58,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
       JSON.stringify({ error: sanitizedError }),
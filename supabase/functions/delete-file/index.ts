@@ -1,7 +1,9 @@
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitCommit, type GitRef, type GitTree } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,7 @@ const deleteFileSchema = z.object({
   sha: z.string().min(1).max(100),
   branch: z.string().min(1).max(255).optional(),
   type: z.enum(['file', 'dir']).optional(),
+  ...commitOptionsFields,
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
@@ -76,116 +79,44 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const githubToken = provider_token;
 
     const branchName = branch || 'main';
     console.log(`Deleting ${type === 'dir' ? 'directory' : 'file'}: ${path} on branch: ${branchName}`);
 
+    const github = createGitHubClient(githubToken);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+
+    // Commits before and after the delete, returned so the client can offer an undo
+    let parentSha: string;
+    let commitSha: string;
+
     // For directories, we need to use Git Trees API
     if (type === 'dir') {
       // Get the current branch reference
-      const refResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branchName}`,
-        {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-        }
-      );
-
-      if (!refResponse.ok) {
-        const rawError = await refResponse.text();
-        const sanitized = sanitizeGitHubError(refResponse.status, rawError);
-        return new Response(
-          JSON.stringify({ error: sanitized.message }),
-          { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const refData = await refResponse.json();
+      const refData = await github.get<GitRef>(`/repos/${owner}/${repo}/git/refs/heads/${branchName}`);
       const currentCommitSha = refData.object.sha;
 
       // Get the current commit
-      const commitResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/commits/${currentCommitSha}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'RepoPush',
-          },
-        }
-      );
-
-      if (!commitResponse.ok) {
-        const rawError = await commitResponse.text();
-        const sanitized = sanitizeGitHubError(commitResponse.status, rawError);
-        return new Response(
-          JSON.stringify({ error: sanitized.message }),
-          { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const commitData = await commitResponse.json();
+      const commitData = await github.get<GitCommit>(`/repos/${owner}/${repo}/git/commits/${currentCommitSha}`);
       const baseTreeSha = commitData.tree.sha;
 
       // Get the tree
-      const treeResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/trees/${baseTreeSha}?recursive=1`,
-        {
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'RepoPush',
-          },
-        }
-      );
-
-      if (!treeResponse.ok) {
-        const rawError = await treeResponse.text();
-        const sanitized = sanitizeGitHubError(treeResponse.status, rawError);
-        return new Response(
-          JSON.stringify({ error: sanitized.message }),
-          { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const treeData = await treeResponse.json();
+      const treeData = await github.get<GitTree>(`/repos/${owner}/${repo}/git/trees/${baseTreeSha}`, {
+        query: { recursive: 1 },
+      });
       
       // Filter out all items in the directory
       const pathPrefix = path.endsWith('/') ? path : `${path}/`;
       const newTree = treeData.tree
-        .filter((item: any) => {
+        .filter((item) => {
           // Exclude items in the directory being deleted
           const isInDeletedDir = item.path.startsWith(pathPrefix) || item.path === path;
           return !isInDeletedDir;
         })
         // Only include blobs (files) - GitHub creates tree objects (directories) automatically
-        .filter((item: any) => item.type === 'blob')
-        .map((item: any) => ({
+        .filter((item) => item.type === 'blob')
+        .map((item) => ({
           path: item.path,
           mode: item.mode,
           type: item.type,
@@ -193,133 +124,60 @@ Deno.serve(async (req) => {
         }));
 
       // Create new tree
-      const newTreeResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/trees`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'RepoPush',
-          },
-          body: JSON.stringify({
-            tree: newTree,
-          }),
-        }
-      );
-
-      if (!newTreeResponse.ok) {
-        const error = await newTreeResponse.text();
-        console.error('Failed to create new tree:', error);
-        return new Response(
-          JSON.stringify({ error: 'Failed to create new tree' }),
-          { status: newTreeResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const newTreeData = await newTreeResponse.json();
+      const newTreeData = await github.post<{ sha: string }>(`/repos/${owner}/${repo}/git/trees`, {
+        tree: newTree,
+      });
 
       // Create new commit
-      const newCommitResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/commits`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'RepoPush',
-          },
-          body: JSON.stringify({
-            message: `Delete directory ${path}`,
-            tree: newTreeData.sha,
-            parents: [currentCommitSha],
-          }),
-        }
-      );
-
-      if (!newCommitResponse.ok) {
-        const error = await newCommitResponse.text();
-        console.error('Failed to create commit:', error);
-        return new Response(
-          JSON.stringify({ error: 'Failed to create commit' }),
-          { status: newCommitResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const newCommitData = await newCommitResponse.json();
+      const newCommitData = await github.post<{ sha: string }>(`/repos/${owner}/${repo}/git/commits`, {
+        message: composeCommitMessage(validation.data, `Delete directory ${path}`),
+        tree: newTreeData.sha,
+        parents: [currentCommitSha],
+        ...commitIdentity(validation.data),
+      });
 
       // Update branch reference
-      const updateRefResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branchName}`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'RepoPush',
-          },
-          body: JSON.stringify({
-            sha: newCommitData.sha,
-          }),
-        }
-      );
-
-      if (!updateRefResponse.ok) {
-        const error = await updateRefResponse.text();
-        console.error('Failed to update reference:', error);
-        return new Response(
-          JSON.stringify({ error: 'Failed to update branch' }),
-          { status: updateRefResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+      await github.patch(`/repos/${owner}/${repo}/git/refs/heads/${branchName}`, {
+        sha: newCommitData.sha,
+      });
 
+      parentSha = currentCommitSha;
+      commitSha = newCommitData.sha;
       console.log('Directory deleted successfully');
     } else {
       // For files, use the simple contents API
-      const deleteBody: Record<string, string> = {
-        message: `Delete ${path}`,
+      const deleteBody: Record<string, unknown> = {
+        message: composeCommitMessage(validation.data, `Delete ${path}`),
         sha: sha,
+        ...commitIdentity(validation.data),
       };
       
       if (branch) {
         deleteBody.branch = branch;
       }
 
-      const githubResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${path}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'RepoPush',
-          },
-          body: JSON.stringify(deleteBody),
-        }
+      const result = await github.delete<{ commit: { sha: string; parents: { sha: string }[] } }>(
+        `/repos/${owner}/${repo}/contents/${path}`,
+        deleteBody
       );
-
-      if (!githubResponse.ok) {
-        const rawError = await githubResponse.text();
-        const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-        return new Response(
-          JSON.stringify({ error: sanitized.message }),
-          { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+      parentSha = result.commit.parents[0]?.sha;
+      commitSha = result.commit.sha;
 
       console.log('File deleted successfully');
     }
 
     return new Response(
-      JSON.stringify({ success: true }),
+      JSON.stringify({ success: true, parent_sha: parentSha, commit_sha: commitSha }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in delete-file function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
@@ -1,5 +1,8 @@
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitCommit, type GitRef, type GitTree } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +20,8 @@ const deleteItemsSchema = z.object({
       'Path traversal not allowed'
     ),
     type: z.enum(['file', 'dir'])
-  })).min(1)
+  })).min(1),
+  ...commitOptionsFields,
 });
 
 Deno.serve(async (req) => {
@@ -59,119 +63,49 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const githubToken = provider_token;
 
     const branchName = branch || 'main';
     console.log(`Batch delete on ${owner}/${repo} (${branchName}) for ${items.length} items`);
 
+    const github = createGitHubClient(githubToken);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+
     // Get current branch ref
-    const refResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branchName}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
+    const refData = await github.get<GitRef>(
+      `/repos/${owner}/${repo}/git/refs/heads/${branchName}`
     );
-
-    if (!refResponse.ok) {
-      const error = await refResponse.text();
-      console.error('Failed to get branch reference:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to get branch reference' }),
-        { status: refResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const refData = await refResponse.json();
     const currentCommitSha = refData.object.sha;
 
     // Get current commit
-    const commitResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/commits/${currentCommitSha}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
+    const commitData = await github.get<GitCommit>(
+      `/repos/${owner}/${repo}/git/commits/${currentCommitSha}`
     );
-
-    if (!commitResponse.ok) {
-      const error = await commitResponse.text();
-      console.error('Failed to get commit:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to get commit' }),
-        { status: commitResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const commitData = await commitResponse.json();
     const baseTreeSha = commitData.tree.sha;
 
     // Get full tree
-    const treeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/trees/${baseTreeSha}?recursive=1`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
+    const treeData = await github.get<GitTree>(
+      `/repos/${owner}/${repo}/git/trees/${baseTreeSha}`,
+      { query: { recursive: 1 } }
     );
 
-    if (!treeResponse.ok) {
-      const error = await treeResponse.text();
-      console.error('Failed to get tree:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to get tree' }),
-        { status: treeResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const treeData = await treeResponse.json();
-
     // Build exclusion sets
     const dirPaths = items
-      .filter((i: any) => i.type === 'dir')
-      .map((d: any) => d.path.endsWith('/') ? d.path : `${d.path}/`);
+      .filter((i) => i.type === 'dir')
+      .map((d) => d.path.endsWith('/') ? d.path : `${d.path}/`);
 
-    const filePaths = new Set(items.filter((i: any) => i.type === 'file').map((f: any) => f.path));
+    const filePaths = new Set(items.filter((i) => i.type === 'file').map((f) => f.path));
 
     // Filter tree: remove files in selected dirs and selected files
     const newTree = treeData.tree
-      .filter((item: any) => {
+      .filter((item) => {
         const inDeletedDir = dirPaths.some((dp) => item.path.startsWith(dp));
         const isDeletedFile = filePaths.has(item.path);
         // Keep only items not in deleted targets
         return !inDeletedDir && !isDeletedFile;
       })
-      .filter((item: any) => item.type === 'blob')
-      .map((item: any) => ({
+      .filter((item) => item.type === 'blob')
+      .map((item) => ({
         path: item.path,
         mode: item.mode,
         type: item.type,
@@ -179,97 +113,49 @@ Deno.serve(async (req) => {
       }));
 
     // Create new tree
-    const newTreeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/trees`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({ tree: newTree }),
-      }
+    const newTreeData = await github.post<{ sha: string }>(
+      `/repos/${owner}/${repo}/git/trees`,
+      { tree: newTree }
     );
 
-    if (!newTreeResponse.ok) {
-      const error = await newTreeResponse.text();
-      console.error('Failed to create new tree:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to create new tree' }),
-        { status: newTreeResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const newTreeData = await newTreeResponse.json();
-
     // Create new commit
     const deleteSummary = items
-      .map((i: any) => `${i.type === 'dir' ? 'dir' : 'file'}:${i.path}`)
+      .map((i) => `${i.type === 'dir' ? 'dir' : 'file'}:${i.path}`)
       .slice(0, 10) // limit length
       .join(', ');
 
-    const newCommitResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/commits`,
+    const newCommitData = await github.post<{ sha: string }>(
+      `/repos/${owner}/${repo}/git/commits`,
       {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          message: `Batch delete ${items.length} item(s): ${deleteSummary}${items.length > 10 ? '…' : ''}`,
-          tree: newTreeData.sha,
-          parents: [currentCommitSha],
-        }),
+        message: composeCommitMessage(
+          validation.data,
+          `Batch delete ${items.length} item(s): ${deleteSummary}${items.length > 10 ? '…' : ''}`
+        ),
+        tree: newTreeData.sha,
+        parents: [currentCommitSha],
+        ...commitIdentity(validation.data),
       }
     );
 
-    if (!newCommitResponse.ok) {
-      const error = await newCommitResponse.text();
-      console.error('Failed to create commit:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to create commit' }),
-        { status: newCommitResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const newCommitData = await newCommitResponse.json();
-
     // Update branch ref
-    const updateRefResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branchName}`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({ sha: newCommitData.sha }),
-      }
+    await github.patch(
+      `/repos/${owner}/${repo}/git/refs/heads/${branchName}`,
+      { sha: newCommitData.sha }
     );
 
-    if (!updateRefResponse.ok) {
-      const error = await updateRefResponse.text();
-      console.error('Failed to update reference:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to update branch' }),
-        { status: updateRefResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log('Batch delete succeeded');
 
     return new Response(
-      JSON.stringify({ success: true, deleted: items.length }),
+      JSON.stringify({ success: true, deleted: items.length, parent_sha: currentCommitSha, commit_sha: newCommitData.sha }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in delete-items function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
@@ -1,9 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
 import { ownerField, repoField, branchField } from '../_shared/validation.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const enablePagesSchema = z.object({
   owner: ownerField,
@@ -70,59 +72,21 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get GitHub username from profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Enabling GitHub Pages for: ${owner}/${repo} from branch: ${branch}, path: ${path}`);
 
     // Enable GitHub Pages
-    const githubResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/pages`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github+json',
-        'Content-Type': 'application/json',
-        'User-Agent': 'RepoPush',
-        'X-GitHub-Api-Version': '2022-11-28',
-      },
-      body: JSON.stringify({
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const pagesInfo = await github.post<{ html_url: string; status: string }>(
+      `/repos/${owner}/${repo}/pages`,
+      {
         source: {
           branch: branch,
           path: path,
         },
-      }),
-    });
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      console.error('GitHub API error:', rawError);
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const pagesInfo = await githubResponse.json();
+      },
+      { accept: 'application/vnd.github+json' }
+    );
     console.log('GitHub Pages enabled successfully');
     
     return new Response(
@@ -136,6 +100,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in enable-github-pages function:', error);
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
@@ -0,0 +1,87 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const forkRepoSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  // Forks into the user's own account when omitted
+  organization: ownerField.optional(),
+  name: repoField.optional(),
+  default_branch_only: z.boolean().default(false),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface ForkedRepository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const { owner, repo, organization, name, default_branch_only, provider_token } = forkRepoSchema.parse(body);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Forking repository: ${owner}/${repo} into ${organization ?? 'user account'}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'pull');
+    // GitHub creates the fork in the background; its contents may take a few minutes to appear
+    const result = await github.post<ForkedRepository>(`/repos/${owner}/${repo}/forks`, {
+      ...(organization ? { organization } : {}),
+      ...(name ? { name } : {}),
+      default_branch_only,
+    });
+    console.log(`Fork created: ${result.full_name}`);
+
+    return new Response(
+      JSON.stringify({ success: true, repository: result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,159 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField, requiredPathField, refField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getBlameSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  ref: refField,
+  path: requiredPathField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+// Blame is only exposed through GraphQL
+const BLAME_QUERY = `
+  query($owner: String!, $repo: String!, $expression: String!, $path: String!) {
+    repository(owner: $owner, name: $repo) {
+      object(expression: $expression) {
+        ... on Commit {
+          oid
+          blame(path: $path) {
+            ranges {
+              startingLine
+              endingLine
+              age
+              commit {
+                oid
+                messageHeadline
+                committedDate
+                url
+                author { name date user { login avatarUrl } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface BlameQueryResult {
+  repository: {
+    object: {
+      oid: string;
+      blame: {
+        ranges: {
+          startingLine: number;
+          endingLine: number;
+          age: number;
+          commit: {
+            oid: string;
+            messageHeadline: string;
+            committedDate: string;
+            url: string;
+            author: { name: string | null; date: string | null; user: { login: string; avatarUrl: string } | null } | null;
+          };
+        }[];
+      };
+    } | null;
+  } | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = getBlameSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, ref, path, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Fetching blame for ${owner}/${repo}/${path}@${ref}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'pull');
+    const result = await github.graphql<BlameQueryResult>(BLAME_QUERY, { owner, repo, expression: ref, path });
+    const target = result.repository?.object;
+
+    if (!target?.blame) {
+      return new Response(
+        JSON.stringify({ error: 'File or ref not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        commit_sha: target.oid,
+        ranges: target.blame.ranges.map((range) => ({
+          start_line: range.startingLine,
+          end_line: range.endingLine,
+          // 1 (most recent) to 10 (oldest), used for heat shading
+          age: range.age,
+          commit: {
+            sha: range.commit.oid,
+            message: range.commit.messageHeadline,
+            date: range.commit.author?.date ?? range.commit.committedDate,
+            author_name: range.commit.author?.name ?? null,
+            author: range.commit.author?.user
+              ? { login: range.commit.author.user.login, avatar_url: range.commit.author.user.avatarUrl }
+              : null,
+            html_url: range.commit.url,
+          },
+        })),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in get-blame function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
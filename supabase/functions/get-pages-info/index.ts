@@ -1,9 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
 import { ownerField, repoField } from '../_shared/validation.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const getPagesInfoSchema = z.object({
   owner: ownerField,
@@ -66,59 +68,23 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get GitHub username from profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Getting GitHub Pages info for: ${owner}/${repo}`);
 
     // Get GitHub Pages info
-    const githubResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/pages`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
-    });
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'pull');
+    const pagesInfo = await github.getIfExists<{ html_url: string; status: string; source: unknown }>(
+      `/repos/${owner}/${repo}/pages`
+    );
 
     // If 404, Pages is not enabled
-    if (githubResponse.status === 404) {
+    if (!pagesInfo) {
       console.log('GitHub Pages not enabled for this repository');
       return new Response(
         JSON.stringify({ enabled: false }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const pagesInfo = await githubResponse.json();
     console.log('GitHub Pages info retrieved successfully');
     
     return new Response(
@@ -132,6 +98,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in get-pages-info function:', error);
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
@@ -0,0 +1,279 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const getPRSchema = z.object({
+  repositoryName: repoField,
+  // Organization or collaborator repositories; the user's own account when omitted
+  owner: ownerField.optional(),
+  number: z.number().int().positive(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface GitHubUser {
+  login: string;
+  avatar_url: string;
+}
+
+interface GitHubPullRequestDetail {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  draft: boolean;
+  merged: boolean;
+  mergeable: boolean | null;
+  mergeable_state: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  user: GitHubUser | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  additions: number;
+  deletions: number;
+  changed_files: number;
+  commits: number;
+}
+
+interface GitHubPRCommit {
+  sha: string;
+  html_url: string;
+  commit: { message: string; author: { name: string; date: string } | null };
+  author: GitHubUser | null;
+}
+
+interface GitHubPRFile {
+  filename: string;
+  previous_filename?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  patch?: string;
+}
+
+interface GitHubCheckRun {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string | null;
+}
+
+interface GitHubCombinedStatus {
+  state: string;
+  statuses: { id: number; context: string; state: string; description: string | null; target_url: string | null }[];
+}
+
+interface GitHubReview {
+  id: number;
+  user: GitHubUser | null;
+  state: string;
+  body: string;
+  submitted_at: string | null;
+  html_url: string;
+}
+
+interface GitHubComment {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+  path?: string;
+  line?: number | null;
+  original_line?: number | null;
+  diff_hunk?: string;
+  in_reply_to_id?: number;
+}
+
+const toAuthor = (user: GitHubUser | null) => user ? { login: user.login, avatar_url: user.avatar_url } : null;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = getPRSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { repositoryName, owner: repositoryOwner, number, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('github_username')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.github_username) {
+      return new Response(
+        JSON.stringify({ error: 'GitHub username not found' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const owner = repositoryOwner ?? profile.github_username;
+    const repoPath = `/repos/${owner}/${repositoryName}`;
+    console.log(`Fetching pull request ${owner}/${repositoryName}#${number}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repositoryName, 'pull');
+    const pr = await github.get<GitHubPullRequestDetail>(`${repoPath}/pulls/${number}`);
+
+    // GitHub caps PR commit listings at 250 and file listings at 3000
+    const [commits, files, checkRuns, combinedStatus, reviews, reviewComments, comments] = await Promise.all([
+      github.paginate<GitHubPRCommit>(`${repoPath}/pulls/${number}/commits`, { maxPages: 3 }),
+      github.paginate<GitHubPRFile>(`${repoPath}/pulls/${number}/files`, { maxPages: 30 }),
+      github.paginate<GitHubCheckRun>(`${repoPath}/commits/${pr.head.sha}/check-runs`, { itemsKey: 'check_runs' }),
+      github.get<GitHubCombinedStatus>(`${repoPath}/commits/${pr.head.sha}/status`),
+      github.paginate<GitHubReview>(`${repoPath}/pulls/${number}/reviews`),
+      github.paginate<GitHubComment>(`${repoPath}/pulls/${number}/comments`),
+      github.paginate<GitHubComment>(`${repoPath}/issues/${number}/comments`),
+    ]);
+
+    console.log(`Loaded #${number}: ${commits.length} commits, ${files.length} files, ${checkRuns.length} check runs`);
+
+    return new Response(
+      JSON.stringify({
+        pull_request: {
+          number: pr.number,
+          title: pr.title,
+          body: pr.body ?? '',
+          state: pr.merged ? 'merged' : pr.state,
+          draft: pr.draft,
+          mergeable: pr.mergeable,
+          mergeable_state: pr.mergeable_state,
+          html_url: pr.html_url,
+          created_at: pr.created_at,
+          updated_at: pr.updated_at,
+          merged_at: pr.merged_at,
+          closed_at: pr.closed_at,
+          author: toAuthor(pr.user),
+          head: pr.head.ref,
+          head_sha: pr.head.sha,
+          base: pr.base.ref,
+          additions: pr.additions,
+          deletions: pr.deletions,
+          changed_files: pr.changed_files,
+        },
+        commits: commits.map((commit) => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author_name: commit.commit.author?.name ?? null,
+          date: commit.commit.author?.date ?? null,
+          author: toAuthor(commit.author),
+          html_url: commit.html_url,
+        })),
+        files: files.map((file) => ({
+          filename: file.filename,
+          previous_filename: file.previous_filename ?? null,
+          status: file.status,
+          additions: file.additions,
+          deletions: file.deletions,
+          changes: file.changes,
+          // Omitted by GitHub for binary files and very large diffs
+          patch: file.patch ?? null,
+        })),
+        checks: {
+          state: combinedStatus.state,
+          check_runs: checkRuns.map((run) => ({
+            id: run.id,
+            name: run.name,
+            status: run.status,
+            conclusion: run.conclusion,
+            html_url: run.html_url,
+          })),
+          statuses: combinedStatus.statuses.map((status) => ({
+            id: status.id,
+            context: status.context,
+            state: status.state,
+            description: status.description,
+            target_url: status.target_url,
+          })),
+        },
+        reviews: reviews
+          .filter((review) => review.state !== 'PENDING')
+          .map((review) => ({
+            id: review.id,
+            author: toAuthor(review.user),
+            state: review.state,
+            body: review.body,
+            submitted_at: review.submitted_at,
+            html_url: review.html_url,
+          })),
+        review_comments: reviewComments.map((comment) => ({
+          id: comment.id,
+          author: toAuthor(comment.user),
+          body: comment.body,
+          created_at: comment.created_at,
+          html_url: comment.html_url,
+          path: comment.path ?? null,
+          line: comment.line ?? comment.original_line ?? null,
+          diff_hunk: comment.diff_hunk ?? null,
+          in_reply_to_id: comment.in_reply_to_id ?? null,
+        })),
+        comments: comments.map((comment) => ({
+          id: comment.id,
+          author: toAuthor(comment.user),
+          body: comment.body,
+          created_at: comment.created_at,
+          html_url: comment.html_url,
+        })),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in get-pull-request function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { ownerField } from '../_shared/validation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,6 +11,8 @@ const corsHeaders = {
 
 const getBranchesSchema = z.object({
   repositoryName: z.string().min(1).max(100).regex(/^[a-zA-Z0-9._-]+$/, 'Invalid repository name'),
+  // Organization or collaborator repositories; the user's own account when omitted
+  owner: ownerField.optional(),
   provider_token: z.string().min(1),
 });
 
@@ -64,63 +69,14 @@ Deno.serve(async (req) => {
     }
 
     const githubToken = provider_token;
-    const owner = profile.github_username;
-
-    // Authorization: verify repository name belongs to user's account
-    // The repositoryName from client should match a repo owned by this user
+    const owner = validation.data.owner ?? profile.github_username;
     console.log(`Fetching branches for repository: ${owner}/${repositoryName}`);
 
-    
-    // First verify the repository exists and belongs to the user
-    const repoCheckResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repositoryName}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!repoCheckResponse.ok) {
-      console.error('Repository not found or not accessible');
-      return new Response(
-        JSON.stringify({ error: 'Repository not found or not accessible' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const repoData = await repoCheckResponse.json();
-    if (repoData.owner.login !== owner) {
-      console.error(`Unauthorized: Repository ${repositoryName} does not belong to user ${owner}`);
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const branchesResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repositoryName}/branches`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!branchesResponse.ok) {
-      const errorText = await branchesResponse.text();
-      console.error('Failed to fetch branches:', errorText);
-      return new Response(
-        JSON.stringify({ error: 'Failed to fetch branches from GitHub' }),
-        { status: branchesResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // First verify the repository exists and the user can read it
+    const github = createGitHubClient(githubToken);
+    await requireRepositoryAccess(github, owner, repositoryName, 'pull');
 
-    const branches = await branchesResponse.json();
+    const branches = await github.paginate(`/repos/${owner}/${repositoryName}/branches`);
     console.log(`Found ${branches.length} branches`);
 
     return new Response(
@@ -129,6 +85,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in get-repo-branches function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
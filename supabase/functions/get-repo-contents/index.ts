@@ -1,7 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField, pathField, refField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -55,77 +56,20 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization: verify user owns the repository
-    if (owner !== profile.github_username) {
-      console.error(`Unauthorized access attempt: user ${profile.github_username} tried to access ${owner}/${repo}`);
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // First, fetch repository metadata to get default branch
+    // First, fetch repository metadata to get default branch and the user's permissions
     console.log(`Fetching repository metadata for: ${owner}/${repo}`);
-    const repoResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${provider_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!repoResponse.ok) {
-      const rawError = await repoResponse.text();
-      const sanitized = sanitizeGitHubError(repoResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const repoMetadata = await repoResponse.json();
+    const github = createGitHubClient(provider_token);
+    const repoMetadata = await requireRepositoryAccess(github, owner, repo, 'pull');
     const defaultBranch = repoMetadata.default_branch;
     console.log(`Repository default branch: ${defaultBranch}`);
 
     // Use the provided ref or fall back to default branch
     const effectiveRef = ref || defaultBranch;
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}?ref=${effectiveRef}`;
-    console.log('Fetching contents from:', url);
+    console.log('Fetching contents from:', `${owner}/${repo}/${path}@${effectiveRef}`);
 
-    const githubResponse = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
+    const contents = await github.get(`/repos/${owner}/${repo}/contents/${path}`, {
+      query: { ref: effectiveRef },
     });
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const contents = await githubResponse.json();
     console.log('Successfully fetched contents');
 
     return new Response(
@@ -136,7 +80,9 @@ Deno.serve(async (req) => {
           name: repoMetadata.name,
           full_name: repoMetadata.full_name,
           private: repoMetadata.private,
-          default_branch: defaultBranch
+          archived: repoMetadata.archived,
+          default_branch: defaultBranch,
+          permissions: repoMetadata.permissions,
         }
       }),
       { 
@@ -151,6 +97,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in get-repo-contents function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
@@ -1,7 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField, refField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitRef, type GitTree } from '../_shared/github-client.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -57,56 +57,20 @@ Deno.serve(async (req) => {
     const branch = ref || 'main';
     
     // Get the branch SHA first
-    const branchResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${branch}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${provider_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!branchResponse.ok) {
-      const rawError = await branchResponse.text();
-      const sanitized = sanitizeGitHubError(branchResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const branchData = await branchResponse.json();
+    const github = createGitHubClient(provider_token);
+    const branchData = await github.get<GitRef>(`/repos/${owner}/${repo}/git/ref/heads/${branch}`);
     const treeSha = branchData.object.sha;
 
     // Fetch recursive tree
-    const treeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`,
-      {
-        headers: {
-          'Authorization': `Bearer ${provider_token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
+    const treeData = await github.get<GitTree>(
+      `/repos/${owner}/${repo}/git/trees/${treeSha}`,
+      { query: { recursive: 1 } }
     );
-
-    if (!treeResponse.ok) {
-      const rawError = await treeResponse.text();
-      const sanitized = sanitizeGitHubError(treeResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const treeData = await treeResponse.json();
     
     // Filter for directories only
     const folders = (treeData.tree || [])
-      .filter((entry: any) => entry.type === 'tree')
-      .map((entry: any) => entry.path)
+      .filter((entry) => entry.type === 'tree')
+      .map((entry) => entry.path)
       .sort();
 
     console.log(`Found ${folders.length} folders in ${owner}/${repo}@${branch}`);
@@ -120,6 +84,9 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in get-repo-folders function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
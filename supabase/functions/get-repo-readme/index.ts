@@ -1,7 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -43,31 +44,17 @@ Deno.serve(async (req) => {
 
     console.log(`Fetching README for: ${owner}/${repo}`);
 
-    const githubResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/readme`, {
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
-    });
+    const github = createGitHubClient(provider_token);
+    const readme = await github.getIfExists<{ content?: string; name: string; path: string }>(
+      `/repos/${owner}/${repo}/readme`
+    );
 
-    if (githubResponse.status === 404) {
+    if (!readme) {
       return new Response(
         JSON.stringify({ readme: null }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const readme = await githubResponse.json();
     
     // Decode base64 content
     const content = readme.content ? atob(readme.content.replace(/\n/g, '')) : '';
@@ -85,6 +72,9 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
       JSON.stringify({ error: sanitizedError }),
@@ -0,0 +1,146 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitHubClient } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const getRepoStatsSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+type StatName = 'commit_activity' | 'contributors' | 'code_frequency';
+
+// GitHub answers 202 while it computes statistics in the background; a short wait often catches the result
+const STATS_ATTEMPTS = 3;
+const STATS_RETRY_DELAY_MS = 1500;
+
+interface GitHubContributorStats {
+  author: { login: string; avatar_url: string; html_url: string } | null;
+  total: number;
+  weeks: Array<{ w: number; a: number; d: number; c: number }>;
+}
+
+/**
+ * Fetches a /stats endpoint, resolving to null if GitHub is still computing it
+ */
+async function getStatistic<T>(github: GitHubClient, path: string): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    let response;
+    try {
+      response = await github.request<T>(path);
+    } catch (error) {
+      // Code frequency is refused for repositories with 10,000 or more commits
+      if (error instanceof GitHubApiError && error.status === 422) return [] as unknown as T;
+      throw error;
+    }
+    // 204 means the repository has no commits yet
+    if (response.status === 204) return [] as unknown as T;
+    if (response.status !== 202) return response.data;
+    if (attempt >= STATS_ATTEMPTS) return null;
+    await new Promise(resolve => setTimeout(resolve, STATS_RETRY_DELAY_MS));
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = getRepoStatsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Getting statistics for: ${owner}/${repo}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'pull');
+
+    const [languages, commitActivity, contributors, codeFrequency] = await Promise.all([
+      github.get<Record<string, number>>(`/repos/${owner}/${repo}/languages`),
+      getStatistic<Array<{ week: number; total: number; days: number[] }>>(github, `/repos/${owner}/${repo}/stats/commit_activity`),
+      getStatistic<GitHubContributorStats[]>(github, `/repos/${owner}/${repo}/stats/contributors`),
+      getStatistic<Array<[number, number, number]>>(github, `/repos/${owner}/${repo}/stats/code_frequency`),
+    ]);
+
+    const computing: StatName[] = [];
+    if (commitActivity === null) computing.push('commit_activity');
+    if (contributors === null) computing.push('contributors');
+    if (codeFrequency === null) computing.push('code_frequency');
+
+    const stats = {
+      languages: languages ?? {},
+      commit_activity: commitActivity?.map(({ week, total }) => ({ week, total })) ?? null,
+      // Weekly breakdowns are summed so the response stays small for long-lived repositories
+      contributors: contributors
+        ?.map(({ author, total, weeks }) => ({
+          login: author?.login ?? 'unknown',
+          avatar_url: author?.avatar_url ?? null,
+          html_url: author?.html_url ?? null,
+          commits: total,
+          additions: weeks.reduce((sum, week) => sum + week.a, 0),
+          deletions: weeks.reduce((sum, week) => sum + week.d, 0),
+        }))
+        .sort((a, b) => b.commits - a.commits) ?? null,
+      code_frequency: codeFrequency?.map(([week, additions, deletions]) => ({
+        week,
+        additions,
+        deletions: Math.abs(deletions),
+      })) ?? null,
+      computing,
+    };
+
+    console.log(computing.length > 0 ? `Still computing: ${computing.join(', ')}` : 'Statistics ready');
+
+    return new Response(
+      JSON.stringify(stats),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
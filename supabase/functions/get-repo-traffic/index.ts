@@ -0,0 +1,99 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const getRepoTrafficSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  per: z.enum(['day', 'week']).default('day'),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface TrafficSeries {
+  count: number;
+  uniques: number;
+}
+
+interface GitHubViews extends TrafficSeries {
+  views: Array<TrafficSeries & { timestamp: string }>;
+}
+
+interface GitHubClones extends TrafficSeries {
+  clones: Array<TrafficSeries & { timestamp: string }>;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = getRepoTrafficSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, per, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Getting traffic for: ${owner}/${repo}`);
+
+    const github = createGitHubClient(provider_token);
+    // GitHub only shares traffic with people who can push, archived or not
+    await requireRepositoryAccess(github, owner, repo, 'push', { readOnly: true });
+
+    // Traffic covers the last 14 days
+    const [views, clones, referrers] = await Promise.all([
+      github.get<GitHubViews>(`/repos/${owner}/${repo}/traffic/views`, { query: { per } }),
+      github.get<GitHubClones>(`/repos/${owner}/${repo}/traffic/clones`, { query: { per } }),
+      github.get<Array<{ referrer: string; count: number; uniques: number }>>(`/repos/${owner}/${repo}/traffic/popular/referrers`),
+    ]);
+
+    return new Response(
+      JSON.stringify({ views, clones, referrers }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
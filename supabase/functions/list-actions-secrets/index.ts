@@ -0,0 +1,117 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { environmentField, ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { actionsScopePath } from '../_shared/actions-secrets.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const listActionsSecretsSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  // Omitted for repository-wide secrets and variables
+  environment: environmentField.optional(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface GitHubActionsSecret {
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitHubActionsVariable extends GitHubActionsSecret {
+  value: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = listActionsSecretsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, environment, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Listing Actions secrets and variables for ${owner}/${repo}${environment ? ` (${environment})` : ''}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const scopePath = actionsScopePath(owner, repo, environment);
+
+    const listEnvironments = async (): Promise<string[] | null> => {
+      if (environment) return null;
+      try {
+        const environments = await github.paginate<{ name: string }>(`/repos/${owner}/${repo}/environments`, { itemsKey: 'environments' });
+        return environments.map(({ name }) => name);
+      } catch (error) {
+        // Environments aren't available for private repositories on some plans
+        if (error instanceof GitHubApiError && error.status === 404) return [];
+        throw error;
+      }
+    };
+
+    const [secrets, variables, publicKey, environments] = await Promise.all([
+      github.paginate<GitHubActionsSecret>(`${scopePath}/secrets`, { itemsKey: 'secrets' }),
+      // The variables API pages at most 30 at a time
+      github.paginate<GitHubActionsVariable>(`${scopePath}/variables`, { itemsKey: 'variables', query: { per_page: 30 } }),
+      github.get<{ key_id: string; key: string }>(`${scopePath}/secrets/public-key`),
+      listEnvironments(),
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        secrets: secrets.map(({ name, created_at, updated_at }) => ({ name, created_at, updated_at })),
+        variables: variables.map(({ name, value, created_at, updated_at }) => ({ name, value, created_at, updated_at })),
+        // Secret values are sealed with this key in the browser, so plaintext never reaches these functions
+        public_key: { key_id: publicKey.key_id, key: publicKey.key },
+        environments,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,155 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import {
+  accessErrorResponse,
+  RepositoryAccessError,
+  requireRepositoryAccess,
+  type RepositoryRole,
+} from '../_shared/repository-access.ts';
+
+const listCollaboratorsSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+// Collaborators and invitations name roles differently from the team and permission APIs
+const ROLE_BY_NAME: Record<string, RepositoryRole> = {
+  read: 'pull',
+  pull: 'pull',
+  triage: 'triage',
+  write: 'push',
+  push: 'push',
+  maintain: 'maintain',
+  admin: 'admin',
+};
+
+interface GitHubUser {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+interface GitHubCollaborator extends GitHubUser {
+  role_name: string;
+}
+
+interface GitHubInvitation {
+  id: number;
+  invitee: GitHubUser | null;
+  permissions: string;
+  created_at: string;
+  expired?: boolean;
+}
+
+interface GitHubTeam {
+  id: number;
+  slug: string;
+  name: string;
+  permission: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = listCollaboratorsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Listing collaborators for: ${owner}/${repo}`);
+
+    const github = createGitHubClient(provider_token);
+    const repository = await requireRepositoryAccess(github, owner, repo, 'admin');
+    const isOrganization = repository.owner.type === 'Organization';
+
+    // Direct collaborators only; organization members who get access through a team are managed as teams
+    const [collaborators, invitations, teams, organizationTeams] = await Promise.all([
+      github.paginate<GitHubCollaborator>(`/repos/${owner}/${repo}/collaborators`, { query: { affiliation: 'direct' } }),
+      github.paginate<GitHubInvitation>(`/repos/${owner}/${repo}/invitations`),
+      isOrganization ? github.paginate<GitHubTeam>(`/repos/${owner}/${repo}/teams`) : Promise.resolve(null),
+      // Teams the user can see, offered when granting access; outside members of the organization see none
+      isOrganization
+        ? github.paginate<GitHubTeam>(`/orgs/${owner}/teams`).catch((error) => {
+            if (error instanceof GitHubApiError && error.status === 403) return [];
+            throw error;
+          })
+        : Promise.resolve(null),
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        collaborators: collaborators.map(({ login, avatar_url, html_url, role_name }) => ({
+          login,
+          avatar_url,
+          html_url,
+          permission: ROLE_BY_NAME[role_name] ?? 'pull',
+        })),
+        invitations: invitations.map(({ id, invitee, permissions, created_at, expired }) => ({
+          id,
+          login: invitee?.login ?? 'unknown',
+          avatar_url: invitee?.avatar_url ?? null,
+          permission: ROLE_BY_NAME[permissions] ?? 'pull',
+          created_at,
+          expired: expired ?? false,
+        })),
+        teams: teams?.map(({ id, slug, name, permission }) => ({
+          id,
+          slug,
+          name,
+          permission: ROLE_BY_NAME[permission] ?? 'pull',
+        })) ?? null,
+        organization_teams: organizationTeams?.map(({ slug, name }) => ({ slug, name })) ?? null,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
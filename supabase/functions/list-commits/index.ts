@@ -0,0 +1,121 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField, pathField, refField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, getNextPageUrl } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 30;
+
+const listCommitsSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  ref: refField.optional(),
+  path: pathField.optional().default(''),
+  page: z.number().int().min(1).max(100).default(1),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface GitHubCommitListItem {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string } | null;
+    committer: { name: string; date: string } | null;
+  };
+  author: { login: string; avatar_url: string } | null;
+  parents: { sha: string }[];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = listCommitsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, ref, path, page, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Listing commits for ${owner}/${repo}@${ref ?? 'default'}${path ? ` path ${path}` : ''} (page ${page})`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'pull');
+    const response = await github.request<GitHubCommitListItem[]>(`/repos/${owner}/${repo}/commits`, {
+      query: {
+        sha: ref,
+        path: path || undefined,
+        per_page: PAGE_SIZE,
+        page,
+      },
+    });
+
+    const commits = response.data.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      author_name: commit.commit.author?.name ?? null,
+      author_email: commit.commit.author?.email ?? null,
+      date: commit.commit.author?.date ?? commit.commit.committer?.date ?? null,
+      author: commit.author ? { login: commit.author.login, avatar_url: commit.author.avatar_url } : null,
+      parents: commit.parents.map((parent) => parent.sha),
+      html_url: commit.html_url,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        commits,
+        page,
+        has_more: getNextPageUrl(response.headers.get('link')) !== null,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in list-commits function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
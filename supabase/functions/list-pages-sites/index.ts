@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
 
 const listPagesSitesSchema = z.object({
   provider_token: z.string().min(1, 'GitHub token required'),
@@ -97,24 +98,10 @@ Deno.serve(async (req) => {
     console.log(`Fetching live GitHub Pages sites for user: ${username}`);
 
     // Fetch all user repositories
-    const reposResponse = await fetch(`https://api.github.com/user/repos?per_page=100&affiliation=owner`, {
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
+    const github = createGitHubClient(provider_token);
+    const repos = await github.paginate<{ name: string }>('/user/repos', {
+      query: { affiliation: 'owner' },
     });
-
-    if (!reposResponse.ok) {
-      const rawError = await reposResponse.text();
-      const sanitized = sanitizeGitHubError(reposResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const repos = await reposResponse.json();
     console.log(`Found ${repos.length} repositories`);
 
     // Check GitHub Pages status for each repository
@@ -122,38 +109,32 @@ Deno.serve(async (req) => {
     
     for (const repo of repos) {
       try {
-        const pagesResponse = await fetch(
-          `https://api.github.com/repos/${username}/${repo.name}/pages`,
-          {
-            headers: {
-              'Authorization': `Bearer ${provider_token}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'RepoPush',
-            },
-          }
-        );
+        const pagesInfo = await github.getIfExists<{
+          html_url?: string;
+          status?: string;
+          source?: { branch?: string; path?: string };
+          built_at?: string;
+          updated_at?: string;
+        }>(`/repos/${username}/${repo.name}/pages`);
 
         // If 404, Pages is not enabled for this repo - skip it
-        if (pagesResponse.status === 404) {
+        if (!pagesInfo) {
           continue;
         }
 
-        if (pagesResponse.ok) {
-          const pagesInfo = await pagesResponse.json();
-          livePagesSites.push({
-            repository: repo.name,
-            owner: username,
+        livePagesSites.push({
+          repository: repo.name,
+          owner: username,
+          branch: pagesInfo.source?.branch || 'unknown',
+          url: pagesInfo.html_url || `https://${username}.github.io/${repo.name}`,
+          status: pagesInfo.status || 'unknown',
+          source: {
             branch: pagesInfo.source?.branch || 'unknown',
-            url: pagesInfo.html_url || `https://${username}.github.io/${repo.name}`,
-            status: pagesInfo.status || 'unknown',
-            source: {
-              branch: pagesInfo.source?.branch || 'unknown',
-              path: pagesInfo.source?.path || '/',
-            },
-            updated_at: pagesInfo.built_at || pagesInfo.updated_at,
-          });
-          console.log(`Found active Pages for: ${repo.name}`);
-        }
+            path: pagesInfo.source?.path || '/',
+          },
+          updated_at: pagesInfo.built_at || pagesInfo.updated_at,
+        });
+        console.log(`Found active Pages for: ${repo.name}`);
       } catch (error) {
         // Log but don't fail the entire request if one repo fails
         console.error(`Error checking Pages for ${repo.name}:`, error);
@@ -168,6 +149,9 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in list-pages-sites function:', error);
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
@@ -0,0 +1,152 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, getNextPageUrl } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 30;
+
+const listPRsSchema = z.object({
+  repositoryName: repoField,
+  // Organization or collaborator repositories; the user's own account when omitted
+  owner: ownerField.optional(),
+  state: z.enum(['open', 'closed', 'merged', 'all']).default('open'),
+  page: z.number().int().min(1).max(100).default(1),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface GitHubPullRequest {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  draft: boolean;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  user: { login: string; avatar_url: string } | null;
+  head: { ref: string };
+  base: { ref: string };
+  labels: { name: string; color: string }[];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = listPRsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { repositoryName, owner: repositoryOwner, state, page, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('github_username')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.github_username) {
+      return new Response(
+        JSON.stringify({ error: 'GitHub username not found' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const owner = repositoryOwner ?? profile.github_username;
+    console.log(`Listing ${state} pull requests for ${owner}/${repositoryName} (page ${page})`);
+
+    // GitHub only knows open and closed; merged PRs are the closed ones with merged_at set
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repositoryName, 'pull');
+    const response = await github.request<GitHubPullRequest[]>(`/repos/${owner}/${repositoryName}/pulls`, {
+      query: {
+        state: state === 'merged' ? 'closed' : state,
+        sort: 'updated',
+        direction: 'desc',
+        per_page: PAGE_SIZE,
+        page,
+      },
+    });
+
+    const pullRequests = response.data
+      .filter((pr) => {
+        if (state === 'merged') return pr.merged_at !== null;
+        if (state === 'closed') return pr.merged_at === null;
+        return true;
+      })
+      .map((pr) => ({
+        number: pr.number,
+        title: pr.title,
+        state: pr.merged_at ? 'merged' : pr.state,
+        draft: pr.draft,
+        html_url: pr.html_url,
+        created_at: pr.created_at,
+        updated_at: pr.updated_at,
+        closed_at: pr.closed_at,
+        merged_at: pr.merged_at,
+        author: pr.user ? { login: pr.user.login, avatar_url: pr.user.avatar_url } : null,
+        head: pr.head.ref,
+        base: pr.base.ref,
+        labels: pr.labels.map((label) => ({ name: label.name, color: label.color })),
+      }));
+
+    return new Response(
+      JSON.stringify({
+        pull_requests: pullRequests,
+        page,
+        has_more: getNextPageUrl(response.headers.get('link')) !== null,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in list-pull-requests function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,17 +1,47 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createGitHubClient, getNextPageUrl, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { ownerField } from '../_shared/validation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const listReposSchema = z.object({
+  provider_token: z.string().min(1, 'GitHub authentication required. Please sign in again.'),
+  page: z.number().int().min(1).max(1000).optional().default(1),
+  per_page: z.number().int().min(1).max(100).optional().default(100),
+  // Lists every repository of this organization the user can see, instead of the user's own list
+  organization: ownerField.optional(),
+  // Only applies to the user's list; GitHub's default is all three
+  affiliation: z.array(z.enum(['owner', 'collaborator', 'organization_member'])).min(1).optional(),
+  // Adds the organizations the user belongs to, for the owner switcher
+  include_organizations: z.boolean().optional(),
+});
+
+/**
+ * One page of the user's or an organization's repositories, most recently updated first
+ */
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const body = await req.json();
+    const validation = listReposSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
@@ -30,44 +60,39 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get GitHub token from request body (passed securely from client)
-    const { provider_token } = await req.json();
-    if (!provider_token) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub authentication required. Please sign in again.' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const githubToken = provider_token;
+    const { provider_token, page, per_page, organization, affiliation, include_organizations } = validation.data;
+    const github = createGitHubClient(provider_token);
 
-    console.log('Fetching repositories from GitHub...');
-    const githubResponse = await fetch('https://api.github.com/user/repos?sort=updated&per_page=100', {
-      headers: {
-        'Authorization': `Bearer ${githubToken}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'RepoPush',
-      },
-    });
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const repositories = await githubResponse.json();
-    console.log(`Successfully fetched ${repositories.length} repositories`);
+    const [response, organizations] = await Promise.all([
+      organization
+        ? github.request<unknown[]>(`/orgs/${organization}/repos`, {
+            query: { type: 'all', sort: 'updated', page, per_page },
+          })
+        : github.request<unknown[]>('/user/repos', {
+            query: { sort: 'updated', affiliation: affiliation?.join(','), page, per_page },
+          }),
+      include_organizations
+        ? github.paginate<{ login: string; avatar_url: string }>('/user/orgs')
+        : Promise.resolve(null),
+    ]);
+    console.log(`Fetched page ${page} with ${response.data.length} repositories${organization ? ` of ${organization}` : ''}`);
 
     return new Response(
-      JSON.stringify({ repositories }),
+      JSON.stringify({
+        repositories: response.data,
+        page,
+        has_more: getNextPageUrl(response.headers.get('link')) !== null,
+        ...(organizations
+          ? { organizations: organizations.map(({ login, avatar_url }) => ({ login, avatar_url })) }
+          : {}),
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in list-repos function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
@@ -0,0 +1,114 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const listWebhooksSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  // Lists this webhook's recent deliveries instead of the webhooks
+  hook_id: z.number().int().positive().optional(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface GitHubWebhook {
+  id: number;
+  active: boolean;
+  events: string[];
+  config: { url?: string; content_type?: string; insecure_ssl?: string; secret?: string };
+  created_at: string;
+  updated_at: string;
+  last_response: { code: number | null; status: string; message: string | null };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = listWebhooksSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { owner, repo, hook_id, provider_token } = validation.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+
+    if (hook_id !== undefined) {
+      console.log(`Listing deliveries for webhook ${hook_id} on ${owner}/${repo}`);
+      // The most recent page is enough to spot and redeliver failures
+      const deliveries = await github.get(`/repos/${owner}/${repo}/hooks/${hook_id}/deliveries`, { query: { per_page: 30 } });
+      return new Response(
+        JSON.stringify({ deliveries }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Listing webhooks for ${owner}/${repo}`);
+    const hooks = await github.paginate<GitHubWebhook>(`/repos/${owner}/${repo}/hooks`);
+
+    return new Response(
+      JSON.stringify({
+        webhooks: hooks.map(({ id, active, events, config, created_at, updated_at, last_response }) => ({
+          id,
+          active,
+          events,
+          url: config.url ?? '',
+          content_type: config.content_type === 'form' ? 'form' : 'json',
+          insecure_ssl: config.insecure_ssl === '1',
+          // GitHub masks the secret; only whether one is set is useful
+          has_secret: Boolean(config.secret),
+          created_at,
+          updated_at,
+          last_response,
+        })),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,121 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { actionsNameField, environmentField, ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { actionsScopePath } from '../_shared/actions-secrets.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const baseFields = {
+  owner: ownerField,
+  repo: repoField,
+  environment: environmentField.optional(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+// GitHub limits variables to 48 KB
+const variableValueField = z.string().min(1, 'Value cannot be empty').max(48 * 1024);
+
+const manageActionsSecretsSchema = z.discriminatedUnion('action', [
+  // Creates or replaces a secret; the value arrives already sealed with the scope's public key
+  z.object({
+    ...baseFields,
+    action: z.literal('set_secret'),
+    name: actionsNameField,
+    encrypted_value: z.string().min(1).max(100 * 1024).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Encrypted value must be base64'),
+    key_id: z.string().min(1).max(100),
+  }),
+  z.object({ ...baseFields, action: z.literal('delete_secret'), name: actionsNameField }),
+  z.object({ ...baseFields, action: z.literal('create_variable'), name: actionsNameField, value: variableValueField }),
+  z.object({ ...baseFields, action: z.literal('update_variable'), name: actionsNameField, value: variableValueField }),
+  z.object({ ...baseFields, action: z.literal('delete_variable'), name: actionsNameField }),
+]);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = manageActionsSecretsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { owner, repo, environment, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Managing Actions secrets on ${owner}/${repo}${environment ? ` (${environment})` : ''}: ${input.action} ${input.name}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const scopePath = actionsScopePath(owner, repo, environment);
+
+    switch (input.action) {
+      case 'set_secret':
+        await github.put(`${scopePath}/secrets/${input.name}`, {
+          encrypted_value: input.encrypted_value,
+          key_id: input.key_id,
+        });
+        break;
+      case 'delete_secret':
+        await github.delete(`${scopePath}/secrets/${input.name}`);
+        break;
+      case 'create_variable':
+        await github.post(`${scopePath}/variables`, { name: input.name, value: input.value });
+        break;
+      case 'update_variable':
+        await github.patch(`${scopePath}/variables/${input.name}`, { name: input.name, value: input.value });
+        break;
+      case 'delete_variable':
+        await github.delete(`${scopePath}/variables/${input.name}`);
+        break;
+    }
+
+    console.log('Actions secrets action completed');
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
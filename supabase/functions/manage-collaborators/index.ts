@@ -0,0 +1,157 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField, repositoryPermissionField, teamSlugField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import {
+  accessErrorResponse,
+  RepositoryAccessError,
+  requireRepositoryAccess,
+  type RepositoryRole,
+} from '../_shared/repository-access.ts';
+
+const baseFields = {
+  owner: ownerField,
+  repo: repoField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+const manageCollaboratorsSchema = z.discriminatedUnion('action', [
+  // Invites a new collaborator, or changes the role of an existing one
+  z.object({
+    ...baseFields,
+    action: z.literal('set_collaborator'),
+    username: ownerField,
+    permission: repositoryPermissionField,
+  }),
+  z.object({ ...baseFields, action: z.literal('remove_collaborator'), username: ownerField }),
+  z.object({
+    ...baseFields,
+    action: z.literal('update_invitation'),
+    invitation_id: z.number().int().positive(),
+    permission: repositoryPermissionField,
+  }),
+  z.object({ ...baseFields, action: z.literal('cancel_invitation'), invitation_id: z.number().int().positive() }),
+  // Organization repositories only
+  z.object({
+    ...baseFields,
+    action: z.literal('set_team'),
+    team_slug: teamSlugField,
+    permission: repositoryPermissionField,
+  }),
+  z.object({ ...baseFields, action: z.literal('remove_team'), team_slug: teamSlugField }),
+]);
+
+// The invitations API names roles the way the web UI does
+const INVITATION_PERMISSIONS: Record<RepositoryRole, string> = {
+  pull: 'read',
+  triage: 'triage',
+  push: 'write',
+  maintain: 'maintain',
+  admin: 'admin',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = manageCollaboratorsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { owner, repo, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Managing access to ${owner}/${repo}: ${input.action}`);
+
+    const github = createGitHubClient(provider_token);
+    const repository = await requireRepositoryAccess(github, owner, repo, 'admin');
+    const repoPath = `/repos/${owner}/${repo}`;
+
+    let result: Record<string, unknown> = {};
+    switch (input.action) {
+      case 'set_collaborator': {
+        const response = await github.request(`${repoPath}/collaborators/${input.username}`, {
+          method: 'PUT',
+          body: { permission: input.permission },
+        });
+        // 201 sends an invitation; 204 updated someone who already had access
+        result = { invited: response.status === 201 };
+        break;
+      }
+      case 'remove_collaborator':
+        await github.delete(`${repoPath}/collaborators/${input.username}`);
+        break;
+      case 'update_invitation':
+        await github.patch(`${repoPath}/invitations/${input.invitation_id}`, {
+          permissions: INVITATION_PERMISSIONS[input.permission],
+        });
+        break;
+      case 'cancel_invitation':
+        await github.delete(`${repoPath}/invitations/${input.invitation_id}`);
+        break;
+      case 'set_team':
+      case 'remove_team': {
+        if (repository.owner.type !== 'Organization') {
+          throw new RepositoryAccessError(400, 'Team access is only available for organization repositories');
+        }
+        const teamPath = `/orgs/${owner}/teams/${input.team_slug}/repos/${owner}/${repo}`;
+        if (input.action === 'set_team') {
+          await github.put(teamPath, { permission: input.permission });
+        } else {
+          await github.delete(teamPath);
+        }
+        break;
+      }
+    }
+
+    console.log('Repository access updated');
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
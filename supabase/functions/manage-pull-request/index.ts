@@ -0,0 +1,178 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const baseFields = {
+  repositoryName: repoField,
+  // Organization or collaborator repositories; the user's own account when omitted
+  owner: ownerField.optional(),
+  number: z.number().int().positive(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+const managePRSchema = z.discriminatedUnion('action', [
+  z.object({
+    ...baseFields,
+    action: z.literal('merge'),
+    mergeMethod: z.enum(['merge', 'squash', 'rebase']).default('merge'),
+    commitTitle: z.string().max(256).optional(),
+    commitMessage: z.string().max(10000).optional(),
+    // Head SHA the user reviewed; GitHub refuses the merge if the branch moved since
+    sha: z.string().regex(/^[a-f0-9]{40}$/, 'Invalid commit SHA').optional(),
+  }),
+  z.object({ ...baseFields, action: z.literal('close') }),
+  z.object({ ...baseFields, action: z.literal('reopen') }),
+  z.object({
+    ...baseFields,
+    action: z.literal('comment'),
+    body: z.string().trim().min(1, 'Comment cannot be empty').max(10000),
+  }),
+]);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = managePRSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { repositoryName, owner: repositoryOwner, number, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('github_username')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.github_username) {
+      return new Response(
+        JSON.stringify({ error: 'GitHub username not found' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const owner = repositoryOwner ?? profile.github_username;
+    const repoPath = `/repos/${owner}/${repositoryName}`;
+    const github = createGitHubClient(provider_token);
+    // Merging writes to the base branch; closing and reopening are triage actions
+    await requireRepositoryAccess(
+      github,
+      owner,
+      repositoryName,
+      input.action === 'merge' ? 'push' : input.action === 'comment' ? 'pull' : 'triage'
+    );
+
+    console.log(`Pull request ${owner}/${repositoryName}#${number}: ${input.action}`);
+
+    switch (input.action) {
+      case 'merge': {
+        try {
+          const result = await github.put<{ sha: string; merged: boolean; message: string }>(
+            `${repoPath}/pulls/${number}/merge`,
+            {
+              merge_method: input.mergeMethod,
+              commit_title: input.commitTitle || undefined,
+              commit_message: input.commitMessage || undefined,
+              sha: input.sha,
+            }
+          );
+          console.log(`Merged #${number} with ${input.mergeMethod}: ${result.sha}`);
+          return new Response(
+            JSON.stringify({ success: true, merged: result.merged, sha: result.sha }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error) {
+          // 405: not mergeable (conflicts, failing required checks, method disabled)
+          if (error instanceof GitHubApiError && error.status === 405) {
+            return new Response(
+              JSON.stringify({ error: 'This pull request cannot be merged. Check for conflicts, required reviews or checks, and whether this merge method is allowed.' }),
+              { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          if (error instanceof GitHubApiError && error.status === 409) {
+            return new Response(
+              JSON.stringify({ error: 'The head branch changed since you loaded this pull request. Refresh and review the new commits before merging.' }),
+              { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          throw error;
+        }
+      }
+
+      case 'close':
+      case 'reopen': {
+        const result = await github.patch<{ state: string }>(`${repoPath}/pulls/${number}`, {
+          state: input.action === 'close' ? 'closed' : 'open',
+        });
+        return new Response(
+          JSON.stringify({ success: true, state: result.state }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'comment': {
+        // PR conversation comments live on the issue of the same number
+        const comment = await github.post<{ id: number; html_url: string }>(
+          `${repoPath}/issues/${number}/comments`,
+          { body: input.body }
+        );
+        return new Response(
+          JSON.stringify({ success: true, comment_id: comment.id, comment_url: comment.html_url }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in manage-pull-request function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
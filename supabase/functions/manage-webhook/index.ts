@@ -0,0 +1,186 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const webhookEventsField = z
+  .array(z.string().regex(/^([a-z_]+|\*)$/, 'Invalid event name'))
+  .min(1, 'Select at least one event')
+  .max(100);
+
+const webhookConfigFields = {
+  url: z.string().url('Invalid payload URL').max(2048),
+  content_type: z.enum(['json', 'form']),
+  insecure_ssl: z.boolean(),
+};
+
+const baseFields = {
+  owner: ownerField,
+  repo: repoField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+const hookIdField = z.number().int().positive();
+
+const manageWebhookSchema = z.discriminatedUnion('action', [
+  z.object({
+    ...baseFields,
+    action: z.literal('create'),
+    ...webhookConfigFields,
+    secret: z.string().max(256).optional(),
+    events: webhookEventsField,
+    active: z.boolean().default(true),
+  }),
+  z.object({
+    ...baseFields,
+    action: z.literal('update'),
+    hook_id: hookIdField,
+    url: webhookConfigFields.url.optional(),
+    content_type: webhookConfigFields.content_type.optional(),
+    insecure_ssl: webhookConfigFields.insecure_ssl.optional(),
+    // Empty removes the secret; omitted keeps it, which GitHub only allows when the rest of the config is unchanged
+    secret: z.string().max(256).optional(),
+    events: webhookEventsField.optional(),
+    active: z.boolean().optional(),
+  }),
+  z.object({ ...baseFields, action: z.literal('delete'), hook_id: hookIdField }),
+  z.object({ ...baseFields, action: z.literal('ping'), hook_id: hookIdField }),
+  z.object({
+    ...baseFields,
+    action: z.literal('redeliver'),
+    hook_id: hookIdField,
+    delivery_id: z.number().int().positive(),
+  }),
+]);
+
+interface GitHubWebhookConfig {
+  url?: string;
+  content_type?: string;
+  insecure_ssl?: string;
+  secret?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = manageWebhookSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { owner, repo, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Managing webhooks on ${owner}/${repo}: ${input.action}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const hooksPath = `/repos/${owner}/${repo}/hooks`;
+
+    let result: Record<string, unknown> = {};
+    switch (input.action) {
+      case 'create': {
+        const hook = await github.post<{ id: number }>(hooksPath, {
+          name: 'web',
+          active: input.active,
+          events: input.events,
+          config: {
+            url: input.url,
+            content_type: input.content_type,
+            insecure_ssl: input.insecure_ssl ? '1' : '0',
+            ...(input.secret ? { secret: input.secret } : {}),
+          },
+        });
+        result = { hook_id: hook.id };
+        break;
+      }
+      case 'update': {
+        const { hook_id, url, content_type, insecure_ssl, secret, events, active } = input;
+        const changesConfig = url !== undefined || content_type !== undefined || insecure_ssl !== undefined || secret !== undefined;
+        let config: GitHubWebhookConfig | undefined;
+        if (changesConfig) {
+          // The config is replaced as a whole, so unchanged fields come from the current webhook
+          const current = await github.get<GitHubWebhookConfig>(`${hooksPath}/${hook_id}/config`);
+          if (current.secret && secret === undefined) {
+            return new Response(
+              JSON.stringify({ error: 'Enter the secret again, or clear it, to change the payload URL or content type' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          config = {
+            url: url ?? current.url,
+            content_type: content_type ?? current.content_type,
+            insecure_ssl: insecure_ssl === undefined ? current.insecure_ssl : insecure_ssl ? '1' : '0',
+            ...(secret ? { secret } : {}),
+          };
+        }
+        await github.patch(`${hooksPath}/${hook_id}`, {
+          ...(config ? { config } : {}),
+          ...(events ? { events } : {}),
+          ...(active !== undefined ? { active } : {}),
+        });
+        break;
+      }
+      case 'delete':
+        await github.delete(`${hooksPath}/${input.hook_id}`);
+        break;
+      case 'ping':
+        await github.post(`${hooksPath}/${input.hook_id}/pings`);
+        break;
+      case 'redeliver':
+        await github.post(`${hooksPath}/${input.hook_id}/deliveries/${input.delivery_id}/attempts`);
+        break;
+    }
+
+    console.log('Webhook action completed');
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,7 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField, pathField, branchField, MAX_BATCH_SIZE } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitCommit, type GitRef } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { listGitHubEntries, SUBMODULE_MODE, type SourceEntry } from '../_shared/source-repository.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +21,8 @@ const moveFilesSchema = z.object({
   })).min(1).max(MAX_BATCH_SIZE),
   destination: pathField,
   branch: branchField.default('main'),
+  // Message and identity of the move's commit
+  ...commitOptionsFields,
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
@@ -60,132 +65,33 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Verify ownership
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Moving ${files.length} items to ${destination}`);
 
-    const ghHeaders = {
-      'Authorization': `Bearer ${provider_token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'RepoPush',
-    };
-
-    // Helper to list all files within a directory recursively
-    const listFilesRecursively = async (dirPath: string): Promise<Array<{ path: string; sha: string }>> => {
-      const results: Array<{ path: string; sha: string }> = [];
-      const res = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${dirPath}?ref=${branch}`,
-        { headers: ghHeaders }
-      );
-      if (!res.ok) return results;
-      const items = await res.json();
-      for (const item of items) {
-        if (item.type === 'file') {
-          results.push({ path: item.path, sha: item.sha });
-        } else if (item.type === 'dir') {
-          const sub = await listFilesRecursively(item.path);
-          results.push(...sub);
-        }
-      }
-      return results;
-    };
-
-    // Move a single file safely (create new, then delete old)
-    const moveSingleFile = async (srcPath: string, srcSha: string, destPath: string) => {
-      // No-op move (same path)
-      if (srcPath === destPath) {
-        console.log(`Skipping no-op move for ${srcPath}`);
-        return { status: 'skipped', reason: 'same path' };
-      }
-
-      // Get source content (base64)
-      const getSrc = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${srcPath}?ref=${branch}`,
-        { headers: ghHeaders }
-      );
-      if (!getSrc.ok) {
-        const rawError = await getSrc.text();
-        const sanitized = sanitizeGitHubError(getSrc.status, rawError);
-        console.error(`Failed to fetch ${srcPath}:`, sanitized.message);
-        throw new Error(sanitized.message);
-      }
-      const srcData = await getSrc.json();
-
-      // Check if destination exists
-      const checkDest = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${destPath}?ref=${branch}`,
-        { headers: ghHeaders }
-      );
-
-      const putBody: Record<string, unknown> = {
-        message: `Move ${srcPath} to ${destPath}`,
-        content: srcData.content,
-        branch,
-      };
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
 
-      // If destination exists, include its sha to update instead of failing
-      if (checkDest.ok) {
-        const destData = await checkDest.json();
-        putBody.sha = destData.sha;
-      }
-
-      const createRes = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${destPath}`,
-        {
-          method: 'PUT',
-          headers: ghHeaders,
-          body: JSON.stringify(putBody),
-        }
-      );
+    const repoPath = `/repos/${owner}/${repo}`;
+    const headSha = (await github.get<GitRef>(`${repoPath}/git/ref/heads/${branch}`)).object.sha;
+    const headCommit = await github.get<GitCommit>(`${repoPath}/git/commits/${headSha}`);
+    const entries = new Map(
+      (await listGitHubEntries(github, `${owner}/${repo}`, headCommit.tree.sha)).map((entry) => [entry.path, entry])
+    );
 
-      if (!createRes.ok) {
-        const rawError = await createRes.text();
-        const sanitized = sanitizeGitHubError(createRes.status, rawError);
-        console.error(`Failed to create ${destPath}:`, sanitized.message);
-        throw new Error(sanitized.message);
-      }
+    // Tree changes for the whole move, keyed by path: sources are removed, destinations
+    // point at the same blobs so content and file modes carry over unchanged
+    const removals = new Map<string, SourceEntry>();
+    const additions = new Map<string, SourceEntry>();
 
-      // Only delete after successful create/update
-      const deleteRes = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${srcPath}`,
-        {
-          method: 'DELETE',
-          headers: ghHeaders,
-          body: JSON.stringify({
-            message: `Delete old file ${srcPath}`,
-            sha: srcSha,
-            branch,
-          }),
-        }
-      );
-
-      if (!deleteRes.ok) {
-        const rawError = await deleteRes.text();
-        const sanitized = sanitizeGitHubError(deleteRes.status, rawError);
-        console.error(`Failed to delete ${srcPath}:`, sanitized.message);
-        throw new Error(sanitized.message);
+    const moveSingleFile = (entry: SourceEntry, destPath: string) => {
+      // No-op move (same path)
+      if (entry.path === destPath) {
+        console.log(`Skipping no-op move for ${entry.path}`);
+        return 'skipped';
       }
-
-      return { status: 'moved' };
+      removals.set(entry.path, entry);
+      // An existing file at the destination is replaced
+      additions.set(destPath, entry);
+      return 'moved';
     };
 
     let movedCount = 0;
@@ -231,48 +137,109 @@ Deno.serve(async (req) => {
         // Move all files within the directory, preserving structure with folder name
         const dirBaseName = file.path.split('/').pop()!;
         const targetDir = destination ? `${destination}/${dirBaseName}` : dirBaseName;
-        
-        const dirFiles = await listFilesRecursively(file.path);
+
+        const dirFiles = [...entries.values()].filter((entry) => entry.path.startsWith(`${file.path}/`));
+        if (dirFiles.length === 0) {
+          return new Response(
+            JSON.stringify({ error: `${file.path} no longer exists on ${branch}` }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
         console.log(`Moving directory ${file.path} with ${dirFiles.length} files to ${targetDir}`);
-        
+
         for (const df of dirFiles) {
-          const relative = df.path.slice(file.path.length).replace(/^\//, '');
+          const relative = df.path.slice(file.path.length + 1);
           const newPath = `${targetDir}/${relative}`;
-          const result = await moveSingleFile(df.path, df.sha, newPath);
-          
-          if (result.status === 'moved') {
+          const status = moveSingleFile(df, newPath);
+
+          if (status === 'moved') {
             movedCount++;
           } else {
             skippedCount++;
           }
-          details.push({ src: df.path, dest: newPath, status: result.status });
+          details.push({ src: df.path, dest: newPath, status });
         }
       } else {
-        // Move single file
+        // The blob SHA the client saw guards against moving over newer changes
+        const entry = entries.get(file.path);
+        let conflict: string | null = null;
+        if (!entry) {
+          conflict = `${file.path} no longer exists on ${branch}`;
+        } else if (entry.sha !== file.sha) {
+          conflict = `${file.path} was changed on ${branch}. Refresh and try again.`;
+        }
+        if (!entry || conflict) {
+          return new Response(
+            JSON.stringify({ error: conflict }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         const newPath = destination ? `${destination}/${fileName}` : fileName;
-        const result = await moveSingleFile(file.path, file.sha, newPath);
-        
-        if (result.status === 'moved') {
+        const status = moveSingleFile(entry, newPath);
+
+        if (status === 'moved') {
           movedCount++;
         } else {
           skippedCount++;
         }
-        details.push({ src: file.path, dest: newPath, status: result.status });
+        details.push({ src: file.path, dest: newPath, status });
       }
     }
 
+    // Everything is applied as one commit, so undo reverts the whole move
+    let commitSha: string | null = null;
+    if (movedCount > 0) {
+      const treeItems = new Map<string, { path: string; mode: string; type: string; sha: string | null }>();
+      for (const [path, entry] of removals) {
+        treeItems.set(path, { path, mode: entry.mode, type: entry.mode === SUBMODULE_MODE ? 'commit' : 'blob', sha: null });
+      }
+      // A destination that is also a moved source keeps the file moved into it
+      for (const [path, entry] of additions) {
+        treeItems.set(path, { path, mode: entry.mode, type: entry.mode === SUBMODULE_MODE ? 'commit' : 'blob', sha: entry.sha! });
+      }
+
+      const singleMove = details.find((detail) => detail.status === 'moved');
+      const newTree = await github.post<{ sha: string }>(`${repoPath}/git/trees`, {
+        base_tree: headCommit.tree.sha,
+        tree: [...treeItems.values()],
+      });
+      const newCommit = await github.post<{ sha: string }>(`${repoPath}/git/commits`, {
+        message: composeCommitMessage(
+          validation.data,
+          movedCount === 1 && singleMove
+            ? `Move ${singleMove.src} to ${singleMove.dest}`
+            : `Move ${movedCount} files to ${destination || 'the repository root'}`
+        ),
+        tree: newTree.sha,
+        parents: [headSha],
+        ...commitIdentity(validation.data),
+      });
+      // Not forced: fails instead of discarding commits pushed in the meantime
+      await github.patch(`${repoPath}/git/refs/heads/${branch}`, { sha: newCommit.sha });
+      commitSha = newCommit.sha;
+    }
+
     console.log(`Move complete: ${movedCount} moved, ${skippedCount} skipped`);
     return new Response(
       JSON.stringify({ 
         success: true, 
         moved: movedCount, 
         skipped: skippedCount,
-        details 
+        details,
+        parent_sha: headSha,
+        commit_sha: commitSha,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in move-files function:', error);
     if (error instanceof z.ZodError) {
       return new Response(
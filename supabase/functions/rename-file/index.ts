@@ -1,6 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
+import {
+  createGitHubClient,
+  GitHubApiError,
+  githubErrorResponse,
+  type GitCommit,
+  type GitRef,
+} from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { listGitHubEntries } from '../_shared/source-repository.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,6 +29,8 @@ const renameFileSchema = z.object({
   ),
   sha: z.string().min(1).max(100),
   branch: z.string().min(1).max(255).regex(/^[a-zA-Z0-9._/-]+$/, 'Invalid branch name').default('main'),
+  // The rename is a single commit: the file is added at new_path and removed from path together
+  ...commitOptionsFields,
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
@@ -62,113 +73,67 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get GitHub username from profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const githubToken = provider_token;
 
-    // Verify ownership
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Renaming file: ${path} to ${new_path}`);
 
-    // Get file content
-    const getResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${path}?ref=${branch}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
-
-    if (!getResponse.ok) {
-      const rawError = await getResponse.text();
-      const sanitized = sanitizeGitHubError(getResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const fileData = await getResponse.json();
+    const github = createGitHubClient(githubToken);
+    await requireRepositoryAccess(github, owner, repo, 'push');
 
-    // Create file at new location
-    const createResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${new_path}`,
-      {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          message: `Rename ${path} to ${new_path}`,
-          content: fileData.content,
-          branch,
-        }),
-      }
+    const repoPath = `/repos/${owner}/${repo}`;
+    const headSha = (await github.get<GitRef>(`${repoPath}/git/ref/heads/${branch}`)).object.sha;
+    const headCommit = await github.get<GitCommit>(`${repoPath}/git/commits/${headSha}`);
+    const entries = new Map(
+      (await listGitHubEntries(github, `${owner}/${repo}`, headCommit.tree.sha)).map((entry) => [entry.path, entry])
     );
 
-    if (!createResponse.ok) {
-      const rawError = await createResponse.text();
-      const sanitized = sanitizeGitHubError(createResponse.status, rawError);
+    // The blob SHA the client saw guards against renaming over newer changes
+    const source = entries.get(path);
+    let conflict: string | null = null;
+    if (!source) {
+      conflict = `${path} no longer exists on ${branch}`;
+    } else if (source.sha !== sha) {
+      conflict = `${path} was changed on ${branch}. Refresh and try again.`;
+    } else if ([...entries.keys()].some((existing) => existing === new_path || existing.startsWith(`${new_path}/`))) {
+      conflict = `${new_path} already exists`;
+    }
+    if (!source || conflict) {
       return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: conflict }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Delete old file
-    const deleteResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${path}`,
-      {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-        body: JSON.stringify({
-          message: `Delete old file ${path}`,
-          sha,
-          branch,
-        }),
-      }
-    );
-
-    if (!deleteResponse.ok) {
-      const rawError = await deleteResponse.text();
-      console.error('Failed to delete old file:', rawError);
-      // Don't fail the operation if cleanup fails
-    }
+    // The blob is reused as is, so the content and file mode carry over unchanged
+    const newTree = await github.post<{ sha: string }>(`${repoPath}/git/trees`, {
+      base_tree: headCommit.tree.sha,
+      tree: [
+        { path: new_path, mode: source.mode, type: 'blob', sha: source.sha },
+        { path, mode: source.mode, type: 'blob', sha: null },
+      ],
+    });
+    const newCommit = await github.post<{ sha: string }>(`${repoPath}/git/commits`, {
+      message: composeCommitMessage(validation.data, `Rename ${path} to ${new_path}`),
+      tree: newTree.sha,
+      parents: [headSha],
+      ...commitIdentity(validation.data),
+    });
+    // Not forced: fails instead of discarding commits pushed in the meantime
+    await github.patch(`${repoPath}/git/refs/heads/${branch}`, { sha: newCommit.sha });
 
     console.log('File renamed successfully');
     return new Response(
-      JSON.stringify({ success: true }),
+      JSON.stringify({ success: true, parent_sha: headSha, commit_sha: newCommit.sha }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in rename-file function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
@@ -0,0 +1,255 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, repoField, pathField, branchField } from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import {
+  createGitHubClient,
+  GitHubApiError,
+  githubErrorResponse,
+  type GitCommit,
+  type GitHubClient,
+  type GitRef,
+} from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { listGitHubEntries, type SourceEntry } from '../_shared/source-repository.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const shaField = z.string().regex(/^[a-f0-9]{7,40}$/, 'Invalid commit SHA');
+// Read straight through the Git Data API, which does not resolve abbreviated SHAs
+const fullShaField = z.string().regex(/^[a-f0-9]{40}$/, 'Invalid base commit SHA: use the full 40-character SHA');
+
+const baseFields = {
+  owner: ownerField,
+  repo: repoField,
+  branch: branchField,
+  ...commitOptionsFields,
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+const restoreSchema = z.discriminatedUnion('mode', [
+  // Undo every change a commit made, on top of the current branch head. With `base`,
+  // undoes everything between base and sha instead (e.g. an operation that made several commits).
+  z.object({ ...baseFields, mode: z.literal('revert'), sha: shaField, base: fullShaField.optional() }),
+  // Make a file or folder (or the whole tree, with an empty path) match an earlier commit
+  z.object({ ...baseFields, mode: z.literal('restore'), sha: shaField, path: pathField.default('') }),
+]);
+
+interface TreeChange {
+  path: string;
+  mode: string;
+  type: 'blob' | 'commit';
+  sha: string | null;
+}
+
+/**
+ * Lists a commit's blobs and submodules keyed by their full repository path
+ */
+async function getEntries(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  commitSha: string,
+  subdirectory?: string
+): Promise<Map<string, SourceEntry>> {
+  const commit = await github.get<GitCommit>(`/repos/${owner}/${repo}/git/commits/${commitSha}`);
+  const entries = await listGitHubEntries(github, `${owner}/${repo}`, commit.tree.sha, subdirectory);
+  const prefix = subdirectory ? `${subdirectory}/` : '';
+  return new Map(entries.map((entry) => [`${prefix}${entry.path}`, entry]));
+}
+
+const sameEntry = (a?: SourceEntry, b?: SourceEntry) =>
+  a?.sha === b?.sha && a?.mode === b?.mode;
+
+const toChange = (path: string, entry: SourceEntry | undefined): TreeChange => ({
+  path,
+  mode: entry?.mode ?? '100644',
+  type: entry?.mode === '160000' ? 'commit' : 'blob',
+  sha: entry?.sha ?? null,
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = restoreSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { owner, repo, branch, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+    const repoPath = `/repos/${owner}/${repo}`;
+
+    const headRef = await github.get<GitRef>(`${repoPath}/git/ref/heads/${branch}`);
+    const headSha = headRef.object.sha;
+    // The commits endpoint also accepts abbreviated SHAs
+    const targetCommit = await github.get<{ sha: string; commit: { message: string }; parents: { sha: string }[] }>(
+      `${repoPath}/commits/${input.sha}`
+    );
+    const target = { sha: targetCommit.sha, message: targetCommit.commit.message, parents: targetCommit.parents };
+
+    const changes: TreeChange[] = [];
+    let message: string;
+
+    if (input.mode === 'revert') {
+      if (!input.base && target.parents.length !== 1) {
+        return new Response(
+          JSON.stringify({
+            error: target.parents.length === 0
+              ? 'The first commit of a repository cannot be reverted'
+              : 'Merge commits cannot be reverted here. Restore the affected files instead.',
+          }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.log(`Reverting ${input.base ? `${input.base}..` : ''}${target.sha} on ${owner}/${repo}@${branch}`);
+
+      const [parent, reverted, head] = await Promise.all([
+        getEntries(github, owner, repo, input.base ?? target.parents[0].sha),
+        getEntries(github, owner, repo, target.sha),
+        headSha === target.sha ? null : getEntries(github, owner, repo, headSha),
+      ]);
+
+      const changedPaths = new Set<string>();
+      for (const path of new Set([...parent.keys(), ...reverted.keys()])) {
+        if (!sameEntry(parent.get(path), reverted.get(path))) changedPaths.add(path);
+      }
+
+      // Refuse to clobber later edits to the same paths
+      const conflicts = head
+        ? [...changedPaths].filter((path) => !sameEntry(head.get(path), reverted.get(path)))
+        : [];
+      if (conflicts.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: `Cannot revert automatically: ${conflicts.length} file(s) changed again after this commit`,
+            conflicts: conflicts.slice(0, 50),
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      for (const path of changedPaths) {
+        changes.push(toChange(path, parent.get(path)));
+      }
+      message = input.base
+        ? `Revert changes from ${input.base.slice(0, 7)} to ${target.sha.slice(0, 7)}`
+        : `Revert "${target.message.split('\n')[0]}"\n\nThis reverts commit ${target.sha}.`;
+    } else {
+      const path = input.path.replace(/\/+$/, '');
+      console.log(`Restoring ${path || 'repository root'} to ${target.sha} on ${owner}/${repo}@${branch}`);
+
+      const [earlier, head] = await Promise.all([
+        getEntries(github, owner, repo, target.sha, path || undefined),
+        getEntries(github, owner, repo, headSha, path || undefined),
+      ]);
+
+      // A file path lists nothing as a subdirectory, so look it up as a single entry
+      if (path && earlier.size === 0 && head.size === 0) {
+        const [earlierFile, headFile] = await Promise.all([
+          getEntries(github, owner, repo, target.sha),
+          getEntries(github, owner, repo, headSha),
+        ]);
+        const before = earlierFile.get(path);
+        const now = headFile.get(path);
+        if (!before && !now) {
+          return new Response(
+            JSON.stringify({ error: `${path} does not exist at ${target.sha.slice(0, 7)} or on ${branch}` }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        if (!sameEntry(before, now)) changes.push(toChange(path, before));
+      } else {
+        for (const entryPath of new Set([...earlier.keys(), ...head.keys()])) {
+          const before = earlier.get(entryPath);
+          if (!sameEntry(before, head.get(entryPath))) changes.push(toChange(entryPath, before));
+        }
+      }
+      message = `Restore ${path || 'repository'} to ${target.sha.slice(0, 7)}`;
+    }
+
+    if (changes.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, commit_sha: null, files_changed: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const headCommit = await github.get<GitCommit>(`${repoPath}/git/commits/${headSha}`);
+    const newTree = await github.post<{ sha: string }>(`${repoPath}/git/trees`, {
+      base_tree: headCommit.tree.sha,
+      tree: changes,
+    });
+    const newCommit = await github.post<{ sha: string; html_url: string }>(`${repoPath}/git/commits`, {
+      message: composeCommitMessage(input, message),
+      tree: newTree.sha,
+      parents: [headSha],
+      ...commitIdentity(input),
+    });
+    // Not forced: fails instead of discarding commits pushed in the meantime
+    await github.patch(`${repoPath}/git/refs/heads/${branch}`, { sha: newCommit.sha });
+
+    console.log(`${input.mode} created ${newCommit.sha} changing ${changes.length} file(s)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        parent_sha: headSha,
+        commit_sha: newCommit.sha,
+        commit_url: newCommit.html_url,
+        files_changed: changes.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    console.error('Error in restore-from-history function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,7 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -44,23 +44,12 @@ Deno.serve(async (req) => {
 
     console.log(`${starred ? 'Starring' : 'Unstarring'} repository: ${owner}/${repo}`);
 
-    const githubResponse = await fetch(`https://api.github.com/user/starred/${owner}/${repo}`, {
-      method: starred ? 'PUT' : 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Length': '0',
-        'User-Agent': 'RepoPush',
-      },
-    });
-
-    if (!githubResponse.ok && githubResponse.status !== 204) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const github = createGitHubClient(provider_token);
+    const starPath = `/user/starred/${owner}/${repo}`;
+    if (starred) {
+      await github.put(starPath, undefined, { headers: { 'Content-Length': '0' } });
+    } else {
+      await github.delete(starPath);
     }
 
     console.log('Star status updated successfully');
@@ -70,6 +59,9 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in star-repo function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
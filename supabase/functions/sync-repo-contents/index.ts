@@ -1,20 +1,162 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
-import { createOrGetBranch } from '../_shared/github-helper.ts';
+import { mapWithConcurrency } from '../_shared/github-helper.ts';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ownerField, pathField } from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse, type GitCommit, type GitHubClient, type GitRef } from '../_shared/github-client.ts';
+import { listGitHubEntries, SUBMODULE_MODE, type SourceEntry } from '../_shared/source-repository.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Parallel blob copies between repositories, kept low to avoid secondary rate limits
+const BLOB_CONCURRENCY = 8;
+// Entries per create-tree call
+const TREE_CHUNK_SIZE = 1000;
+
 const syncRepoSchema = z.object({
   sourceRepo: z.string().min(1).max(100).regex(/^[a-zA-Z0-9._-]+$/, 'Invalid source repo name'),
   destRepo: z.string().min(1).max(100).regex(/^[a-zA-Z0-9._-]+$/, 'Invalid dest repo name'),
   sourceBranch: z.string().min(1).max(255).regex(/^[a-zA-Z0-9._/-]+$/, 'Invalid source branch'),
   destBranch: z.string().min(1).max(255).regex(/^[a-zA-Z0-9._/-]+$/, 'Invalid dest branch'),
+  // Owner of both repositories; the user's own account when omitted
+  owner: ownerField.optional(),
+  // Per-side owners, for syncing between accounts or organizations; fall back to owner
+  sourceOwner: ownerField.optional(),
+  destOwner: ownerField.optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
+  // preview computes the diff; apply commits the selected paths from it
+  mode: z.enum(['preview', 'apply']).default('preview'),
+  // apply: paths to copy from the source (or delete, for paths missing in the source)
+  paths: z.array(pathField).max(50000).optional(),
+  propagateDeletions: z.boolean().default(false),
+  // apply: the commits the preview was computed against, to detect concurrent pushes
+  expectedSourceSha: z.string().regex(/^[0-9a-f]{40}$/).optional(),
+  expectedDestSha: z.string().regex(/^[0-9a-f]{40}$/).optional(),
+  // apply: message and identity of the sync commit
+  ...commitOptionsFields,
 });
 
+type SyncStatus = 'added' | 'modified' | 'deleted';
+
+/** Which side changed the file since the merge base; null when there is no common base */
+type ChangedSide = 'source' | 'destination' | 'both' | null;
+
+interface SyncFile {
+  path: string;
+  status: SyncStatus;
+  mode: string;
+  sourceSha: string | null;
+  destSha: string | null;
+  changedIn: ChangedSide;
+}
+
+interface BranchSnapshot {
+  commitSha: string;
+  entries: Map<string, SourceEntry>;
+}
+
+async function getBranchSnapshot(github: GitHubClient, owner: string, repo: string, branch: string): Promise<BranchSnapshot | null> {
+  const ref = await github.getIfExists<GitRef>(`/repos/${owner}/${repo}/git/ref/heads/${branch}`);
+  if (!ref) return null;
+  const commit = await github.get<GitCommit>(`/repos/${owner}/${repo}/git/commits/${ref.object.sha}`);
+  const entries = await listGitHubEntries(github, `${owner}/${repo}`, commit.tree.sha);
+  return { commitSha: ref.object.sha, entries: new Map(entries.map((entry) => [entry.path, entry])) };
+}
+
+/**
+ * Finds the merge base of two branches. GitHub can only compare commits that share
+ * a repository network, so unrelated repositories fall back to a two-way diff.
+ */
+async function getMergeBase(
+  github: GitHubClient,
+  sourceOwner: string,
+  sourceRepo: string,
+  sourceBranch: string,
+  destOwner: string,
+  destRepo: string,
+  destBranch: string
+): Promise<string | null> {
+  const sameRepo = sourceOwner === destOwner && sourceRepo === destRepo;
+  const head = sameRepo ? sourceBranch : `${sourceOwner}:${sourceRepo}:${sourceBranch}`;
+  try {
+    const comparison = await github.get<{ merge_base_commit?: { sha: string } }>(
+      `/repos/${destOwner}/${destRepo}/compare/${destBranch}...${head}`,
+      { query: { per_page: 1 } }
+    );
+    return comparison.merge_base_commit?.sha ?? null;
+  } catch (error) {
+    if (error instanceof GitHubApiError && (error.status === 404 || error.status === 422)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+const sameEntry = (a?: SourceEntry, b?: SourceEntry) =>
+  !!a && !!b && a.sha === b.sha && a.mode === b.mode;
+
+function getChangedSide(
+  base: Map<string, SourceEntry> | null,
+  path: string,
+  source?: SourceEntry,
+  dest?: SourceEntry
+): ChangedSide {
+  if (!base) return null;
+  const baseEntry = base.get(path);
+  const sourceChanged = baseEntry ? !sameEntry(baseEntry, source) : !!source;
+  const destChanged = baseEntry ? !sameEntry(baseEntry, dest) : !!dest;
+  if (sourceChanged && destChanged) return 'both';
+  return destChanged ? 'destination' : 'source';
+}
+
+/**
+ * Compares two trees by blob SHA. Unchanged files are only counted.
+ */
+function diffTrees(
+  source: Map<string, SourceEntry>,
+  dest: Map<string, SourceEntry>,
+  base: Map<string, SourceEntry> | null
+): { files: SyncFile[]; unchanged: number } {
+  const files: SyncFile[] = [];
+  let unchanged = 0;
+
+  for (const [path, sourceEntry] of source) {
+    const destEntry = dest.get(path);
+    if (sameEntry(sourceEntry, destEntry)) {
+      unchanged++;
+      continue;
+    }
+    files.push({
+      path,
+      status: destEntry ? 'modified' : 'added',
+      mode: sourceEntry.mode,
+      sourceSha: sourceEntry.sha ?? null,
+      destSha: destEntry?.sha ?? null,
+      changedIn: getChangedSide(base, path, sourceEntry, destEntry),
+    });
+  }
+
+  for (const [path, destEntry] of dest) {
+    if (!source.has(path)) {
+      files.push({
+        path,
+        status: 'deleted',
+        mode: destEntry.mode,
+        sourceSha: null,
+        destSha: destEntry.sha ?? null,
+        changedIn: getChangedSide(base, path, undefined, destEntry),
+      });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, unchanged };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -26,7 +168,7 @@ Deno.serve(async (req) => {
 
     if (!validation.success) {
       return new Response(
-        JSON.stringify({ 
+        JSON.stringify({
           error: 'Invalid input',
           details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
         }),
@@ -34,7 +176,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { sourceRepo, destRepo, sourceBranch, destBranch, provider_token } = validation.data;
+    const { sourceRepo, destRepo, sourceBranch, destBranch, provider_token, mode, paths, propagateDeletions, expectedSourceSha, expectedDestSha } = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -68,163 +210,155 @@ Deno.serve(async (req) => {
     }
 
     const githubToken = provider_token;
-    const owner = profile.github_username;
-
-    console.log(`Syncing ${owner}/${sourceRepo}:${sourceBranch} -> ${owner}/${destRepo}:${destBranch}`);
-
-    // Validate both repositories exist and belong to user
-    const validateRepo = async (repo: string) => {
-      const response = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${githubToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'RepoPush',
-          },
-        }
+    const owner = validation.data.owner ?? profile.github_username;
+    const sourceOwner = validation.data.sourceOwner ?? owner;
+    const destOwner = validation.data.destOwner ?? owner;
+    const sameRepo = sourceOwner === destOwner && sourceRepo === destRepo;
+
+    console.log(`Sync ${mode}: ${sourceOwner}/${sourceRepo}:${sourceBranch} -> ${destOwner}/${destRepo}:${destBranch}`);
+
+    const github = createGitHubClient(githubToken);
+
+    // The source is only read; the destination is written to when applying
+    await requireRepositoryAccess(github, sourceOwner, sourceRepo, 'pull');
+    await requireRepositoryAccess(github, destOwner, destRepo, mode === 'apply' ? 'push' : 'pull');
+
+    const source = await getBranchSnapshot(github, sourceOwner, sourceRepo, sourceBranch);
+    if (!source) {
+      throw new Error('Failed to fetch source repository tree. Please verify the branch exists.');
+    }
+
+    const dest = await getBranchSnapshot(github, destOwner, destRepo, destBranch);
+    if (!dest) {
+      throw new Error('Failed to fetch destination repository tree. Please verify the branch exists.');
+    }
+
+    if (mode === 'apply' && (
+      (expectedSourceSha && expectedSourceSha !== source.commitSha) ||
+      (expectedDestSha && expectedDestSha !== dest.commitSha)
+    )) {
+      return new Response(
+        JSON.stringify({ error: 'A branch changed since the preview was generated. Please review the changes again.' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
-      
-      if (!response.ok) {
-        throw new Error(`Repository ${repo} not found or not accessible`);
-      }
-      
-      const repoData = await response.json();
-      if (repoData.owner.login !== owner) {
-        throw new Error(`Repository ${repo} does not belong to user ${owner}`);
-      }
-    };
+    }
 
-    try {
-      await validateRepo(sourceRepo);
-      await validateRepo(destRepo);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Repository validation failed';
-      console.error('Repository validation error:', errorMessage);
+    const mergeBaseSha = await getMergeBase(github, sourceOwner, sourceRepo, sourceBranch, destOwner, destRepo, destBranch);
+    let baseEntries: Map<string, SourceEntry> | null = null;
+    if (mergeBaseSha) {
+      const baseCommit = await github.get<GitCommit>(`/repos/${destOwner}/${destRepo}/git/commits/${mergeBaseSha}`);
+      baseEntries = new Map(
+        (await listGitHubEntries(github, `${destOwner}/${destRepo}`, baseCommit.tree.sha)).map((entry) => [entry.path, entry])
+      );
+    }
+
+    const { files, unchanged } = diffTrees(source.entries, dest.entries, baseEntries);
+
+    if (mode === 'preview') {
+      console.log(`Sync preview: ${files.length} changed, ${unchanged} unchanged`);
       return new Response(
-        JSON.stringify({ error: errorMessage }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          success: true,
+          sourceCommitSha: source.commitSha,
+          destCommitSha: dest.commitSha,
+          mergeBaseSha,
+          files,
+          unchanged,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Ensure destination branch exists
-    const branchResult = await createOrGetBranch(owner, destRepo, destBranch, githubToken);
-    if (!branchResult.success) {
+    // Apply the selection as a single commit on the destination branch
+    const selected = new Set(paths ?? files.map((file) => file.path));
+    const toApply = files.filter((file) =>
+      selected.has(file.path) && (file.status !== 'deleted' || propagateDeletions)
+    );
+
+    if (toApply.length === 0) {
       return new Response(
-        JSON.stringify({ error: `Failed to create/access destination branch: ${branchResult.error}` }),
+        JSON.stringify({ error: 'No changes selected to sync' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Get source repository tree
-    const treeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${sourceRepo}/git/trees/${sourceBranch}?recursive=1`,
-      {
-        headers: {
-          'Authorization': `Bearer ${githubToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'RepoPush',
-        },
-      }
-    );
+    // Blobs already exist when syncing branches of the same repository
+    if (!sameRepo) {
+      const blobsToCopy = [...new Map(
+        toApply
+          .filter((file) => file.status !== 'deleted' && file.mode !== SUBMODULE_MODE)
+          .map((file) => [file.sourceSha!, file])
+      ).values()];
 
-    if (!treeResponse.ok) {
-      const errorText = await treeResponse.text();
-      console.error('Failed to fetch repository tree:', errorText);
-      
-      if (treeResponse.status === 401) {
-        return new Response(
-          JSON.stringify({ error: 'Your GitHub token is invalid or has expired. Please log out and log back in.' }),
-          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      throw new Error('Failed to fetch source repository tree. Please verify the branch exists.');
+      await mapWithConcurrency(blobsToCopy, BLOB_CONCURRENCY, async (file) => {
+        const blob = await github.get<{ content: string }>(`/repos/${sourceOwner}/${sourceRepo}/git/blobs/${file.sourceSha}`);
+        await github.post(`/repos/${destOwner}/${destRepo}/git/blobs`, {
+          content: blob.content.replace(/\n/g, ''),
+          encoding: 'base64',
+        });
+      });
     }
 
-    const treeData = await treeResponse.json();
-    const files = treeData.tree.filter((item: any) => item.type === 'blob');
-
-    console.log(`Found ${files.length} files to sync`);
-
-    let syncedCount = 0;
-    const MAX_FILES = 100; // Limit to prevent timeouts
-
-    for (const file of files.slice(0, MAX_FILES)) {
-      try {
-        // Get file content
-        const fileResponse = await fetch(
-          `https://api.github.com/repos/${owner}/${sourceRepo}/contents/${file.path}?ref=${sourceBranch}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${githubToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'RepoPush',
-            },
-          }
-        );
-
-        if (fileResponse.ok) {
-          const fileData = await fileResponse.json();
-          
-          // Push to destination
-          // Check if file already exists in destination
-          const checkResponse = await fetch(
-            `https://api.github.com/repos/${owner}/${destRepo}/contents/${file.path}?ref=${destBranch}`,
-            {
-              headers: {
-                'Authorization': `Bearer ${githubToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'User-Agent': 'RepoPush',
-              },
-            }
-          );
-          
-          const fileExists = checkResponse.ok;
-          const existingFile = fileExists ? await checkResponse.json() : null;
-          
-          const uploadResponse = await fetch(
-            `https://api.github.com/repos/${owner}/${destRepo}/contents/${file.path}`,
-            {
-              method: 'PUT',
-              headers: {
-                'Authorization': `Bearer ${githubToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'Content-Type': 'application/json',
-                'User-Agent': 'RepoPush',
-              },
-              body: JSON.stringify({
-                message: `Sync: Merged ${file.path} from ${sourceRepo}:${sourceBranch}`,
-                content: fileData.content,
-                branch: destBranch,
-                ...(fileExists && existingFile?.sha ? { sha: existingFile.sha } : {}),
-              }),
-            }
-          );
-
-          if (uploadResponse.ok) {
-            syncedCount++;
-            console.log(`Synced: ${file.path}`);
-          } else {
-            const errorText = await uploadResponse.text();
-            console.error(`Failed to sync ${file.path}:`, errorText);
-          }
-        }
-      } catch (err) {
-        console.error(`Error syncing ${file.path}:`, err);
-      }
+    const treeItems = toApply.map((file) => ({
+      path: file.path,
+      mode: file.mode,
+      type: file.mode === SUBMODULE_MODE ? 'commit' : 'blob',
+      sha: file.status === 'deleted' ? null : file.sourceSha,
+    }));
+
+    const destCommit = await github.get<GitCommit>(`/repos/${destOwner}/${destRepo}/git/commits/${dest.commitSha}`);
+    let treeSha = destCommit.tree.sha;
+    for (let i = 0; i < treeItems.length; i += TREE_CHUNK_SIZE) {
+      const tree = await github.post<{ sha: string }>(`/repos/${destOwner}/${destRepo}/git/trees`, {
+        base_tree: treeSha,
+        tree: treeItems.slice(i, i + TREE_CHUNK_SIZE),
+      });
+      treeSha = tree.sha;
     }
 
+    const counts = {
+      added: toApply.filter((file) => file.status === 'added').length,
+      modified: toApply.filter((file) => file.status === 'modified').length,
+      deleted: toApply.filter((file) => file.status === 'deleted').length,
+    };
+
+    const newCommit = await github.post<{ sha: string; html_url: string }>(`/repos/${destOwner}/${destRepo}/git/commits`, {
+      message: composeCommitMessage(
+        validation.data,
+        `Sync ${toApply.length} files from ${sourceOwner}/${sourceRepo}:${sourceBranch}\n\n` +
+          `${counts.added} added, ${counts.modified} modified, ${counts.deleted} deleted\n` +
+          `Source commit: ${source.commitSha}`
+      ),
+      tree: treeSha,
+      parents: [dest.commitSha],
+      ...commitIdentity(validation.data),
+    });
+
+    await github.patch(`/repos/${destOwner}/${destRepo}/git/refs/heads/${destBranch}`, {
+      sha: newCommit.sha,
+      force: false,
+    });
+
+    console.log(`Synced ${toApply.length} files in commit ${newCommit.sha}`);
+
     return new Response(
       JSON.stringify({
         success: true,
-        files_synced: syncedCount,
-        total_files: files.length,
+        commit_sha: newCommit.sha,
+        commit_url: newCommit.html_url,
+        files_synced: toApply.length,
+        ...counts,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in sync-repo-contents function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
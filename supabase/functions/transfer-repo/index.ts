@@ -0,0 +1,86 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const transferRepoSchema = z.object({
+  owner: ownerField,
+  repo: repoField,
+  // A user or organization
+  new_owner: ownerField,
+  new_name: repoField.optional(),
+  provider_token: z.string().min(1, 'GitHub token required'),
+});
+
+interface TransferredRepository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  owner: { login: string };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const { owner, repo, new_owner, new_name, provider_token } = transferRepoSchema.parse(body);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Transferring repository: ${owner}/${repo} to ${new_owner}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const result = await github.post<TransferredRepository>(`/repos/${owner}/${repo}/transfer`, {
+      new_owner,
+      ...(new_name ? { new_name } : {}),
+    });
+    // Transfers to another user wait for them to accept by email; the repository stays put until then
+    const pending = result.owner.login.toLowerCase() !== new_owner.toLowerCase();
+    console.log(`Repository transfer ${pending ? 'requested' : 'completed'}`);
+
+    return new Response(
+      JSON.stringify({ success: true, pending, repository: result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,106 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { branchField, ownerField, repoField } from '../_shared/validation.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import {
+  branchProtectionSettingsSchema,
+  getBranchProtection,
+  toProtectionRequest,
+  toProtectionSettings,
+  type BranchProtectionSettings,
+  type GitHubBranchProtection,
+} from '../_shared/branch-protection.ts';
+
+const baseFields = {
+  owner: ownerField,
+  repo: repoField,
+  branch: branchField,
+  provider_token: z.string().min(1, 'GitHub token required'),
+};
+
+const updateBranchProtectionSchema = z.discriminatedUnion('action', [
+  z.object({ ...baseFields, action: z.literal('set'), settings: branchProtectionSettingsSchema }),
+  z.object({ ...baseFields, action: z.literal('remove') }),
+]);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = updateBranchProtectionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Invalid input',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = validation.data;
+    const { owner, repo, branch, provider_token } = input;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`${input.action === 'set' ? 'Updating' : 'Removing'} protection for ${owner}/${repo}@${branch}`);
+
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'admin');
+    const protectionPath = `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}/protection`;
+
+    let settings: BranchProtectionSettings | null = null;
+    if (input.action === 'set') {
+      const current = await getBranchProtection(github, owner, repo, branch);
+      const updated = await github.put<GitHubBranchProtection>(
+        protectionPath,
+        toProtectionRequest(input.settings, current)
+      );
+      settings = toProtectionSettings(updated);
+    } else {
+      await github.delete(protectionPath);
+    }
+
+    console.log('Branch protection updated');
+    return new Response(
+      JSON.stringify({ protected: settings !== null, settings }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
+    const sanitizedError = sanitizeGeneralError(error);
+    return new Response(
+      JSON.stringify({ error: sanitizedError }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
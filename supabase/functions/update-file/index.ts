@@ -1,7 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +19,7 @@ const updateFileSchema = z.object({
   ),
   content: z.string().max(10485760), // 10MB limit
   sha: z.string().min(1).max(100).optional(),
-  message: z.string().min(1).max(500).optional(),
+  ...commitOptionsFields,
   branch: z.string().min(1).max(255).regex(/^[a-zA-Z0-9._/-]+$/, 'Invalid branch name').optional(),
   provider_token: z.string().min(1),
 });
@@ -41,7 +43,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { owner, repo, path, content, sha, message, branch, provider_token } = validation.data;
+    const { owner, repo, path, content, sha, branch, provider_token } = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -77,64 +79,24 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Get GitHub username from profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const githubToken = provider_token;
 
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Encode content as base64
     const encoder = new TextEncoder();
     const contentBytes = encoder.encode(content);
     const base64Content = btoa(String.fromCharCode(...contentBytes));
 
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-    console.log('Updating file at:', url);
+    const github = createGitHubClient(githubToken);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+    console.log('Updating file at:', `${owner}/${repo}/${path}`);
 
-    const githubResponse = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${githubToken}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-        'User-Agent': 'RepoPush',
-      },
-      body: JSON.stringify({
-        message: message || `Update ${path}`,
-        content: base64Content,
-        sha,
-        branch: branch || 'main',
-      }),
+    const result = await github.put(`/repos/${owner}/${repo}/contents/${path}`, {
+      message: composeCommitMessage(validation.data, `Update ${path}`),
+      content: base64Content,
+      sha,
+      branch: branch || 'main',
+      ...commitIdentity(validation.data),
     });
-
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const result = await githubResponse.json();
     console.log('Successfully updated file');
 
     return new Response(
@@ -151,6 +113,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in update-file function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
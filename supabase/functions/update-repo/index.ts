@@ -1,7 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError, sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
+import { sanitizeGeneralError } from '../_shared/error-sanitizer.ts';
 import { ownerField, repoField } from '../_shared/validation.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +18,10 @@ const updateRepoSchema = z.object({
   private: z.boolean().optional(),
   default_branch: z.string().max(255).optional(),
   topics: z.array(z.string()).optional(),
+  // Applied to the current topics (or to `topics` when given), for bulk edits across repositories
+  add_topics: z.array(z.string()).optional(),
+  remove_topics: z.array(z.string()).optional(),
+  archived: z.boolean().optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
 });
 
@@ -26,7 +32,9 @@ Deno.serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { owner, repo, description, homepage, private: isPrivate, default_branch, topics, provider_token } = updateRepoSchema.parse(body);
+    const {
+      owner, repo, description, homepage, private: isPrivate, default_branch, topics, add_topics, remove_topics, archived, provider_token,
+    } = updateRepoSchema.parse(body);
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -46,57 +54,39 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub username not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Verify ownership
-    if (profile.github_username !== owner) {
-      return new Response(
-        JSON.stringify({ error: 'You can only update your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Updating repository: ${owner}/${repo}`);
 
-    const updateData: any = {};
+    const updateData: Record<string, string | boolean> = {};
     if (description !== undefined) updateData.description = description;
     if (homepage !== undefined) updateData.homepage = homepage;
     if (isPrivate !== undefined) updateData.private = isPrivate;
     if (default_branch !== undefined) updateData.default_branch = default_branch;
-    if (topics !== undefined) updateData.topics = topics;
+    if (archived !== undefined) updateData.archived = archived;
 
-    const githubResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${provider_token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-        'User-Agent': 'RepoPush',
-      },
-      body: JSON.stringify(updateData),
-    });
+    const github = createGitHubClient(provider_token);
+    const repository = await requireRepositoryAccess(github, owner, repo, 'admin');
 
-    if (!githubResponse.ok) {
-      const rawError = await githubResponse.text();
-      const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-      return new Response(
-        JSON.stringify({ error: sanitized.message }),
-        { status: sanitized.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    let nextTopics = topics;
+    if (add_topics || remove_topics) {
+      const removed = new Set(remove_topics ?? []);
+      const merged = [...(topics ?? repository.topics ?? []), ...(add_topics ?? [])].filter((topic) => !removed.has(topic));
+      nextTopics = [...new Set(merged)];
     }
 
-    const updatedRepo = await githubResponse.json();
+    // The repository endpoint ignores topics; they have their own. Archived repositories
+    // are read-only, so topics go in before archiving and after unarchiving.
+    const setTopics = () => github.put<{ names: string[] }>(`/repos/${owner}/${repo}/topics`, { names: nextTopics });
+    const topicsFirst = nextTopics !== undefined && archived === true;
+    if (topicsFirst) {
+      await setTopics();
+    }
+    let updatedRepo = Object.keys(updateData).length > 0
+      ? await github.patch<Record<string, unknown>>(`/repos/${owner}/${repo}`, updateData)
+      : await github.get<Record<string, unknown>>(`/repos/${owner}/${repo}`);
+    if (nextTopics !== undefined && !topicsFirst) {
+      const { names } = await setTopics();
+      updatedRepo = { ...updatedRepo, topics: names };
+    }
     console.log('Repository updated successfully');
     
     return new Response(
@@ -105,6 +95,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     const sanitizedError = sanitizeGeneralError(error);
     return new Response(
       JSON.stringify({ error: sanitizedError }),
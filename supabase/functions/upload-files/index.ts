@@ -1,8 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-import { sanitizeGitHubError } from '../_shared/error-sanitizer.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rate-limiter.ts';
-import { ownerField, repoField, requiredPathField, contentField, branchField, commitMessageField } from '../_shared/validation.ts';
+import { ownerField, repoField, requiredPathField, contentField, branchField } from '../_shared/validation.ts';
+import { commitIdentity, commitOptionsFields, composeCommitMessage } from '../_shared/commit-options.ts';
+import { createGitHubClient, GitHubApiError, githubErrorResponse } from '../_shared/github-client.ts';
+import { accessErrorResponse, RepositoryAccessError, requireRepositoryAccess } from '../_shared/repository-access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,7 +20,8 @@ const uploadFilesSchema = z.object({
       content: contentField,
     })
   ).min(1).max(100),
-  message: commitMessageField.optional(),
+  // Applies to the commit of every file
+  ...commitOptionsFields,
   branch: branchField.optional(),
   provider_token: z.string().min(1, 'GitHub token required'),
 });
@@ -42,7 +45,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { owner, repo, files, message, branch, provider_token } = validation.data;
+    const { owner, repo, files, branch, provider_token } = validation.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -78,90 +81,35 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('github_username')
-      .eq('id', user.id)
-      .single();
-
-    if (!profile?.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'GitHub profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Authorization check: verify user owns the repository
-    if (owner !== profile.github_username) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: can only access your own repositories' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log(`Uploading ${files.length} files...`);
 
+    const github = createGitHubClient(provider_token);
+    await requireRepositoryAccess(github, owner, repo, 'push');
+
     const results = await Promise.all(
       files.map(async (file: { path: string; content: string }) => {
-        const uploadWithRetry = async (retries = 3): Promise<any> => {
+        const uploadWithRetry = async (retries = 3): Promise<{ path: string; success: boolean; error?: string }> => {
           try {
-            const url = `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}`;
+            const filePath = `/repos/${owner}/${repo}/contents/${file.path}`;
             
             // Fetch the latest SHA if file exists
-            let existingSha: string | undefined;
-            try {
-              const checkResponse = await fetch(`${url}?ref=${branch || 'main'}`, {
-                method: 'GET',
-                headers: {
-                  'Authorization': `Bearer ${provider_token}`,
-                  'Accept': 'application/vnd.github.v3+json',
-                  'User-Agent': 'RepoPush',
-                },
-              });
-              
-              if (checkResponse.ok) {
-                const existingFile = await checkResponse.json();
-                existingSha = existingFile.sha;
-                console.log(`File ${file.path} exists with SHA: ${existingSha}`);
-              }
-            } catch (checkErr) {
+            const existingFile = await github.getIfExists<{ sha: string }>(filePath, {
+              query: { ref: branch || 'main' },
+            });
+            const existingSha = existingFile?.sha;
+            if (existingSha) {
+              console.log(`File ${file.path} exists with SHA: ${existingSha}`);
+            } else {
               console.log(`File ${file.path} is new`);
             }
-            
-            const githubResponse = await fetch(url, {
-              method: 'PUT',
-              headers: {
-                'Authorization': `Bearer ${provider_token}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'Content-Type': 'application/json',
-                'User-Agent': 'RepoPush',
-              },
-              body: JSON.stringify({
-                message: message || `Upload ${file.path}`,
-                content: file.content,
-                branch: branch || 'main',
-                ...(existingSha && { sha: existingSha }),
-              }),
-            });
 
-            if (!githubResponse.ok) {
-              const rawError = await githubResponse.text();
-              
-              // Retry on 409 conflicts (SHA mismatch)
-              if (githubResponse.status === 409 && retries > 0) {
-                console.log(`SHA conflict for ${file.path}, retrying... (${retries} attempts left)`);
-                await new Promise(resolve => setTimeout(resolve, 500)); // Wait 500ms before retry
-                return uploadWithRetry(retries - 1);
-              }
-              
-              const sanitized = sanitizeGitHubError(githubResponse.status, rawError);
-              console.error(`Failed to upload ${file.path}:`, sanitized.message);
-              return {
-                path: file.path,
-                success: false,
-                error: sanitized.message,
-              };
-            }
+            await github.put(filePath, {
+              message: composeCommitMessage(validation.data, `Upload ${file.path}`),
+              content: file.content,
+              branch: branch || 'main',
+              ...commitIdentity(validation.data),
+              ...(existingSha && { sha: existingSha }),
+            });
 
             console.log(`Successfully uploaded ${file.path}`);
             return {
@@ -169,6 +117,13 @@ Deno.serve(async (req) => {
               success: true,
             };
           } catch (err) {
+            // Retry on 409 conflicts (SHA mismatch)
+            if (err instanceof GitHubApiError && err.status === 409 && retries > 0) {
+              console.log(`SHA conflict for ${file.path}, retrying... (${retries} attempts left)`);
+              await new Promise(resolve => setTimeout(resolve, 500)); // Wait 500ms before retry
+              return uploadWithRetry(retries - 1);
+            }
+
             console.error(`Exception uploading ${file.path}:`, err);
             return {
               path: file.path,
@@ -199,6 +154,12 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof RepositoryAccessError) {
+      return accessErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof GitHubApiError) {
+      return githubErrorResponse(error, corsHeaders);
+    }
     console.error('Error in upload-files function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
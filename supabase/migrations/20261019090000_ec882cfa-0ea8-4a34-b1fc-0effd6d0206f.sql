@@ -0,0 +1,89 @@
+-- Upload sessions for the resumable, multi-phase push in create-and-push-repo.
+-- Each batch of files becomes GitHub blobs; the resulting tree entries are kept here
+-- so an interrupted push can resume from the last completed batch.
+
+CREATE TABLE public.push_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner text NOT NULL,
+  repository_name text NOT NULL,
+  branch text NOT NULL,
+  import_mode text NOT NULL DEFAULT 'add',
+  -- Identifies the upload (file manifest hash or source URL) so a retry can find its session
+  fingerprint text NOT NULL,
+  status text NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'completed', 'failed')),
+  total_batches integer NOT NULL CHECK (total_batches > 0),
+  -- For URL imports: the source repository and its blob list, copied batch by batch
+  source jsonb,
+  repository_url text NOT NULL,
+  commit_sha text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX push_sessions_lookup_idx
+  ON public.push_sessions (user_id, owner, repository_name, branch, fingerprint, status);
+
+CREATE TABLE public.push_session_batches (
+  session_id uuid NOT NULL REFERENCES public.push_sessions(id) ON DELETE CASCADE,
+  batch_index integer NOT NULL CHECK (batch_index >= 0),
+  -- Git tree entries ({ path, mode, type, sha }) for the blobs created in this batch
+  tree_entries jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, batch_index)
+);
+
+ALTER TABLE public.push_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_session_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push sessions"
+  ON public.push_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own push sessions"
+  ON public.push_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push sessions"
+  ON public.push_sessions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push sessions"
+  ON public.push_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view batches of their own push sessions"
+  ON public.push_session_batches FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.push_sessions s
+    WHERE s.id = session_id AND s.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can add batches to their own push sessions"
+  ON public.push_session_batches FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.push_sessions s
+    WHERE s.id = session_id AND s.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete batches of their own push sessions"
+  ON public.push_session_batches FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.push_sessions s
+    WHERE s.id = session_id AND s.user_id = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION public.touch_push_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER push_sessions_updated_at
+  BEFORE UPDATE ON public.push_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_push_session();
@@ -0,0 +1,7 @@
+-- History-preserving URL imports replay source commits batch by batch.
+-- Each batch records the last commit it recreated so the next batch can continue from it.
+
+ALTER TABLE public.push_session_batches
+  ADD COLUMN commit_sha text;
+
+COMMENT ON COLUMN public.push_session_batches.commit_sha IS 'Last replayed commit after this batch (history imports only)';